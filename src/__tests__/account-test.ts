@@ -0,0 +1,179 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { Cl, type UIntCV } from "@stacks/transactions";
+import { InsufficientBalanceError, InvalidInputError, TurnkeySigner } from "../index";
+import { createLocalSigningClient, mockApi, TEST_PUBLIC_KEY } from "./helpers";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const tokenContract = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usda-token";
+const nftContract = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.badges";
+
+describe("account queries", () => {
+  const client = createLocalSigningClient();
+  const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+  const address = signer.getAddress();
+  const stxPath = `/extended/v1/address/${address}/stx`;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    client.signRawPayload.mockClear();
+  });
+
+  describe("getStxBalance", () => {
+    it("should split the balance into locked and available STX", async () => {
+      const fetchMock = mockApi({
+        [stxPath]: () => ({
+          balance: "5000000",
+          locked: "2000000",
+          burnchain_unlock_height: 212_100,
+        }),
+      });
+
+      await expect(signer.getStxBalance()).resolves.toEqual({
+        total: 5_000_000n,
+        locked: 2_000_000n,
+        available: 3_000_000n,
+        unlockHeight: 212_100,
+      });
+      expect(String(fetchMock.mock.calls[0]![0])).toBe(`https://api.testnet.hiro.so${stxPath}`);
+    });
+
+    it("should query other addresses", async () => {
+      mockApi({
+        [`/extended/v1/address/${recipient}/stx`]: () => ({ balance: "7", locked: "0" }),
+      });
+
+      await expect(signer.getStxBalance(recipient)).resolves.toEqual({
+        total: 7n,
+        locked: 0n,
+        available: 7n,
+      });
+      await expect(signer.getStxBalance("not-an-address")).rejects.toBeInstanceOf(
+        InvalidInputError
+      );
+    });
+  });
+
+  it("getFungibleTokenBalances should list token balances", async () => {
+    mockApi({
+      [`/extended/v1/address/${address}/balances`]: () => ({
+        stx: { balance: "0" },
+        fungible_tokens: { [`${tokenContract}::usda`]: { balance: "2500" } },
+      }),
+    });
+
+    await expect(signer.getFungibleTokenBalances()).resolves.toEqual([
+      {
+        assetId: `${tokenContract}::usda`,
+        contractId: tokenContract,
+        assetName: "usda",
+        balance: 2_500n,
+      },
+    ]);
+  });
+
+  it("getNonFungibleTokenHoldings should decode token IDs across pages", async () => {
+    const total = 201;
+    const fetchMock = mockApi({
+      "/extended/v1/tokens/nft/holdings": (url) => {
+        const offset = Number(url.searchParams.get("offset"));
+        const limit = Number(url.searchParams.get("limit"));
+        const ids = Array.from({ length: Math.min(limit, total - offset) }, (_, i) => offset + i);
+        return {
+          total,
+          results: ids.map((id) => ({
+            asset_identifier: `${nftContract}::badge`,
+            value: { hex: `0x${Cl.serialize(Cl.uint(id))}`, repr: `u${id}` },
+          })),
+        };
+      },
+    });
+
+    const holdings = await signer.getNonFungibleTokenHoldings();
+
+    expect(holdings).toHaveLength(total);
+    expect(holdings[200]).toEqual({
+      assetId: `${nftContract}::badge`,
+      contractId: nftContract,
+      assetName: "badge",
+      tokenId: Cl.uint(200),
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(String(fetchMock.mock.calls[0]![0])).searchParams.get("principal")).toBe(
+      address
+    );
+  });
+
+  describe("callReadOnly", () => {
+    const callPath =
+      "/v2/contracts/call-read/ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM/usda-token/get-balance";
+
+    it("should call as the signer and decode the result", async () => {
+      const fetchMock = mockApi({
+        [callPath]: () => ({ okay: true, result: `0x${Cl.serialize(Cl.ok(Cl.uint(2500)))}` }),
+      });
+
+      const result = await signer.callReadOnly(tokenContract, "get-balance", [
+        Cl.principal(address),
+      ]);
+
+      expect(result).toEqual(Cl.ok(Cl.uint(2500)));
+      expect(JSON.parse(String(fetchMock.mock.calls[0]![1]?.body))).toEqual({
+        sender: address,
+        arguments: [`0x${Cl.serialize(Cl.principal(address))}`],
+      });
+    });
+
+    it("should narrow the result type", async () => {
+      mockApi({ [callPath]: () => ({ okay: true, result: `0x${Cl.serialize(Cl.uint(1))}` }) });
+
+      const result = await signer.callReadOnly<UIntCV>(tokenContract, "get-balance", [], {
+        sender: recipient,
+      });
+
+      expect(result.value).toBe(1n);
+    });
+
+    it("should surface evaluation errors", async () => {
+      mockApi({ [callPath]: () => ({ okay: false, cause: "Unchecked(NoSuchContract)" }) });
+
+      await expect(signer.callReadOnly(tokenContract, "get-balance")).rejects.toThrow(
+        /NoSuchContract/
+      );
+      await expect(signer.callReadOnly(recipient, "get-balance")).rejects.toThrow(
+        /Invalid contract ID/
+      );
+    });
+  });
+
+  describe("signSTXTransfer with checkBalance", () => {
+    const transfer = { recipient, amount: 1_000n, fee: 200n, nonce: 0n, checkBalance: true };
+
+    it("should sign when the available balance covers amount and fee", async () => {
+      mockApi({ [stxPath]: () => ({ balance: "1200", locked: "0" }) });
+
+      await expect(signer.signSTXTransfer(transfer)).resolves.toBeDefined();
+    });
+
+    it("should reject before signing when locked STX are needed", async () => {
+      mockApi({ [stxPath]: () => ({ balance: "5000", locked: "3801" }) });
+
+      const error = await signer.signSTXTransfer(transfer).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientBalanceError);
+      expect(error).toMatchObject({
+        code: "INSUFFICIENT_BALANCE",
+        required: 1_200n,
+        available: 1_199n,
+      });
+      expect(client.signRawPayload).not.toHaveBeenCalled();
+    });
+
+    it("should not query the balance by default", async () => {
+      const fetchMock = mockApi({});
+
+      await signer.signSTXTransfer({ ...transfer, checkBalance: false });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,272 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { Cl, privateKeyToPublic } from "@stacks/transactions";
+import {
+  ActivityFailedError,
+  ActivityPendingError,
+  InvalidInputError,
+  SignatureVerificationError,
+  TurnkeySigner,
+  type PreparedTransaction,
+  type TurnkeyActivity,
+} from "../index";
+import { signLocally, TEST_PUBLIC_KEY } from "./helpers";
+
+// Second local key standing in for another Turnkey-held key
+const OTHER_PRIVATE_KEY =
+  "d2a7b2b1e8b4c2bfd54b4b0c5eb3dbf55f4b3a3c2b2c7e6d5f1a9e8c7b6a5d4c01";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const transfer = { recipient, amount: 1_000n, fee: 200n, nonce: 4n };
+
+function activity(status: string, preSignHash?: string): TurnkeyActivity {
+  return {
+    id: "activity-1",
+    status,
+    ...(preSignHash ? { result: { signRawPayloadResult: signLocally(preSignHash) } } : {}),
+  };
+}
+
+// Leaves every signing request waiting for consensus
+function createConsensusClient(activities: (() => TurnkeyActivity)[] = []) {
+  let lookups = 0;
+  return {
+    signRawPayload: jest.fn(async () => ({
+      activity: { id: "activity-1", status: "ACTIVITY_STATUS_CONSENSUS_NEEDED" },
+    })),
+    getActivity: jest.fn(async () => {
+      const next = activities[Math.min(lookups, activities.length - 1)]!;
+      lookups += 1;
+      return { activity: next() };
+    }),
+  };
+}
+
+function createSigner(client: object) {
+  return new TurnkeySigner({ client: client as never, publicKey: TEST_PUBLIC_KEY });
+}
+
+describe("two-phase signing", () => {
+  describe("prepare", () => {
+    it("should return a JSON-safe unsigned transaction without signing", async () => {
+      const client = createConsensusClient();
+      const signer = createSigner(client);
+
+      const prepared = await signer.prepareSTXTransfer(transfer);
+
+      expect(JSON.parse(JSON.stringify(prepared))).toEqual(prepared);
+      expect(prepared).toMatchObject({
+        publicKey: TEST_PUBLIC_KEY,
+        senderAddress: signer.getAddress(),
+        nonce: "4",
+        fee: "200",
+      });
+      expect(prepared.preSignHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(client.signRawPayload).not.toHaveBeenCalled();
+    });
+
+    it("should prepare contract calls", async () => {
+      const signer = createSigner(createConsensusClient());
+
+      const prepared = await signer.prepareContractCall({
+        contractAddress: recipient,
+        contractName: "counter",
+        functionName: "increment",
+        functionArgs: [Cl.uint(1)],
+        fee: 300n,
+        nonce: 0n,
+      });
+      const { transaction } = await signer.finalizeTransaction(
+        prepared,
+        signLocally(prepared.preSignHash)
+      );
+
+      expect(transaction.verifyOrigin()).toBeDefined();
+    });
+  });
+
+  describe("requestSignature", () => {
+    it("should report an activity that needs consensus as pending", async () => {
+      const signer = createSigner(createConsensusClient());
+      const prepared = await signer.prepareSTXTransfer(transfer);
+
+      await expect(signer.requestSignature(prepared)).resolves.toEqual({
+        status: "pending",
+        activityId: "activity-1",
+        activityStatus: "ACTIVITY_STATUS_CONSENSUS_NEEDED",
+      });
+    });
+
+    it("should return the signature when Turnkey signs right away", async () => {
+      const signer = createSigner({
+        signRawPayload: async ({ payload }: { payload: string }) => signLocally(payload),
+      });
+      const prepared = await signer.prepareSTXTransfer(transfer);
+
+      const result = await signer.requestSignature(prepared);
+
+      expect(result.status).toBe("completed");
+    });
+  });
+
+  describe("finalizeTransaction", () => {
+    it("should attach a signature in another signer instance", async () => {
+      const prepared = await createSigner(createConsensusClient()).prepareSTXTransfer(transfer);
+      const stored = JSON.parse(JSON.stringify(prepared)) as PreparedTransaction;
+
+      const { transaction, serializedTransaction, txid } = await createSigner(
+        createConsensusClient()
+      ).finalizeTransaction(stored, signLocally(stored.preSignHash));
+
+      expect(transaction.verifyOrigin()).toBeDefined();
+      expect(serializedTransaction).toBe(transaction.serialize());
+      expect(txid).toBe(transaction.txid());
+      expect(transaction.auth.spendingCondition.nonce).toBe(4n);
+    });
+
+    it("should collect the signature of a completed activity", async () => {
+      const prepared = await createSigner(createConsensusClient()).prepareSTXTransfer(transfer);
+      const client = createConsensusClient([
+        () => activity("ACTIVITY_STATUS_COMPLETED", prepared.preSignHash),
+      ]);
+
+      const { transaction } = await createSigner(client).finalizeTransaction(
+        prepared,
+        "activity-1"
+      );
+
+      expect(transaction.verifyOrigin()).toBeDefined();
+      expect(client.getActivity).toHaveBeenCalledWith({ activityId: "activity-1" });
+    });
+
+    it("should throw ActivityPendingError while the activity awaits approval", async () => {
+      const signer = createSigner(
+        createConsensusClient([() => activity("ACTIVITY_STATUS_CONSENSUS_NEEDED")])
+      );
+      const prepared = await signer.prepareSTXTransfer(transfer);
+
+      const error = await signer.finalizeTransaction(prepared, "activity-1").catch((e) => e);
+
+      expect(error).toBeInstanceOf(ActivityPendingError);
+      expect(error).toMatchObject({
+        code: "ACTIVITY_PENDING",
+        activityId: "activity-1",
+        activityStatus: "ACTIVITY_STATUS_CONSENSUS_NEEDED",
+      });
+    });
+
+    it("should wait for the activity when asked to", async () => {
+      const prepared = await createSigner(createConsensusClient()).prepareSTXTransfer(transfer);
+      const client = createConsensusClient([
+        () => activity("ACTIVITY_STATUS_CONSENSUS_NEEDED"),
+        () => activity("ACTIVITY_STATUS_PENDING"),
+        () => activity("ACTIVITY_STATUS_COMPLETED", prepared.preSignHash),
+      ]);
+      const onProgress = jest.fn();
+
+      const { transaction } = await createSigner(client).finalizeTransaction(
+        prepared,
+        "activity-1",
+        { waitForActivity: { pollIntervalMs: 0, onProgress } }
+      );
+
+      expect(transaction.verifyOrigin()).toBeDefined();
+      expect(client.getActivity).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenCalledTimes(3);
+    });
+
+    it("should throw ActivityFailedError for rejected activities", async () => {
+      const signer = createSigner(
+        createConsensusClient([() => activity("ACTIVITY_STATUS_REJECTED")])
+      );
+      const prepared = await signer.prepareSTXTransfer(transfer);
+
+      await expect(
+        signer.finalizeTransaction(prepared, "activity-1", { waitForActivity: true })
+      ).rejects.toBeInstanceOf(ActivityFailedError);
+    });
+
+    it("should reject a signature from another key", async () => {
+      const signer = createSigner(createConsensusClient());
+      const prepared = await signer.prepareSTXTransfer(transfer);
+
+      await expect(
+        signer.finalizeTransaction(prepared, signLocally(prepared.preSignHash, OTHER_PRIVATE_KEY))
+      ).rejects.toBeInstanceOf(SignatureVerificationError);
+    });
+
+    it("should reject prepared transactions that do not match the signer", async () => {
+      const signer = createSigner(createConsensusClient());
+      const prepared = await signer.prepareSTXTransfer(transfer);
+      const signature = signLocally(prepared.preSignHash);
+
+      await expect(
+        signer.finalizeTransaction(
+          { ...prepared, publicKey: privateKeyToPublic(OTHER_PRIVATE_KEY) as string },
+          signature
+        )
+      ).rejects.toBeInstanceOf(InvalidInputError);
+      await expect(
+        signer.finalizeTransaction({ ...prepared, preSignHash: "00".repeat(32) }, signature)
+      ).rejects.toThrow(/preSignHash/);
+    });
+
+    it("should require getActivity to finalize with an activity ID", async () => {
+      const signer = createSigner({ signRawPayload: jest.fn() });
+      const prepared = await signer.prepareSTXTransfer(transfer);
+
+      await expect(signer.finalizeTransaction(prepared, "activity-1")).rejects.toThrow(
+        /getActivity/
+      );
+    });
+  });
+
+  describe("waitForActivity", () => {
+    it("should time out with ActivityPendingError", async () => {
+      const client = createConsensusClient([() => activity("ACTIVITY_STATUS_CONSENSUS_NEEDED")]);
+
+      await expect(
+        createSigner(client).waitForActivity("activity-1", { timeoutMs: 0 })
+      ).rejects.toBeInstanceOf(ActivityPendingError);
+      expect(client.getActivity).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop when aborted", async () => {
+      const client = createConsensusClient([() => activity("ACTIVITY_STATUS_CONSENSUS_NEEDED")]);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        createSigner(client).waitForActivity("activity-1", { signal: controller.signal })
+      ).rejects.toMatchObject({ name: "AbortError" });
+      expect(client.getActivity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("single-step signing", () => {
+    it("should throw ActivityPendingError when Turnkey needs consensus", async () => {
+      const signer = createSigner(createConsensusClient());
+
+      await expect(signer.signSTXTransfer(transfer)).rejects.toMatchObject({
+        name: "ActivityPendingError",
+        activityId: "activity-1",
+      });
+    });
+
+    it("should recognize activity errors thrown by the client", async () => {
+      const thrown = Object.assign(new Error("activity requires consensus"), {
+        activityId: "activity-2",
+        activityStatus: "ACTIVITY_STATUS_CONSENSUS_NEEDED",
+      });
+      const signer = createSigner({
+        signRawPayload: async () => {
+          throw thrown;
+        },
+      });
+
+      const error = await signer.signSTXTransfer(transfer).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ActivityPendingError);
+      expect(error).toMatchObject({ activityId: "activity-2", cause: thrown });
+    });
+  });
+});
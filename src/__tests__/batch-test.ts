@@ -0,0 +1,259 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { deserializeTransaction, type TokenTransferPayloadWire } from "@stacks/transactions";
+import {
+  NonceManager,
+  TurnkeySigner,
+  broadcastTransactionBatch,
+  type BatchItemResult,
+  type SignedTransactionResult,
+} from "../index";
+import { mockApi, signLocally, TEST_PUBLIC_KEY } from "./helpers";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+// Signs locally after a short delay and tracks how many requests overlap
+function createLocalSigningClient() {
+  const stats = { inFlight: 0, maxInFlight: 0 };
+  const client = {
+    signRawPayload: jest.fn(async ({ payload }: { payload: string }) => {
+      stats.inFlight += 1;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      stats.inFlight -= 1;
+      return signLocally(payload);
+    }),
+  };
+  return { client, stats };
+}
+
+// Serves the nonces endpoint; broadcasts are answered by `broadcast`
+function mockNode(
+  possibleNextNonce: number,
+  broadcast: (nonce: bigint) => Response = (nonce) =>
+    new Response(JSON.stringify(nonce.toString(16).padStart(64, "0")))
+) {
+  const broadcastNonces: bigint[] = [];
+  const fetchMock = mockApi({
+    "/nonces": () => ({ possible_next_nonce: possibleNextNonce }),
+    "/v2/transactions": (_url, init) => {
+      const { tx } = JSON.parse(String(init?.body)) as { tx: string };
+      const nonce = deserializeTransaction(tx).auth.spendingCondition.nonce;
+      broadcastNonces.push(nonce);
+      return broadcast(nonce);
+    },
+  });
+  return { fetchMock, broadcastNonces };
+}
+
+function nonceFetchCount(fetchMock: jest.SpyInstance) {
+  return fetchMock.mock.calls.filter(([input]) => String(input).endsWith("/nonces")).length;
+}
+
+const transfers = Array.from({ length: 8 }, (_, i) => ({
+  recipient,
+  amount: BigInt(i + 1),
+  fee: 200n,
+}));
+
+describe("batch signing", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("signSTXTransferBatch", () => {
+    it("should fetch the nonce once and assign consecutive nonces in input order", async () => {
+      const { fetchMock } = mockNode(10);
+      const { client } = createLocalSigningClient();
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      const results = await signer.signSTXTransferBatch(transfers);
+
+      expect(nonceFetchCount(fetchMock)).toBe(1);
+      expect(results.map((result) => result.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+      results.forEach((result, i) => {
+        expect(result.status).toBe("fulfilled");
+        if (result.status !== "fulfilled") return;
+        expect(result.value.nonce).toBe(10n + BigInt(i));
+        const payload = result.value.transaction.payload as TokenTransferPayloadWire;
+        expect(payload.amount).toBe(BigInt(i + 1));
+      });
+    });
+
+    it("should limit concurrent signing requests", async () => {
+      const { client, stats } = createLocalSigningClient();
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      await signer.signSTXTransferBatch(transfers, { startNonce: 0n, concurrency: 3 });
+
+      expect(client.signRawPayload).toHaveBeenCalledTimes(8);
+      expect(stats.maxInFlight).toBe(3);
+    });
+
+    it("should use startNonce without fetching", async () => {
+      const { fetchMock } = mockNode(10);
+      const { client } = createLocalSigningClient();
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      const results = await signer.signSTXTransferBatch(transfers.slice(0, 2), { startNonce: 42n });
+
+      expect(nonceFetchCount(fetchMock)).toBe(0);
+      expect(
+        results.map((result) => result.status === "fulfilled" && result.value.nonce)
+      ).toEqual([42n, 43n]);
+    });
+
+    it("should skip invalid transfers without giving them a nonce", async () => {
+      const { client } = createLocalSigningClient();
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      const results = await signer.signSTXTransferBatch(
+        [transfers[0]!, { recipient: "not-an-address", amount: 1n }, transfers[1]!],
+        { startNonce: 5n }
+      );
+
+      expect(results[1]).toMatchObject({ index: 1, status: "rejected" });
+      expect(results[1]).not.toHaveProperty("nonce");
+      expect(String((results[1] as { error: Error }).error)).toMatch(/Invalid recipient/);
+      expect(results[0]).toMatchObject({ status: "fulfilled", value: { nonce: 5n } });
+      expect(results[2]).toMatchObject({ status: "fulfilled", value: { nonce: 6n } });
+    });
+
+    it("should report signing failures with their nonce", async () => {
+      const { client } = createLocalSigningClient();
+      client.signRawPayload.mockImplementationOnce(async () => {
+        throw new Error("Turnkey unavailable");
+      });
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      const results = await signer.signSTXTransferBatch(transfers.slice(0, 3), {
+        startNonce: 0n,
+        concurrency: 1,
+      });
+
+      expect(results[0]).toMatchObject({ index: 0, status: "rejected", nonce: 0n });
+      expect(results[1]).toMatchObject({ status: "fulfilled", value: { nonce: 1n } });
+      expect(results[2]).toMatchObject({ status: "fulfilled", value: { nonce: 2n } });
+    });
+
+    it("should release failed nonces to the nonce manager", async () => {
+      mockNode(0);
+      const { client } = createLocalSigningClient();
+      client.signRawPayload.mockImplementationOnce(async () => {
+        throw new Error("Turnkey unavailable");
+      });
+      const signer = new TurnkeySigner({
+        client,
+        publicKey: TEST_PUBLIC_KEY,
+        nonceManager: new NonceManager(),
+      });
+
+      await signer.signSTXTransferBatch(transfers.slice(0, 3), { concurrency: 1 });
+      const { nonce } = await signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n });
+
+      expect(nonce).toBe(0n);
+    });
+
+    it("should reject an invalid concurrency", async () => {
+      const { client } = createLocalSigningClient();
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      await expect(
+        signer.signSTXTransferBatch(transfers, { startNonce: 0n, concurrency: 0 })
+      ).rejects.toThrow(/Invalid concurrency/);
+    });
+  });
+
+  describe("broadcastTransactionBatch", () => {
+    async function signBatch(count: number): Promise<BatchItemResult<SignedTransactionResult>[]> {
+      const { client } = createLocalSigningClient();
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+      return signer.signSTXTransferBatch(transfers.slice(0, count), { startNonce: 0n });
+    }
+
+    it("should broadcast in nonce order and return results in input order", async () => {
+      const signed = await signBatch(4);
+      const { broadcastNonces } = mockNode(0);
+
+      const results = await broadcastTransactionBatch([...signed].reverse());
+
+      expect(broadcastNonces).toEqual([0n, 1n, 2n, 3n]);
+      expect(results.map((result) => [result.status, result.nonce])).toEqual([
+        ["fulfilled", 3n],
+        ["fulfilled", 2n],
+        ["fulfilled", 1n],
+        ["fulfilled", 0n],
+      ]);
+    });
+
+    it("should skip later nonces after a failure by default", async () => {
+      const signed = await signBatch(4);
+      const { broadcastNonces } = mockNode(0, (nonce) =>
+        nonce === 1n
+          ? new Response(
+              JSON.stringify({ error: "transaction rejected", reason: "NotEnoughFunds" }),
+              { status: 400 }
+            )
+          : new Response(JSON.stringify(nonce.toString(16).padStart(64, "0")))
+      );
+
+      const results = await broadcastTransactionBatch(signed);
+
+      expect(broadcastNonces).toEqual([0n, 1n]);
+      expect(results.map((result) => result.status)).toEqual([
+        "fulfilled",
+        "rejected",
+        "skipped",
+        "skipped",
+      ]);
+      expect(results[1]).toMatchObject({ error: { reason: "NotEnoughFunds" } });
+    });
+
+    it("should continue past failures when asked to", async () => {
+      const signed = await signBatch(3);
+      const { broadcastNonces } = mockNode(0, (nonce) =>
+        nonce === 0n
+          ? new Response(
+              JSON.stringify({ error: "transaction rejected", reason: "FeeTooLow" }),
+              { status: 400 }
+            )
+          : new Response(JSON.stringify(nonce.toString(16).padStart(64, "0")))
+      );
+
+      const results = await broadcastTransactionBatch(signed, "testnet", { onFailure: "continue" });
+
+      expect(broadcastNonces).toEqual([0n, 1n, 2n]);
+      expect(results.map((result) => result.status)).toEqual(["rejected", "fulfilled", "fulfilled"]);
+    });
+
+    it("should stop at a nonce left unused by a signing failure", async () => {
+      const signed = await signBatch(3);
+      const gap: BatchItemResult<SignedTransactionResult> = {
+        index: 1,
+        status: "rejected",
+        error: new Error("Turnkey unavailable"),
+        nonce: 1n,
+      };
+      const { broadcastNonces } = mockNode(0);
+
+      const results = await broadcastTransactionBatch([signed[0]!, gap, signed[2]!]);
+
+      expect(broadcastNonces).toEqual([0n]);
+      expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected", "skipped"]);
+    });
+
+    it("should not stop for signing failures without a nonce", async () => {
+      const signed = await signBatch(2);
+      const invalid: BatchItemResult<SignedTransactionResult> = {
+        index: 2,
+        status: "rejected",
+        error: new Error("Invalid recipient"),
+      };
+      const { broadcastNonces } = mockNode(0);
+
+      const results = await broadcastTransactionBatch([...signed, invalid]);
+
+      expect(broadcastNonces).toEqual([0n, 1n]);
+      expect(results.map((result) => result.status)).toEqual(["fulfilled", "fulfilled", "rejected"]);
+    });
+  });
+});
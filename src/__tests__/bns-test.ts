@@ -0,0 +1,272 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { validateStacksAddress } from "@stacks/transactions";
+import {
+  describeTransaction,
+  getAddressFromPublicKey,
+  getBnsPrimaryName,
+  InvalidInputError,
+  resolveBnsName,
+  signAndBroadcastSTXTransfer,
+  TurnkeySigner,
+} from "../index";
+import {
+  acceptBroadcast,
+  createLocalSigningClient,
+  mockApi as mockRoutes,
+  notFound,
+  TEST_PUBLIC_KEY,
+} from "./helpers";
+
+const owner = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const tokenContract = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usda-token";
+const unnamed = getAddressFromPublicKey(TEST_PUBLIC_KEY, "testnet");
+
+// Registered names by path, and lookups that find nothing
+const NAMES: Record<string, unknown> = {
+  "/v1/names/alice.btc": { address: owner, status: "name-register", expire_block: 5_000 },
+  "/v1/names/old.btc": { address: owner, status: "name-register", expire_block: 900 },
+  "/v1/names/leased.btc": { address: owner, status: "name-register", expire_block: 2_000 },
+  "/v1/names/gone.btc": { address: owner, status: "name-revoke", expire_block: 5_000 },
+  "/v1/names/pay.alice.btc": { address: owner, status: "registered_subdomain" },
+  [`/v1/addresses/stacks/${owner}`]: { names: ["alice.btc", "pay.alice.btc"] },
+};
+const UNKNOWN = ["/v1/names/nobody.btc", `/v1/addresses/stacks/${unnamed}`];
+
+// Serves the BNS routes, node info (a chain tip at height 3000 in tenure 1000
+// by default) and broadcasts
+function mockApi(info: object = { stacks_tip_height: 3_000, tenure_height: 1_000 }) {
+  return mockRoutes({
+    ...Object.fromEntries(Object.entries(NAMES).map(([path, body]) => [path, () => body])),
+    ...Object.fromEntries(UNKNOWN.map((path) => [path, notFound])),
+    "/v2/info": () => info,
+    "/v2/transactions": acceptBroadcast,
+  });
+}
+
+describe("BNS names", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("resolveBnsName", () => {
+    it("should resolve names and subdomains to their owner", async () => {
+      mockApi();
+
+      await expect(resolveBnsName("alice.btc")).resolves.toBe(owner);
+      await expect(resolveBnsName("pay.alice.btc")).resolves.toBe(owner);
+    });
+
+    it("should reject unregistered, expired and revoked names", async () => {
+      mockApi();
+
+      await expect(resolveBnsName("nobody.btc")).rejects.toThrow(/not registered/);
+      await expect(resolveBnsName("old.btc")).rejects.toThrow(/expired at block 900/);
+      await expect(resolveBnsName("gone.btc")).rejects.toThrow(/revoked/);
+      await expect(resolveBnsName("gone.btc")).rejects.toBeInstanceOf(InvalidInputError);
+    });
+
+    it("should compare expiry with the tenure height, not the chain tip", async () => {
+      mockApi();
+
+      await expect(resolveBnsName("leased.btc")).resolves.toBe(owner);
+    });
+
+    it("should fall back to the chain tip on nodes without a tenure height", async () => {
+      mockApi({ stacks_tip_height: 3_000 });
+
+      await expect(resolveBnsName("leased.btc")).rejects.toThrow(
+        /expired at block 2000 \(tenure height is 3000\)/
+      );
+    });
+
+    it("should reject malformed names without a request", async () => {
+      const fetchMock = mockApi();
+
+      await expect(resolveBnsName(owner)).rejects.toThrow(/Invalid BNS name/);
+      await expect(resolveBnsName(tokenContract)).rejects.toThrow(/Invalid BNS name/);
+      await expect(resolveBnsName("alice")).rejects.toThrow(/Invalid BNS name/);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should look names up in lowercase", async () => {
+      const fetchMock = mockApi();
+
+      await expect(resolveBnsName("Alice.BTC")).resolves.toBe(owner);
+      expect(String(fetchMock.mock.calls[0]![0])).toMatch(/\/v1\/names\/alice\.btc$/);
+    });
+  });
+
+  describe("getBnsPrimaryName", () => {
+    it("should return the first name of an address", async () => {
+      mockApi();
+
+      await expect(getBnsPrimaryName(owner)).resolves.toBe("alice.btc");
+    });
+
+    it("should return undefined for addresses without names", async () => {
+      mockApi();
+
+      await expect(getBnsPrimaryName(unnamed)).resolves.toBeUndefined();
+      await expect(getBnsPrimaryName("alice.btc")).rejects.toBeInstanceOf(InvalidInputError);
+    });
+  });
+
+  describe("recipient resolution", () => {
+    const client = createLocalSigningClient();
+    const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY, resolveNames: true });
+
+    afterEach(() => {
+      client.signRawPayload.mockClear();
+    });
+
+    it("should pay the owner of a name and report the resolution", async () => {
+      mockApi();
+
+      const result = await signer.signSTXTransfer({
+        recipient: "alice.btc",
+        amount: 1_000n,
+        fee: 200n,
+        nonce: 0n,
+      });
+
+      expect(result.resolvedRecipient).toEqual({ name: "alice.btc", address: owner });
+      expect(describeTransaction(result.transaction)).toMatchObject({ recipient: owner });
+    });
+
+    it("should resolve names of prepared transfers", async () => {
+      mockApi();
+
+      const prepared = await signer.prepareSTXTransfer({
+        recipient: "alice.btc",
+        amount: 1_000n,
+        fee: 200n,
+        nonce: 0n,
+      });
+      const request = await signer.requestSignature(prepared);
+      if (request.status !== "completed") throw new Error("expected a signature");
+      const { transaction } = await signer.finalizeTransaction(prepared, request.signature);
+
+      expect(prepared.resolvedRecipient).toEqual({ name: "alice.btc", address: owner });
+      expect(JSON.parse(JSON.stringify(prepared))).toEqual(prepared);
+      expect(describeTransaction(transaction)).toMatchObject({ recipient: owner });
+    });
+
+    it("should resolve names typed in any case", async () => {
+      mockApi();
+
+      const result = await signer.signSTXTransfer({
+        recipient: "Alice.btc",
+        amount: 1_000n,
+        fee: 200n,
+        nonce: 0n,
+      });
+
+      expect(result.resolvedRecipient).toEqual({ name: "alice.btc", address: owner });
+    });
+
+    it("should not sign for expired or revoked names", async () => {
+      mockApi();
+      const transfer = { amount: 1_000n, fee: 200n, nonce: 0n };
+
+      await expect(signer.signSTXTransfer({ ...transfer, recipient: "old.btc" })).rejects.toThrow(
+        /expired/
+      );
+      await expect(signer.signSTXTransfer({ ...transfer, recipient: "gone.btc" })).rejects.toThrow(
+        /revoked/
+      );
+      expect(client.signRawPayload).not.toHaveBeenCalled();
+    });
+
+    it("should leave addresses untouched", async () => {
+      const fetchMock = mockApi();
+
+      const result = await signer.signSTXTransfer({
+        recipient: owner,
+        amount: 1_000n,
+        fee: 200n,
+        nonce: 0n,
+      });
+
+      expect(result.resolvedRecipient).toBeUndefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should reject names when resolution is off", async () => {
+      const fetchMock = mockApi();
+      const strict = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      await expect(
+        strict.signSTXTransfer({ recipient: "alice.btc", amount: 1_000n, fee: 200n, nonce: 0n })
+      ).rejects.toThrow(/Invalid recipient/);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should resolve token and NFT recipients", async () => {
+      mockApi();
+      const options = { fee: 300n, nonce: 0n };
+
+      const token = await signer.signFungibleTokenTransfer({
+        ...options,
+        tokenContract,
+        assetName: "usda",
+        recipient: "alice.btc",
+        amount: 5n,
+      });
+      const nft = await signer.signNonFungibleTokenTransfer({
+        ...options,
+        nftContract: tokenContract,
+        assetName: "badge",
+        tokenId: 1n,
+        recipient: "pay.alice.btc",
+      });
+
+      expect(token.resolvedRecipient).toEqual({ name: "alice.btc", address: owner });
+      expect(nft.resolvedRecipient).toEqual({ name: "pay.alice.btc", address: owner });
+      const { functionArgs } = describeTransaction(nft.transaction.serialize()) as {
+        functionArgs: { repr: string }[];
+      };
+      expect(functionArgs[2]?.repr).toBe(owner);
+    });
+
+    it("should resolve batch recipients and reject unresolvable ones per item", async () => {
+      mockApi();
+
+      const results = await signer.signSTXTransferBatch(
+        [
+          { recipient: "alice.btc", amount: 1_000n, fee: 200n },
+          { recipient: "gone.btc", amount: 1_000n, fee: 200n },
+          { recipient: owner, amount: 1_000n, fee: 200n },
+        ],
+        { startNonce: 7n }
+      );
+
+      expect(results.map((result) => result.status)).toEqual([
+        "fulfilled",
+        "rejected",
+        "fulfilled",
+      ]);
+      expect(results[0]).toMatchObject({
+        value: { nonce: 7n, resolvedRecipient: { name: "alice.btc", address: owner } },
+      });
+      expect(results[1]).toMatchObject({ error: expect.any(InvalidInputError) });
+      expect(results[2]).toMatchObject({ value: { nonce: 8n } });
+    });
+
+    it("signAndBroadcastSTXTransfer should return the resolved address", async () => {
+      mockApi();
+
+      const result = await signAndBroadcastSTXTransfer(signer, {
+        recipient: "alice.btc",
+        amount: 1_000n,
+        fee: 200n,
+        nonce: 0n,
+      });
+
+      expect(result).toMatchObject({
+        recipient: owner,
+        resolvedRecipient: { name: "alice.btc", address: owner },
+      });
+      expect(validateStacksAddress(result.recipient)).toBe(true);
+    });
+  });
+});
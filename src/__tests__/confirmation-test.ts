@@ -0,0 +1,189 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import {
+  TransactionTimeoutError,
+  TurnkeySigner,
+  getTransactionStatus,
+  signAndBroadcastSTXTransfer,
+  waitForTransaction,
+  type TransactionStatusResult,
+} from "../index";
+import { createLocalSigningClient, mockApi, notFound, TEST_PUBLIC_KEY } from "./helpers";
+
+const TXID = `0x${"ab".repeat(32)}`;
+
+// Serves the transaction endpoint from `txStates` (one per poll, last repeats)
+// and the chain tip from `tipHeights`
+function mockNode(txStates: (object | null)[], tipHeights: number[] = [100]) {
+  let txCalls = 0;
+  let tipCalls = 0;
+  return mockApi({
+    // Transactions are looked up with or without the 0x prefix
+    [TXID.slice(2)]: () => {
+      const state = txStates[Math.min(txCalls++, txStates.length - 1)];
+      return state === null ? notFound() : { tx_id: TXID, ...state };
+    },
+    "/v2/info": () => ({
+      stacks_tip_height: tipHeights[Math.min(tipCalls++, tipHeights.length - 1)],
+    }),
+    "/nonces": () => ({ possible_next_nonce: 0 }),
+    "/v2/transactions": () => TXID.slice(2),
+  });
+}
+
+const pending = { tx_status: "pending" };
+const anchored = (status: string, blockHeight = 100) => ({
+  tx_status: status,
+  block_height: blockHeight,
+  block_hash: "0x01",
+  is_unanchored: false,
+  tx_result: { hex: "0x0703", repr: "(ok true)" },
+});
+
+describe("getTransactionStatus", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should report unknown transactions as pending", async () => {
+    mockNode([null]);
+
+    await expect(getTransactionStatus(TXID.slice(2))).resolves.toEqual({
+      txid: TXID,
+      status: "pending",
+      rawStatus: "not_found",
+      included: false,
+      anchored: false,
+      confirmations: 0,
+    });
+  });
+
+  it("should count confirmations from the chain tip", async () => {
+    const fetchMock = mockNode([anchored("success", 98)], [100]);
+
+    const status = await getTransactionStatus(TXID, "mainnet");
+
+    expect(status).toMatchObject({
+      status: "success",
+      included: true,
+      anchored: true,
+      confirmations: 3,
+      blockHeight: 98,
+      result: "(ok true)",
+    });
+    expect(String(fetchMock.mock.calls[0]![0])).toBe(`https://api.hiro.so/extended/v1/tx/${TXID}`);
+  });
+
+  it("should normalize dropped statuses", async () => {
+    mockNode([{ tx_status: "dropped_replace_by_fee", replaced_by_tx_id: "0xcd" }]);
+
+    await expect(getTransactionStatus(TXID)).resolves.toMatchObject({
+      status: "dropped",
+      rawStatus: "dropped_replace_by_fee",
+      included: false,
+      replacedBy: "0xcd",
+    });
+  });
+
+  it("should reject malformed txids", async () => {
+    await expect(getTransactionStatus("0x1234")).rejects.toThrow(/Invalid txid/);
+  });
+});
+
+describe("waitForTransaction", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should poll until the transaction is anchored", async () => {
+    mockNode([null, pending, anchored("success")]);
+    const progress: TransactionStatusResult[] = [];
+
+    const status = await waitForTransaction(TXID, {
+      pollIntervalMs: 0,
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(status.status).toBe("success");
+    expect(progress.map((update) => update.rawStatus)).toEqual(["not_found", "pending", "success"]);
+  });
+
+  it("should wait for the required confirmation depth", async () => {
+    mockNode([anchored("abort_by_post_condition", 100)], [100, 101, 102]);
+
+    const status = await waitForTransaction(TXID, { confirmations: 3, pollIntervalMs: 0 });
+
+    expect(status).toMatchObject({ status: "abort_by_post_condition", confirmations: 3 });
+  });
+
+  it("should wait for an anchor block after microblock inclusion", async () => {
+    const microblock = {
+      tx_status: "success",
+      is_unanchored: true,
+      microblock_hash: "0x02",
+      microblock_sequence: 4,
+    };
+    mockNode([microblock, anchored("success")]);
+
+    const first = await waitForTransaction(TXID, { confirmations: 0, pollIntervalMs: 0 });
+    expect(first).toMatchObject({
+      included: true,
+      anchored: false,
+      confirmations: 0,
+      microblockSequence: 4,
+    });
+
+    const second = await waitForTransaction(TXID, { pollIntervalMs: 0 });
+    expect(second).toMatchObject({ anchored: true, confirmations: 1 });
+  });
+
+  it("should resolve when the transaction is dropped", async () => {
+    mockNode([pending, { tx_status: "dropped_stale_garbage_collect" }]);
+
+    const status = await waitForTransaction(TXID, { pollIntervalMs: 0 });
+
+    expect(status.status).toBe("dropped");
+  });
+
+  it("should time out with the last status", async () => {
+    mockNode([pending]);
+
+    const error = await waitForTransaction(TXID, { timeoutMs: 20, pollIntervalMs: 5 }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+    expect((error as TransactionTimeoutError).lastStatus.status).toBe("pending");
+  });
+
+  it("should stop when the signal aborts", async () => {
+    mockNode([pending]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("shutting down")), 10);
+
+    await expect(
+      waitForTransaction(TXID, { signal: controller.signal, pollIntervalMs: 1_000 })
+    ).rejects.toThrow("shutting down");
+  });
+
+  it("should wait after broadcasting when requested", async () => {
+    mockNode([anchored("success")]);
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+    const params = {
+      recipient: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      amount: 1_000n,
+      fee: 180n,
+    };
+
+    const withoutWait = await signAndBroadcastSTXTransfer(signer, params);
+    expect(withoutWait.confirmation).toBeUndefined();
+
+    const { txid, confirmation } = await signAndBroadcastSTXTransfer(signer, params, {
+      waitForConfirmation: { pollIntervalMs: 0 },
+    });
+    expect(txid).toBe(TXID.slice(2));
+    expect(confirmation?.status).toBe("success");
+  });
+});
@@ -0,0 +1,198 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import {
+  Cl,
+  ClarityVersion,
+  Pc,
+  PostConditionMode,
+  makeUnsignedContractCall,
+  makeUnsignedContractDeploy,
+  makeUnsignedSTXTokenTransfer,
+  privateKeyToPublic,
+} from "@stacks/transactions";
+import { InvalidInputError, TurnkeySigner, describeTransaction } from "../index";
+import { createLocalSigningClient, TEST_PUBLIC_KEY } from "./helpers";
+
+// Local key standing in for a sponsor's Turnkey-held key
+const SPONSOR_PRIVATE_KEY =
+  "9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401";
+const SPONSOR_PUBLIC_KEY = privateKeyToPublic(SPONSOR_PRIVATE_KEY) as string;
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+describe("describeTransaction", () => {
+  const signer = new TurnkeySigner({
+    client: createLocalSigningClient(),
+    publicKey: TEST_PUBLIC_KEY,
+  });
+  const sender = signer.getAddress();
+
+  it("should describe an STX transfer", async () => {
+    const transaction = await makeUnsignedSTXTokenTransfer({
+      recipient,
+      amount: 1_500_000n,
+      memo: "invoice 42",
+      fee: 180n,
+      nonce: 7n,
+      publicKey: TEST_PUBLIC_KEY,
+      network: "testnet",
+    });
+
+    const description = describeTransaction(transaction.serialize());
+
+    expect(description).toEqual({
+      type: "stx-transfer",
+      txid: transaction.txid(),
+      network: "testnet",
+      chainId: transaction.chainId,
+      senderAddress: sender,
+      nonce: "7",
+      fee: { microStx: "180", stx: "0.00018" },
+      sponsored: false,
+      recipient,
+      amount: { microStx: "1500000", stx: "1.5" },
+      memo: "invoice 42",
+      postConditionMode: "deny",
+      postConditions: [],
+    });
+    expect(JSON.parse(JSON.stringify(description))).toEqual(description);
+  });
+
+  it("should decode contract call arguments and post-conditions", async () => {
+    const transaction = await makeUnsignedContractCall({
+      contractAddress: recipient,
+      contractName: "market",
+      functionName: "buy",
+      functionArgs: [
+        Cl.uint(5),
+        Cl.stringAscii("hello"),
+        Cl.tuple({ memo: Cl.some(Cl.bufferFromHex("0102")), owner: Cl.principal(recipient) }),
+      ],
+      postConditions: [
+        Pc.origin().willSendLte(2_000_000).ustx(),
+        Pc.principal(sender).willSendEq(100).ft(`${recipient}.token`, "coin"),
+        Pc.principal(`${recipient}.market`).willSendAsset().nft(`${recipient}.nft::item`, Cl.uint(1)),
+        Pc.principal(sender).willNotSendAsset().nft(`${recipient}.nft::item`, Cl.uint(2)),
+      ],
+      postConditionMode: PostConditionMode.Deny,
+      fee: 1_000n,
+      nonce: 0n,
+      publicKey: TEST_PUBLIC_KEY,
+      network: "testnet",
+    });
+
+    const description = describeTransaction(transaction);
+
+    expect(description).toMatchObject({
+      type: "contract-call",
+      contractId: `${recipient}.market`,
+      functionName: "buy",
+      functionArgs: [
+        { type: "uint", repr: "u5" },
+        { type: "ascii", repr: '"hello"' },
+        { type: "tuple", repr: `(tuple (memo (some 0x0102)) (owner ${recipient}))` },
+      ],
+      postConditionMode: "deny",
+    });
+    expect(description.postConditions.map((pc) => pc.description)).toEqual([
+      `${sender} will send at most 2 STX`,
+      `${sender} will send exactly 100 ${recipient}.token::coin`,
+      `${recipient}.market will send ${recipient}.nft::item u1`,
+      `${sender} will not send ${recipient}.nft::item u2`,
+    ]);
+    expect(description.postConditions[0]).toEqual({
+      type: "stx",
+      principal: sender,
+      condition: "lte",
+      amount: { microStx: "2000000", stx: "2" },
+      description: `${sender} will send at most 2 STX`,
+    });
+  });
+
+  it("should describe a contract deploy", async () => {
+    const transaction = await makeUnsignedContractDeploy({
+      contractName: "counter",
+      codeBody: "(define-data-var count uint u0)",
+      clarityVersion: ClarityVersion.Clarity3,
+      postConditionMode: PostConditionMode.Allow,
+      fee: 10_000n,
+      nonce: 1n,
+      publicKey: TEST_PUBLIC_KEY,
+      network: "mainnet",
+    });
+
+    const description = describeTransaction(transaction);
+
+    expect(description).toMatchObject({
+      type: "contract-deploy",
+      network: "mainnet",
+      contractName: "counter",
+      contractId: `${signer.getAddress("mainnet")}.counter`,
+      clarityVersion: ClarityVersion.Clarity3,
+      postConditionMode: "allow",
+    });
+    expect(description.senderAddress).toMatch(/^SP/);
+  });
+
+  it("should report the sponsor and the fee it pays", async () => {
+    const { transaction } = await signer.signSTXTransfer({
+      recipient,
+      amount: 1n,
+      nonce: 2n,
+      sponsored: true,
+    });
+    const sponsor = new TurnkeySigner({
+      client: createLocalSigningClient(SPONSOR_PRIVATE_KEY),
+      publicKey: SPONSOR_PUBLIC_KEY,
+    });
+    const { transaction: sponsored } = await sponsor.signSponsorship(transaction, {
+      fee: 2_500n,
+      sponsorNonce: 9n,
+    });
+
+    expect(describeTransaction(sponsored)).toMatchObject({
+      senderAddress: sender,
+      nonce: "2",
+      sponsored: true,
+      sponsorAddress: sponsor.getAddress(),
+      sponsorNonce: "9",
+      fee: { microStx: "2500", stx: "0.0025" },
+      amount: { microStx: "1", stx: "0.000001" },
+    });
+  });
+
+  it("should reject input that is not a transaction", () => {
+    expect(() => describeTransaction("0xdeadbeef")).toThrow(InvalidInputError);
+  });
+
+  describe("TurnkeySigner describe option", () => {
+    it("should attach the description of the signed transaction", async () => {
+      const describing = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+        describe: true,
+      });
+
+      const result = await describing.signContractCall({
+        contractAddress: recipient,
+        contractName: "counter",
+        functionName: "increment",
+        functionArgs: [Cl.uint(1)],
+        fee: 300n,
+        nonce: 0n,
+      });
+
+      expect(result.description).toMatchObject({
+        type: "contract-call",
+        txid: result.transaction.txid(),
+        functionArgs: [{ type: "uint", repr: "u1" }],
+        fee: { microStx: "300", stx: "0.0003" },
+      });
+    });
+
+    it("should not describe transactions by default", async () => {
+      const result = await signer.signSTXTransfer({ recipient, amount: 1n, fee: 1n, nonce: 0n });
+
+      expect(result).not.toHaveProperty("description");
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { makeSTXTokenTransfer } from "@stacks/transactions";
+import {
+  ApiRequestError,
+  BroadcastError,
+  IncompleteSignatureError,
+  InvalidInputError,
+  NonceFetchError,
+  SigningError,
+  SigningKeyNotFoundError,
+  TurnkeySigner,
+  TurnkeyStacksError,
+  broadcastTransaction,
+  getAddressFromPublicKey,
+} from "../index";
+import { TEST_PRIVATE_KEY, TEST_PUBLIC_KEY } from "./helpers";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const transfer = { recipient, amount: 1_000n, fee: 200n, nonce: 0n };
+
+function createFailingClient(result: () => Promise<unknown>) {
+  return { signRawPayload: jest.fn(result) } as never;
+}
+
+async function catchError(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected promise to reject");
+}
+
+describe("errors", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should throw InvalidInputError for invalid input", () => {
+    let error: unknown;
+    try {
+      getAddressFromPublicKey("025afa");
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(InvalidInputError);
+    expect(error).toBeInstanceOf(TurnkeyStacksError);
+    expect(error).toMatchObject({ code: "INVALID_INPUT", name: "InvalidInputError" });
+  });
+
+  it("should throw SigningKeyNotFoundError with the original error as cause", async () => {
+    const original = new Error("Could not find any resource to sign with");
+    const signer = new TurnkeySigner({
+      client: createFailingClient(async () => {
+        throw original;
+      }),
+      organizationId: "org-123",
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    const error = await catchError(signer.signSTXTransfer(transfer));
+
+    expect(error).toBeInstanceOf(SigningKeyNotFoundError);
+    expect(error).toBeInstanceOf(SigningError);
+    expect(error).toMatchObject({
+      code: "SIGNING_KEY_NOT_FOUND",
+      publicKey: TEST_PUBLIC_KEY,
+      organizationId: "org-123",
+      cause: original,
+    });
+  });
+
+  it("should wrap other client failures in SigningError", async () => {
+    const original = new Error("rate limited");
+    const signer = new TurnkeySigner({
+      client: createFailingClient(async () => {
+        throw original;
+      }),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    const error = await catchError(signer.signSTXTransfer(transfer));
+
+    expect(error).toBeInstanceOf(SigningError);
+    expect(error).toMatchObject({ code: "SIGNING_FAILED", cause: original });
+    expect((error as Error).message).toMatch(/rate limited/);
+  });
+
+  it("should include the actual result in IncompleteSignatureError", async () => {
+    const result = { v: "01", r: "ab" };
+    const signer = new TurnkeySigner({
+      client: createFailingClient(async () => result),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    const error = await catchError(signer.signSTXTransfer(transfer));
+
+    expect(error).toBeInstanceOf(IncompleteSignatureError);
+    expect(error).toMatchObject({ code: "INCOMPLETE_SIGNATURE", result });
+    expect((error as Error).message).toContain('{"v":"01","r":"ab"}');
+  });
+
+  it("should throw NonceFetchError with NONCE_FETCH_FAILED on HTTP errors", async () => {
+    jest
+      .spyOn(global, "fetch")
+      .mockImplementation(async () => new Response("unavailable", { status: 503 }));
+    const signer = new TurnkeySigner({
+      client: createFailingClient(async () => ({})),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    const error = await catchError(signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n }));
+
+    expect(error).toBeInstanceOf(NonceFetchError);
+    expect(error).toBeInstanceOf(ApiRequestError);
+    expect(error).toMatchObject({ code: "NONCE_FETCH_FAILED", status: 503, timedOut: false });
+    expect((error as Error).message).toMatch(/Failed to fetch nonce: 503/);
+  });
+
+  it("should throw NonceFetchError with NONCE_FETCH_TIMEOUT on timeouts", async () => {
+    const abort = Object.assign(new Error("aborted"), { name: "AbortError" });
+    jest.spyOn(global, "fetch").mockRejectedValue(abort);
+    const signer = new TurnkeySigner({
+      client: createFailingClient(async () => ({})),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    const error = await catchError(signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n }));
+
+    expect(error).toBeInstanceOf(NonceFetchError);
+    expect(error).toMatchObject({ code: "NONCE_FETCH_TIMEOUT", timedOut: true, cause: abort });
+    expect((error as Error).message).toMatch(/Nonce fetch timed out/);
+  });
+
+  it.each(["NotEnoughFunds", "ConflictingNonceInMempool"])(
+    "should expose the %s rejection reason on BroadcastError",
+    async (reason) => {
+      const transaction = await makeSTXTokenTransfer({
+        recipient,
+        amount: 1n,
+        fee: 200n,
+        nonce: 0n,
+        senderKey: TEST_PRIVATE_KEY,
+        network: "testnet",
+      });
+      const txid = "ab".repeat(32);
+      jest.spyOn(global, "fetch").mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({ error: "transaction rejected", reason, reason_data: {}, txid }),
+            { status: 400 }
+          )
+      );
+
+      const error = await catchError(broadcastTransaction(transaction));
+
+      expect(error).toBeInstanceOf(BroadcastError);
+      expect(error).toMatchObject({ code: "BROADCAST_REJECTED", reason, txid });
+    }
+  );
+
+  it("should wrap broadcast request failures in ApiRequestError", async () => {
+    const transaction = await makeSTXTokenTransfer({
+      recipient,
+      amount: 1n,
+      fee: 200n,
+      nonce: 0n,
+      senderKey: TEST_PRIVATE_KEY,
+      network: "testnet",
+    });
+    const original = new Error("offline");
+    jest.spyOn(global, "fetch").mockRejectedValue(original);
+
+    const error = await catchError(broadcastTransaction(transaction));
+
+    expect(error).toBeInstanceOf(ApiRequestError);
+    expect(error).toMatchObject({ code: "API_REQUEST_FAILED", cause: original });
+  });
+});
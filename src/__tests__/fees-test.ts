@@ -0,0 +1,196 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { TurnkeyMultisigSigner, TurnkeySigner } from "../index";
+import { createLocalSigningClient, TEST_PUBLIC_KEY } from "./helpers";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+const client = createLocalSigningClient();
+
+function mockFeeEstimates(low: number, medium: number, high: number) {
+  const body = JSON.stringify({
+    estimations: [
+      { fee_rate: 1, fee: low },
+      { fee_rate: 2, fee: medium },
+      { fee_rate: 3, fee: high },
+    ],
+  });
+  return jest
+    .spyOn(global, "fetch")
+    .mockImplementation(async () => new Response(body, { status: 200 }));
+}
+
+describe("fee estimation", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should use the medium estimate by default", async () => {
+    const fetchMock = mockFeeEstimates(200, 400, 900);
+    const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+    const { transaction, fee, feeDetails } = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+    });
+
+    expect(fee).toBe(400n);
+    expect(feeDetails).toEqual({
+      source: "estimated",
+      strategy: "medium",
+      estimate: 400n,
+    });
+    expect(transaction.auth.spendingCondition.fee).toBe(400n);
+    expect(() => transaction.verifyOrigin()).not.toThrow();
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe("https://api.testnet.hiro.so/v2/fees/transaction");
+    expect(JSON.parse(String(init?.body))).toMatchObject({
+      transaction_payload: expect.any(String),
+      estimated_len: expect.any(Number),
+    });
+  });
+
+  it("should apply strategy, multiplier and caps", async () => {
+    mockFeeEstimates(200, 400, 900);
+    const signer = new TurnkeySigner({
+      client,
+      publicKey: TEST_PUBLIC_KEY,
+      feeEstimation: { strategy: "high", multiplier: 1.5, maxFee: 1_000n },
+    });
+
+    const capped = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+    });
+    expect(capped.fee).toBe(1_000n);
+    expect(capped.feeDetails.estimate).toBe(900n);
+
+    const low = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+      feeEstimation: { strategy: "low", minFee: 500n },
+    });
+    expect(low.fee).toBe(500n);
+    expect(low.feeDetails.strategy).toBe("low");
+  });
+
+  it("should fall back to the fixed fee when estimation fails", async () => {
+    jest
+      .spyOn(global, "fetch")
+      .mockResolvedValue(
+        new Response("NoEstimateAvailable", { status: 400, statusText: "Bad Request" })
+      );
+    const signer = new TurnkeySigner({
+      client,
+      publicKey: TEST_PUBLIC_KEY,
+      feeEstimation: { fallbackFee: 250n },
+    });
+
+    const { fee, feeDetails } = await signer.signContractCall({
+      contractAddress: recipient,
+      contractName: "counter",
+      functionName: "increment",
+      functionArgs: [],
+      nonce: 0n,
+    });
+
+    expect(fee).toBe(250n);
+    expect(feeDetails.source).toBe("fallback");
+    expect(feeDetails.reason).toMatch(/Failed to fetch fee estimate: 400/);
+  });
+
+  it("should keep the fallback fee within the fee caps", async () => {
+    jest.spyOn(global, "fetch").mockRejectedValue(new Error("offline"));
+    const signer = new TurnkeySigner({
+      client,
+      publicKey: TEST_PUBLIC_KEY,
+      feeEstimation: { minFee: 1_000n },
+    });
+
+    const { fee, feeDetails } = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+    });
+    expect(fee).toBe(1_000n);
+    expect(feeDetails.source).toBe("fallback");
+
+    await expect(
+      signer.signSTXTransfer({
+        recipient,
+        amount: 1_000n,
+        nonce: 0n,
+        feeEstimation: { fallbackFee: 250n },
+      })
+    ).rejects.toThrow(/Invalid fallbackFee: 250 is outside the fee caps/);
+  });
+
+  it("should skip estimation for explicit, sponsored and disabled fees", async () => {
+    const fetchMock = jest.spyOn(global, "fetch");
+    const signer = new TurnkeySigner({
+      client,
+      publicKey: TEST_PUBLIC_KEY,
+      feeEstimation: { enabled: false },
+    });
+
+    const explicit = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+      fee: 321n,
+    });
+    expect(explicit.feeDetails).toEqual({ source: "explicit" });
+
+    const sponsored = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+      sponsored: true,
+    });
+    expect(sponsored.fee).toBe(0n);
+    expect(sponsored.feeDetails).toEqual({ source: "sponsored" });
+
+    const disabled = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+    });
+    expect(disabled.fee).toBe(180n);
+    expect(disabled.feeDetails.source).toBe("fallback");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should estimate fees for multisig transactions", async () => {
+    mockFeeEstimates(300, 600, 1_200);
+    const multisig = new TurnkeyMultisigSigner({
+      publicKeys: [TEST_PUBLIC_KEY],
+      signaturesRequired: 1,
+    });
+
+    const { fee, feeDetails } = await multisig.buildSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      nonce: 0n,
+    });
+
+    expect(fee).toBe(600n);
+    expect(feeDetails.source).toBe("estimated");
+  });
+
+  it("should reject invalid multipliers", async () => {
+    mockFeeEstimates(200, 400, 900);
+    const signer = new TurnkeySigner({
+      client,
+      publicKey: TEST_PUBLIC_KEY,
+      feeEstimation: { multiplier: 0 },
+    });
+
+    await expect(
+      signer.signSTXTransfer({ recipient, amount: 1_000n, nonce: 0n })
+    ).rejects.toThrow(/Invalid fee multiplier/);
+  });
+});
@@ -0,0 +1,47 @@
+// Shared fixtures for the computational tests: local keys standing in for
+// Turnkey-held keys, and a fetch mock serving Stacks API routes.
+import { deserializeTransaction, privateKeyToPublic, signWithKey } from "@stacks/transactions";
+
+// Local key standing in for a Turnkey-held key
+export const TEST_PRIVATE_KEY =
+  "edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01";
+export const TEST_PUBLIC_KEY = privateKeyToPublic(TEST_PRIVATE_KEY) as string;
+
+// Signs a hex payload directly, splitting the signature into Turnkey's v/r/s parts
+export function signLocally(payload: string, privateKey: string = TEST_PRIVATE_KEY) {
+  const vrs = signWithKey(privateKey, payload.replace(/^0x/, ""));
+  return { v: vrs.slice(0, 2), r: vrs.slice(2, 66), s: vrs.slice(66) };
+}
+
+// Mimics signRawPayload with HASH_FUNCTION_NO_OP by signing the payload directly
+export function createLocalSigningClient(privateKey: string = TEST_PRIVATE_KEY) {
+  return {
+    signRawPayload: jest.fn(async ({ payload }: { payload: string }) =>
+      signLocally(payload, privateKey)
+    ),
+  };
+}
+
+/** Answers one API route with a Response, or with a value sent as JSON */
+export type MockRoute = (url: URL, init?: RequestInit) => unknown;
+
+// Answers API requests by the end of their path (without the query string), e.g. "/nonces",
+// trying routes in order; an empty path matches anything, and unmatched paths fail as if offline
+export function mockApi(routes: Record<string, MockRoute>) {
+  return jest.spyOn(global, "fetch").mockImplementation(async (input, init) => {
+    const url = new URL(String(input));
+    const path = Object.keys(routes).find((suffix) => url.pathname.endsWith(suffix));
+    const route = path === undefined ? undefined : routes[path];
+    if (!route) throw new Error(`offline: ${url.pathname}`);
+    const body = await route(url, init);
+    return body instanceof Response ? body : new Response(JSON.stringify(body));
+  });
+}
+
+// Accepts a broadcast, answering with the transaction's ID like a node does
+export const acceptBroadcast: MockRoute = (_url, init) => {
+  const { tx } = JSON.parse(String(init?.body)) as { tx: string };
+  return deserializeTransaction(tx).txid();
+};
+
+export const notFound = () => new Response("Not Found", { status: 404, statusText: "Not Found" });
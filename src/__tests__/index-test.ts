@@ -1,7 +1,52 @@
 // Note: this is a computational test: not a live Turnkey API demo test.
-import { TurnkeySigner, getAddressFromPublicKey } from "../index";
+import {
+  Cl,
+  ClarityType,
+  ClarityVersion,
+  PayloadType,
+  AuthType,
+  PostConditionMode,
+  deserializeTransaction,
+  makeSTXTokenTransfer,
+  makeUnsignedSTXTokenTransfer,
+  privateKeyToPublic,
+  signWithKey,
+  sponsorTransaction,
+  cvToString,
+  type ContractCallPayload,
+  type TokenTransferPayloadWire,
+  type VersionedSmartContractPayloadWire,
+} from "@stacks/transactions";
+import {
+  InvalidInputError,
+  SignatureVerificationError,
+  TurnkeySigner,
+  broadcastTransaction,
+  getAddressFromPublicKey,
+} from "../index";
+import {
+  acceptBroadcast,
+  createLocalSigningClient,
+  mockApi,
+  TEST_PRIVATE_KEY,
+  TEST_PUBLIC_KEY,
+} from "./helpers";
+
+// Local key standing in for a sponsor's Turnkey-held key
+const SPONSOR_PRIVATE_KEY =
+  "9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401";
+const SPONSOR_PUBLIC_KEY = privateKeyToPublic(SPONSOR_PRIVATE_KEY) as string;
 
 describe("@turnkey/stacks", () => {
+  // No network access: fee estimation falls back to the fixed fee
+  beforeEach(() => {
+    jest.spyOn(global, "fetch").mockRejectedValue(new Error("offline"));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe("getAddressFromPublicKey", () => {
     it("should derive testnet address from compressed public key", () => {
       const publicKey =
@@ -87,4 +132,508 @@ describe("@turnkey/stacks", () => {
       ).toThrow(/Invalid public key/);
     });
   });
+
+  describe("signContractCall", () => {
+    const contractAddress = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+    it("should sign a contract call with the origin key", async () => {
+      const client = createLocalSigningClient();
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      const { transaction, senderAddress, nonce, fee } =
+        await signer.signContractCall({
+          contractAddress,
+          contractName: "counter",
+          functionName: "increment",
+          functionArgs: [Cl.uint(1)],
+          nonce: 3n,
+          fee: 500n,
+        });
+
+      expect(senderAddress).toBe(signer.getAddress());
+      expect(nonce).toBe(3n);
+      expect(fee).toBe(500n);
+      expect(client.signRawPayload).toHaveBeenCalledTimes(1);
+      expect(client.signRawPayload.mock.calls[0]?.[0]).toMatchObject({
+        signWith: TEST_PUBLIC_KEY,
+        hashFunction: "HASH_FUNCTION_NO_OP",
+      });
+
+      const payload = transaction.payload as ContractCallPayload;
+      expect(payload.payloadType).toBe(PayloadType.ContractCall);
+      expect(payload.functionName.content).toBe("increment");
+      expect(payload.functionArgs[0]?.type).toBe(ClarityType.UInt);
+      expect(transaction.postConditionMode).toBe(PostConditionMode.Deny);
+
+      // Throws if the attached signature does not match the origin key
+      expect(() => transaction.verifyOrigin()).not.toThrow();
+    });
+
+    it("should pass through post-condition mode", async () => {
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+      });
+
+      const { transaction } = await signer.signContractCall({
+        contractAddress,
+        contractName: "counter",
+        functionName: "increment",
+        functionArgs: [],
+        postConditionMode: "allow",
+        nonce: 0n,
+      });
+
+      expect(transaction.postConditionMode).toBe(PostConditionMode.Allow);
+    });
+
+    it("should throw for invalid contract address", async () => {
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+      });
+
+      await expect(
+        signer.signContractCall({
+          contractAddress: "not-an-address",
+          contractName: "counter",
+          functionName: "increment",
+          functionArgs: [],
+          nonce: 0n,
+        })
+      ).rejects.toThrow(/Invalid contract Stacks address/);
+    });
+  });
+
+  describe("signContractDeploy", () => {
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    it("should sign a versioned contract deploy", async () => {
+      const { transaction, nonce } = await signer.signContractDeploy({
+        contractName: "counter",
+        codeBody: "(define-data-var count uint u0)",
+        clarityVersion: ClarityVersion.Clarity2,
+        nonce: 7n,
+      });
+
+      const payload = transaction.payload as VersionedSmartContractPayloadWire;
+      expect(payload.payloadType).toBe(PayloadType.VersionedSmartContract);
+      expect(payload.clarityVersion).toBe(ClarityVersion.Clarity2);
+      expect(payload.contractName.content).toBe("counter");
+      expect(nonce).toBe(7n);
+      expect(() => transaction.verifyOrigin()).not.toThrow();
+    });
+
+    it("should reject invalid contract names", async () => {
+      await expect(
+        signer.signContractDeploy({
+          contractName: "1counter",
+          codeBody: "(define-data-var count uint u0)",
+          nonce: 0n,
+        })
+      ).rejects.toThrow(/Invalid contract name/);
+
+      await expect(
+        signer.signContractDeploy({
+          contractName: "a".repeat(41),
+          codeBody: "(define-data-var count uint u0)",
+          nonce: 0n,
+        })
+      ).rejects.toThrow(/Invalid contract name length/);
+    });
+
+    it("should reject oversized sources", async () => {
+      await expect(
+        signer.signContractDeploy({
+          contractName: "big",
+          codeBody: ";;".repeat(50_001),
+          nonce: 0n,
+        })
+      ).rejects.toThrow(/Contract source too large/);
+    });
+  });
+
+  describe("sponsored transactions", () => {
+    const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+    const origin = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+    const sponsor = new TurnkeySigner({
+      client: createLocalSigningClient(SPONSOR_PRIVATE_KEY),
+      publicKey: SPONSOR_PUBLIC_KEY,
+    });
+
+    it("should produce an origin-signed sponsored transfer with zero fee", async () => {
+      const { transaction, fee } = await origin.signSTXTransfer({
+        recipient,
+        amount: 1_000n,
+        nonce: 2n,
+        sponsored: true,
+      });
+
+      expect(fee).toBe(0n);
+      expect(transaction.auth.authType).toBe(AuthType.Sponsored);
+      expect(() => transaction.verifyOrigin()).not.toThrow();
+    });
+
+    it("should reject an origin fee on sponsored transactions", async () => {
+      await expect(
+        origin.signSTXTransfer({
+          recipient,
+          amount: 1_000n,
+          nonce: 2n,
+          fee: 100n,
+          sponsored: true,
+        })
+      ).rejects.toThrow(/must not set an origin fee/);
+    });
+
+    it("should co-sign as sponsor identically to a local sponsor key", async () => {
+      const { transaction } = await origin.signSTXTransfer({
+        recipient,
+        amount: 1_000n,
+        nonce: 2n,
+        sponsored: true,
+      });
+
+      const result = await sponsor.signSponsorship(transaction, {
+        fee: 1_000n,
+        sponsorNonce: 9n,
+      });
+
+      const expected = await sponsorTransaction({
+        transaction,
+        sponsorPrivateKey: SPONSOR_PRIVATE_KEY,
+        fee: 1_000n,
+        sponsorNonce: 9n,
+        network: "testnet",
+      });
+
+      expect(result.sponsorAddress).toBe(sponsor.getAddress());
+      expect(result.sponsorNonce).toBe(9n);
+      expect(result.fee).toBe(1_000n);
+      expect(result.transaction.serialize()).toBe(expected.serialize());
+    });
+
+    it("should refuse to sponsor a standard transaction", async () => {
+      const transaction = await makeSTXTokenTransfer({
+        recipient,
+        amount: 1_000n,
+        nonce: 0n,
+        fee: 180n,
+        senderKey: TEST_PRIVATE_KEY,
+        network: "testnet",
+      });
+
+      await expect(
+        sponsor.signSponsorship(transaction, { sponsorNonce: 0n })
+      ).rejects.toThrow(/non-sponsored transaction/);
+    });
+  });
+
+  describe("signTransaction", () => {
+    const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    const buildUnsigned = (publicKey: string = TEST_PUBLIC_KEY) =>
+      makeUnsignedSTXTokenTransfer({
+        recipient,
+        amount: 2_500n,
+        nonce: 4n,
+        fee: 200n,
+        publicKey,
+        network: "testnet",
+      });
+
+    it("should sign serialized unsigned transactions", async () => {
+      const unsigned = await buildUnsigned();
+
+      const result = await signer.signTransaction(`0x${unsigned.serialize()}`);
+
+      const expected = await makeSTXTokenTransfer({
+        recipient,
+        amount: 2_500n,
+        nonce: 4n,
+        fee: 200n,
+        senderKey: TEST_PRIVATE_KEY,
+        network: "testnet",
+      });
+
+      expect(result.serializedTransaction).toBe(expected.serialize());
+      expect(result.txid).toBe(expected.txid());
+      expect(result.transaction.serialize()).toBe(expected.serialize());
+    });
+
+    it("should not modify the input transaction", async () => {
+      const unsigned = await buildUnsigned();
+      const before = unsigned.serialize();
+
+      await signer.signTransaction(unsigned);
+
+      expect(unsigned.serialize()).toBe(before);
+    });
+
+    it("should refuse transactions for a different key", async () => {
+      const unsigned = await buildUnsigned(SPONSOR_PUBLIC_KEY);
+
+      await expect(signer.signTransaction(unsigned)).rejects.toThrow(
+        /does not belong to this signer/
+      );
+    });
+
+    it("should refuse already signed transactions", async () => {
+      const { serializedTransaction } = await signer.signTransaction(
+        await buildUnsigned()
+      );
+
+      await expect(
+        signer.signTransaction(serializedTransaction)
+      ).rejects.toThrow(/already signed/);
+    });
+
+    it("should reject malformed hex", async () => {
+      await expect(signer.signTransaction("0xdeadbeef")).rejects.toThrow(
+        /Invalid transaction/
+      );
+    });
+  });
+
+  describe("replace-by-fee", () => {
+    const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+
+    const signOriginal = () =>
+      signer.signSTXTransfer({
+        recipient,
+        amount: 2_500n,
+        nonce: 5n,
+        fee: 180n,
+      });
+
+    it("should re-sign the same payload and nonce with a higher fee", async () => {
+      const { transaction: original } = await signOriginal();
+      const before = original.serialize();
+
+      const result = await signer.speedUpTransaction(`0x${before}`, {
+        newFee: 500n,
+      });
+
+      const expected = await makeSTXTokenTransfer({
+        recipient,
+        amount: 2_500n,
+        nonce: 5n,
+        fee: 500n,
+        senderKey: TEST_PRIVATE_KEY,
+        network: "testnet",
+      });
+
+      expect(result.transaction.serialize()).toBe(expected.serialize());
+      expect(result.txid).toBe(expected.txid());
+      expect(result.replacedTxid).toBe(original.txid());
+      expect(result.nonce).toBe(5n);
+      expect(result.fee).toBe(500n);
+      expect(original.serialize()).toBe(before);
+    });
+
+    it("should require a higher fee than the original", async () => {
+      const { transaction } = await signOriginal();
+
+      await expect(
+        signer.speedUpTransaction(transaction, { newFee: 180n })
+      ).rejects.toThrow(/must be higher than the original fee 180 \(minimum 181\)/);
+    });
+
+    it("should refuse transactions not signed by this signer", async () => {
+      const other = await makeSTXTokenTransfer({
+        recipient,
+        amount: 2_500n,
+        nonce: 5n,
+        fee: 180n,
+        senderKey: SPONSOR_PRIVATE_KEY,
+        network: "testnet",
+      });
+      const unsigned = await makeUnsignedSTXTokenTransfer({
+        recipient,
+        amount: 2_500n,
+        nonce: 5n,
+        fee: 180n,
+        publicKey: TEST_PUBLIC_KEY,
+        network: "testnet",
+      });
+
+      await expect(
+        signer.speedUpTransaction(other, { newFee: 500n })
+      ).rejects.toThrow(/does not belong to this signer/);
+      await expect(signer.cancelTransaction(unsigned)).rejects.toThrow(
+        /not signed/
+      );
+    });
+
+    it("should refuse sponsored transactions", async () => {
+      const { transaction } = await signer.signSTXTransfer({
+        recipient,
+        amount: 2_500n,
+        nonce: 5n,
+        sponsored: true,
+      });
+
+      await expect(
+        signer.speedUpTransaction(transaction, { newFee: 500n })
+      ).rejects.toThrow(/sponsored/);
+    });
+
+    it("should cancel with a burn transfer at the same nonce", async () => {
+      const { transaction: original } = await signOriginal();
+
+      const result = await signer.cancelTransaction(original);
+
+      const payload = result.transaction.payload as TokenTransferPayloadWire;
+      expect(payload.payloadType).toBe(PayloadType.TokenTransfer);
+      expect(payload.amount).toBe(1n);
+      expect(cvToString(payload.recipient)).toBe("ST000000000000000000002AMW42H");
+      expect(result.nonce).toBe(5n);
+      expect(result.transaction.auth.spendingCondition.nonce).toBe(5n);
+      // Fallback fee (180n) equals the original, so it is raised to the minimum
+      expect(result.fee).toBe(181n);
+      expect(result.feeDetails.reason).toMatch(/minimum replacement fee/);
+      expect(result.replacedTxid).toBe(original.txid());
+      expect(() => result.transaction.verifyOrigin()).not.toThrow();
+    });
+
+    it("should send the cancelling transfer to a recipient other than the sender", async () => {
+      const { transaction: original } = await signOriginal();
+
+      const result = await signer.cancelTransaction(original, { recipient });
+
+      const payload = result.transaction.payload as TokenTransferPayloadWire;
+      expect(cvToString(payload.recipient)).toBe(recipient);
+      await expect(
+        signer.cancelTransaction(original, { recipient: signer.getAddress() })
+      ).rejects.toThrow(/signer's own address/);
+      await expect(
+        signer.cancelTransaction(original, { recipient: "not-an-address" })
+      ).rejects.toBeInstanceOf(InvalidInputError);
+    });
+
+    it("should broadcast a cancellation the node accepts", async () => {
+      const { transaction: original } = await signOriginal();
+      // Rejects transfers to the sender like a Stacks node
+      mockApi({
+        "/v2/transactions": (url, init) => {
+          const { tx } = JSON.parse(String(init?.body)) as { tx: string };
+          const payload = deserializeTransaction(tx).payload as TokenTransferPayloadWire;
+          if (cvToString(payload.recipient) !== signer.getAddress()) {
+            return acceptBroadcast(url, init);
+          }
+          const reason = "TransferRecipientCannotEqualSender";
+          return new Response(JSON.stringify({ error: "transaction rejected", reason }), {
+            status: 400,
+          });
+        },
+      });
+
+      const { transaction, txid } = await signer.cancelTransaction(original);
+
+      await expect(broadcastTransaction(transaction)).resolves.toBe(txid);
+    });
+
+    it("should check the cancel fee and network", async () => {
+      const { transaction } = await signOriginal();
+
+      await expect(
+        signer.cancelTransaction(transaction, { fee: 100n })
+      ).rejects.toThrow(/must be higher than the original fee/);
+      await expect(
+        signer.cancelTransaction(transaction, { network: "mainnet" })
+      ).rejects.toThrow(/does not match the network chain ID/);
+
+      const { fee, feeDetails } = await signer.cancelTransaction(transaction, {
+        fee: 1_000n,
+      });
+      expect(fee).toBe(1_000n);
+      expect(feeDetails.source).toBe("explicit");
+    });
+  });
+
+  describe("signature verification", () => {
+    const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+    const curveOrder = BigInt(
+      "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141"
+    );
+
+    it("should normalize high-s signatures to low-s", async () => {
+      const client = {
+        signRawPayload: jest.fn(async ({ payload }: { payload: string }) => {
+          const vrs = signWithKey(TEST_PRIVATE_KEY, payload.replace(/^0x/, ""));
+          // Return the equivalent high-s signature with the flipped recovery id
+          const s = curveOrder - BigInt(`0x${vrs.slice(66)}`);
+          return {
+            v: (parseInt(vrs.slice(0, 2), 16) ^ 1).toString(16),
+            r: vrs.slice(2, 66),
+            s: s.toString(16).padStart(64, "0"),
+          };
+        }),
+      };
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY });
+
+      const { transaction } = await signer.signSTXTransfer({
+        recipient,
+        amount: 1_000n,
+        nonce: 0n,
+      });
+
+      const expected = await makeSTXTokenTransfer({
+        recipient,
+        amount: 1_000n,
+        nonce: 0n,
+        fee: 180n,
+        senderKey: TEST_PRIVATE_KEY,
+        network: "testnet",
+      });
+
+      expect(transaction.serialize()).toBe(expected.serialize());
+    });
+
+    it("should throw when Turnkey signs with a different key", async () => {
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(SPONSOR_PRIVATE_KEY),
+        publicKey: TEST_PUBLIC_KEY,
+      });
+
+      const attempt = signer.signSTXTransfer({
+        recipient,
+        amount: 1_000n,
+        nonce: 0n,
+      });
+
+      await expect(attempt).rejects.toThrow(SignatureVerificationError);
+      await expect(attempt).rejects.toMatchObject({
+        expectedPublicKey: TEST_PUBLIC_KEY,
+        recoveredPublicKey: SPONSOR_PUBLIC_KEY,
+      });
+    });
+
+    it("should throw for malformed signature components", async () => {
+      const signer = new TurnkeySigner({
+        client: {
+          signRawPayload: jest.fn(async () => ({ v: "00", r: "zz", s: "01" })),
+        },
+        publicKey: TEST_PUBLIC_KEY,
+      });
+
+      await expect(signer.signMessage("hello")).rejects.toThrow(
+        /must be hex encoded/
+      );
+    });
+  });
 });
@@ -0,0 +1,140 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  Cl,
+  signStructuredData as signStructuredDataLocally,
+} from "@stacks/transactions";
+import {
+  TurnkeySigner,
+  hashMessage,
+  verifyMessageSignature,
+  verifyStructuredDataSignature,
+} from "../index";
+import { createLocalSigningClient, TEST_PRIVATE_KEY, TEST_PUBLIC_KEY } from "./helpers";
+
+const signer = new TurnkeySigner({
+  client: createLocalSigningClient(),
+  publicKey: TEST_PUBLIC_KEY,
+});
+
+const domain = { name: "Test App", version: "1.0.0", chainId: 2147483648 };
+const message = Cl.tuple({
+  action: Cl.stringAscii("login"),
+  nonce: Cl.uint(42),
+});
+
+describe("message signing", () => {
+  describe("hashMessage", () => {
+    it("should prefix messages with the Stacks header and varint length", () => {
+      const text = "a".repeat(300);
+      const lengthBytes = new Uint8Array([0xfd, 300 & 0xff, 300 >> 8]);
+
+      const expected = bytesToHex(
+        sha256(
+          concatBytes(
+            utf8ToBytes("\x17Stacks Signed Message:\n"),
+            lengthBytes,
+            utf8ToBytes(text)
+          )
+        )
+      );
+
+      expect(hashMessage(text)).toBe(expected);
+    });
+  });
+
+  describe("signMessage", () => {
+    it("should produce a verifiable RSV signature", async () => {
+      const { signature, publicKey } = await signer.signMessage("Hello World");
+
+      expect(signature).toHaveLength(130);
+      expect(publicKey).toBe(TEST_PUBLIC_KEY);
+      expect(
+        verifyMessageSignature({
+          message: "Hello World",
+          signature,
+          publicKey,
+        })
+      ).toBe(true);
+      expect(
+        verifyMessageSignature({
+          message: "Hello World",
+          signature,
+          address: signer.getAddress("mainnet"),
+        })
+      ).toBe(true);
+    });
+
+    it("should reject signatures for other messages or keys", async () => {
+      const { signature } = await signer.signMessage("Hello World");
+
+      expect(
+        verifyMessageSignature({
+          message: "Goodbye World",
+          signature,
+          publicKey: TEST_PUBLIC_KEY,
+        })
+      ).toBe(false);
+      expect(
+        verifyMessageSignature({
+          message: "Hello World",
+          signature,
+          address: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+        })
+      ).toBe(false);
+      expect(
+        verifyMessageSignature({
+          message: "Hello World",
+          signature: "00",
+          publicKey: TEST_PUBLIC_KEY,
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("signStructuredData", () => {
+    it("should match a locally signed SIP-018 signature", async () => {
+      const { signature } = await signer.signStructuredData(domain, message);
+
+      const expected = signStructuredDataLocally({
+        domain: Cl.tuple({
+          name: Cl.stringAscii(domain.name),
+          version: Cl.stringAscii(domain.version),
+          "chain-id": Cl.uint(domain.chainId),
+        }),
+        message,
+        privateKey: TEST_PRIVATE_KEY,
+      });
+
+      expect(signature).toBe(expected);
+      expect(
+        verifyStructuredDataSignature({
+          domain,
+          message,
+          signature,
+          address: signer.getAddress(),
+        })
+      ).toBe(true);
+    });
+
+    it("should not verify against a different domain", async () => {
+      const { signature } = await signer.signStructuredData(domain, message);
+
+      expect(
+        verifyStructuredDataSignature({
+          domain: { ...domain, chainId: 1 },
+          message,
+          signature,
+          publicKey: TEST_PUBLIC_KEY,
+        })
+      ).toBe(false);
+    });
+
+    it("should reject invalid domains", async () => {
+      await expect(
+        signer.signStructuredData(Cl.tuple({ name: Cl.uint(1) }), message)
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import {
+  makeSTXTokenTransfer,
+  privateKeyToPublic,
+} from "@stacks/transactions";
+import { TurnkeyMultisigSigner, TurnkeySigner } from "../index";
+import { createLocalSigningClient } from "./helpers";
+
+// Local keys standing in for Turnkey-held keys
+const PRIVATE_KEYS = [
+  "edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01",
+  "9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401",
+  "7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801",
+] as const;
+const PUBLIC_KEYS = PRIVATE_KEYS.map(
+  (key) => privateKeyToPublic(key) as string
+);
+
+function createSigner(index: number) {
+  return new TurnkeySigner({
+    client: createLocalSigningClient(PRIVATE_KEYS[index]!),
+    publicKey: PUBLIC_KEYS[index]!,
+  });
+}
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+describe("TurnkeyMultisigSigner", () => {
+  // No network access: fee estimation falls back to the fixed fee
+  beforeEach(() => {
+    jest.spyOn(global, "fetch").mockRejectedValue(new Error("offline"));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should derive multisig addresses", () => {
+    const multisig = new TurnkeyMultisigSigner({
+      publicKeys: PUBLIC_KEYS,
+      signaturesRequired: 2,
+    });
+
+    expect(multisig.getAddress()).toMatch(/^SN/);
+    expect(multisig.getAddress("mainnet")).toMatch(/^SM/);
+  });
+
+  it("should derive the same address in both hash modes", () => {
+    const legacy = new TurnkeyMultisigSigner({
+      publicKeys: PUBLIC_KEYS,
+      signaturesRequired: 2,
+    });
+    const nonSequential = new TurnkeyMultisigSigner({
+      publicKeys: PUBLIC_KEYS,
+      signaturesRequired: 2,
+      useNonSequentialMultiSig: true,
+    });
+
+    expect(nonSequential.getAddress()).toBe(legacy.getAddress());
+    expect(nonSequential.hashMode).not.toBe(legacy.hashMode);
+  });
+
+  it("should reject invalid thresholds and duplicate keys", () => {
+    expect(
+      () =>
+        new TurnkeyMultisigSigner({
+          publicKeys: PUBLIC_KEYS,
+          signaturesRequired: 4,
+        })
+    ).toThrow(/Invalid signaturesRequired/);
+
+    expect(
+      () =>
+        new TurnkeyMultisigSigner({
+          publicKeys: [PUBLIC_KEYS[0]!, PUBLIC_KEYS[0]!],
+          signaturesRequired: 1,
+        })
+    ).toThrow(/must be unique/);
+  });
+
+  describe.each([
+    ["legacy sequential", false],
+    ["non-sequential", true],
+  ])("%s signing", (_, useNonSequentialMultiSig) => {
+    const multisig = new TurnkeyMultisigSigner({
+      publicKeys: PUBLIC_KEYS,
+      signaturesRequired: 2,
+      useNonSequentialMultiSig,
+    });
+
+    it("should match a locally signed 2-of-3 transfer", async () => {
+      const { transaction, senderAddress } = await multisig.buildSTXTransfer({
+        recipient,
+        amount: 5_000n,
+        nonce: 1n,
+        fee: 300n,
+      });
+
+      expect(senderAddress).toBe(multisig.getAddress());
+
+      let tx = await createSigner(0).appendMultisigSignature(
+        transaction,
+        multisig
+      );
+      expect(multisig.getSignatureCount(tx)).toBe(1);
+      expect(multisig.isComplete(tx)).toBe(false);
+
+      tx = await createSigner(2).appendMultisigSignature(tx, multisig);
+      expect(multisig.isComplete(tx)).toBe(true);
+
+      const finalized = multisig.finalize(tx);
+
+      const expected = await makeSTXTokenTransfer({
+        recipient,
+        amount: 5_000n,
+        nonce: 1n,
+        fee: 300n,
+        numSignatures: 2,
+        publicKeys: PUBLIC_KEYS,
+        signerKeys: [PRIVATE_KEYS[0], PRIVATE_KEYS[2]],
+        useNonSequentialMultiSig,
+        network: "testnet",
+      });
+
+      expect(finalized.serialize()).toBe(expected.serialize());
+    });
+
+    it("should reject out-of-order and non-participant signers", async () => {
+      const { transaction } = await multisig.buildSTXTransfer({
+        recipient,
+        amount: 5_000n,
+        nonce: 1n,
+      });
+
+      const tx = await createSigner(1).appendMultisigSignature(
+        transaction,
+        multisig
+      );
+
+      await expect(
+        createSigner(0).appendMultisigSignature(tx, multisig)
+      ).rejects.toThrow(/must sign in public key order/);
+
+      const outsider = new TurnkeySigner({
+        client: { signRawPayload: jest.fn() },
+        publicKey:
+          "025afa6566651f6c49d84a482a1af918b25ba7caac0b06d9ab8d79a45b72715aeb",
+      });
+      await expect(
+        outsider.appendMultisigSignature(tx, multisig)
+      ).rejects.toThrow(/not a participant/);
+    });
+
+    it("should refuse to finalize below the threshold", async () => {
+      const { transaction } = await multisig.buildSTXTransfer({
+        recipient,
+        amount: 5_000n,
+        nonce: 1n,
+      });
+
+      const tx = await createSigner(0).appendMultisigSignature(
+        transaction,
+        multisig
+      );
+
+      expect(() => multisig.finalize(tx)).toThrow(/needs 2 signature/);
+    });
+  });
+});
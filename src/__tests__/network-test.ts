@@ -0,0 +1,167 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import {
+  TurnkeyMultisigSigner,
+  TurnkeySigner,
+  broadcastTransaction,
+  createNetwork,
+  getAddressFromPublicKey,
+  type StacksNetworkConfig,
+} from "../index";
+import { createLocalSigningClient, TEST_PUBLIC_KEY } from "./helpers";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const TXID = "ab".repeat(32);
+
+const client = createLocalSigningClient();
+
+// Serves nonce, fee estimate and broadcast responses like a Stacks node
+function createNodeFetch() {
+  return jest.fn(async (input: RequestInfo | URL, _init?: RequestInit) => {
+    const url = String(input);
+    if (url.includes("/nonces")) {
+      return new Response(JSON.stringify({ possible_next_nonce: 7 }));
+    }
+    if (url.endsWith("/v2/fees/transaction")) {
+      return new Response(
+        JSON.stringify({ estimations: [{ fee: 100 }, { fee: 200 }, { fee: 300 }] })
+      );
+    }
+    if (url.endsWith("/v2/transactions")) {
+      return new Response(JSON.stringify(TXID));
+    }
+    return new Response("Not Found", { status: 404, statusText: "Not Found" });
+  });
+}
+
+describe("networks", () => {
+  beforeEach(() => {
+    jest.spyOn(global, "fetch").mockRejectedValue(new Error("offline"));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should derive testnet addresses on devnet", () => {
+    expect(getAddressFromPublicKey(TEST_PUBLIC_KEY, "devnet")).toBe(
+      getAddressFromPublicKey(TEST_PUBLIC_KEY, "testnet")
+    );
+
+    const multisig = new TurnkeyMultisigSigner({
+      publicKeys: [TEST_PUBLIC_KEY],
+      signaturesRequired: 1,
+      network: "devnet",
+    });
+    expect(multisig.getAddress()).toBe(multisig.getAddress("testnet"));
+  });
+
+  it("should derive addresses from the configured address version", () => {
+    const network = createNetwork("testnet", { baseUrl: "http://localhost:20443" });
+    const mainnetVersions = createNetwork("mainnet", { baseUrl: "http://localhost:20443" });
+
+    expect(getAddressFromPublicKey(TEST_PUBLIC_KEY, network)).toMatch(/^ST/);
+    expect(getAddressFromPublicKey(TEST_PUBLIC_KEY, mainnetVersions)).toMatch(/^SP/);
+  });
+
+  it("should use the custom endpoint, headers and fetch", async () => {
+    const nodeFetch = createNodeFetch();
+    const network: StacksNetworkConfig = {
+      baseUrl: "https://stacks.example.com/",
+      chainId: 0x80000000,
+      transactionVersion: 0x80,
+      addressVersion: { singleSig: 26, multiSig: 21 },
+      headers: { "x-api-key": "secret" },
+      fetch: nodeFetch,
+    };
+    const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY, network });
+
+    const { transaction, nonce, fee } = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+    });
+
+    expect(nonce).toBe(7n);
+    expect(fee).toBe(200n);
+    expect(transaction.chainId).toBe(0x80000000);
+    expect(() => transaction.verifyOrigin()).not.toThrow();
+
+    const txid = await broadcastTransaction(transaction, network);
+    expect(txid).toBe(TXID);
+
+    const urls = nodeFetch.mock.calls.map(([input]) => String(input));
+    expect(urls).toEqual([
+      `https://stacks.example.com/extended/v1/address/${signer.getAddress()}/nonces`,
+      "https://stacks.example.com/v2/fees/transaction",
+      "https://stacks.example.com/v2/transactions",
+    ]);
+    for (const [, init] of nodeFetch.mock.calls) {
+      expect(new Headers(init?.headers).get("x-api-key")).toBe("secret");
+    }
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("should sign with the configured chain ID and transaction version", async () => {
+    const network = createNetwork("mainnet", { chainId: 0x00000002 });
+    const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY, network });
+
+    const { transaction } = await signer.signSTXTransfer({
+      recipient: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+      amount: 1_000n,
+      nonce: 0n,
+      fee: 180n,
+    });
+
+    expect(transaction.chainId).toBe(2);
+    expect(transaction.transactionVersion).toBe(0x00);
+    expect(() => transaction.verifyOrigin()).not.toThrow();
+  });
+
+  it("should add headers to built-in networks", async () => {
+    const network = createNetwork("testnet", { headers: { "x-api-key": "secret" } });
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValue(new Response(JSON.stringify({ possible_next_nonce: 3 })));
+    const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY, network });
+
+    const { nonce } = await signer.signSTXTransfer({
+      recipient,
+      amount: 1_000n,
+      fee: 180n,
+    });
+
+    expect(nonce).toBe(3n);
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(String(url)).toMatch(/^https:\/\/api\.testnet\.hiro\.so\//);
+    expect(new Headers(init?.headers).get("x-api-key")).toBe("secret");
+  });
+
+  it("should reject invalid network configurations", () => {
+    expect(
+      () =>
+        new TurnkeySigner({
+          client,
+          publicKey: TEST_PUBLIC_KEY,
+          network: createNetworkConfig({ baseUrl: "localhost:3999" }),
+        })
+    ).toThrow(/Invalid network baseUrl/);
+    expect(() => createNetwork("testnet", { transactionVersion: 1 })).toThrow(
+      /Invalid network transactionVersion/
+    );
+    expect(() => createNetwork("testnet", { addressVersion: { singleSig: 32, multiSig: 21 } })).toThrow(
+      /Invalid network addressVersion/
+    );
+    expect(() => getAddressFromPublicKey(TEST_PUBLIC_KEY, "regtest" as never)).toThrow(
+      /Unknown network/
+    );
+  });
+});
+
+function createNetworkConfig(overrides: Partial<StacksNetworkConfig>): StacksNetworkConfig {
+  return {
+    baseUrl: "http://localhost:3999",
+    chainId: 0x80000000,
+    transactionVersion: 0x80,
+    addressVersion: { singleSig: 26, multiSig: 21 },
+    ...overrides,
+  };
+}
@@ -0,0 +1,236 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import {
+  BroadcastError,
+  InMemoryNonceStore,
+  NonceManager,
+  TurnkeySigner,
+  broadcastTransaction,
+  signAndBroadcastSTXTransfer,
+} from "../index";
+import { createLocalSigningClient, mockApi, TEST_PUBLIC_KEY } from "./helpers";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const TXID = "ab".repeat(32);
+
+// Serves the nonces endpoint and answers broadcasts with `broadcastBody`
+function mockNode(
+  nonces: { possible_next_nonce: number; detected_missing_nonces?: number[] },
+  broadcast: { status: number; body: unknown } = { status: 200, body: TXID }
+) {
+  return mockApi({
+    "/nonces": () => nonces,
+    "/v2/transactions": () =>
+      new Response(JSON.stringify(broadcast.body), { status: broadcast.status }),
+  });
+}
+
+function nonceFetchCount(fetchMock: jest.SpyInstance) {
+  return fetchMock.mock.calls.filter(([input]) => String(input).endsWith("/nonces")).length;
+}
+
+describe("NonceManager", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should hand out sequential nonces to concurrent calls", async () => {
+    const fetchMock = mockNode({ possible_next_nonce: 7 });
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+      nonceManager: new NonceManager(),
+    });
+
+    const results = await Promise.all(
+      [1n, 2n, 3n].map((amount) =>
+        signer.signSTXTransfer({ recipient, amount, fee: 180n })
+      )
+    );
+
+    expect(results.map(({ nonce }) => nonce).sort()).toEqual([7n, 8n, 9n]);
+    expect(nonceFetchCount(fetchMock)).toBe(1);
+  });
+
+  it("should fill missing nonces first", async () => {
+    mockNode({ possible_next_nonce: 10, detected_missing_nonces: [8] });
+    const manager = new NonceManager();
+    const address = "ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+
+    expect(await manager.acquire(address, "testnet")).toBe(8n);
+    expect(await manager.acquire(address, "testnet")).toBe(10n);
+    expect(await manager.acquire(address, "testnet")).toBe(11n);
+  });
+
+  it("should release the nonce when signing fails", async () => {
+    mockNode({ possible_next_nonce: 4 });
+    const client = createLocalSigningClient();
+    client.signRawPayload.mockRejectedValueOnce(new Error("Turnkey unavailable"));
+    const signer = new TurnkeySigner({
+      client,
+      publicKey: TEST_PUBLIC_KEY,
+      nonceManager: new NonceManager(),
+    });
+
+    await expect(
+      signer.signSTXTransfer({ recipient, amount: 1n, fee: 180n })
+    ).rejects.toThrow(/Turnkey unavailable/);
+
+    const { nonce } = await signer.signSTXTransfer({ recipient, amount: 1n, fee: 180n });
+    expect(nonce).toBe(4n);
+  });
+
+  it("should reuse released nonces lowest first", async () => {
+    mockNode({ possible_next_nonce: 0 });
+    const manager = new NonceManager();
+    const address = "ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+
+    for (let i = 0; i < 4; i++) await manager.acquire(address, "testnet");
+    await manager.release(address, 2n, "testnet");
+    await manager.release(address, 1n, "testnet");
+    await manager.release(address, 3n, "testnet");
+
+    // 3 was the top nonce, so 1-3 collapse back into the sequence
+    expect(await manager.acquire(address, "testnet")).toBe(1n);
+    expect(await manager.acquire(address, "testnet")).toBe(2n);
+    expect(await manager.acquire(address, "testnet")).toBe(3n);
+    expect(await manager.acquire(address, "testnet")).toBe(4n);
+  });
+
+  it("should release the nonce when broadcasting fails", async () => {
+    mockNode(
+      { possible_next_nonce: 2 },
+      { status: 400, body: { error: "transaction rejected", reason: "FeeTooLow", txid: TXID } }
+    );
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+      nonceManager: new NonceManager(),
+    });
+
+    const failure = signAndBroadcastSTXTransfer(signer, { recipient, amount: 1n, fee: 1n });
+    await expect(failure).rejects.toBeInstanceOf(BroadcastError);
+    await expect(failure).rejects.toMatchObject({ reason: "FeeTooLow" });
+
+    const { nonce } = await signer.signSTXTransfer({ recipient, amount: 1n, fee: 180n });
+    expect(nonce).toBe(2n);
+  });
+
+  it("should resync after a nonce rejection", async () => {
+    const fetchMock = mockNode(
+      { possible_next_nonce: 5 },
+      {
+        status: 400,
+        body: { error: "transaction rejected", reason: "ConflictingNonceInMempool", txid: TXID },
+      }
+    );
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+      nonceManager: new NonceManager(),
+    });
+
+    await signer.signSTXTransfer({ recipient, amount: 1n, fee: 180n });
+    await expect(
+      signAndBroadcastSTXTransfer(signer, { recipient, amount: 1n, fee: 180n })
+    ).rejects.toMatchObject({ reason: "ConflictingNonceInMempool" });
+    expect(nonceFetchCount(fetchMock)).toBe(1);
+
+    // 5 stays reserved for the first transfer, which was signed but not broadcast
+    const { nonce } = await signer.signSTXTransfer({ recipient, amount: 1n, fee: 180n });
+    expect(nonce).toBe(6n);
+    expect(nonceFetchCount(fetchMock)).toBe(2);
+  });
+
+  it("should not hand out reserved nonces the API reports missing", async () => {
+    const nonces = { possible_next_nonce: 5, detected_missing_nonces: [] as number[] };
+    mockNode(nonces);
+    const manager = new NonceManager({ syncIntervalMs: 0 });
+    const address = "ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+
+    expect(await manager.acquire(address, "testnet")).toBe(5n);
+    expect(await manager.acquire(address, "testnet")).toBe(6n);
+    await manager.confirmBroadcast(address, 6n, "testnet");
+
+    // 6 reached the mempool before 5 was broadcast
+    Object.assign(nonces, { possible_next_nonce: 7, detected_missing_nonces: [5] });
+    expect(await manager.acquire(address, "testnet")).toBe(7n);
+
+    await manager.resync(address, "testnet");
+    expect(await manager.acquire(address, "testnet")).toBe(8n);
+
+    await manager.release(address, 5n, "testnet");
+    expect(await manager.acquire(address, "testnet")).toBe(5n);
+  });
+
+  it("should share nonces through a common store", async () => {
+    mockNode({ possible_next_nonce: 0 });
+    const store = new InMemoryNonceStore();
+    const workers = [new NonceManager({ store }), new NonceManager({ store })];
+    const address = "ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+
+    const nonces = await Promise.all(
+      [0, 1, 0, 1, 0, 1].map((i) => workers[i]!.acquire(address, "testnet"))
+    );
+
+    expect(nonces.sort()).toEqual([0n, 1n, 2n, 3n, 4n, 5n]);
+  });
+
+  it("should not track explicit nonces", async () => {
+    const fetchMock = mockNode({ possible_next_nonce: 9 });
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+      nonceManager: new NonceManager(),
+    });
+
+    const { nonce } = await signer.signSTXTransfer({
+      recipient,
+      amount: 1n,
+      nonce: 3n,
+      fee: 180n,
+    });
+
+    expect(nonce).toBe(3n);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should reject a negative sync interval", () => {
+    expect(() => new NonceManager({ syncIntervalMs: -1 })).toThrow(/Invalid syncIntervalMs/);
+  });
+});
+
+describe("broadcastTransaction", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should throw BroadcastError with the rejection reason", async () => {
+    mockNode(
+      { possible_next_nonce: 0 },
+      {
+        status: 400,
+        body: { error: "transaction rejected", reason: "BadNonce", reason_data: { expected: 1 }, txid: TXID },
+      }
+    );
+    const signer = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+    const { transaction } = await signer.signSTXTransfer({
+      recipient,
+      amount: 1n,
+      nonce: 0n,
+      fee: 180n,
+    });
+
+    const error = await broadcastTransaction(transaction).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BroadcastError);
+    expect(error).toMatchObject({
+      message: "Broadcast failed: transaction rejected (BadNonce)",
+      reason: "BadNonce",
+      reasonData: { expected: 1 },
+      txid: TXID,
+    });
+  });
+});
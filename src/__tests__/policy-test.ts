@@ -0,0 +1,378 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { Cl, Pc, PostConditionMode, privateKeyToPublic } from "@stacks/transactions";
+import {
+  InMemorySpendingStore,
+  InvalidInputError,
+  PolicyViolationError,
+  TurnkeySigner,
+  type SigningPolicy,
+} from "../index";
+import { createLocalSigningClient, signLocally, TEST_PUBLIC_KEY } from "./helpers";
+
+// Local key standing in for a sponsor's Turnkey-held key
+const SPONSOR_PRIVATE_KEY =
+  "9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401";
+const SPONSOR_PUBLIC_KEY = privateKeyToPublic(SPONSOR_PRIVATE_KEY) as string;
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const otherRecipient = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+function createSigner(policy: SigningPolicy, client = createLocalSigningClient()) {
+  return new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY, policy });
+}
+
+describe("signing policy", () => {
+  const call = {
+    contractAddress: recipient,
+    contractName: "market",
+    functionName: "buy",
+    functionArgs: [Cl.uint(1)],
+    fee: 300n,
+    nonce: 0n,
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should reject before anything is sent to Turnkey", async () => {
+    const client = createLocalSigningClient();
+    const signer = createSigner({ maxAmount: 100n }, client);
+
+    const error = await signer
+      .signSTXTransfer({ recipient, amount: 101n, fee: 1n, nonce: 0n })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    expect(error).toMatchObject({ code: "POLICY_VIOLATION", rule: "max-amount" });
+    expect(client.signRawPayload).not.toHaveBeenCalled();
+  });
+
+  describe("recipients", () => {
+    it("should only allow listed recipients", async () => {
+      const signer = createSigner({ allowedRecipients: [recipient] });
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1n, fee: 1n, nonce: 0n })
+      ).resolves.toBeDefined();
+      await expect(
+        signer.signSTXTransfer({ recipient: otherRecipient, amount: 1n, fee: 1n, nonce: 0n })
+      ).rejects.toMatchObject({ rule: "recipient-allowlist" });
+    });
+
+    it("should allow cancellations to listed recipients only", async () => {
+      const signer = createSigner({ allowedRecipients: [recipient] });
+      const { transaction } = await signer.signSTXTransfer({
+        recipient,
+        amount: 1n,
+        fee: 1n,
+        nonce: 0n,
+      });
+
+      await expect(
+        signer.cancelTransaction(transaction, { fee: 10n, recipient })
+      ).resolves.toBeDefined();
+      await expect(signer.cancelTransaction(transaction, { fee: 10n })).rejects.toMatchObject({
+        rule: "recipient-allowlist",
+      });
+    });
+
+    it("should reject denied recipients", async () => {
+      const signer = createSigner({ deniedRecipients: [otherRecipient] });
+
+      await expect(
+        signer.signSTXTransfer({ recipient: otherRecipient, amount: 1n, fee: 1n, nonce: 0n })
+      ).rejects.toMatchObject({ rule: "recipient-denylist" });
+    });
+
+    describe("of contract calls", () => {
+      const token = { tokenContract: `${recipient}.usda-token`, assetName: "usda", amount: 5n };
+      const nft = { nftContract: `${recipient}.badges`, assetName: "badge", tokenId: 1n };
+      const options = { fee: 300n, nonce: 0n };
+
+      it("should reject denied recipients of token and NFT transfers", async () => {
+        const signer = createSigner({ deniedRecipients: [otherRecipient] });
+
+        await expect(
+          signer.signFungibleTokenTransfer({ ...token, ...options, recipient: otherRecipient })
+        ).rejects.toMatchObject({ rule: "recipient-denylist" });
+        await expect(
+          signer.signNonFungibleTokenTransfer({ ...nft, ...options, recipient: otherRecipient })
+        ).rejects.toMatchObject({ rule: "recipient-denylist" });
+        await expect(
+          signer.signFungibleTokenTransfer({ ...token, ...options, recipient })
+        ).resolves.toBeDefined();
+      });
+
+      it("should only allow listed recipients of token and NFT transfers", async () => {
+        const signer = createSigner({ allowedRecipients: [recipient] });
+
+        await expect(
+          signer.signNonFungibleTokenTransfer({ ...nft, ...options, recipient })
+        ).resolves.toBeDefined();
+        await expect(
+          signer.signFungibleTokenTransfer({ ...token, ...options, recipient: otherRecipient })
+        ).rejects.toMatchObject({ rule: "recipient-allowlist" });
+      });
+
+      it("should reject denied principals anywhere in other calls", async () => {
+        const signer = createSigner({ deniedRecipients: [otherRecipient] });
+
+        await expect(
+          signer.signContractCall({
+            ...call,
+            functionName: "send-many",
+            functionArgs: [
+              Cl.list([Cl.tuple({ to: Cl.principal(otherRecipient), amount: Cl.uint(1) })]),
+            ],
+          })
+        ).rejects.toMatchObject({ rule: "recipient-denylist" });
+        await expect(signer.signContractCall(call)).resolves.toBeDefined();
+      });
+
+      it("should reject calls with unknown recipients when recipients are listed", async () => {
+        const signer = createSigner({ allowedRecipients: [recipient] });
+
+        await expect(signer.signContractCall(call)).rejects.toMatchObject({
+          rule: "recipient-allowlist",
+        });
+      });
+    });
+  });
+
+  it("should enforce the maximum fee", async () => {
+    const signer = createSigner({ maxFee: 1_000n });
+
+    await expect(
+      signer.signSTXTransfer({ recipient, amount: 1n, fee: 1_001n, nonce: 0n })
+    ).rejects.toMatchObject({ rule: "max-fee" });
+  });
+
+  it("should restrict networks", async () => {
+    const signer = createSigner({ networks: ["testnet"] });
+
+    await expect(
+      signer.signSTXTransfer({ recipient, amount: 1n, fee: 1n, nonce: 0n, network: "devnet" })
+    ).resolves.toBeDefined();
+    await expect(
+      signer.signSTXTransfer({
+        recipient: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+        amount: 1n,
+        fee: 1n,
+        nonce: 0n,
+        network: "mainnet",
+      })
+    ).rejects.toMatchObject({ rule: "network" });
+  });
+
+  describe("contract calls", () => {
+    it("should only allow listed contracts and functions", async () => {
+      const signer = createSigner({
+        allowedContractCalls: [
+          { contractId: `${recipient}.market`, functions: ["buy"] },
+          { contractId: `${recipient}.counter` },
+        ],
+      });
+
+      await expect(signer.signContractCall(call)).resolves.toBeDefined();
+      await expect(
+        signer.signContractCall({ ...call, contractName: "counter", functionName: "reset" })
+      ).resolves.toBeDefined();
+      await expect(
+        signer.signContractCall({ ...call, functionName: "sell" })
+      ).rejects.toMatchObject({ rule: "contract-allowlist" });
+      await expect(
+        signer.signContractCall({ ...call, contractName: "vault" })
+      ).rejects.toMatchObject({ rule: "contract-allowlist" });
+    });
+
+    it("should require deny mode", async () => {
+      const signer = createSigner({ requireDenyMode: true });
+
+      await expect(
+        signer.signContractCall({ ...call, postConditionMode: PostConditionMode.Allow })
+      ).rejects.toMatchObject({ rule: "post-condition-mode" });
+      await expect(signer.signContractCall(call)).resolves.toBeDefined();
+    });
+
+    it("should count the STX the sender's post-conditions allow", async () => {
+      const signer = createSigner({ maxAmount: 1_000n });
+
+      await expect(
+        signer.signContractCall({
+          ...call,
+          postConditions: [Pc.principal(signer.getAddress()).willSendLte(1_001).ustx()],
+        })
+      ).rejects.toMatchObject({ rule: "max-amount" });
+    });
+
+    it("should require deny mode and bounded post-conditions under amount limits", async () => {
+      const maxAmount = createSigner({ maxAmount: 1_000n });
+      const spending = createSigner({ spendingLimit: { amount: 1_000n, windowMs: 60_000 } });
+      const allowMode = { ...call, postConditionMode: PostConditionMode.Allow };
+
+      // Allow mode could move any amount without a single post-condition
+      await expect(maxAmount.signContractCall(allowMode)).rejects.toMatchObject({
+        rule: "post-condition-mode",
+      });
+      await expect(spending.signContractCall(allowMode)).rejects.toMatchObject({
+        rule: "post-condition-mode",
+      });
+      await expect(
+        maxAmount.signContractCall({
+          ...call,
+          postConditions: [Pc.principal(maxAmount.getAddress()).willSendGte(1).ustx()],
+        })
+      ).rejects.toMatchObject({ rule: "max-amount" });
+      await expect(maxAmount.signContractCall(call)).resolves.toBeDefined();
+    });
+  });
+
+  describe("spending limit", () => {
+    const spendingLimit = { amount: 1_000n, windowMs: 60_000 };
+
+    it("should limit the STX sent within the window", async () => {
+      const signer = createSigner({ spendingLimit });
+
+      await signer.signSTXTransfer({ recipient, amount: 600n, fee: 1n, nonce: 0n });
+      await signer.signSTXTransfer({ recipient, amount: 400n, fee: 1n, nonce: 1n });
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1n, fee: 1n, nonce: 2n })
+      ).rejects.toMatchObject({ rule: "spending-limit" });
+    });
+
+    it("should forget amounts once they leave the window", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_000_000);
+      const signer = createSigner({ spendingLimit });
+
+      await signer.signSTXTransfer({ recipient, amount: 1_000n, fee: 1n, nonce: 0n });
+      now.mockReturnValue(1_000_000 + spendingLimit.windowMs);
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1_000n, fee: 1n, nonce: 1n })
+      ).resolves.toBeDefined();
+    });
+
+    it("should count replacements of a transaction once", async () => {
+      const signer = createSigner({ spendingLimit });
+      const { transaction } = await signer.signSTXTransfer({
+        recipient,
+        amount: 1_000n,
+        fee: 1n,
+        nonce: 0n,
+      });
+
+      await expect(
+        signer.speedUpTransaction(transaction, { newFee: 10n })
+      ).resolves.toBeDefined();
+    });
+
+    it("should give the amount back when signing fails", async () => {
+      const client = createLocalSigningClient();
+      const signer = createSigner({ spendingLimit }, client);
+      client.signRawPayload.mockRejectedValueOnce(new Error("Turnkey unavailable"));
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1_000n, fee: 1n, nonce: 0n })
+      ).rejects.toThrow(/Turnkey unavailable/);
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1_000n, fee: 1n, nonce: 0n })
+      ).resolves.toBeDefined();
+    });
+
+    it("should keep records in the configured store", async () => {
+      const store = new InMemorySpendingStore();
+      const first = createSigner({ spendingLimit, store });
+      const second = createSigner({ spendingLimit, store });
+
+      await first.signSTXTransfer({ recipient, amount: 700n, fee: 1n, nonce: 0n });
+
+      await expect(
+        second.signSTXTransfer({ recipient, amount: 700n, fee: 1n, nonce: 1n })
+      ).rejects.toMatchObject({ rule: "spending-limit" });
+      expect(await store.get(first.getAddress())).toEqual([
+        { nonce: 0n, amount: 700n, signedAt: expect.any(Number) },
+      ]);
+    });
+  });
+
+  it("should check the sponsor's fee but not the sponsored amount", async () => {
+    const origin = new TurnkeySigner({
+      client: createLocalSigningClient(),
+      publicKey: TEST_PUBLIC_KEY,
+    });
+    const sponsor = new TurnkeySigner({
+      client: createLocalSigningClient(SPONSOR_PRIVATE_KEY),
+      publicKey: SPONSOR_PUBLIC_KEY,
+      policy: { maxAmount: 0n, maxFee: 1_000n },
+    });
+    const { transaction } = await origin.signSTXTransfer({
+      recipient,
+      amount: 5_000n,
+      nonce: 0n,
+      sponsored: true,
+    });
+
+    await expect(
+      sponsor.signSponsorship(transaction, { fee: 1_000n, sponsorNonce: 0n })
+    ).resolves.toBeDefined();
+    await expect(
+      sponsor.signSponsorship(transaction, { fee: 1_001n, sponsorNonce: 0n })
+    ).rejects.toMatchObject({ rule: "max-fee" });
+  });
+
+  it("should apply to prepared transactions", async () => {
+    const client = createLocalSigningClient();
+    const signer = createSigner({ maxAmount: 100n }, client);
+    const prepared = await signer.prepareSTXTransfer({
+      recipient,
+      amount: 101n,
+      fee: 1n,
+      nonce: 0n,
+    });
+
+    await expect(signer.requestSignature(prepared)).rejects.toBeInstanceOf(PolicyViolationError);
+    expect(client.signRawPayload).not.toHaveBeenCalled();
+  });
+
+  it("should apply to externally signed prepared transactions", async () => {
+    const limited = createSigner({ maxAmount: 100n });
+    const tooLarge = await limited.prepareSTXTransfer({
+      recipient,
+      amount: 101n,
+      fee: 1n,
+      nonce: 0n,
+    });
+
+    await expect(
+      limited.finalizeTransaction(tooLarge, signLocally(tooLarge.preSignHash))
+    ).rejects.toMatchObject({ rule: "max-amount" });
+
+    const signer = createSigner({ spendingLimit: { amount: 1_000n, windowMs: 60_000 } });
+    const transfer = { recipient, fee: 1n };
+    const external = await signer.prepareSTXTransfer({ ...transfer, amount: 600n, nonce: 0n });
+    const requested = await signer.prepareSTXTransfer({ ...transfer, amount: 400n, nonce: 1n });
+    await signer.finalizeTransaction(external, signLocally(external.preSignHash));
+    const request = await signer.requestSignature(requested);
+    if (request.status !== "completed") throw new Error("expected a signature");
+    await signer.finalizeTransaction(requested, request.signature);
+
+    // 600 + 400 are recorded once each, so the limit is reached
+    await expect(
+      signer.signSTXTransfer({ recipient, amount: 1n, fee: 1n, nonce: 2n })
+    ).rejects.toMatchObject({ rule: "spending-limit" });
+  });
+
+  it("should validate the policy", () => {
+    expect(() => createSigner({ allowedRecipients: ["not-an-address"] })).toThrow(
+      InvalidInputError
+    );
+    expect(() => createSigner({ spendingLimit: { amount: 1n, windowMs: 0 } })).toThrow(
+      /windowMs/
+    );
+    expect(() => createSigner({ allowedContractCalls: [{ contractId: recipient }] })).toThrow(
+      /contract ID/
+    );
+  });
+});
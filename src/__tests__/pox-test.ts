@@ -0,0 +1,367 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { Cl, privateKeyToPublic } from "@stacks/transactions";
+import {
+  InvalidInputError,
+  TurnkeySigner,
+  describeTransaction,
+  getPoxInfo,
+  verifyStructuredDataSignature,
+  type SignedTransactionResult,
+} from "../index";
+import { createLocalSigningClient, mockApi, TEST_PRIVATE_KEY } from "./helpers";
+
+// Local key standing in for a Stacks signer's key
+const SIGNER_KEY_PRIVATE_KEY =
+  "d2a7b2b1e8b4c2bfd54b4b0c5eb3dbf55f4b3a3c2b2c7e6d5f1a9e8c7b6a5d4c01";
+const SIGNER_KEY = privateKeyToPublic(SIGNER_KEY_PRIVATE_KEY) as string;
+
+const HASH_20 = "62e907b15cbf27d5425399ebf6f0fb50ebb88f18";
+const HASH_32 = "1863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262";
+
+// Testnet P2WPKH address of HASH_20
+const POX_ADDRESS = "tb1qvt5s0v2uhuna2sjnn84ldu8m2r4m3rcclfw5ch";
+const POX_ADDRESS_REPR = `(tuple (hashbytes 0x${HASH_20}) (version 0x04))`;
+
+const poolOperator = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+function createSigner(privateKey: string = TEST_PRIVATE_KEY) {
+  return new TurnkeySigner({
+    client: createLocalSigningClient(privateKey),
+    publicKey: privateKeyToPublic(privateKey) as string,
+  });
+}
+
+// Serves /v2/pox for reward cycle 100 (burn blocks 210,000 to 212,099)
+function mockPox(overrides: Record<string, unknown> = {}) {
+  return mockApi({
+    "/v2/pox": () => ({
+      contract_id: "ST000000000000000000002AMW42H.pox-4",
+      first_burnchain_block_height: 0,
+      current_burnchain_block_height: 210_500,
+      min_amount_ustx: 90_000_000_000,
+      prepare_phase_block_length: 100,
+      reward_cycle_length: 2_100,
+      current_cycle: { id: 100 },
+      next_cycle: { id: 101 },
+      ...overrides,
+    }),
+  });
+}
+
+// Arguments of a signed call, decoded from its serialized form
+function callArgs({ transaction }: SignedTransactionResult) {
+  return describeTransaction(transaction.serialize()).functionArgs?.map(({ repr }) => repr);
+}
+
+const authorization = {
+  signerKey: SIGNER_KEY,
+  maxAmount: 200_000_000_000n,
+  authId: 7n,
+};
+
+describe("PoX-4 stacking", () => {
+  const signer = createSigner();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("signStackStx", () => {
+    it("should build stack-stx from the current PoX parameters", async () => {
+      mockPox();
+      const signerSignature = "ab".repeat(65);
+
+      const result = await signer.signStackStx({
+        ...authorization,
+        amount: 100_000_000_000n,
+        poxAddress: POX_ADDRESS,
+        lockPeriod: 6,
+        signerSignature,
+        fee: 1_000n,
+        nonce: 0n,
+      });
+
+      expect(describeTransaction(result.transaction)).toMatchObject({
+        contractId: "ST000000000000000000002AMW42H.pox-4",
+        functionName: "stack-stx",
+      });
+      expect(callArgs(result)).toEqual([
+        "u100000000000",
+        POX_ADDRESS_REPR,
+        "u210500",
+        "u6",
+        `(some 0x${signerSignature})`,
+        `0x${SIGNER_KEY}`,
+        "u200000000000",
+        "u7",
+      ]);
+    });
+
+    it("should check the amount, lock period and start height", async () => {
+      mockPox();
+      const params = {
+        ...authorization,
+        amount: 100_000_000_000n,
+        poxAddress: POX_ADDRESS,
+        lockPeriod: 6,
+        fee: 1_000n,
+        nonce: 0n,
+      };
+
+      await expect(
+        signer.signStackStx({ ...params, amount: 89_999_999_999n })
+      ).rejects.toThrow(/below the minimum of 90000000000 microSTX for cycle 101/);
+      await expect(
+        signer.signStackStx({ ...params, amount: 200_000_000_001n })
+      ).rejects.toThrow(/exceeds the signer's maxAmount/);
+      await expect(signer.signStackStx({ ...params, lockPeriod: 13 })).rejects.toThrow(
+        /lockPeriod/
+      );
+      await expect(
+        signer.signStackStx({ ...params, startBurnHeight: 212_100 })
+      ).rejects.toThrow(/current reward cycle 100/);
+    });
+
+    it("should reject networks without pox-4", async () => {
+      mockPox({ contract_id: "ST000000000000000000002AMW42H.pox-3" });
+
+      await expect(
+        signer.signStackStx({
+          ...authorization,
+          amount: 100_000_000_000n,
+          poxAddress: POX_ADDRESS,
+          lockPeriod: 1,
+        })
+      ).rejects.toThrow(/only pox-4 is supported/);
+    });
+  });
+
+  describe("PoX addresses", () => {
+    it("should encode every supported Bitcoin address type", async () => {
+      mockPox({ contract_id: "SP000000000000000000002Q6VF78.pox-4" });
+      const cases = [
+        ["1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa", "00", HASH_20],
+        ["3Ai1JZ8pdJb2ksieUV8FsxSNVJCpoPi8W6", "01", HASH_20],
+        [
+          "BC1QAR0SRRR7XFKVY5L643LYDNW9RE59GTZZWF5MDQ",
+          "04",
+          "e8df018c7e326cc253faac7e46cdc51e68542c42",
+        ],
+        ["bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3", "05", HASH_32],
+        [
+          "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0",
+          "06",
+          "79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798",
+        ],
+      ];
+
+      for (const [poxAddress, version, hashbytes] of cases) {
+        const result = await signer.signStackExtend({
+          ...authorization,
+          extendCount: 1,
+          poxAddress: poxAddress!,
+          fee: 1_000n,
+          nonce: 0n,
+          network: "mainnet",
+        });
+        expect(callArgs(result)?.[1]).toBe(
+          `(tuple (hashbytes 0x${hashbytes}) (version 0x${version}))`
+        );
+      }
+    });
+
+    it("should accept testnet and regtest addresses on testnet", async () => {
+      mockPox();
+
+      for (const poxAddress of [
+        "mpXwg4jMtRhuSpVq4xS3HFHmCmWp9NyGKt",
+        "2N2GDNJ4rEm6NxfMC9ck8VuRdheQzXWaNZv",
+        "bcrt1prp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qg74mmc",
+      ]) {
+        await expect(
+          signer.signStackExtend({
+            ...authorization,
+            extendCount: 1,
+            poxAddress,
+            fee: 1_000n,
+            nonce: 0n,
+          })
+        ).resolves.toBeDefined();
+      }
+    });
+
+    it("should reject invalid addresses and addresses of the other network", async () => {
+      mockPox();
+      const params = { ...authorization, extendCount: 1, fee: 1_000n, nonce: 0n };
+
+      await expect(
+        signer.signStackExtend({ ...params, poxAddress: "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa" })
+      ).rejects.toThrow(/is for mainnet, but the transaction is for testnet/);
+
+      for (const poxAddress of [
+        "tb1qvt5s0v2uhuna2sjnn84ldu8m2r4m3rcclfw5cq", // bad checksum
+        "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb", // bad checksum
+        "tb1Qvt5s0v2uhuna2sjnn84ldu8m2r4m3rcclfw5ch", // mixed case
+        "not-an-address",
+      ]) {
+        await expect(signer.signStackExtend({ ...params, poxAddress })).rejects.toBeInstanceOf(
+          InvalidInputError
+        );
+      }
+    });
+  });
+
+  describe("other calls", () => {
+    beforeEach(() => {
+      mockPox();
+    });
+
+    it("should build stack-increase", async () => {
+      const result = await signer.signStackIncrease({
+        ...authorization,
+        increaseBy: 5_000n,
+        fee: 1_000n,
+        nonce: 0n,
+      });
+
+      expect(callArgs(result)).toEqual([
+        "u5000",
+        "none",
+        `0x${SIGNER_KEY}`,
+        "u200000000000",
+        "u7",
+      ]);
+    });
+
+    it("should build delegate-stx and check its expiry", async () => {
+      const params = {
+        amount: 1_000n,
+        delegateTo: `${poolOperator}.pool`,
+        fee: 1_000n,
+        nonce: 0n,
+      };
+
+      expect(callArgs(await signer.signDelegateStx(params))).toEqual([
+        "u1000",
+        `${poolOperator}.pool`,
+        "none",
+        "none",
+      ]);
+      expect(
+        callArgs(
+          await signer.signDelegateStx({
+            ...params,
+            untilBurnHeight: 220_000,
+            poxAddress: POX_ADDRESS,
+          })
+        )?.slice(2)
+      ).toEqual(["(some u220000)", `(some ${POX_ADDRESS_REPR})`]);
+      await expect(
+        signer.signDelegateStx({ ...params, untilBurnHeight: 210_500 })
+      ).rejects.toThrow(/untilBurnHeight/);
+    });
+
+    it("should build revoke-delegate-stx", async () => {
+      const result = await signer.signRevokeDelegateStx({ fee: 1_000n, nonce: 0n });
+
+      expect(describeTransaction(result.transaction)).toMatchObject({
+        functionName: "revoke-delegate-stx",
+        functionArgs: [],
+      });
+    });
+
+    it("should build delegate-stack-stx for a pool operator", async () => {
+      const result = await signer.signDelegateStackStx({
+        stacker: poolOperator,
+        amount: 1_000n,
+        poxAddress: POX_ADDRESS,
+        lockPeriod: 1,
+        fee: 1_000n,
+        nonce: 0n,
+      });
+
+      expect(callArgs(result)).toEqual([
+        poolOperator,
+        "u1000",
+        POX_ADDRESS_REPR,
+        "u210500",
+        "u1",
+      ]);
+    });
+
+    it("should commit the next cycle by default", async () => {
+      const params = { ...authorization, poxAddress: POX_ADDRESS, fee: 1_000n, nonce: 0n };
+
+      const result = await signer.signStackAggregationCommit(params);
+
+      expect(callArgs(result)?.slice(0, 2)).toEqual([POX_ADDRESS_REPR, "u101"]);
+      await expect(
+        signer.signStackAggregationCommit({ ...params, rewardCycle: 100 })
+      ).rejects.toThrow(/after the current cycle 100/);
+    });
+  });
+
+  describe("signSignerKeyAuthorization", () => {
+    it("should sign pox-4's signer key message", async () => {
+      const signerKeySigner = createSigner(SIGNER_KEY_PRIVATE_KEY);
+
+      const { signature, publicKey } = await signerKeySigner.signSignerKeyAuthorization({
+        topic: "stack-stx",
+        poxAddress: POX_ADDRESS,
+        rewardCycle: 100,
+        period: 6,
+        maxAmount: 200_000_000_000n,
+        authId: 7n,
+      });
+
+      expect(publicKey).toBe(SIGNER_KEY);
+      expect(signature).toMatch(/^[0-9a-f]{130}$/);
+      expect(
+        verifyStructuredDataSignature({
+          domain: { name: "pox-4-signer", version: "1.0.0", chainId: 0x80000000 },
+          message: Cl.tuple({
+            "pox-addr": Cl.tuple({
+              version: Cl.bufferFromHex("04"),
+              hashbytes: Cl.bufferFromHex(HASH_20),
+            }),
+            "reward-cycle": Cl.uint(100),
+            topic: Cl.stringAscii("stack-stx"),
+            period: Cl.uint(6),
+            "auth-id": Cl.uint(7),
+            "max-amount": Cl.uint(200_000_000_000n),
+          }),
+          signature,
+          publicKey: SIGNER_KEY,
+        })
+      ).toBe(true);
+    });
+
+    it("should validate the topic", async () => {
+      await expect(
+        signer.signSignerKeyAuthorization({
+          topic: "stack-everything" as "stack-stx",
+          poxAddress: POX_ADDRESS,
+          rewardCycle: 100,
+          period: 1,
+          maxAmount: 1n,
+          authId: 1n,
+        })
+      ).rejects.toThrow(/Invalid topic/);
+    });
+  });
+
+  it("getPoxInfo should return the PoX parameters", async () => {
+    mockPox();
+
+    await expect(getPoxInfo()).resolves.toEqual({
+      contractId: "ST000000000000000000002AMW42H.pox-4",
+      currentCycle: 100,
+      nextCycle: 101,
+      minAmountUstx: 90_000_000_000n,
+      rewardCycleLength: 2_100,
+      prepareCycleLength: 100,
+      firstBurnchainBlockHeight: 0,
+      currentBurnchainBlockHeight: 210_500,
+    });
+  });
+});
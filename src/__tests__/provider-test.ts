@@ -0,0 +1,364 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import {
+  AuthType,
+  Cl,
+  deserializeTransaction,
+  makeUnsignedSTXTokenTransfer,
+  privateKeyToPublic,
+  type ContractCallPayload,
+  type TokenTransferPayloadWire,
+} from "@stacks/transactions";
+import {
+  TurnkeySigner,
+  TurnkeyWalletProvider,
+  WalletRpcErrorCode,
+  verifyMessageSignature,
+  verifyStructuredDataSignature,
+  type WalletApprovalRequest,
+} from "../index";
+import { createLocalSigningClient, mockApi, TEST_PRIVATE_KEY, TEST_PUBLIC_KEY } from "./helpers";
+
+// Second local key standing in for another Turnkey-held key
+const OTHER_PRIVATE_KEY =
+  "d2a7b2b1e8b4c2bfd54b4b0c5eb3dbf55f4b3a3c2b2c7e6d5f1a9e8c7b6a5d4c01";
+const OTHER_PUBLIC_KEY = privateKeyToPublic(OTHER_PRIVATE_KEY) as string;
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+function createSigner(privateKey = TEST_PRIVATE_KEY) {
+  const client = createLocalSigningClient(privateKey);
+  const signer = new TurnkeySigner({ client, publicKey: privateKeyToPublic(privateKey) as string });
+  return { client, signer };
+}
+
+// Accepts every broadcast and echoes the txid; nonces start at 3
+function mockNode(
+  broadcast: (tx: string) => Response = (tx) =>
+    new Response(JSON.stringify(deserializeTransaction(tx).txid()))
+) {
+  const broadcasts: string[] = [];
+  const fetchMock = mockApi({
+    "/nonces": () => ({ possible_next_nonce: 3 }),
+    "/v2/transactions": (_url, init) => {
+      const { tx } = JSON.parse(String(init?.body)) as { tx: string };
+      broadcasts.push(tx);
+      return broadcast(tx);
+    },
+  });
+  return { fetchMock, broadcasts };
+}
+
+describe("TurnkeyWalletProvider", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should require at least one signer", () => {
+    expect(() => new TurnkeyWalletProvider({ signers: [] })).toThrow(/at least one signer/);
+  });
+
+  describe("stx_getAddresses", () => {
+    it("should list every account without asking for approval", async () => {
+      const onApprove = jest.fn(() => true);
+      const provider = new TurnkeyWalletProvider({
+        signers: [createSigner().signer, createSigner(OTHER_PRIVATE_KEY).signer],
+        onApprove,
+      });
+
+      const response = await provider.request({
+        jsonrpc: "2.0",
+        id: "1",
+        method: "stx_getAddresses",
+        params: { network: "mainnet" },
+      });
+
+      expect(response).toMatchObject({ jsonrpc: "2.0", id: "1" });
+      expect(response.result.addresses.map((entry) => entry.publicKey)).toEqual([
+        TEST_PUBLIC_KEY,
+        OTHER_PUBLIC_KEY,
+      ]);
+      expect(response.result.addresses.every((entry) => entry.address.startsWith("SP"))).toBe(
+        true
+      );
+      expect(onApprove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stx_transferStx", () => {
+    it("should sign and broadcast a transfer after approval", async () => {
+      const { broadcasts } = mockNode();
+      const { signer } = createSigner();
+      const approvals: WalletApprovalRequest[] = [];
+      const provider = new TurnkeyWalletProvider({
+        signers: [signer],
+        onApprove: (request) => {
+          approvals.push(request);
+          return true;
+        },
+      });
+
+      const { id, result } = await provider.request("stx_transferStx", {
+        recipient,
+        amount: "1000",
+        memo: "hello",
+        fee: 200,
+      });
+
+      expect(id).toBeNull();
+      expect(broadcasts).toEqual([result.transaction]);
+      const transaction = deserializeTransaction(result.transaction);
+      expect(result.txid).toBe(transaction.txid());
+      expect((transaction.payload as TokenTransferPayloadWire).amount).toBe(1000n);
+      expect(transaction.auth.spendingCondition.nonce).toBe(3n);
+      expect(approvals).toEqual([
+        {
+          method: "stx_transferStx",
+          params: { recipient, amount: "1000", memo: "hello", fee: 200 },
+          address: signer.getAddress(),
+          publicKey: TEST_PUBLIC_KEY,
+          network: "testnet",
+        },
+      ]);
+    });
+
+    it("should reject with a user rejection error when approval is declined", async () => {
+      const { fetchMock } = mockNode();
+      const { client, signer } = createSigner();
+      const provider = new TurnkeyWalletProvider({ signers: [signer], onApprove: () => false });
+
+      await expect(
+        provider.request({ id: 7, method: "stx_transferStx", params: { recipient, amount: 1 } })
+      ).rejects.toEqual({
+        jsonrpc: "2.0",
+        id: 7,
+        error: { code: WalletRpcErrorCode.UserRejection, message: "User rejected the request" },
+      });
+      expect(client.signRawPayload).not.toHaveBeenCalled();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should sign with the account named by address", async () => {
+      mockNode();
+      const first = createSigner();
+      const second = createSigner(OTHER_PRIVATE_KEY);
+      const provider = new TurnkeyWalletProvider({ signers: [first.signer, second.signer] });
+
+      await provider.request("stx_transferStx", {
+        recipient,
+        amount: 1,
+        fee: 200,
+        nonce: 0,
+        address: second.signer.getAddress(),
+      });
+
+      expect(first.client.signRawPayload).not.toHaveBeenCalled();
+      expect(second.client.signRawPayload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report invalid params", async () => {
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      await expect(
+        provider.request("stx_transferStx", { recipient, amount: "1.5" })
+      ).rejects.toMatchObject({
+        error: {
+          code: WalletRpcErrorCode.InvalidParams,
+          message: expect.stringMatching(/Invalid amount/),
+          data: { code: "INVALID_INPUT" },
+        },
+      });
+      await expect(
+        provider.request("stx_transferStx", { recipient, amount: 1, address: recipient })
+      ).rejects.toMatchObject({ error: { code: WalletRpcErrorCode.InvalidParams } });
+    });
+
+    it("should report broadcast rejections with the node's reason", async () => {
+      mockNode(
+        () =>
+          new Response(
+            JSON.stringify({ error: "transaction rejected", reason: "NotEnoughFunds" }),
+            { status: 400 }
+          )
+      );
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      await expect(
+        provider.request("stx_transferStx", { recipient, amount: 1, fee: 200, nonce: 0 })
+      ).rejects.toMatchObject({
+        error: {
+          code: WalletRpcErrorCode.InternalError,
+          data: { code: "BROADCAST_REJECTED", reason: "NotEnoughFunds" },
+        },
+      });
+    });
+  });
+
+  describe("stx_callContract", () => {
+    it("should decode hex arguments and broadcast the call", async () => {
+      const { broadcasts } = mockNode();
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      const { result } = await provider.request("stx_callContract", {
+        contract: `${recipient}.counter`,
+        functionName: "increment",
+        functionArgs: [Cl.serialize(Cl.uint(5)), Cl.bool(true)],
+        fee: "300",
+      });
+
+      expect(broadcasts).toHaveLength(1);
+      const payload = deserializeTransaction(result.transaction).payload as ContractCallPayload;
+      expect(payload.contractName.content).toBe("counter");
+      expect(payload.functionArgs).toEqual([Cl.uint(5), Cl.bool(true)]);
+    });
+
+    it("should return sponsored calls without broadcasting them", async () => {
+      const { fetchMock } = mockNode();
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      const { result } = await provider.request("stx_callContract", {
+        contract: `${recipient}.counter`,
+        functionName: "increment",
+        sponsored: true,
+        nonce: 0,
+      });
+
+      expect(result.txid).toBeUndefined();
+      expect(deserializeTransaction(result.transaction).auth.authType).toBe(AuthType.Sponsored);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should reject malformed contract identifiers", async () => {
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      await expect(
+        provider.request("stx_callContract", { contract: "counter", functionName: "increment" })
+      ).rejects.toMatchObject({ error: { code: WalletRpcErrorCode.InvalidParams } });
+    });
+  });
+
+  describe("stx_signTransaction", () => {
+    async function unsignedTransfer(publicKey: string) {
+      const transaction = await makeUnsignedSTXTokenTransfer({
+        recipient,
+        amount: 1n,
+        fee: 200n,
+        nonce: 0n,
+        publicKey,
+        network: "testnet",
+      });
+      return transaction.serialize();
+    }
+
+    it("should sign with the account owning the origin", async () => {
+      const first = createSigner();
+      const second = createSigner(OTHER_PRIVATE_KEY);
+      const provider = new TurnkeyWalletProvider({ signers: [first.signer, second.signer] });
+
+      const { result } = await provider.request("stx_signTransaction", {
+        transaction: await unsignedTransfer(OTHER_PUBLIC_KEY),
+      });
+
+      expect(result.txid).toBeUndefined();
+      expect(deserializeTransaction(result.transaction).verifyOrigin()).toBeDefined();
+      expect(first.client.signRawPayload).not.toHaveBeenCalled();
+    });
+
+    it("should broadcast when asked to", async () => {
+      const { broadcasts } = mockNode();
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      const { result } = await provider.request("stx_signTransaction", {
+        transaction: await unsignedTransfer(TEST_PUBLIC_KEY),
+        broadcast: true,
+      });
+
+      expect(broadcasts).toEqual([result.transaction]);
+      expect(result.txid).toBe(deserializeTransaction(result.transaction).txid());
+    });
+
+    it("should reject transactions from unknown origins", async () => {
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      await expect(
+        provider.request("stx_signTransaction", {
+          transaction: await unsignedTransfer(OTHER_PUBLIC_KEY),
+        })
+      ).rejects.toMatchObject({
+        error: {
+          code: WalletRpcErrorCode.InvalidParams,
+          message: expect.stringMatching(/No account/),
+        },
+      });
+    });
+  });
+
+  describe("message signing", () => {
+    it("should sign messages", async () => {
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      const { result } = await provider.request("stx_signMessage", { message: "Hello" });
+
+      expect(result.publicKey).toBe(TEST_PUBLIC_KEY);
+      expect(
+        verifyMessageSignature({
+          message: "Hello",
+          signature: result.signature,
+          publicKey: TEST_PUBLIC_KEY,
+        })
+      ).toBe(true);
+    });
+
+    it("should sign structured messages given as hex", async () => {
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+      const domain = Cl.tuple({
+        name: Cl.stringAscii("My App"),
+        version: Cl.stringAscii("1.0.0"),
+        "chain-id": Cl.uint(2147483648),
+      });
+      const message = Cl.tuple({ action: Cl.stringAscii("login") });
+
+      const { result } = await provider.request("stx_signStructuredMessage", {
+        domain: Cl.serialize(domain),
+        message: Cl.serialize(message),
+      });
+
+      expect(
+        verifyStructuredDataSignature({
+          domain,
+          message,
+          signature: result.signature,
+          publicKey: TEST_PUBLIC_KEY,
+        })
+      ).toBe(true);
+    });
+
+    it("should reject a domain that is not a tuple", async () => {
+      const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+
+      await expect(
+        provider.request("stx_signStructuredMessage", {
+          domain: Cl.serialize(Cl.uint(1)),
+          message: Cl.uint(1),
+        })
+      ).rejects.toMatchObject({ error: { code: WalletRpcErrorCode.InvalidParams } });
+    });
+  });
+
+  it("should report unknown methods and malformed requests", async () => {
+    const provider = new TurnkeyWalletProvider({ signers: [createSigner().signer] });
+    const untyped = provider as unknown as {
+      request(request: unknown, params?: unknown): Promise<unknown>;
+    };
+
+    await expect(untyped.request({ id: 1, method: "stx_deployContract" })).rejects.toMatchObject({
+      id: 1,
+      error: { code: WalletRpcErrorCode.MethodNotFound },
+    });
+    await expect(untyped.request({ params: {} })).rejects.toMatchObject({
+      error: { code: WalletRpcErrorCode.InvalidRequest },
+    });
+    await expect(untyped.request("stx_signMessage", "Hello")).rejects.toMatchObject({
+      error: { code: WalletRpcErrorCode.InvalidParams },
+    });
+  });
+});
@@ -0,0 +1,319 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { makeSTXTokenTransfer } from "@stacks/transactions";
+import {
+  ApiRequestError,
+  BroadcastError,
+  InvalidInputError,
+  NonceFetchError,
+  SigningError,
+  SigningKeyNotFoundError,
+  TurnkeySigner,
+  broadcastTransaction,
+} from "../index";
+import { createLocalSigningClient, TEST_PRIVATE_KEY, TEST_PUBLIC_KEY } from "./helpers";
+
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+// Retry immediately so tests do not wait
+const FAST_RETRY = { maxAttempts: 3, initialDelayMs: 0, jitter: false };
+
+// Answers each request with the next response; the last one repeats
+function mockResponses(...responses: (() => Response | Promise<Response>)[]) {
+  let call = 0;
+  return jest.spyOn(global, "fetch").mockImplementation(async () => {
+    const respond = responses[Math.min(call, responses.length - 1)]!;
+    call += 1;
+    return respond();
+  });
+}
+
+function json(body: unknown, init: ResponseInit = {}) {
+  return () => new Response(JSON.stringify(body), init);
+}
+
+function signedTransfer() {
+  return makeSTXTokenTransfer({
+    recipient,
+    amount: 1n,
+    fee: 200n,
+    nonce: 0n,
+    senderKey: TEST_PRIVATE_KEY,
+    network: "testnet",
+  });
+}
+
+describe("retry", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Stacks API requests", () => {
+    it("should retry retryable statuses until the request succeeds", async () => {
+      const fetchMock = mockResponses(
+        json({}, { status: 503 }),
+        json({}, { status: 502 }),
+        json({ possible_next_nonce: 4 })
+      );
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+        retry: FAST_RETRY,
+      });
+
+      const { nonce } = await signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n });
+
+      expect(nonce).toBe(4n);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      const fetchMock = mockResponses(json({}, { status: 503 }));
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+        retry: FAST_RETRY,
+      });
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n })
+      ).rejects.toBeInstanceOf(NonceFetchError);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry client errors", async () => {
+      const fetchMock = mockResponses(json({ error: "bad address" }, { status: 400 }));
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+        retry: FAST_RETRY,
+      });
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n })
+      ).rejects.toMatchObject({ code: "NONCE_FETCH_FAILED", status: 400 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should make a single attempt by default", async () => {
+      const fetchMock = mockResponses(json({}, { status: 503 }));
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+      });
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n })
+      ).rejects.toBeInstanceOf(NonceFetchError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait for Retry-After instead of the backoff delay", async () => {
+      // A one minute backoff would time the test out; Retry-After: 0 wins
+      mockResponses(
+        json({}, { status: 429, headers: { "Retry-After": "0" } }),
+        json({ possible_next_nonce: 1 })
+      );
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+        retry: { maxAttempts: 2, initialDelayMs: 60_000, maxDelayMs: 60_000, jitter: false },
+      });
+
+      const { nonce } = await signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n });
+
+      expect(nonce).toBe(1n);
+    });
+
+    it("should expose the Retry-After delay on the error", async () => {
+      mockResponses(json({}, { status: 429, headers: { "Retry-After": "7" } }));
+      const signer = new TurnkeySigner({
+        client: createLocalSigningClient(),
+        publicKey: TEST_PUBLIC_KEY,
+      });
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n })
+      ).rejects.toMatchObject({ status: 429, retryAfterMs: 7_000 });
+    });
+  });
+
+  describe("Turnkey signing", () => {
+    it("should retry transient client failures", async () => {
+      const client = createLocalSigningClient();
+      client.signRawPayload.mockRejectedValueOnce(new TypeError("fetch failed"));
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY, retry: FAST_RETRY });
+
+      const { transaction } = await signer.signSTXTransfer({
+        recipient,
+        amount: 1n,
+        fee: 200n,
+        nonce: 0n,
+      });
+
+      expect(transaction.verifyOrigin()).toBeDefined();
+      expect(client.signRawPayload).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry a missing signing key", async () => {
+      const client = createLocalSigningClient();
+      client.signRawPayload.mockRejectedValue(
+        new Error("Could not find any resource to sign with")
+      );
+      const signer = new TurnkeySigner({ client, publicKey: TEST_PUBLIC_KEY, retry: FAST_RETRY });
+
+      await expect(
+        signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n, nonce: 0n })
+      ).rejects.toBeInstanceOf(SigningKeyNotFoundError);
+      expect(client.signRawPayload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should time out slow signing attempts and retry them", async () => {
+      const client = createLocalSigningClient();
+      client.signRawPayload.mockImplementationOnce(() => new Promise(() => {}));
+      const signer = new TurnkeySigner({
+        client,
+        publicKey: TEST_PUBLIC_KEY,
+        retry: { ...FAST_RETRY, signingTimeoutMs: 20 },
+      });
+
+      await signer.signSTXTransfer({ recipient, amount: 1n, fee: 200n, nonce: 0n });
+
+      expect(client.signRawPayload).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw SIGNING_TIMEOUT once attempts run out", async () => {
+      const client = createLocalSigningClient();
+      client.signRawPayload.mockImplementation(() => new Promise(() => {}));
+      const signer = new TurnkeySigner({
+        client,
+        publicKey: TEST_PUBLIC_KEY,
+        retry: { signingTimeoutMs: 20 },
+      });
+
+      const error = await signer
+        .signSTXTransfer({ recipient, amount: 1n, fee: 200n, nonce: 0n })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SigningError);
+      expect(error).toMatchObject({ code: "SIGNING_TIMEOUT" });
+    });
+  });
+
+  describe("broadcastTransaction", () => {
+    it("should retry rate limited broadcasts", async () => {
+      const transaction = await signedTransfer();
+      const fetchMock = mockResponses(
+        () => new Response("Too Many Requests", { status: 429 }),
+        json(transaction.txid())
+      );
+
+      const txid = await broadcastTransaction(transaction, "testnet", { retry: FAST_RETRY });
+
+      expect(txid).toBe(transaction.txid());
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should treat a transaction already in the mempool as broadcast", async () => {
+      const transaction = await signedTransfer();
+      const fetchMock = jest.spyOn(global, "fetch").mockImplementation(async (input) => {
+        const url = String(input);
+        if (url.endsWith("/v2/transactions")) {
+          return new Response(
+            JSON.stringify({
+              error: "transaction rejected",
+              reason: "ConflictingNonceInMempool",
+              txid: transaction.txid(),
+            }),
+            { status: 400 }
+          );
+        }
+        if (url.endsWith(`/extended/v1/tx/0x${transaction.txid()}`)) {
+          return new Response(JSON.stringify({ tx_id: transaction.txid(), tx_status: "pending" }));
+        }
+        throw new Error(`Unexpected request: ${url}`);
+      });
+
+      const txid = await broadcastTransaction(transaction, "testnet");
+
+      expect(txid).toBe(transaction.txid());
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep the conflict when the API does not know the transaction", async () => {
+      const transaction = await signedTransfer();
+      jest.spyOn(global, "fetch").mockImplementation(async (input) =>
+        String(input).endsWith("/v2/transactions")
+          ? new Response(
+              JSON.stringify({ error: "transaction rejected", reason: "ConflictingNonceInMempool" }),
+              { status: 400 }
+            )
+          : new Response("not found", { status: 404 })
+      );
+
+      await expect(broadcastTransaction(transaction, "testnet")).rejects.toMatchObject({
+        reason: "ConflictingNonceInMempool",
+      });
+    });
+
+    it("should not retry node rejections", async () => {
+      const transaction = await signedTransfer();
+      const fetchMock = mockResponses(
+        json({ error: "transaction rejected", reason: "NotEnoughFunds" }, { status: 400 })
+      );
+
+      await expect(
+        broadcastTransaction(transaction, "testnet", { retry: FAST_RETRY })
+      ).rejects.toBeInstanceOf(BroadcastError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report server errors as ApiRequestError", async () => {
+      const transaction = await signedTransfer();
+      mockResponses(json({ message: "unavailable" }, { status: 503 }));
+
+      await expect(broadcastTransaction(transaction, "testnet")).rejects.toMatchObject({
+        name: "ApiRequestError",
+        code: "API_REQUEST_FAILED",
+        status: 503,
+      });
+    });
+
+    it("should time out slow broadcasts", async () => {
+      const transaction = await signedTransfer();
+      jest.spyOn(global, "fetch").mockImplementation(
+        (_input, init) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => {
+              reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+            });
+          })
+      );
+
+      const error = await broadcastTransaction(transaction, "testnet", {
+        retry: { timeoutMs: 20 },
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error).toMatchObject({ code: "API_TIMEOUT", timedOut: true });
+    });
+  });
+
+  it("should reject invalid retry options", () => {
+    expect(
+      () =>
+        new TurnkeySigner({
+          client: createLocalSigningClient(),
+          publicKey: TEST_PUBLIC_KEY,
+          retry: { maxAttempts: 0 },
+        })
+    ).toThrow(InvalidInputError);
+    expect(
+      () =>
+        new TurnkeySigner({
+          client: createLocalSigningClient(),
+          publicKey: TEST_PUBLIC_KEY,
+          retry: { backoffMultiplier: 0.5 },
+        })
+    ).toThrow(/backoffMultiplier/);
+  });
+});
@@ -0,0 +1,267 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import { Cl, type ClarityValue } from "@stacks/transactions";
+import {
+  ApiRequestError,
+  InvalidInputError,
+  TurnkeySigner,
+  describeTransaction,
+  getFungibleTokenInfo,
+  getNonFungibleTokenOwner,
+} from "../index";
+import { createLocalSigningClient, mockApi, TEST_PUBLIC_KEY } from "./helpers";
+
+const tokenContract = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usda-token";
+const nftContract = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.badges";
+const recipient = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+// Answers the token's read-only getters
+function mockToken(results: Record<string, ClarityValue>) {
+  return mockApi({
+    ...Object.fromEntries(
+      Object.entries(results).map(([name, result]) => [
+        `/${name}`,
+        () => ({ okay: true, result: `0x${Cl.serialize(result)}` }),
+      ])
+    ),
+    "": () => ({ okay: false, cause: "Unchecked(NoSuchPublicFunction)" }),
+  });
+}
+
+describe("tokens", () => {
+  const signer = new TurnkeySigner({
+    client: createLocalSigningClient(),
+    publicKey: TEST_PUBLIC_KEY,
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("signFungibleTokenTransfer", () => {
+    it("should call transfer with an exact deny-mode post-condition", async () => {
+      const { transaction } = await signer.signFungibleTokenTransfer({
+        tokenContract,
+        assetName: "usda",
+        recipient,
+        amount: 2_500n,
+        memo: "invoice 42",
+        fee: 1_000n,
+        nonce: 0n,
+      });
+
+      const description = describeTransaction(transaction);
+      expect(description).toMatchObject({
+        type: "contract-call",
+        contractId: tokenContract,
+        functionName: "transfer",
+        postConditionMode: "deny",
+        functionArgs: [
+          { type: "uint", repr: "u2500" },
+          { type: "address", repr: signer.getAddress() },
+          { type: "address", repr: recipient },
+          { type: "some", repr: "(some 0x696e766f696365203432)" },
+        ],
+      });
+      expect(description.postConditions).toEqual([
+        expect.objectContaining({
+          type: "ft",
+          principal: signer.getAddress(),
+          condition: "eq",
+          amount: "2500",
+          asset: `${tokenContract}::usda`,
+        }),
+      ]);
+    });
+
+    it("should convert display amounts with the token's decimals", async () => {
+      const fetchMock = mockToken({ "get-decimals": Cl.ok(Cl.uint(6)) });
+
+      const { transaction } = await signer.signFungibleTokenTransfer({
+        tokenContract,
+        assetName: "usda",
+        recipient,
+        amount: "1.5",
+        fee: 1_000n,
+        nonce: 0n,
+      });
+
+      expect(describeTransaction(transaction).functionArgs?.[0]?.repr).toBe("u1500000");
+      expect(describeTransaction(transaction).functionArgs?.[3]?.repr).toBe("none");
+      expect(String(fetchMock.mock.calls[0]![0])).toBe(
+        "https://api.testnet.hiro.so/v2/contracts/call-read/" +
+          "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM/usda-token/get-decimals"
+      );
+    });
+
+    it("should use the given decimals without reading the token", async () => {
+      const fetchMock = mockToken({});
+
+      const { transaction } = await signer.signFungibleTokenTransfer({
+        tokenContract,
+        assetName: "usda",
+        recipient,
+        amount: "0.25",
+        decimals: 8,
+        fee: 1_000n,
+        nonce: 0n,
+      });
+
+      expect(describeTransaction(transaction).functionArgs?.[0]?.repr).toBe("u25000000");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should reject amounts with more places than the token has", async () => {
+      await expect(
+        signer.signFungibleTokenTransfer({
+          tokenContract,
+          assetName: "usda",
+          recipient,
+          amount: "1.0000001",
+          decimals: 6,
+          fee: 1_000n,
+          nonce: 0n,
+        })
+      ).rejects.toThrow(/more than the token's 6 decimal places/);
+    });
+
+    it("should validate the parameters", async () => {
+      const params = {
+        tokenContract,
+        assetName: "usda",
+        recipient,
+        amount: 1n,
+        fee: 1n,
+        nonce: 0n,
+      };
+
+      for (const invalid of [
+        { tokenContract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM" },
+        { assetName: "" },
+        { recipient: "not-an-address" },
+        { amount: 0n },
+        { amount: "-1" },
+        { memo: "x".repeat(35) },
+      ]) {
+        await expect(
+          signer.signFungibleTokenTransfer({ ...params, ...invalid })
+        ).rejects.toBeInstanceOf(InvalidInputError);
+      }
+    });
+  });
+
+  describe("signNonFungibleTokenTransfer", () => {
+    const params = { nftContract, assetName: "badge", recipient, fee: 1_000n, nonce: 0n };
+
+    it("should call transfer with a deny-mode post-condition for the token", async () => {
+      const { transaction } = await signer.signNonFungibleTokenTransfer({
+        ...params,
+        tokenId: 42n,
+      });
+
+      const description = describeTransaction(transaction);
+      expect(description).toMatchObject({
+        contractId: nftContract,
+        functionName: "transfer",
+        postConditionMode: "deny",
+        functionArgs: [
+          { type: "uint", repr: "u42" },
+          { type: "address", repr: signer.getAddress() },
+          { type: "address", repr: recipient },
+        ],
+      });
+      expect(description.postConditions).toEqual([
+        expect.objectContaining({
+          type: "nft",
+          principal: signer.getAddress(),
+          condition: "sent",
+          asset: `${nftContract}::badge`,
+          assetId: { type: "uint", repr: "u42" },
+        }),
+      ]);
+    });
+
+    it("should encode token IDs by type", async () => {
+      const cases = [
+        { tokenId: 7, repr: "u7" },
+        { tokenId: Cl.stringUtf8("gold"), repr: 'u"gold"' },
+        { tokenId: new Uint8Array([1, 2]), repr: "0x0102" },
+        { tokenId: Cl.int(-1), repr: "-1" },
+      ];
+
+      for (const { tokenId, repr } of cases) {
+        const { transaction } = await signer.signNonFungibleTokenTransfer({ ...params, tokenId });
+        expect(describeTransaction(transaction).functionArgs?.[0]?.repr).toBe(repr);
+      }
+    });
+
+    it("should not guess the string type of token IDs", async () => {
+      await expect(
+        signer.signNonFungibleTokenTransfer({ ...params, tokenId: "gold" as never })
+      ).rejects.toThrow(/Cl.stringAscii or Cl.stringUtf8/);
+    });
+
+    it("should check ownership when asked", async () => {
+      const fetchMock = mockToken({ "get-owner": Cl.ok(Cl.some(Cl.principal(recipient))) });
+
+      await expect(
+        signer.signNonFungibleTokenTransfer({ ...params, tokenId: 1n, checkOwnership: true })
+      ).rejects.toThrow(`is owned by ${recipient}, not the sender`);
+      expect(JSON.parse(String(fetchMock.mock.calls[0]![1]?.body))).toEqual({
+        sender: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+        arguments: [`0x${Cl.serialize(Cl.uint(1))}`],
+      });
+
+      fetchMock.mockRestore();
+      mockToken({ "get-owner": Cl.ok(Cl.some(Cl.principal(signer.getAddress()))) });
+
+      await expect(
+        signer.signNonFungibleTokenTransfer({ ...params, tokenId: 1n, checkOwnership: true })
+      ).resolves.toBeDefined();
+    });
+
+    it("should not read the owner by default", async () => {
+      const fetchMock = mockToken({});
+
+      await signer.signNonFungibleTokenTransfer({ ...params, tokenId: 1n });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid token IDs", async () => {
+      for (const tokenId of [-1, 1.5, -1n]) {
+        await expect(
+          signer.signNonFungibleTokenTransfer({ ...params, tokenId })
+        ).rejects.toBeInstanceOf(InvalidInputError);
+      }
+    });
+  });
+
+  describe("getFungibleTokenInfo", () => {
+    it("should read the decimals and symbol", async () => {
+      mockToken({
+        "get-decimals": Cl.ok(Cl.uint(6)),
+        "get-symbol": Cl.ok(Cl.stringAscii("USDA")),
+      });
+
+      await expect(getFungibleTokenInfo(tokenContract)).resolves.toEqual({
+        contractId: tokenContract,
+        decimals: 6,
+        symbol: "USDA",
+      });
+    });
+
+    it("should reject contracts that are not SIP-010 tokens", async () => {
+      mockToken({ "get-decimals": Cl.error(Cl.uint(1)) });
+
+      await expect(getFungibleTokenInfo(tokenContract)).rejects.toBeInstanceOf(ApiRequestError);
+    });
+  });
+
+  describe("getNonFungibleTokenOwner", () => {
+    it("should return undefined for tokens that do not exist", async () => {
+      mockToken({ "get-owner": Cl.ok(Cl.none()) });
+
+      await expect(getNonFungibleTokenOwner(nftContract, 99n)).resolves.toBeUndefined();
+    });
+  });
+});
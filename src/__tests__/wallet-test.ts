@@ -0,0 +1,272 @@
+// Note: this is a computational test: not a live Turnkey API demo test.
+import {
+  addressFromVersionHash,
+  addressToString,
+  privateKeyToPublic,
+  uncompressPublicKey,
+} from "@stacks/transactions";
+import {
+  InvalidInputError,
+  SigningError,
+  TurnkeySigner,
+  enumerateAccounts,
+  getAddressFromPublicKey,
+  type TurnkeyWalletAccount,
+} from "../index";
+import { createLocalSigningClient } from "./helpers";
+
+// Local keys standing in for keys derived in a Turnkey wallet
+const ACCOUNT_0_PRIVATE_KEY =
+  "edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01";
+const ACCOUNT_1_PRIVATE_KEY =
+  "d2a7b2b1e8b4c2bfd54b4b0c5eb3dbf55f4b3a3c2b2c7e6d5f1a9e8c7b6a5d4c01";
+const ACCOUNT_0_PUBLIC_KEY = privateKeyToPublic(ACCOUNT_0_PRIVATE_KEY) as string;
+const ACCOUNT_1_PUBLIC_KEY = privateKeyToPublic(ACCOUNT_1_PRIVATE_KEY) as string;
+
+function account(
+  path: string,
+  publicKey: string,
+  overrides: Partial<TurnkeyWalletAccount> = {}
+): TurnkeyWalletAccount {
+  return {
+    walletAccountId: `account-${path}`,
+    walletId: "wallet-1",
+    curve: "CURVE_SECP256K1",
+    pathFormat: "PATH_FORMAT_BIP32",
+    path,
+    addressFormat: "ADDRESS_FORMAT_COMPRESSED",
+    address: publicKey,
+    ...overrides,
+  };
+}
+
+// Serves wallet accounts in pages like getWalletAccounts
+function createWalletClient(accounts: TurnkeyWalletAccount[]) {
+  return {
+    ...createLocalSigningClient(ACCOUNT_0_PRIVATE_KEY),
+    getWalletAccounts: jest.fn(
+      async ({ paginationOptions }: { paginationOptions?: { after?: string } }) => {
+        const start = paginationOptions?.after
+          ? accounts.findIndex((a) => a.walletAccountId === paginationOptions.after) + 1
+          : 0;
+        return { accounts: accounts.slice(start, start + 100) };
+      }
+    ),
+    createWalletAccounts: jest.fn(
+      async ({ accounts: requested }: { accounts: { path: string }[] }) => {
+        accounts.push(...requested.map(({ path }) => account(path, ACCOUNT_1_PUBLIC_KEY)));
+        return { addresses: [ACCOUNT_1_PUBLIC_KEY] };
+      }
+    ),
+  };
+}
+
+describe("Turnkey wallets", () => {
+  describe("TurnkeySigner.fromWallet", () => {
+    it("should use the account at the Stacks derivation path", async () => {
+      const client = createWalletClient([
+        account("m/44'/60'/0'/0/0", ACCOUNT_1_PUBLIC_KEY, {
+          addressFormat: "ADDRESS_FORMAT_ETHEREUM",
+        }),
+        account("m/44'/5757'/0'/0/0", ACCOUNT_0_PUBLIC_KEY),
+      ]);
+
+      const signer = await TurnkeySigner.fromWallet({
+        client,
+        organizationId: "org-1",
+        walletId: "wallet-1",
+      });
+
+      expect(signer.getPublicKey()).toBe(ACCOUNT_0_PUBLIC_KEY);
+      expect(signer.organizationId).toBe("org-1");
+      expect(client.getWalletAccounts).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: "org-1", walletId: "wallet-1" })
+      );
+      expect(client.createWalletAccounts).not.toHaveBeenCalled();
+    });
+
+    it("should read the public key reported for other address formats", async () => {
+      const client = createWalletClient([
+        account("m/44'/5757'/0'/0/0", ACCOUNT_0_PUBLIC_KEY, {
+          addressFormat: "ADDRESS_FORMAT_UNCOMPRESSED",
+          address: uncompressPublicKey(ACCOUNT_0_PUBLIC_KEY),
+          publicKey: uncompressPublicKey(ACCOUNT_0_PUBLIC_KEY),
+        }),
+      ]);
+
+      const signer = await TurnkeySigner.fromWallet({ client, walletId: "wallet-1" });
+
+      expect(signer.getPublicKey()).toBe(ACCOUNT_0_PUBLIC_KEY);
+    });
+
+    it("should create a missing account", async () => {
+      const client = createWalletClient([account("m/44'/5757'/0'/0/0", ACCOUNT_0_PUBLIC_KEY)]);
+
+      const signer = await TurnkeySigner.fromWallet({
+        client,
+        walletId: "wallet-1",
+        accountIndex: 1,
+        network: "mainnet",
+      });
+
+      expect(signer.getPublicKey()).toBe(ACCOUNT_1_PUBLIC_KEY);
+      expect(signer.network).toBe("mainnet");
+      expect(client.createWalletAccounts).toHaveBeenCalledWith({
+        walletId: "wallet-1",
+        accounts: [
+          {
+            curve: "CURVE_SECP256K1",
+            pathFormat: "PATH_FORMAT_BIP32",
+            path: "m/44'/5757'/0'/0/1",
+            addressFormat: "ADDRESS_FORMAT_COMPRESSED",
+          },
+        ],
+      });
+    });
+
+    it("should use an account created concurrently", async () => {
+      const client = createWalletClient([]);
+      client.createWalletAccounts.mockImplementationOnce(async () => {
+        // Another process created the account first
+        await client.createWalletAccounts({ accounts: [{ path: "m/44'/5757'/0'/0/0" }] });
+        throw new Error("wallet account already exists");
+      });
+
+      const signer = await TurnkeySigner.fromWallet({ client, walletId: "wallet-1" });
+
+      expect(signer.getPublicKey()).toBe(ACCOUNT_1_PUBLIC_KEY);
+    });
+
+    it("should not create accounts when createAccount is false", async () => {
+      const client = createWalletClient([]);
+
+      await expect(
+        TurnkeySigner.fromWallet({ client, walletId: "wallet-1", createAccount: false })
+      ).rejects.toThrow(InvalidInputError);
+      expect(client.createWalletAccounts).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid account indexes", async () => {
+      const client = createWalletClient([]);
+
+      await expect(
+        TurnkeySigner.fromWallet({ client, walletId: "wallet-1", accountIndex: -1 })
+      ).rejects.toThrow(/accountIndex/);
+      expect(client.getWalletAccounts).not.toHaveBeenCalled();
+    });
+
+    it("should wrap client failures", async () => {
+      const client = createWalletClient([]);
+      client.getWalletAccounts.mockRejectedValue(new Error("unauthorized"));
+
+      await expect(
+        TurnkeySigner.fromWallet({ client, walletId: "wallet-1" })
+      ).rejects.toBeInstanceOf(SigningError);
+    });
+  });
+
+  describe("TurnkeySigner.fromWalletAddress", () => {
+    const accounts = () => [
+      account("m/44'/5757'/0'/0/0", ACCOUNT_0_PUBLIC_KEY),
+      account("m/44'/5757'/0'/0/1", ACCOUNT_1_PUBLIC_KEY),
+    ];
+
+    it("should find the account and take the network from the address", async () => {
+      const address = getAddressFromPublicKey(ACCOUNT_1_PUBLIC_KEY, "mainnet");
+
+      const signer = await TurnkeySigner.fromWalletAddress({
+        client: createWalletClient(accounts()),
+        walletId: "wallet-1",
+        address,
+      });
+
+      expect(signer.getPublicKey()).toBe(ACCOUNT_1_PUBLIC_KEY);
+      expect(signer.getAddress()).toBe(address);
+    });
+
+    it("should take testnet from testnet addresses", async () => {
+      const address = getAddressFromPublicKey(ACCOUNT_0_PUBLIC_KEY, "testnet");
+
+      const signer = await TurnkeySigner.fromWalletAddress({
+        client: createWalletClient(accounts()),
+        walletId: "wallet-1",
+        address,
+      });
+
+      expect(signer.network).toBe("testnet");
+      expect(signer.getAddress()).toBe(address);
+    });
+
+    it("should require the network for addresses of other versions", async () => {
+      const client = createWalletClient(accounts());
+      const address = addressToString(addressFromVersionHash(0, "00".repeat(20)));
+
+      await expect(
+        TurnkeySigner.fromWalletAddress({ client, walletId: "wallet-1", address })
+      ).rejects.toThrow(/Cannot infer the network/);
+      expect(client.getWalletAccounts).not.toHaveBeenCalled();
+      await expect(
+        TurnkeySigner.fromWalletAddress({
+          client,
+          walletId: "wallet-1",
+          address,
+          network: "devnet",
+        })
+      ).rejects.toThrow(/has no account with address/);
+    });
+
+    it("should reject addresses that are not in the wallet", async () => {
+      await expect(
+        TurnkeySigner.fromWalletAddress({
+          client: createWalletClient(accounts()),
+          walletId: "wallet-1",
+          address: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+        })
+      ).rejects.toThrow(/has no account with address/);
+    });
+  });
+
+  describe("enumerateAccounts", () => {
+    it("should list the Stacks accounts of every page in index order", async () => {
+      const bitcoinAccounts = Array.from({ length: 100 }, (_, i) =>
+        account(`m/84'/0'/0'/0/${i}`, ACCOUNT_0_PUBLIC_KEY)
+      );
+      const client = createWalletClient([
+        ...bitcoinAccounts,
+        account("m/44'/5757'/0'/0/1", ACCOUNT_1_PUBLIC_KEY),
+        account("m/44'/5757'/0'/0/0", ACCOUNT_0_PUBLIC_KEY),
+      ]);
+
+      const result = await enumerateAccounts({ client, walletId: "wallet-1", network: "mainnet" });
+
+      expect(result).toEqual([
+        {
+          accountIndex: 0,
+          path: "m/44'/5757'/0'/0/0",
+          publicKey: ACCOUNT_0_PUBLIC_KEY,
+          address: getAddressFromPublicKey(ACCOUNT_0_PUBLIC_KEY, "mainnet"),
+        },
+        {
+          accountIndex: 1,
+          path: "m/44'/5757'/0'/0/1",
+          publicKey: ACCOUNT_1_PUBLIC_KEY,
+          address: getAddressFromPublicKey(ACCOUNT_1_PUBLIC_KEY, "mainnet"),
+        },
+      ]);
+      expect(client.getWalletAccounts).toHaveBeenCalledTimes(2);
+      expect(client.getWalletAccounts).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          paginationOptions: { limit: "100", after: "account-m/84'/0'/0'/0/99" },
+        })
+      );
+    });
+
+    it("should default to testnet addresses", async () => {
+      const client = createWalletClient([account("m/44'/5757'/0'/0/0", ACCOUNT_0_PUBLIC_KEY)]);
+
+      const [first] = await enumerateAccounts({ client, walletId: "wallet-1" });
+
+      expect(first?.address).toMatch(/^ST/);
+    });
+  });
+});
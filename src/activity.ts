@@ -0,0 +1,163 @@
+/**
+ * @turnkey/stacks - Turnkey activities
+ *
+ * Recognizes signing requests that Turnkey left pending (e.g. awaiting
+ * consensus from several approvers) and polls activities until they
+ * complete. Not part of the public API.
+ */
+
+import {
+  ActivityFailedError,
+  ActivityPendingError,
+  IncompleteSignatureError,
+  InvalidInputError,
+} from "./errors"
+import type { TurnkeyActivity, TurnkeyActivityStatus, WaitForActivityOptions } from "./types"
+import { delay, throwIfAborted } from "./utils"
+
+const DEFAULT_WAIT_TIMEOUT_MS = 600_000 // 10 minutes
+const DEFAULT_POLL_INTERVAL_MS = 3_000 // 3 seconds
+
+// Statuses of activities that will never produce a signature
+const FAILED_STATUSES = new Set<TurnkeyActivityStatus>([
+  "ACTIVITY_STATUS_FAILED",
+  "ACTIVITY_STATUS_REJECTED",
+])
+
+/**
+ * Reads the activity ID and status from a signing result or client error
+ *
+ * Clients report an unfinished activity either as a result carrying
+ * `activity: { id, status }` instead of a signature, or as an error with
+ * `activityId` and `activityStatus`.
+ * @internal
+ */
+export function activityOf(
+  value: unknown
+): { id: string; status: TurnkeyActivityStatus } | undefined {
+  if (typeof value !== "object" || value === null) return undefined
+
+  const { activity, activityId, activityStatus } = value as {
+    activity?: unknown
+    activityId?: unknown
+    activityStatus?: unknown
+  }
+  if (typeof activity === "object" && activity !== null) {
+    const { id, status } = activity as { id?: unknown; status?: unknown }
+    if (typeof id === "string" && typeof status === "string") return { id, status }
+  }
+  if (typeof activityId === "string" && typeof activityStatus === "string") {
+    return { id: activityId, status: activityStatus }
+  }
+  return undefined
+}
+
+/**
+ * Throws the error for an activity that did not produce a signature
+ *
+ * @throws ActivityPendingError if the activity may still complete
+ * @throws ActivityFailedError if it failed or was rejected
+ * @internal
+ */
+export function throwUnfinishedActivity(
+  activity: { id: string; status: TurnkeyActivityStatus; failure?: { message?: string } },
+  options: { cause?: unknown } = {}
+): never {
+  if (FAILED_STATUSES.has(activity.status)) {
+    throw new ActivityFailedError(
+      `Turnkey activity ${activity.id} did not complete (${activity.status})` +
+        (activity.failure?.message ? `: ${activity.failure.message}` : ""),
+      activity.id,
+      activity.status
+    )
+  }
+  throw new ActivityPendingError(
+    `Turnkey activity ${activity.id} is awaiting approval (${activity.status}). ` +
+      `Finalize the prepared transaction with this activity ID once it is approved.`,
+    activity.id,
+    activity.status,
+    options
+  )
+}
+
+/**
+ * Returns the signature of a completed signing activity
+ *
+ * @throws ActivityPendingError or ActivityFailedError if the activity has not completed
+ * @throws IncompleteSignatureError if it completed without a signature
+ * @internal
+ */
+export function activitySignature(activity: TurnkeyActivity): { v: string; r: string; s: string } {
+  if (activity.status !== "ACTIVITY_STATUS_COMPLETED") throwUnfinishedActivity(activity)
+
+  const signature = activity.result?.signRawPayloadResult
+  if (
+    !signature ||
+    typeof signature.v !== "string" ||
+    typeof signature.r !== "string" ||
+    typeof signature.s !== "string"
+  ) {
+    throw new IncompleteSignatureError(
+      `Turnkey activity ${activity.id} completed without a signature: ${JSON.stringify(activity.result)}`,
+      activity.result
+    )
+  }
+
+  const { v, r, s } = signature
+  return { v, r, s }
+}
+
+/**
+ * Polls an activity until it completes, fails or the timeout elapses
+ *
+ * @param fetchActivity - Looks up the activity
+ * @returns Signature of the completed activity
+ * @throws ActivityPendingError if the timeout elapses first
+ * @throws ActivityFailedError if the activity fails or is rejected
+ * @throws The signal's abort reason if `signal` is aborted
+ * @internal
+ */
+export async function pollActivity(
+  activityId: string,
+  fetchActivity: () => Promise<TurnkeyActivity>,
+  options: WaitForActivityOptions = {}
+): Promise<{ v: string; r: string; s: string }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+  const { signal, onProgress } = options
+
+  if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+    throw new InvalidInputError(`Invalid timeoutMs: ${timeoutMs}. Must be a non-negative number`)
+  }
+  if (!Number.isFinite(pollIntervalMs) || pollIntervalMs < 0) {
+    throw new InvalidInputError(
+      `Invalid pollIntervalMs: ${pollIntervalMs}. Must be a non-negative number`
+    )
+  }
+
+  const deadline = Date.now() + timeoutMs
+
+  for (;;) {
+    throwIfAborted(signal, "waitForActivity")
+
+    const activity = await fetchActivity()
+    throwIfAborted(signal, "waitForActivity")
+    onProgress?.(activity)
+
+    // Anything else (created, pending, consensus needed) may still complete
+    if (activity.status === "ACTIVITY_STATUS_COMPLETED" || FAILED_STATUSES.has(activity.status)) {
+      return activitySignature(activity)
+    }
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      throw new ActivityPendingError(
+        `Turnkey activity ${activityId} still awaiting approval after ${timeoutMs}ms (${activity.status})`,
+        activityId,
+        activity.status
+      )
+    }
+
+    await delay(Math.min(pollIntervalMs, remaining), signal, "waitForActivity")
+  }
+}
@@ -0,0 +1,506 @@
+/**
+ * @turnkey/stacks - Stacks API helpers
+ *
+ * Thin wrappers around the Stacks API of the configured network. Not part of
+ * the public API.
+ */
+
+import { Cl, type ClarityValue } from "@stacks/transactions"
+
+import { ApiRequestError, NonceFetchError, type ApiRequestErrorDetails } from "./errors"
+import { networkFetch } from "./network"
+import { DEFAULT_RETRY_POLICY, retryAfterMs, withRetry, type RetryPolicy } from "./retry"
+import type {
+  FungibleTokenBalance,
+  NonFungibleTokenHolding,
+  PoxInfo,
+  StacksNetworkConfig,
+  StxBalance,
+} from "./types"
+
+/**
+ * Fetches JSON from the network's API with a per-attempt timeout, surfacing
+ * the response body on HTTP errors
+ *
+ * Uses the network's fetch implementation and extra headers. Transient
+ * failures are retried according to `options.retry`.
+ *
+ * @param path - Request path, appended to the network's base URL
+ * @param what - Short description used in error messages (e.g. "nonce")
+ * @param options.notFound - Value returned for a 404 response instead of throwing
+ * @param options.errorType - Error class to throw (defaults to ApiRequestError)
+ * @param options.retry - Retry policy (defaults to a single attempt)
+ * @throws ApiRequestError (or `errorType`) if the request fails or times out
+ * @internal
+ */
+async function fetchJson<T>(
+  network: StacksNetworkConfig,
+  path: string,
+  init: RequestInit,
+  what: string,
+  options: {
+    notFound?: T
+    errorType?: new (message: string, details?: ApiRequestErrorDetails) => ApiRequestError
+    retry?: RetryPolicy
+  } = {}
+): Promise<T> {
+  const policy = options.retry ?? DEFAULT_RETRY_POLICY
+  return withRetry(() => fetchJsonOnce(network, path, init, what, options, policy.timeoutMs), policy)
+}
+
+/**
+ * Single attempt of fetchJson
+ * @internal
+ */
+async function fetchJsonOnce<T>(
+  network: StacksNetworkConfig,
+  path: string,
+  init: RequestInit,
+  what: string,
+  options: {
+    notFound?: T
+    errorType?: new (message: string, details?: ApiRequestErrorDetails) => ApiRequestError
+  },
+  timeoutMs: number
+): Promise<T> {
+  const ErrorType = options.errorType ?? ApiRequestError
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const res = await networkFetch(network)(`${network.baseUrl}${path}`, {
+      ...init,
+      signal: controller.signal,
+    })
+
+    if (res.status === 404 && "notFound" in options) {
+      return options.notFound as T
+    }
+
+    if (!res.ok) {
+      let errorDetail = ""
+      try {
+        const body = await res.text()
+        if (body) errorDetail = `: ${body}`
+      } catch {
+        // ignore parse errors
+      }
+      throw new ErrorType(
+        `Failed to fetch ${what}: ${res.status} ${res.statusText}${errorDetail}`,
+        { status: res.status, retryAfterMs: retryAfterMs(res) }
+      )
+    }
+
+    return (await res.json()) as T
+  } catch (error) {
+    if (error instanceof ApiRequestError) throw error
+
+    if (error instanceof Error && error.name === "AbortError") {
+      const label = what.charAt(0).toUpperCase() + what.slice(1)
+      throw new ErrorType(`${label} fetch timed out after ${timeoutMs}ms`, {
+        timedOut: true,
+        cause: error,
+      })
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    throw new ErrorType(`Failed to fetch ${what}: ${message}`, { cause: error })
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Fetches the next available nonce for an address
+ * @internal
+ */
+export async function fetchNonce(
+  address: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<bigint> {
+  const { possibleNextNonce } = await fetchNonceInfo(address, network, retry)
+  return possibleNextNonce
+}
+
+/**
+ * Fetches the next available nonce and any nonce gaps for an address
+ *
+ * Missing nonces are gaps below the highest mempool nonce that block later
+ * transactions until filled.
+ * @internal
+ */
+export async function fetchNonceInfo(
+  address: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<{ possibleNextNonce: bigint; missingNonces: bigint[] }> {
+  const data = await fetchJson<{
+    possible_next_nonce?: number
+    detected_missing_nonces?: number[]
+  }>(network, `/extended/v1/address/${address}/nonces`, {}, "nonce", {
+    errorType: NonceFetchError,
+    retry,
+  })
+
+  return {
+    possibleNextNonce: BigInt(data.possible_next_nonce ?? 0),
+    missingNonces: (data.detected_missing_nonces ?? []).map((nonce) => BigInt(nonce)),
+  }
+}
+
+/**
+ * Fetches low/medium/high fee estimates for a transaction payload
+ *
+ * @param payload - Serialized transaction payload (hex)
+ * @param estimatedLength - Estimated length of the signed transaction in bytes
+ * @returns Fee estimates in microSTX, ordered low, medium, high
+ * @internal
+ */
+export async function fetchFeeEstimates(
+  payload: string,
+  estimatedLength: number,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<[bigint, bigint, bigint]> {
+  const data = await fetchJson<{ estimations?: { fee?: number }[] }>(
+    network,
+    "/v2/fees/transaction",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ transaction_payload: payload, estimated_len: estimatedLength }),
+    },
+    "fee estimate",
+    { retry }
+  )
+
+  const fees = (data.estimations ?? []).map((estimation) => estimation.fee)
+  if (fees.length !== 3 || fees.some((fee) => typeof fee !== "number" || !Number.isFinite(fee))) {
+    throw new ApiRequestError(`Unexpected fee estimate response: ${JSON.stringify(data)}`)
+  }
+
+  const [low, medium, high] = fees as [number, number, number]
+  return [BigInt(Math.ceil(low)), BigInt(Math.ceil(medium)), BigInt(Math.ceil(high))]
+}
+
+/**
+ * Transaction fields returned by the API's transaction endpoint
+ * @internal
+ */
+export interface ApiTransaction {
+  tx_id: string
+  tx_status: string
+  block_height?: number
+  block_hash?: string
+  is_unanchored?: boolean
+  microblock_hash?: string
+  microblock_sequence?: number
+  tx_result?: { hex: string; repr: string }
+  replaced_by_tx_id?: string | null
+}
+
+/**
+ * Fetches a transaction (mempool or mined) by ID
+ *
+ * @returns The transaction, or undefined if the API does not know it yet
+ * @internal
+ */
+export async function fetchTransaction(
+  txid: string,
+  network: StacksNetworkConfig
+): Promise<ApiTransaction | undefined> {
+  return fetchJson<ApiTransaction | undefined>(
+    network,
+    `/extended/v1/tx/${txid}`,
+    {},
+    "transaction",
+    { notFound: undefined }
+  )
+}
+
+/**
+ * Fetches the height of the current Stacks chain tip
+ * @internal
+ */
+export async function fetchChainTipHeight(
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<number> {
+  const data = await fetchJson<{ stacks_tip_height?: number }>(
+    network,
+    "/v2/info",
+    {},
+    "chain tip",
+    { retry }
+  )
+
+  if (typeof data.stacks_tip_height !== "number") {
+    throw new ApiRequestError(`Unexpected node info response: ${JSON.stringify(data)}`)
+  }
+  return data.stacks_tip_height
+}
+
+/**
+ * Fetches the current tenure height, which Clarity's `block-height` returns
+ * since Nakamoto
+ *
+ * Falls back to the chain tip height on nodes that do not report it; before
+ * Nakamoto the two are the same.
+ * @internal
+ */
+export async function fetchTenureHeight(
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<number> {
+  const data = await fetchJson<{ tenure_height?: number; stacks_tip_height?: number }>(
+    network,
+    "/v2/info",
+    {},
+    "tenure height",
+    { retry }
+  )
+
+  const height = data.tenure_height ?? data.stacks_tip_height
+  if (typeof height !== "number") {
+    throw new ApiRequestError(`Unexpected node info response: ${JSON.stringify(data)}`)
+  }
+  return height
+}
+
+// Largest page the API serves for NFT holdings
+const NFT_HOLDINGS_PAGE_SIZE = 200
+
+/**
+ * Fetches the STX balance of an address
+ * @internal
+ */
+export async function fetchStxBalance(
+  address: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<StxBalance> {
+  const data = await fetchJson<{
+    balance?: string
+    locked?: string
+    burnchain_unlock_height?: number
+  }>(network, `/extended/v1/address/${address}/stx`, {}, "STX balance", { retry })
+
+  if (typeof data.balance !== "string") {
+    throw new ApiRequestError(`Unexpected STX balance response: ${JSON.stringify(data)}`)
+  }
+
+  const total = BigInt(data.balance)
+  const locked = BigInt(data.locked ?? "0")
+  return {
+    total,
+    locked,
+    available: total - locked,
+    ...(locked > 0n && data.burnchain_unlock_height
+      ? { unlockHeight: data.burnchain_unlock_height }
+      : {}),
+  }
+}
+
+/**
+ * Fetches the fungible token balances of an address
+ * @internal
+ */
+export async function fetchFungibleTokenBalances(
+  address: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<FungibleTokenBalance[]> {
+  const data = await fetchJson<{ fungible_tokens?: Record<string, { balance?: string }> }>(
+    network,
+    `/extended/v1/address/${address}/balances`,
+    {},
+    "token balances",
+    { retry }
+  )
+
+  return Object.entries(data.fungible_tokens ?? {}).map(([assetId, { balance }]) => ({
+    ...splitAssetId(assetId),
+    balance: BigInt(balance ?? "0"),
+  }))
+}
+
+/**
+ * Fetches every NFT held by an address, following pagination
+ * @internal
+ */
+export async function fetchNonFungibleTokenHoldings(
+  address: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<NonFungibleTokenHolding[]> {
+  const holdings: NonFungibleTokenHolding[] = []
+
+  for (let offset = 0; ; offset += NFT_HOLDINGS_PAGE_SIZE) {
+    const query = new URLSearchParams({
+      principal: address,
+      limit: String(NFT_HOLDINGS_PAGE_SIZE),
+      offset: String(offset),
+    })
+    const data = await fetchJson<{
+      total?: number
+      results?: { asset_identifier: string; value: { hex: string } }[]
+    }>(network, `/extended/v1/tokens/nft/holdings?${query}`, {}, "NFT holdings", { retry })
+
+    const results = data.results ?? []
+    for (const { asset_identifier, value } of results) {
+      holdings.push({
+        ...splitAssetId(asset_identifier),
+        tokenId: Cl.deserialize(value.hex.replace(/^0x/, "")),
+      })
+    }
+
+    if (results.length < NFT_HOLDINGS_PAGE_SIZE || holdings.length >= (data.total ?? 0)) {
+      return holdings
+    }
+  }
+}
+
+/**
+ * Splits an asset identifier into its contract ID and asset name
+ * @internal
+ */
+function splitAssetId(assetId: string): { assetId: string; contractId: string; assetName: string } {
+  const [contractId = "", assetName = ""] = assetId.split("::")
+  return { assetId, contractId, assetName }
+}
+
+/**
+ * Fetches the current PoX parameters
+ * @internal
+ */
+export async function fetchPoxInfo(
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<PoxInfo> {
+  const data = await fetchJson<{
+    contract_id?: string
+    current_cycle?: { id?: number }
+    next_cycle?: { id?: number }
+    min_amount_ustx?: number
+    reward_cycle_length?: number
+    prepare_phase_block_length?: number
+    first_burnchain_block_height?: number
+    current_burnchain_block_height?: number
+  }>(network, "/v2/pox", {}, "PoX info", { retry })
+
+  const unexpected = () =>
+    new ApiRequestError(`Unexpected PoX info response: ${JSON.stringify(data)}`)
+  const number = (value: number | undefined) => {
+    if (typeof value !== "number") throw unexpected()
+    return value
+  }
+  if (typeof data.contract_id !== "string") throw unexpected()
+
+  return {
+    contractId: data.contract_id,
+    currentCycle: number(data.current_cycle?.id),
+    nextCycle: number(data.next_cycle?.id),
+    minAmountUstx: BigInt(number(data.min_amount_ustx)),
+    rewardCycleLength: number(data.reward_cycle_length),
+    prepareCycleLength: number(data.prepare_phase_block_length),
+    firstBurnchainBlockHeight: number(data.first_burnchain_block_height),
+    currentBurnchainBlockHeight: number(data.current_burnchain_block_height),
+  }
+}
+
+/**
+ * Calls a read-only contract function
+ *
+ * @param sender - Principal the call is evaluated as (`tx-sender`)
+ * @returns The function's return value
+ * @throws ApiRequestError if the request fails or the node cannot evaluate the call
+ * @internal
+ */
+export async function fetchReadOnly(
+  contractId: string,
+  functionName: string,
+  functionArgs: ClarityValue[],
+  sender: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<ClarityValue> {
+  const [contractAddress, contractName] = contractId.split(".")
+  const data = await fetchJson<{ okay?: boolean; result?: string; cause?: string }>(
+    network,
+    `/v2/contracts/call-read/${contractAddress}/${contractName}/` +
+      encodeURIComponent(functionName),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sender,
+        arguments: functionArgs.map((arg) => `0x${Cl.serialize(arg)}`),
+      }),
+    },
+    `${contractId}::${functionName}`,
+    { retry }
+  )
+
+  if (!data.okay || typeof data.result !== "string") {
+    throw new ApiRequestError(
+      `Read-only call ${contractId}::${functionName} failed: ${data.cause ?? JSON.stringify(data)}`
+    )
+  }
+  return Cl.deserialize(data.result.replace(/^0x/, ""))
+}
+
+/**
+ * BNS name record as returned by the API
+ * @internal
+ */
+export interface ApiBnsName {
+  address: string
+  status?: string
+  expire_block?: number
+}
+
+/**
+ * Fetches the record of a BNS name
+ *
+ * @returns The name's record, or undefined if the name is not registered
+ * @internal
+ */
+export async function fetchBnsName(
+  name: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<ApiBnsName | undefined> {
+  const data = await fetchJson<Partial<ApiBnsName> | undefined>(
+    network,
+    `/v1/names/${encodeURIComponent(name)}`,
+    {},
+    "BNS name",
+    { notFound: undefined, retry }
+  )
+
+  if (data === undefined) return undefined
+  if (typeof data.address !== "string") {
+    throw new ApiRequestError(`Unexpected BNS name response: ${JSON.stringify(data)}`)
+  }
+  return { ...data, address: data.address }
+}
+
+/**
+ * Fetches the BNS names owned by an address, primary name first
+ * @internal
+ */
+export async function fetchBnsNames(
+  address: string,
+  network: StacksNetworkConfig,
+  retry?: RetryPolicy
+): Promise<string[]> {
+  const data = await fetchJson<{ names?: string[] }>(
+    network,
+    `/v1/addresses/stacks/${address}`,
+    {},
+    "BNS names",
+    { notFound: { names: [] }, retry }
+  )
+  return data.names ?? []
+}
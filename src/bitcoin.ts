@@ -0,0 +1,181 @@
+/**
+ * @turnkey/stacks - Bitcoin addresses
+ *
+ * Decodes Bitcoin addresses into the version and hash bytes that PoX reward
+ * addresses are made of. Not part of the public API.
+ */
+
+import { sha256 } from "@noble/hashes/sha256"
+import { concatBytes, hexToBytes } from "@noble/hashes/utils"
+
+import { InvalidInputError } from "./errors"
+
+/**
+ * PoX address versions (pox-4 `pox-addr` `version` byte)
+ * @internal
+ */
+export const PoxAddressVersion = {
+  P2PKH: 0x00,
+  P2SH: 0x01,
+  P2WPKH: 0x04,
+  P2WSH: 0x05,
+  P2TR: 0x06,
+} as const
+
+/**
+ * Decoded Bitcoin address
+ * @internal
+ */
+export interface DecodedBtcAddress {
+  version: number
+  hashbytes: Uint8Array
+  mainnet: boolean
+}
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz"
+
+// Base58Check version bytes of legacy addresses
+const BASE58_VERSIONS: Record<number, { version: number; mainnet: boolean }> = {
+  0x00: { version: PoxAddressVersion.P2PKH, mainnet: true },
+  0x05: { version: PoxAddressVersion.P2SH, mainnet: true },
+  0x6f: { version: PoxAddressVersion.P2PKH, mainnet: false },
+  0xc4: { version: PoxAddressVersion.P2SH, mainnet: false },
+}
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l"
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]
+
+// Checksum constants of BIP-173 (witness v0) and BIP-350 (witness v1+)
+const BECH32_CONST = 1
+const BECH32M_CONST = 0x2bc830a3
+
+// Segwit human-readable parts; regtest counts as testnet
+const BECH32_HRPS: Record<string, boolean> = { bc: true, tb: false, bcrt: false }
+
+/**
+ * Decodes a P2PKH, P2SH, P2WPKH, P2WSH or P2TR address
+ *
+ * @throws InvalidInputError if the address is malformed or of another type
+ * @internal
+ */
+export function decodeBtcAddress(address: string): DecodedBtcAddress {
+  const decoded =
+    typeof address === "string" ? (decodeSegwit(address) ?? decodeBase58(address)) : undefined
+  if (!decoded) {
+    throw new InvalidInputError(
+      `Invalid Bitcoin address: ${address}. ` +
+        `Expected a P2PKH, P2SH, P2WPKH, P2WSH or P2TR address`
+    )
+  }
+  return decoded
+}
+
+/**
+ * @internal
+ */
+function decodeBase58(address: string): DecodedBtcAddress | undefined {
+  let value = 0n
+  for (const char of address) {
+    const digit = BASE58_ALPHABET.indexOf(char)
+    if (digit < 0) return undefined
+    value = value * 58n + BigInt(digit)
+  }
+
+  // Each leading "1" is a leading zero byte
+  const zeros = address.length - address.replace(/^1+/, "").length
+  const hex = value === 0n ? "" : value.toString(16)
+  const bytes = concatBytes(new Uint8Array(zeros), hexToBytes(hex.length % 2 ? `0${hex}` : hex))
+
+  // Version byte, 20-byte hash and 4-byte checksum
+  if (bytes.length !== 25) return undefined
+  const payload = bytes.subarray(0, 21)
+  const checksum = sha256(sha256(payload)).subarray(0, 4)
+  if (!checksum.every((byte, i) => byte === bytes[21 + i])) return undefined
+
+  const type = BASE58_VERSIONS[payload[0] ?? -1]
+  return type && { ...type, hashbytes: payload.slice(1) }
+}
+
+/**
+ * @internal
+ */
+function decodeSegwit(address: string): DecodedBtcAddress | undefined {
+  // Mixed case is not allowed
+  const lower = address.toLowerCase()
+  if (address.length > 90 || (address !== lower && address !== address.toUpperCase())) {
+    return undefined
+  }
+
+  const separator = lower.lastIndexOf("1")
+  const hrp = lower.slice(0, separator)
+  const mainnet = BECH32_HRPS[hrp]
+  if (separator < 1 || mainnet === undefined) return undefined
+
+  const data = [...lower.slice(separator + 1)].map((char) => BECH32_CHARSET.indexOf(char))
+  if (data.length < 7 || data.some((value) => value < 0)) return undefined
+
+  const witnessVersion = data[0]
+  const checksum = polymod([...expandHrp(hrp), ...data])
+  if (checksum !== (witnessVersion === 0 ? BECH32_CONST : BECH32M_CONST)) return undefined
+
+  const program = convertBits(data.slice(1, -6), 5, 8)
+  if (!program) return undefined
+
+  if (witnessVersion === 0 && program.length === 20) {
+    return { version: PoxAddressVersion.P2WPKH, hashbytes: program, mainnet }
+  }
+  if (witnessVersion === 0 && program.length === 32) {
+    return { version: PoxAddressVersion.P2WSH, hashbytes: program, mainnet }
+  }
+  if (witnessVersion === 1 && program.length === 32) {
+    return { version: PoxAddressVersion.P2TR, hashbytes: program, mainnet }
+  }
+  return undefined
+}
+
+/**
+ * @internal
+ */
+function polymod(values: number[]): number {
+  let checksum = 1
+  for (const value of values) {
+    const top = checksum >>> 25
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value
+    BECH32_GENERATOR.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator
+    })
+  }
+  return checksum
+}
+
+/**
+ * @internal
+ */
+function expandHrp(hrp: string): number[] {
+  const codes = [...hrp].map((char) => char.charCodeAt(0))
+  return [...codes.map((code) => code >>> 5), 0, ...codes.map((code) => code & 31)]
+}
+
+/**
+ * Regroups 5-bit words into bytes, rejecting non-zero padding
+ * @internal
+ */
+function convertBits(data: number[], from: number, to: number): Uint8Array | undefined {
+  let accumulator = 0
+  let bits = 0
+  const result: number[] = []
+  const max = (1 << to) - 1
+
+  for (const value of data) {
+    accumulator = (accumulator << from) | value
+    bits += from
+    while (bits >= to) {
+      bits -= to
+      result.push((accumulator >>> bits) & max)
+    }
+    accumulator &= (1 << bits) - 1
+  }
+
+  if (bits >= from || accumulator !== 0) return undefined
+  return Uint8Array.from(result)
+}
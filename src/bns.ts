@@ -0,0 +1,133 @@
+/**
+ * @turnkey/stacks - BNS names
+ *
+ * Resolves BNS names (e.g. `alice.btc`) to the addresses that own them, and
+ * addresses to their primary name.
+ */
+
+import { validateStacksAddress } from "@stacks/transactions"
+
+import { fetchBnsName, fetchBnsNames, fetchTenureHeight } from "./api"
+import { ApiRequestError, InvalidInputError } from "./errors"
+import { resolveNetwork } from "./network"
+import { resolveRetryPolicy, type RetryPolicy } from "./retry"
+import type { RetryOptions, StacksNetworkConfig, StacksNetworkOption } from "./types"
+
+// name.namespace or sub.name.namespace, matched after lowercasing
+const BNS_NAME_REGEX = /^(?:[a-z0-9_-]+\.){1,2}[a-z0-9_-]+$/
+
+// Status of a name whose owner revoked it
+const REVOKED_STATUS = "name-revoke"
+
+/**
+ * Resolves a BNS name to the address that owns it
+ *
+ * @param name - BNS name (`name.namespace` or `subdomain.name.namespace`), in any case
+ * @param network - Network name or configuration (defaults to 'testnet')
+ * @param options - Retry policy for the requests
+ * @returns Owner's Stacks address
+ * @throws InvalidInputError if the name is malformed, not registered, expired or revoked
+ * @throws ApiRequestError if a request fails
+ *
+ * @example
+ * ```typescript
+ * import { resolveBnsName } from "@turnkey/stacks"
+ *
+ * const address = await resolveBnsName("muneeb.btc", "mainnet")
+ * ```
+ */
+export async function resolveBnsName(
+  name: string,
+  network: StacksNetworkOption = "testnet",
+  options: { retry?: RetryOptions } = {}
+): Promise<string> {
+  const normalized = parseBnsName(name)
+  if (!normalized) {
+    throw new InvalidInputError(`Invalid BNS name: ${name}. Expected <name>.<namespace>`)
+  }
+  return resolveName(normalized, resolveNetwork(network), resolveRetryPolicy(options.retry))
+}
+
+/**
+ * Looks up the primary BNS name of an address
+ *
+ * @param address - Stacks address
+ * @param network - Network name or configuration (defaults to 'testnet')
+ * @param options - Retry policy for the request
+ * @returns Primary name, or undefined if the address owns no name
+ * @throws InvalidInputError if the address is invalid
+ * @throws ApiRequestError if the request fails
+ *
+ * @example
+ * ```typescript
+ * import { getBnsPrimaryName } from "@turnkey/stacks"
+ *
+ * const name = await getBnsPrimaryName("SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7", "mainnet")
+ * ```
+ */
+export async function getBnsPrimaryName(
+  address: string,
+  network: StacksNetworkOption = "testnet",
+  options: { retry?: RetryOptions } = {}
+): Promise<string | undefined> {
+  if (typeof address !== "string" || !validateStacksAddress(address)) {
+    throw new InvalidInputError(`Invalid Stacks address: ${address}`)
+  }
+  const [primary] = await fetchBnsNames(
+    address,
+    resolveNetwork(network),
+    resolveRetryPolicy(options.retry)
+  )
+  return primary
+}
+
+/**
+ * Returns the BNS name a recipient stands for, lowercased as BNS stores
+ * names, or undefined if it is not a name (e.g. an address or contract ID)
+ * @internal
+ */
+export function parseBnsName(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined
+
+  const name = value.toLowerCase()
+  const [first = ""] = value.split(".")
+  return BNS_NAME_REGEX.test(name) && !validateStacksAddress(first) ? name : undefined
+}
+
+/**
+ * Resolves a well-formed, lowercase BNS name, rejecting expired and revoked names
+ *
+ * @throws InvalidInputError if the name is not registered, expired or revoked
+ * @throws ApiRequestError if a request fails or the name resolves to an invalid address
+ * @internal
+ */
+export async function resolveName(
+  name: string,
+  network: StacksNetworkConfig,
+  retry: RetryPolicy
+): Promise<string> {
+  const record = await fetchBnsName(name, network, retry)
+  if (!record) {
+    throw new InvalidInputError(`BNS name ${name} is not registered`)
+  }
+  if (record.status === REVOKED_STATUS) {
+    throw new InvalidInputError(`BNS name ${name} has been revoked`)
+  }
+
+  // Names in namespaces without a lease have no expiry. Leases count BNS's
+  // `block-height`, which is the tenure height since Nakamoto.
+  if (record.expire_block) {
+    const tenureHeight = await fetchTenureHeight(network, retry)
+    if (tenureHeight >= record.expire_block) {
+      throw new InvalidInputError(
+        `BNS name ${name} expired at block ${record.expire_block} ` +
+          `(tenure height is ${tenureHeight})`
+      )
+    }
+  }
+
+  if (!validateStacksAddress(record.address)) {
+    throw new ApiRequestError(`BNS name ${name} resolved to an invalid address: ${record.address}`)
+  }
+  return record.address
+}
@@ -0,0 +1,302 @@
+/**
+ * @turnkey/stacks - Broadcasting
+ *
+ * Sends signed transactions to the network, singly or as a nonce-ordered
+ * batch.
+ */
+
+import {
+  broadcastTransaction as stacksBroadcastTransaction,
+  type StacksTransactionWire,
+} from "@stacks/transactions"
+
+import { fetchTransaction } from "./api"
+import { ApiRequestError, BroadcastError, InvalidInputError } from "./errors"
+import type { TurnkeySigner } from "./index"
+import { resolveNetwork, toStacksNetwork } from "./network"
+import { resolveRetryPolicy, retryAfterMs, withRetry } from "./retry"
+import type {
+  BatchBroadcastItemResult,
+  BatchBroadcastOptions,
+  BatchItemResult,
+  BroadcastTransactionOptions,
+  SignedTransactionResult,
+  StacksNetworkConfig,
+  StacksNetworkOption,
+} from "./types"
+
+/**
+ * Broadcasts a signed transaction to the Stacks network
+ *
+ * Uses the network's base URL, extra headers and fetch implementation.
+ * Broadcasting is idempotent: the txid is computed locally, and if the node
+ * already has the transaction (e.g. an earlier attempt went through but its
+ * response was lost), the txid is returned instead of a conflict error. This
+ * makes retries safe; enable them with `options.retry`.
+ *
+ * @param transaction - Signed Stacks transaction
+ * @param network - Network name or configuration to broadcast to (defaults to 'testnet')
+ * @param options - Retry policy for the request
+ * @returns Transaction ID (txid)
+ * @throws BroadcastError if the node rejects the transaction
+ * @throws ApiRequestError if the request fails
+ *
+ * @example
+ * ```typescript
+ * import { broadcastTransaction } from "@turnkey/stacks"
+ *
+ * const txid = await broadcastTransaction(signedTransaction, "testnet", {
+ *   retry: { maxAttempts: 4 },
+ * })
+ * console.log(`https://explorer.hiro.so/txid/${txid}?chain=testnet`)
+ * ```
+ */
+export async function broadcastTransaction(
+  transaction: StacksTransactionWire,
+  network: StacksNetworkOption = "testnet",
+  options: BroadcastTransactionOptions = {}
+): Promise<string> {
+  const config = resolveNetwork(network)
+  const policy = resolveRetryPolicy(options.retry)
+  const txid = transaction.txid()
+
+  return withRetry(async () => {
+    try {
+      return await broadcastOnce(transaction, config, policy.timeoutMs)
+    } catch (error) {
+      if (await isAlreadyBroadcast(error, txid, config)) return txid
+      throw error
+    }
+  }, policy)
+}
+
+/**
+ * Single broadcast attempt of broadcastTransaction
+ *
+ * Node rejections (HTTP 400) surface as BroadcastError. Timeouts, transport
+ * failures and other HTTP errors surface as ApiRequestError, carrying the
+ * status and Retry-After delay so the retry policy can decide.
+ *
+ * @internal
+ */
+async function broadcastOnce(
+  transaction: StacksTransactionWire,
+  network: StacksNetworkConfig,
+  timeoutMs: number
+): Promise<string> {
+  const stacksNetwork = toStacksNetwork(network)
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  // Keep the response so its status and headers can be inspected
+  let response: Response | undefined
+  const client = {
+    baseUrl: stacksNetwork.client.baseUrl,
+    fetch: async (input: Parameters<typeof fetch>[0], init?: RequestInit) => {
+      response = await stacksNetwork.client.fetch(input, { ...init, signal: controller.signal })
+      return response
+    },
+  }
+
+  let result: Awaited<ReturnType<typeof stacksBroadcastTransaction>>
+  try {
+    result = await stacksBroadcastTransaction({ transaction, network: stacksNetwork, client })
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new ApiRequestError(`Broadcast timed out after ${timeoutMs}ms`, {
+        timedOut: true,
+        cause: error,
+      })
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    throw new ApiRequestError(`Broadcast request failed: ${message}`, {
+      ...(response && !response.ok
+        ? { status: response.status, retryAfterMs: retryAfterMs(response) }
+        : {}),
+      cause: error,
+    })
+  } finally {
+    clearTimeout(timeoutId)
+  }
+
+  // The node reports rejections with 400; anything else (rate limits, server
+  // errors, auth) is a failed request, whatever the body says
+  if (response && !response.ok && response.status !== 400) {
+    throw new ApiRequestError(
+      `Broadcast failed: ${response.status} ${response.statusText}: ${JSON.stringify(result)}`,
+      { status: response.status, retryAfterMs: retryAfterMs(response) }
+    )
+  }
+
+  // Handle different response formats
+  if (typeof result === "string") {
+    return result
+  }
+
+  // Rejections are returned rather than thrown, and also carry a txid
+  if (result && typeof result === "object" && "error" in result) {
+    const { error, reason, reason_data, txid } = result as {
+      error: string
+      reason?: string
+      reason_data?: unknown
+      txid?: string
+    }
+    throw new BroadcastError(
+      `Broadcast failed: ${error}${reason ? ` (${reason})` : ""}`,
+      reason,
+      reason_data,
+      txid
+    )
+  }
+
+  if (result && typeof result === "object" && "txid" in result) {
+    return (result as { txid: string }).txid
+  }
+
+  throw new BroadcastError(`Broadcast failed: ${JSON.stringify(result)}`)
+}
+
+/**
+ * Whether a failed broadcast is for a transaction the node already has
+ *
+ * Re-broadcasting a transaction that is already in the mempool is rejected
+ * as ConflictingNonceInMempool, the same as a different transaction with
+ * the same nonce. The API is asked whether it knows the txid; if the lookup
+ * fails, the rejection stands.
+ *
+ * @internal
+ */
+async function isAlreadyBroadcast(
+  error: unknown,
+  txid: string,
+  network: StacksNetworkConfig
+): Promise<boolean> {
+  if (!(error instanceof BroadcastError) || error.reason !== "ConflictingNonceInMempool") {
+    return false
+  }
+
+  try {
+    const known = await fetchTransaction(`0x${txid}`, network)
+    return known !== undefined && !known.tx_status.startsWith("dropped")
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Broadcasts the results of a batch signing call in nonce order
+ *
+ * Transactions are sent one at a time, lowest nonce first, so the node never
+ * sees a nonce before the ones it depends on. Items that failed to sign are
+ * reported as failed. After a failure, `onFailure: "stop"` (the default)
+ * skips all later nonces, since they could not be mined until the gap is
+ * filled; `"continue"` broadcasts them anyway.
+ *
+ * Items that failed to sign before getting a nonce leave no gap and never
+ * stop the batch.
+ *
+ * @param items - Results of signSTXTransferBatch (or any batch of signed transactions)
+ * @param network - Network name or configuration to broadcast to (defaults to 'testnet')
+ * @param options - Failure policy and retry policy
+ * @returns Per-item results, in input order
+ *
+ * @example
+ * ```typescript
+ * import { broadcastTransactionBatch } from "@turnkey/stacks"
+ *
+ * const signed = await signer.signSTXTransferBatch(transfers)
+ * const results = await broadcastTransactionBatch(signed, "mainnet", {
+ *   onFailure: "stop",
+ *   retry: { maxAttempts: 3 },
+ * })
+ * const failed = results.filter((result) => result.status !== "fulfilled")
+ * ```
+ */
+export async function broadcastTransactionBatch(
+  items: readonly BatchItemResult<SignedTransactionResult>[],
+  network: StacksNetworkOption = "testnet",
+  options: BatchBroadcastOptions = {}
+): Promise<BatchBroadcastItemResult[]> {
+  const onFailure = options.onFailure ?? "stop"
+  if (onFailure !== "stop" && onFailure !== "continue") {
+    throw new InvalidInputError(`Invalid onFailure: ${onFailure}. Use "stop" or "continue"`)
+  }
+
+  const results = new Array<BatchBroadcastItemResult>(items.length)
+
+  // Signing failures without a nonce leave no gap and do not affect the others
+  const pending: { position: number; nonce: bigint }[] = []
+  items.forEach((item, position) => {
+    if (item.status === "fulfilled") {
+      pending.push({ position, nonce: item.value.nonce })
+    } else if (item.nonce !== undefined) {
+      pending.push({ position, nonce: item.nonce })
+    } else {
+      results[position] = { index: item.index, status: "rejected", error: item.error }
+    }
+  })
+  pending.sort((a, b) => (a.nonce < b.nonce ? -1 : a.nonce > b.nonce ? 1 : 0))
+
+  let stopped = false
+  for (const { position, nonce } of pending) {
+    const item = items[position]!
+    const { index } = item
+
+    if (stopped) {
+      results[position] = { index, status: "skipped", nonce }
+      continue
+    }
+
+    if (item.status === "rejected") {
+      results[position] = { index, status: "rejected", error: item.error, nonce }
+      stopped = onFailure === "stop"
+      continue
+    }
+
+    try {
+      const txid = await broadcastTransaction(item.value.transaction, network, {
+        retry: options.retry,
+      })
+      results[position] = { index, status: "fulfilled", txid, nonce }
+    } catch (error) {
+      results[position] = { index, status: "rejected", error, nonce }
+      stopped = onFailure === "stop"
+    }
+  }
+
+  return results
+}
+
+/**
+ * Broadcasts a transaction signed by `signer`, updating its nonce manager
+ * with the outcome
+ *
+ * Only nonces handed out by the manager are confirmed, released or resynced;
+ * explicit nonces are left alone.
+ *
+ * @internal
+ */
+export async function broadcastSigned(
+  signer: TurnkeySigner,
+  transaction: StacksTransactionWire,
+  senderAddress: string,
+  nonce: bigint,
+  params: { nonce?: bigint; network?: StacksNetworkOption }
+): Promise<string> {
+  const network = params.network ?? signer.network
+
+  const managed = params.nonce === undefined && signer.nonceManager !== undefined
+
+  let txid: string
+  try {
+    txid = await broadcastTransaction(transaction, network, { retry: signer.retry })
+  } catch (error) {
+    if (managed) {
+      await signer.nonceManager!.handleBroadcastFailure(senderAddress, nonce, error, network)
+    }
+    throw error
+  }
+
+  if (managed) await signer.nonceManager!.confirmBroadcast(senderAddress, nonce, network)
+  return txid
+}
@@ -0,0 +1,171 @@
+/**
+ * @turnkey/stacks - Transaction builders
+ *
+ * Parameter validation and unsigned transaction construction shared by the
+ * single-sig and multisig signers. Not part of the public API.
+ */
+
+import {
+  makeUnsignedContractCall,
+  makeUnsignedContractDeploy,
+  makeUnsignedSTXTokenTransfer,
+  validateStacksAddress,
+  type StacksTransactionWire,
+} from "@stacks/transactions"
+
+import { InvalidInputError } from "./errors"
+import { toStacksNetwork } from "./network"
+import type {
+  ContractCallParams,
+  ContractDeployParams,
+  STXTransferParams,
+  StacksNetworkConfig,
+} from "./types"
+import { MAX_CONTRACT_SOURCE_BYTES, validateContractName } from "./utils"
+
+/**
+ * Keys controlling the origin spending condition
+ * @internal
+ */
+export type OriginKeys =
+  | { publicKey: string }
+  | { publicKeys: string[]; numSignatures: number; useNonSequentialMultiSig: boolean }
+
+/**
+ * Resolved nonce and network for an unsigned transaction
+ *
+ * Transactions are built with a zero fee; the fee is resolved afterwards
+ * (it may be estimated from the built transaction) and applied with `setFee`.
+ * @internal
+ */
+export interface BuildOptions {
+  nonce: bigint
+  network: StacksNetworkConfig
+}
+
+/**
+ * Validates STX transfer parameters
+ * @internal
+ */
+export function validateSTXTransferParams(params: STXTransferParams): void {
+  // Validate recipient address
+  if (!validateStacksAddress(params.recipient)) {
+    throw new InvalidInputError(`Invalid recipient Stacks address: ${params.recipient}`)
+  }
+
+  if (params.amount <= 0n) {
+    throw new InvalidInputError("Amount must be greater than 0")
+  }
+}
+
+/**
+ * Validates contract call parameters
+ * @internal
+ */
+export function validateContractCallParams(params: ContractCallParams): void {
+  // Validate contract address
+  if (!validateStacksAddress(params.contractAddress)) {
+    throw new InvalidInputError(`Invalid contract Stacks address: ${params.contractAddress}`)
+  }
+
+  if (!params.contractName) {
+    throw new InvalidInputError("Contract name is required")
+  }
+
+  if (!params.functionName) {
+    throw new InvalidInputError("Function name is required")
+  }
+}
+
+/**
+ * Validates contract deploy parameters
+ * @internal
+ */
+export function validateContractDeployParams(params: ContractDeployParams): void {
+  const { contractName, codeBody } = params
+
+  validateContractName(contractName)
+
+  if (typeof codeBody !== "string" || codeBody.trim().length === 0) {
+    throw new InvalidInputError("Contract source (codeBody) must not be empty")
+  }
+
+  const sourceBytes = new TextEncoder().encode(codeBody).length
+  if (sourceBytes > MAX_CONTRACT_SOURCE_BYTES) {
+    throw new InvalidInputError(
+      `Contract source too large: ${sourceBytes} bytes exceeds the ${MAX_CONTRACT_SOURCE_BYTES} byte limit`
+    )
+  }
+}
+
+/**
+ * Builds an unsigned STX transfer
+ * @internal
+ */
+export function buildSTXTransfer(
+  params: STXTransferParams,
+  origin: OriginKeys,
+  { nonce, network }: BuildOptions
+): Promise<StacksTransactionWire> {
+  return makeUnsignedSTXTokenTransfer({
+    ...origin,
+    recipient: params.recipient,
+    amount: params.amount,
+    memo: params.memo,
+    nonce,
+    fee: 0n,
+    network: toStacksNetwork(network),
+    sponsored: params.sponsored ?? false,
+  })
+}
+
+/**
+ * Builds an unsigned contract call
+ * @internal
+ */
+export function buildContractCall(
+  params: ContractCallParams,
+  origin: OriginKeys,
+  { nonce, network }: BuildOptions
+): Promise<StacksTransactionWire> {
+  return makeUnsignedContractCall({
+    ...origin,
+    contractAddress: params.contractAddress,
+    contractName: params.contractName,
+    functionName: params.functionName,
+    functionArgs: params.functionArgs,
+    postConditions: params.postConditions ?? [],
+    postConditionMode: params.postConditionMode ?? "deny",
+    nonce,
+    fee: 0n,
+    network: toStacksNetwork(network),
+    sponsored: params.sponsored ?? false,
+  })
+}
+
+/**
+ * Builds an unsigned contract deploy
+ *
+ * clarityVersion is only passed when set so the library default applies otherwise.
+ * @internal
+ */
+export function buildContractDeploy(
+  params: ContractDeployParams,
+  origin: OriginKeys,
+  { nonce, network }: BuildOptions
+): Promise<StacksTransactionWire> {
+  const { clarityVersion } = params
+
+  return makeUnsignedContractDeploy({
+    ...origin,
+    contractName: params.contractName,
+    codeBody: params.codeBody,
+    ...(clarityVersion !== undefined ? { clarityVersion } : {}),
+    postConditions: params.postConditions ?? [],
+    postConditionMode: params.postConditionMode ?? "deny",
+    nonce,
+    fee: 0n,
+    network: toStacksNetwork(network),
+    sponsored: params.sponsored ?? false,
+  })
+}
@@ -0,0 +1,223 @@
+/**
+ * @turnkey/stacks - Transaction confirmation tracking
+ *
+ * Looks up and polls transaction status on the configured network.
+ */
+
+import { fetchChainTipHeight, fetchTransaction, type ApiTransaction } from "./api"
+import { InvalidInputError, TransactionTimeoutError } from "./errors"
+import { resolveNetwork } from "./network"
+import type {
+  StacksNetworkConfig,
+  StacksNetworkOption,
+  TransactionStatus,
+  TransactionStatusResult,
+  WaitForTransactionOptions,
+} from "./types"
+import { delay, throwIfAborted } from "./utils"
+
+const DEFAULT_CONFIRMATIONS = 1
+const DEFAULT_WAIT_TIMEOUT_MS = 600_000 // 10 minutes
+const DEFAULT_POLL_INTERVAL_MS = 3_000 // 3 seconds
+
+/**
+ * Returns the current status of a transaction
+ *
+ * Transactions the API does not know yet (e.g. just broadcast) are reported
+ * as `pending` with `rawStatus` "not_found".
+ *
+ * @param txid - Transaction ID, with or without 0x prefix
+ * @param network - Network name or configuration (defaults to 'testnet')
+ * @returns Transaction status
+ * @throws Error if the API request fails
+ *
+ * @example
+ * ```typescript
+ * import { getTransactionStatus } from "@turnkey/stacks"
+ *
+ * const { status, confirmations } = await getTransactionStatus(txid, "mainnet")
+ * ```
+ */
+export async function getTransactionStatus(
+  txid: string,
+  network: StacksNetworkOption = "testnet"
+): Promise<TransactionStatusResult> {
+  return fetchStatus(normalizeTxid(txid), resolveNetwork(network))
+}
+
+/**
+ * Waits until a transaction is confirmed, fails or is dropped
+ *
+ * Polls the transaction endpoint of the network. Resolves once the
+ * transaction is in a block with the required number of anchor block
+ * confirmations (whether it succeeded or aborted), or once it is dropped
+ * from the mempool. Check `status` on the result to see which.
+ *
+ * @param txid - Transaction ID, with or without 0x prefix
+ * @param options - Network, confirmation depth, timeout, abort signal and progress callback
+ * @returns Final transaction status
+ * @throws TransactionTimeoutError if the timeout elapses first
+ * @throws The signal's abort reason if `signal` is aborted
+ * @throws Error if an API request fails
+ *
+ * @example
+ * ```typescript
+ * import { broadcastTransaction, waitForTransaction } from "@turnkey/stacks"
+ *
+ * const txid = await broadcastTransaction(transaction, "mainnet")
+ * const { status, blockHeight } = await waitForTransaction(txid, {
+ *   network: "mainnet",
+ *   confirmations: 3,
+ *   onProgress: ({ status, confirmations }) => console.log(status, confirmations),
+ * })
+ * if (status !== "success") throw new Error(`Transaction failed: ${status}`)
+ * ```
+ */
+export async function waitForTransaction(
+  txid: string,
+  options: WaitForTransactionOptions = {}
+): Promise<TransactionStatusResult> {
+  const network = resolveNetwork(options.network ?? "testnet")
+  const confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+  const { signal, onProgress } = options
+
+  if (!Number.isInteger(confirmations) || confirmations < 0) {
+    throw new InvalidInputError(
+      `Invalid confirmations: ${confirmations}. Must be a non-negative integer`
+    )
+  }
+  if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+    throw new InvalidInputError(
+      `Invalid timeoutMs: ${timeoutMs}. Must be a non-negative number`
+    )
+  }
+  if (!Number.isFinite(pollIntervalMs) || pollIntervalMs < 0) {
+    throw new InvalidInputError(
+      `Invalid pollIntervalMs: ${pollIntervalMs}. Must be a non-negative number`
+    )
+  }
+
+  const id = normalizeTxid(txid)
+  const deadline = Date.now() + timeoutMs
+
+  for (;;) {
+    throwIfAborted(signal, "waitForTransaction")
+
+    const status = await fetchStatus(id, network)
+    throwIfAborted(signal, "waitForTransaction")
+    onProgress?.(status)
+
+    if (isSettled(status, confirmations)) return status
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      throw new TransactionTimeoutError(
+        `Transaction ${id} not confirmed after ${timeoutMs}ms (status: ${status.rawStatus})`,
+        status
+      )
+    }
+
+    await delay(Math.min(pollIntervalMs, remaining), signal, "waitForTransaction")
+  }
+}
+
+/**
+ * Fetches a transaction and converts it into a status result
+ *
+ * The chain tip is only fetched for anchored transactions, to count
+ * confirmations.
+ * @internal
+ */
+async function fetchStatus(
+  txid: string,
+  network: StacksNetworkConfig
+): Promise<TransactionStatusResult> {
+  const tx = await fetchTransaction(txid, network)
+  if (!tx) {
+    return {
+      txid,
+      status: "pending",
+      rawStatus: "not_found",
+      included: false,
+      anchored: false,
+      confirmations: 0,
+    }
+  }
+
+  const status = toTransactionStatus(tx.tx_status)
+  const included = status !== "pending" && status !== "dropped"
+  const anchored = included && !tx.is_unanchored && typeof tx.block_height === "number"
+
+  let confirmations = 0
+  if (anchored) {
+    const tipHeight = await fetchChainTipHeight(network)
+    confirmations = Math.max(1, tipHeight - tx.block_height! + 1)
+  }
+
+  return {
+    txid,
+    status,
+    rawStatus: tx.tx_status,
+    included,
+    anchored,
+    confirmations,
+    ...(included ? blockFields(tx) : {}),
+    ...(tx.tx_result?.repr !== undefined ? { result: tx.tx_result.repr } : {}),
+    ...(tx.replaced_by_tx_id ? { replacedBy: tx.replaced_by_tx_id } : {}),
+  }
+}
+
+/**
+ * Block placement fields of an included transaction
+ * @internal
+ */
+function blockFields(tx: ApiTransaction): Partial<TransactionStatusResult> {
+  return {
+    ...(tx.block_height !== undefined ? { blockHeight: tx.block_height } : {}),
+    ...(tx.block_hash ? { blockHash: tx.block_hash } : {}),
+    ...(tx.microblock_hash ? { microblockHash: tx.microblock_hash } : {}),
+    ...(tx.microblock_sequence !== undefined ? { microblockSequence: tx.microblock_sequence } : {}),
+  }
+}
+
+/**
+ * Maps an API status onto a normalized status
+ *
+ * All `dropped_*` variants (replace-by-fee, stale, too expensive, ...)
+ * become `dropped`; unknown statuses are treated as pending.
+ * @internal
+ */
+function toTransactionStatus(rawStatus: string): TransactionStatus {
+  switch (rawStatus) {
+    case "success":
+    case "abort_by_response":
+    case "abort_by_post_condition":
+      return rawStatus
+    default:
+      return rawStatus.startsWith("dropped") ? "dropped" : "pending"
+  }
+}
+
+/**
+ * Whether waiting can stop: dropped, or included with enough confirmations
+ * @internal
+ */
+function isSettled(status: TransactionStatusResult, confirmations: number): boolean {
+  if (status.status === "dropped") return true
+  if (confirmations === 0) return status.included
+  return status.anchored && status.confirmations >= confirmations
+}
+
+/**
+ * Adds the 0x prefix the API expects
+ * @internal
+ */
+function normalizeTxid(txid: string): string {
+  const hex = txid.replace(/^0x/i, "")
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new InvalidInputError(`Invalid txid: ${txid}. Must be 32 bytes of hex`)
+  }
+  return `0x${hex.toLowerCase()}`
+}
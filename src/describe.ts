@@ -0,0 +1,232 @@
+/**
+ * @turnkey/stacks - Transaction descriptions
+ *
+ * Decodes transactions into plain summaries that can be shown to a user
+ * (or logged) before signing.
+ */
+
+import {
+  AuthType,
+  ClarityVersion,
+  PayloadType,
+  PostConditionMode,
+  addressFromVersionHash,
+  addressHashModeToVersion,
+  addressToString,
+  cvToString,
+  wireToPostCondition,
+  type ClarityValue,
+  type PostCondition,
+  type PostConditionWire,
+  type SpendingCondition,
+  type StacksTransactionWire,
+} from "@stacks/transactions"
+
+import { TRANSACTION_VERSION_MAINNET } from "./network"
+import type {
+  DescribedClarityValue,
+  PostConditionDescription,
+  StxAmount,
+  TransactionDescription,
+} from "./types"
+import { parseTransaction } from "./utils"
+
+const MICROSTX_PER_STX = 1_000_000n
+
+// Wording for post-condition comparators
+const CONDITION_WORDS = {
+  eq: "exactly",
+  gt: "more than",
+  gte: "at least",
+  lt: "less than",
+  lte: "at most",
+} as const
+
+/**
+ * Decodes a transaction into a human-readable summary
+ *
+ * Works on signed and unsigned transactions. Amounts and fees are given in
+ * both microSTX and STX, Clarity arguments in their Clarity notation and
+ * post-conditions as sentences. The result is plain JSON (no bigints), so
+ * it can be logged or sent to an approval UI as is.
+ *
+ * @param txOrHex - Transaction or serialized transaction hex
+ * @returns Transaction summary
+ * @throws InvalidInputError if the input is not a valid serialized transaction
+ *
+ * @example
+ * ```typescript
+ * import { describeTransaction } from "@turnkey/stacks"
+ *
+ * const description = describeTransaction(unsignedTxHex)
+ * // {
+ * //   type: "stx-transfer",
+ * //   senderAddress: "ST20J4G...",
+ * //   recipient: "ST1PQHQ...",
+ * //   amount: { microStx: "1500000", stx: "1.5" },
+ * //   fee: { microStx: "180", stx: "0.00018" },
+ * //   ...
+ * // }
+ * ```
+ */
+export function describeTransaction(
+  txOrHex: StacksTransactionWire | string
+): TransactionDescription {
+  const transaction = typeof txOrHex === "string" ? parseTransaction(txOrHex) : txOrHex
+
+  const network =
+    transaction.transactionVersion === TRANSACTION_VERSION_MAINNET ? "mainnet" : "testnet"
+  const { auth, payload } = transaction
+  const senderAddress = conditionAddress(auth.spendingCondition, network)
+
+  const description: TransactionDescription = {
+    type: "stx-transfer",
+    txid: transaction.txid(),
+    network,
+    chainId: transaction.chainId,
+    senderAddress,
+    nonce: auth.spendingCondition.nonce.toString(),
+    fee: stxAmount(BigInt(auth.spendingCondition.fee)),
+    sponsored: auth.authType === AuthType.Sponsored,
+    postConditionMode: transaction.postConditionMode === PostConditionMode.Allow ? "allow" : "deny",
+    postConditions: transaction.postConditions.values.map((wire) =>
+      describePostCondition(wire as PostConditionWire, senderAddress)
+    ),
+  }
+
+  // The sponsor pays the fee of a sponsored transaction
+  if (auth.authType === AuthType.Sponsored) {
+    const sponsor = auth.sponsorSpendingCondition
+    description.sponsorAddress = conditionAddress(sponsor, network)
+    description.sponsorNonce = sponsor.nonce.toString()
+    description.fee = stxAmount(BigInt(sponsor.fee))
+  }
+
+  switch (payload.payloadType) {
+    case PayloadType.TokenTransfer:
+      return {
+        ...description,
+        type: "stx-transfer",
+        recipient: cvToString(payload.recipient),
+        amount: stxAmount(BigInt(payload.amount)),
+        // Memos are zero-padded to 34 bytes
+        memo: payload.memo.content.replace(/\0+$/, ""),
+      }
+    case PayloadType.ContractCall: {
+      const contractAddress = addressToString(payload.contractAddress)
+      return {
+        ...description,
+        type: "contract-call",
+        contractId: `${contractAddress}.${payload.contractName.content}`,
+        functionName: payload.functionName.content,
+        functionArgs: payload.functionArgs.map(describeClarityValue),
+      }
+    }
+    case PayloadType.SmartContract:
+    case PayloadType.VersionedSmartContract:
+      return {
+        ...description,
+        type: "contract-deploy",
+        contractId: `${senderAddress}.${payload.contractName.content}`,
+        contractName: payload.contractName.content,
+        // Unversioned deployments run as Clarity 1
+        clarityVersion:
+          payload.payloadType === PayloadType.VersionedSmartContract
+            ? payload.clarityVersion
+            : ClarityVersion.Clarity1,
+      }
+    case PayloadType.Coinbase:
+    case PayloadType.CoinbaseToAltRecipient:
+    case PayloadType.NakamotoCoinbase:
+      return { ...description, type: "coinbase" }
+    case PayloadType.TenureChange:
+      return { ...description, type: "tenure-change" }
+    case PayloadType.PoisonMicroblock:
+      return { ...description, type: "poison-microblock" }
+  }
+}
+
+/**
+ * Formats a microSTX amount in both units
+ *
+ * @example stxAmount(1_500_000n) // { microStx: "1500000", stx: "1.5" }
+ * @internal
+ */
+function stxAmount(microStx: bigint): StxAmount {
+  const sign = microStx < 0n ? "-" : ""
+  const absolute = microStx < 0n ? -microStx : microStx
+  const whole = absolute / MICROSTX_PER_STX
+  const fraction = (absolute % MICROSTX_PER_STX).toString().padStart(6, "0").replace(/0+$/, "")
+
+  return {
+    microStx: microStx.toString(),
+    stx: `${sign}${whole}${fraction ? `.${fraction}` : ""}`,
+  }
+}
+
+/**
+ * Derives the address of a spending condition (single-sig or multisig)
+ * @internal
+ */
+function conditionAddress(condition: SpendingCondition, network: "mainnet" | "testnet"): string {
+  const version = addressHashModeToVersion(condition.hashMode, network)
+  return addressToString(addressFromVersionHash(version, condition.signer))
+}
+
+/**
+ * @internal
+ */
+function describeClarityValue(value: ClarityValue): DescribedClarityValue {
+  return { type: value.type, repr: cvToString(value) }
+}
+
+/**
+ * Puts a post-condition into words
+ *
+ * The "origin" principal is replaced by the sender address.
+ * @internal
+ */
+function describePostCondition(
+  wire: PostConditionWire,
+  senderAddress: string
+): PostConditionDescription {
+  const postCondition: PostCondition = wireToPostCondition(wire)
+  const principal = postCondition.address === "origin" ? senderAddress : postCondition.address
+
+  switch (postCondition.type) {
+    case "stx-postcondition": {
+      const amount = stxAmount(BigInt(postCondition.amount))
+      return {
+        type: "stx",
+        principal,
+        condition: postCondition.condition,
+        amount,
+        description:
+          `${principal} will send ${CONDITION_WORDS[postCondition.condition]} ${amount.stx} STX`,
+      }
+    }
+    case "ft-postcondition":
+      return {
+        type: "ft",
+        principal,
+        condition: postCondition.condition,
+        asset: postCondition.asset,
+        amount: postCondition.amount.toString(),
+        description:
+          `${principal} will send ${CONDITION_WORDS[postCondition.condition]} ` +
+          `${postCondition.amount} ${postCondition.asset}`,
+      }
+    case "nft-postcondition": {
+      const assetId = describeClarityValue(postCondition.assetId)
+      const verb = postCondition.condition === "sent" ? "will send" : "will not send"
+      return {
+        type: "nft",
+        principal,
+        condition: postCondition.condition,
+        asset: postCondition.asset,
+        assetId,
+        description: `${principal} ${verb} ${postCondition.asset} ${assetId.repr}`,
+      }
+    }
+  }
+}
@@ -0,0 +1,419 @@
+/**
+ * @turnkey/stacks - Errors
+ *
+ * Every error thrown by this package is a TurnkeyStacksError with a stable
+ * `code`, so callers can branch on `error.code` (or `instanceof`) instead of
+ * matching messages. Wrapped errors keep the original error as `cause`.
+ */
+
+import type { SigningPolicyRule, TransactionStatusResult, TurnkeyActivityStatus } from "./types"
+
+/**
+ * Stable, machine-readable error codes
+ *
+ * - `INVALID_INPUT`: invalid parameters, keys, networks or transactions
+ * - `SIGNING_FAILED`: the Turnkey client failed to sign
+ * - `SIGNING_TIMEOUT`: the Turnkey client did not respond within `signingTimeoutMs`
+ * - `SIGNING_KEY_NOT_FOUND`: Turnkey could not find the key for `publicKey`
+ * - `INCOMPLETE_SIGNATURE`: Turnkey returned a result without v, r and s
+ * - `SIGNATURE_VERIFICATION_FAILED`: the signature does not recover to `publicKey`
+ * - `ACTIVITY_PENDING`: the Turnkey signing activity is waiting for approval
+ * - `ACTIVITY_FAILED`: the Turnkey signing activity failed or was rejected
+ * - `POLICY_VIOLATION`: the transaction breaks the signer's signing policy (see `rule`)
+ * - `INSUFFICIENT_BALANCE`: the sender's available STX do not cover the transaction
+ * - `NONCE_FETCH_FAILED` / `NONCE_FETCH_TIMEOUT`: the nonce lookup failed or timed out
+ * - `API_REQUEST_FAILED` / `API_TIMEOUT`: any other Stacks API request failed or timed out
+ * - `BROADCAST_REJECTED`: the node rejected a transaction (see `reason`)
+ * - `TRANSACTION_TIMEOUT`: waitForTransaction timed out
+ * - `ABORTED`: the operation was aborted
+ */
+export type TurnkeyStacksErrorCode =
+  | "INVALID_INPUT"
+  | "SIGNING_FAILED"
+  | "SIGNING_TIMEOUT"
+  | "SIGNING_KEY_NOT_FOUND"
+  | "INCOMPLETE_SIGNATURE"
+  | "SIGNATURE_VERIFICATION_FAILED"
+  | "ACTIVITY_PENDING"
+  | "ACTIVITY_FAILED"
+  | "POLICY_VIOLATION"
+  | "INSUFFICIENT_BALANCE"
+  | "NONCE_FETCH_FAILED"
+  | "NONCE_FETCH_TIMEOUT"
+  | "API_REQUEST_FAILED"
+  | "API_TIMEOUT"
+  | "BROADCAST_REJECTED"
+  | "TRANSACTION_TIMEOUT"
+  | "ABORTED"
+
+/**
+ * Rejection reason reported by the node for a broadcast transaction
+ *
+ * Lists the common reasons; any other reason string the node reports is
+ * passed through unchanged.
+ */
+export type BroadcastRejectionReason =
+  | "ConflictingNonceInMempool"
+  | "BadNonce"
+  | "FeeTooLow"
+  | "NotEnoughFunds"
+  | "NoSuchContract"
+  | "NoSuchPublicFunction"
+  | "BadFunctionArgument"
+  | "ContractAlreadyExists"
+  | "SignatureValidation"
+  | "Serialization"
+  | "Deserialization"
+  | "BadAddressVersionByte"
+  | "TooMuchChaining"
+  | "EstimatorError"
+  | "ServerFailureNoSuchChainTip"
+  | "ServerFailureDatabase"
+  | "ServerFailureOther"
+  | (string & {})
+
+/**
+ * TurnkeyStacksError - base class for all errors thrown by this package
+ */
+export class TurnkeyStacksError extends Error {
+  /**
+   * Stable error code
+   */
+  public readonly code: TurnkeyStacksErrorCode
+
+  /**
+   * Underlying error, when this error wraps another
+   */
+  public readonly cause: unknown
+
+  constructor(message: string, code: TurnkeyStacksErrorCode, options: { cause?: unknown } = {}) {
+    super(message)
+    this.name = "TurnkeyStacksError"
+    this.code = code
+    this.cause = options.cause
+  }
+}
+
+/**
+ * Thrown for invalid parameters, public keys, networks or transactions
+ */
+export class InvalidInputError extends TurnkeyStacksError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, "INVALID_INPUT", options)
+    this.name = "InvalidInputError"
+  }
+}
+
+/**
+ * Thrown when the Turnkey client fails to produce a usable signature
+ *
+ * Subclasses narrow down the failure; a plain SigningError wraps any other
+ * client error as `cause`.
+ */
+export class SigningError extends TurnkeyStacksError {
+  constructor(
+    message: string,
+    code: TurnkeyStacksErrorCode = "SIGNING_FAILED",
+    options: { cause?: unknown } = {}
+  ) {
+    super(message, code, options)
+    this.name = "SigningError"
+  }
+}
+
+/**
+ * Thrown when Turnkey cannot find a key for `signWith`
+ *
+ * Usually means the organization ID does not own the key, the browser
+ * session has no wallet, or the public key format does not match Turnkey's.
+ */
+export class SigningKeyNotFoundError extends SigningError {
+  /**
+   * Public key passed as `signWith`
+   */
+  public readonly publicKey: string
+
+  /**
+   * Organization ID used for the request (undefined for session-scoped clients)
+   */
+  public readonly organizationId: string | undefined
+
+  constructor(
+    message: string,
+    publicKey: string,
+    organizationId?: string,
+    options: { cause?: unknown } = {}
+  ) {
+    super(message, "SIGNING_KEY_NOT_FOUND", options)
+    this.name = "SigningKeyNotFoundError"
+    this.publicKey = publicKey
+    this.organizationId = organizationId
+  }
+}
+
+/**
+ * Thrown when Turnkey returns a signing result without string v, r and s
+ */
+export class IncompleteSignatureError extends SigningError {
+  /**
+   * Result returned by the client
+   */
+  public readonly result: unknown
+
+  constructor(message: string, result: unknown) {
+    super(message, "INCOMPLETE_SIGNATURE")
+    this.name = "IncompleteSignatureError"
+    this.result = result
+  }
+}
+
+/**
+ * Thrown when a signature returned by Turnkey does not recover to the
+ * signer's public key
+ *
+ * Usually means the client signed with a different key than `publicKey`
+ * (wrong `signWith`, organization or client session). Raised before the
+ * signature is attached, so nothing invalid is broadcast.
+ */
+export class SignatureVerificationError extends SigningError {
+  /**
+   * Public key the signer expected
+   */
+  public readonly expectedPublicKey: string
+
+  /**
+   * Public key recovered from the signature (undefined if recovery failed)
+   */
+  public readonly recoveredPublicKey: string | undefined
+
+  constructor(
+    message: string,
+    expectedPublicKey: string,
+    recoveredPublicKey?: string,
+    options: { cause?: unknown } = {}
+  ) {
+    super(message, "SIGNATURE_VERIFICATION_FAILED", options)
+    this.name = "SignatureVerificationError"
+    this.expectedPublicKey = expectedPublicKey
+    this.recoveredPublicKey = recoveredPublicKey
+  }
+}
+
+/**
+ * Thrown when a Turnkey signing activity has not completed, usually because
+ * a policy requires more approvals (consensus)
+ *
+ * The signature can be collected later: prepare the transaction with
+ * `prepareSTXTransfer` (or an equivalent) and pass `activityId` to
+ * `finalizeTransaction` once the activity is approved.
+ */
+export class ActivityPendingError extends SigningError {
+  /**
+   * ID of the pending Turnkey activity
+   */
+  public readonly activityId: string
+
+  /**
+   * Turnkey activity status (e.g. "ACTIVITY_STATUS_CONSENSUS_NEEDED")
+   */
+  public readonly activityStatus: TurnkeyActivityStatus
+
+  constructor(
+    message: string,
+    activityId: string,
+    activityStatus: TurnkeyActivityStatus,
+    options: { cause?: unknown } = {}
+  ) {
+    super(message, "ACTIVITY_PENDING", options)
+    this.name = "ActivityPendingError"
+    this.activityId = activityId
+    this.activityStatus = activityStatus
+  }
+}
+
+/**
+ * Thrown when a Turnkey signing activity failed or was rejected by its
+ * approvers
+ */
+export class ActivityFailedError extends SigningError {
+  /**
+   * ID of the Turnkey activity
+   */
+  public readonly activityId: string
+
+  /**
+   * Turnkey activity status ("ACTIVITY_STATUS_FAILED" or "ACTIVITY_STATUS_REJECTED")
+   */
+  public readonly activityStatus: TurnkeyActivityStatus
+
+  constructor(message: string, activityId: string, activityStatus: TurnkeyActivityStatus) {
+    super(message, "ACTIVITY_FAILED")
+    this.name = "ActivityFailedError"
+    this.activityId = activityId
+    this.activityStatus = activityStatus
+  }
+}
+
+/**
+ * Thrown when a transaction breaks the signer's signing policy
+ *
+ * Raised before anything is sent to Turnkey. `rule` names the rule that
+ * failed (e.g. "max-amount" or "contract-allowlist").
+ */
+export class PolicyViolationError extends TurnkeyStacksError {
+  /**
+   * Policy rule the transaction breaks
+   */
+  public readonly rule: SigningPolicyRule
+
+  constructor(message: string, rule: SigningPolicyRule) {
+    super(message, "POLICY_VIOLATION")
+    this.name = "PolicyViolationError"
+    this.rule = rule
+  }
+}
+
+/**
+ * Thrown when a balance check finds that the sender cannot afford a transaction
+ *
+ * Raised before anything is sent to Turnkey. Amounts are in microSTX;
+ * `available` excludes locked STX.
+ */
+export class InsufficientBalanceError extends TurnkeyStacksError {
+  /**
+   * Amount plus fee the transaction needs
+   */
+  public readonly required: bigint
+
+  /**
+   * Unlocked balance of the sender
+   */
+  public readonly available: bigint
+
+  constructor(message: string, required: bigint, available: bigint) {
+    super(message, "INSUFFICIENT_BALANCE")
+    this.name = "InsufficientBalanceError"
+    this.required = required
+    this.available = available
+  }
+}
+
+/**
+ * Details of a failed Stacks API request
+ */
+export interface ApiRequestErrorDetails {
+  /**
+   * HTTP status code, when the server responded
+   */
+  status?: number
+
+  /**
+   * Whether the request timed out
+   */
+  timedOut?: boolean
+
+  /**
+   * Delay requested by the server's Retry-After header, in milliseconds
+   */
+  retryAfterMs?: number
+
+  /**
+   * Underlying error
+   */
+  cause?: unknown
+}
+
+/**
+ * Thrown when a Stacks API request fails, times out or returns an
+ * unexpected response
+ */
+export class ApiRequestError extends TurnkeyStacksError {
+  /**
+   * HTTP status code, when the server responded
+   */
+  public readonly status: number | undefined
+
+  /**
+   * Whether the request timed out
+   */
+  public readonly timedOut: boolean
+
+  /**
+   * Delay requested by the server's Retry-After header, in milliseconds
+   */
+  public readonly retryAfterMs: number | undefined
+
+  constructor(
+    message: string,
+    details: ApiRequestErrorDetails = {},
+    code: TurnkeyStacksErrorCode = details.timedOut ? "API_TIMEOUT" : "API_REQUEST_FAILED"
+  ) {
+    super(message, code, { cause: details.cause })
+    this.name = "ApiRequestError"
+    this.status = details.status
+    this.timedOut = details.timedOut ?? false
+    this.retryAfterMs = details.retryAfterMs
+  }
+}
+
+/**
+ * Thrown when the nonce lookup fails or times out
+ */
+export class NonceFetchError extends ApiRequestError {
+  constructor(message: string, details: ApiRequestErrorDetails = {}) {
+    super(message, details, details.timedOut ? "NONCE_FETCH_TIMEOUT" : "NONCE_FETCH_FAILED")
+    this.name = "NonceFetchError"
+  }
+}
+
+/**
+ * Thrown when the node rejects a broadcast transaction
+ *
+ * `reason` is the node's rejection reason (e.g. "BadNonce",
+ * "ConflictingNonceInMempool", "FeeTooLow") when the node reported one.
+ */
+export class BroadcastError extends TurnkeyStacksError {
+  /**
+   * Rejection reason reported by the node
+   */
+  public readonly reason: BroadcastRejectionReason | undefined
+
+  /**
+   * Additional rejection details reported by the node
+   */
+  public readonly reasonData: unknown
+
+  /**
+   * ID of the rejected transaction, if reported
+   */
+  public readonly txid: string | undefined
+
+  constructor(
+    message: string,
+    reason?: BroadcastRejectionReason,
+    reasonData?: unknown,
+    txid?: string
+  ) {
+    super(message, "BROADCAST_REJECTED")
+    this.name = "BroadcastError"
+    this.reason = reason
+    this.reasonData = reasonData
+    this.txid = txid
+  }
+}
+
+/**
+ * Thrown when waitForTransaction times out before the transaction settles
+ */
+export class TransactionTimeoutError extends TurnkeyStacksError {
+  /**
+   * Last status seen before the timeout
+   */
+  public readonly lastStatus: TransactionStatusResult
+
+  constructor(message: string, lastStatus: TransactionStatusResult) {
+    super(message, "TRANSACTION_TIMEOUT")
+    this.name = "TransactionTimeoutError"
+    this.lastStatus = lastStatus
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * @turnkey/stacks - Fee estimation
+ *
+ * Chooses transaction fees: explicit fees are used as-is, otherwise the
+ * node's fee estimate is used with the configured strategy, multiplier and
+ * caps, falling back to a fixed fee when estimation fails.
+ */
+
+import {
+  StacksWireType,
+  isSingleSig,
+  serializePayload,
+  type StacksTransactionWire,
+} from "@stacks/transactions"
+
+import { fetchFeeEstimates } from "./api"
+import { InvalidInputError } from "./errors"
+import type { RetryPolicy } from "./retry"
+import type {
+  FeeDetails,
+  FeeEstimationOptions,
+  FeeStrategy,
+  StacksNetworkConfig,
+} from "./types"
+import { DEFAULT_FEE } from "./utils"
+
+const STRATEGY_INDEX: Record<FeeStrategy, 0 | 1 | 2> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+}
+
+// Auth field for one recoverable signature: 1 byte encoding + 65 bytes
+const MULTISIG_SIGNATURE_FIELD_BYTES = 66
+
+/**
+ * Chosen fee and how it was chosen
+ * @internal
+ */
+export interface ResolvedFee {
+  fee: bigint
+  feeDetails: FeeDetails
+}
+
+/**
+ * Resolves the fee for a built transaction
+ *
+ * Does not modify the transaction; callers apply the fee with `setFee`.
+ *
+ * @param transaction - Transaction the fee is for (its current fee is ignored)
+ * @param request - Explicit fee, sponsored flag, estimation options and retry policy
+ * @internal
+ */
+export async function resolveTransactionFee(
+  transaction: StacksTransactionWire,
+  request: {
+    fee?: bigint
+    sponsored?: boolean
+    options?: FeeEstimationOptions
+    network: StacksNetworkConfig
+    retry?: RetryPolicy
+  }
+): Promise<ResolvedFee> {
+  const { fee, sponsored, network } = request
+  const options = request.options ?? {}
+
+  // Sponsored transactions carry a zero origin fee — the sponsor pays
+  if (sponsored) {
+    if (fee !== undefined && fee !== 0n) {
+      throw new InvalidInputError(
+        "Sponsored transactions must not set an origin fee (the sponsor pays the fee)"
+      )
+    }
+    return { fee: 0n, feeDetails: { source: "sponsored" } }
+  }
+
+  if (fee !== undefined) {
+    if (fee < 0n) {
+      throw new InvalidInputError("Fee must not be negative")
+    }
+    return { fee, feeDetails: { source: "explicit" } }
+  }
+
+  const strategy = options.strategy ?? "medium"
+  const multiplier = options.multiplier ?? 1
+  const { minFee, maxFee } = options
+
+  if (!Number.isFinite(multiplier) || multiplier <= 0) {
+    throw new InvalidInputError(
+      `Invalid fee multiplier: ${multiplier} (expected a positive number)`
+    )
+  }
+
+  if (minFee !== undefined && maxFee !== undefined && minFee > maxFee) {
+    throw new InvalidInputError(
+      `Invalid fee caps: minFee ${minFee} is greater than maxFee ${maxFee}`
+    )
+  }
+
+  // The default fallback follows the caps; a configured one must already be within them
+  const fallbackFee = options.fallbackFee ?? clampFee(DEFAULT_FEE, minFee, maxFee)
+  if (clampFee(fallbackFee, minFee, maxFee) !== fallbackFee) {
+    throw new InvalidInputError(
+      `Invalid fallbackFee: ${fallbackFee} is outside the fee caps ` +
+        `(minFee ${minFee ?? "none"}, maxFee ${maxFee ?? "none"})`
+    )
+  }
+
+  if (options.enabled === false) {
+    return {
+      fee: fallbackFee,
+      feeDetails: { source: "fallback", reason: "Fee estimation disabled" },
+    }
+  }
+
+  let estimate: bigint
+  try {
+    const estimates = await fetchFeeEstimates(
+      serializePayload(transaction.payload),
+      estimateSignedLength(transaction),
+      network,
+      request.retry
+    )
+    estimate = estimates[STRATEGY_INDEX[strategy]]
+  } catch (error) {
+    return {
+      fee: fallbackFee,
+      feeDetails: {
+        source: "fallback",
+        reason: error instanceof Error ? error.message : String(error),
+      },
+    }
+  }
+
+  const chosen = clampFee(BigInt(Math.ceil(Number(estimate) * multiplier)), minFee, maxFee)
+
+  return {
+    fee: chosen,
+    feeDetails: { source: "estimated", strategy, estimate },
+  }
+}
+
+/**
+ * Checks that a replacement fee satisfies the node's replace-by-fee rule
+ *
+ * The mempool only replaces a transaction with one at the same nonce that
+ * pays a strictly higher fee.
+ *
+ * @throws Error if the new fee is not higher than the original fee
+ * @internal
+ */
+export function assertReplacementFee(originalFee: bigint, newFee: bigint): void {
+  if (newFee <= originalFee) {
+    throw new InvalidInputError(
+      `Replacement fee ${newFee} must be higher than the original fee ${originalFee} (minimum ${originalFee + 1n})`
+    )
+  }
+}
+
+/**
+ * Estimates the length of the transaction once fully signed
+ *
+ * Single-sig transactions already reserve space for the signature. Multisig
+ * transactions grow by one auth field per missing signature.
+ * @internal
+ */
+function estimateSignedLength(transaction: StacksTransactionWire): number {
+  const length = transaction.serializeBytes().byteLength
+  const condition = transaction.auth.spendingCondition
+
+  if (isSingleSig(condition)) {
+    return length
+  }
+
+  const existingSignatures = condition.fields.filter(
+    (field) => field.contents.type === StacksWireType.MessageSignature
+  ).length
+  const missing = Math.max(condition.signaturesRequired - existingSignatures, 0)
+
+  return length + missing * MULTISIG_SIGNATURE_FIELD_BYTES
+}
+
+/**
+ * Limits a fee to the optional minFee/maxFee caps
+ * @internal
+ */
+function clampFee(fee: bigint, minFee?: bigint, maxFee?: bigint): bigint {
+  if (minFee !== undefined && fee < minFee) return minFee
+  if (maxFee !== undefined && fee > maxFee) return maxFee
+  return fee
+}
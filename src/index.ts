@@ -42,303 +42,2068 @@
  */
 
 import {
-  broadcastTransaction as stacksBroadcastTransaction,
+  AddressHashMode,
+  AuthType,
   createMessageSignature,
-  makeUnsignedSTXTokenTransfer,
+  createSingleSigSpendingCondition,
+  emptyMessageSignature,
+  isSingleSig,
+  publicKeyFromSignatureVrs,
   publicKeyToAddress,
   sigHashPreSign,
   TransactionSigner,
   validateStacksAddress,
+  type ClarityValue,
   type SingleSigSpendingCondition,
+  type SponsoredAuthorization,
   type StacksTransactionWire,
 } from "@stacks/transactions"
 
 import type {
   TurnkeySignerClient,
   TurnkeySignerConfig,
+  TurnkeyWalletAccount,
+  TurnkeyWalletClient,
+  WalletSignerConfig,
+  WalletAddressSignerConfig,
+  EnumerateAccountsParams,
+  WalletAccountInfo,
+  FeeStrategy,
+  FeeEstimationOptions,
+  FeeSource,
+  FeeDetails,
   STXTransferParams,
+  ContractCallParams,
+  FungibleTokenTransferParams,
+  FungibleTokenInfo,
+  NonFungibleTokenId,
+  NonFungibleTokenTransferParams,
+  StxBalance,
+  FungibleTokenBalance,
+  NonFungibleTokenHolding,
+  ReadOnlyCallOptions,
+  PoxInfo,
+  PoxTransactionOptions,
+  SignerKeyAuthorization,
+  StackStxParams,
+  StackExtendParams,
+  StackIncreaseParams,
+  DelegateStxParams,
+  DelegateStackStxParams,
+  StackAggregationCommitParams,
+  SignerKeyAuthorizationTopic,
+  SignerKeyAuthorizationParams,
+  ContractDeployParams,
+  SponsorshipParams,
+  MultisigSignerConfig,
   SignedTransactionResult,
+  ResolvedRecipient,
+  SignedRawTransactionResult,
+  UnsignedTransactionResult,
+  StxAmount,
+  DescribedClarityValue,
+  PostConditionDescription,
+  TransactionDescriptionType,
+  TransactionDescription,
+  StructuredDataDomain,
+  MessageSignatureResult,
+  SignatureVerificationTarget,
+  MessageVerificationParams,
+  StructuredDataVerificationParams,
+  SponsoredTransactionResult,
   BroadcastResult,
+  ContractCallBroadcastResult,
   StacksNetworkType,
+  StacksNetworkConfig,
+  StacksNetworkOption,
+  NonceState,
+  NonceStore,
+  NonceManagerOptions,
+  SigningPolicyRule,
+  ContractCallRule,
+  SpendingLimit,
+  SpendingRecord,
+  SpendingStore,
+  SigningPolicy,
+  TransactionStatus,
+  TransactionStatusResult,
+  WaitForTransactionOptions,
+  BroadcastOptions,
+  SpeedUpTransactionParams,
+  CancelTransactionParams,
+  ReplacementTransactionResult,
+  RetryOptions,
+  BroadcastTransactionOptions,
+  BatchSTXTransferParams,
+  BatchSignOptions,
+  BatchItemSuccess,
+  BatchItemFailure,
+  BatchItemResult,
+  BatchFailurePolicy,
+  BatchBroadcastOptions,
+  BatchBroadcastItemResult,
+  TurnkeyActivityStatus,
+  TurnkeyActivity,
+  PreparedTransaction,
+  SignatureRequestResult,
+  WaitForActivityOptions,
+  FinalizeTransactionOptions,
+  WalletRpcInteger,
+  WalletAddressEntry,
+  WalletAccountParams,
+  WalletTransferStxParams,
+  WalletCallContractParams,
+  WalletSignTransactionParams,
+  WalletSignMessageParams,
+  WalletSignStructuredMessageParams,
+  WalletTransactionResult,
+  WalletRpcMethods,
+  WalletRpcMethod,
+  WalletRpcRequest,
+  WalletRpcSuccessResponse,
+  WalletRpcErrorObject,
+  WalletRpcErrorResponse,
+  WalletApprovalRequest,
+  WalletProviderConfig,
 } from "./types"
 
+import { activityOf, activitySignature, pollActivity, throwUnfinishedActivity } from "./activity"
+import {
+  fetchFungibleTokenBalances,
+  fetchNonce,
+  fetchNonFungibleTokenHoldings,
+  fetchPoxInfo,
+  fetchReadOnly,
+  fetchStxBalance,
+} from "./api"
+import { getBnsPrimaryName, parseBnsName, resolveBnsName, resolveName } from "./bns"
+import { broadcastSigned, broadcastTransaction, broadcastTransactionBatch } from "./broadcast"
+import {
+  buildContractCall,
+  buildContractDeploy,
+  buildSTXTransfer,
+  validateContractCallParams,
+  validateContractDeployParams,
+  validateSTXTransferParams,
+  type BuildOptions,
+  type OriginKeys,
+} from "./builders"
+import {
+  hashMessage,
+  hashStructuredDataMessage,
+  verifyMessageSignature,
+  verifyStructuredDataSignature,
+} from "./message"
+import { TurnkeyMultisigSigner, appendMultisigSignatureField } from "./multisig"
+import { getTransactionStatus, waitForTransaction } from "./confirmation"
+import { describeTransaction } from "./describe"
+import {
+  ActivityFailedError,
+  ActivityPendingError,
+  ApiRequestError,
+  BroadcastError,
+  IncompleteSignatureError,
+  InvalidInputError,
+  NonceFetchError,
+  PolicyViolationError,
+  InsufficientBalanceError,
+  SignatureVerificationError,
+  SigningError,
+  SigningKeyNotFoundError,
+  TransactionTimeoutError,
+  TurnkeyStacksError,
+  type ApiRequestErrorDetails,
+  type BroadcastRejectionReason,
+  type TurnkeyStacksErrorCode,
+} from "./errors"
+import { assertReplacementFee, resolveTransactionFee } from "./fees"
+import { addressNetwork, burnAddress, createNetwork, resolveNetwork } from "./network"
+import { InMemoryNonceStore, NonceManager } from "./nonce"
+import {
+  buildDelegateStackStxCall,
+  buildDelegateStxCall,
+  buildRevokeDelegateStxCall,
+  buildStackAggregationCommitCall,
+  buildStackExtendCall,
+  buildStackIncreaseCall,
+  buildStackStxCall,
+  getPoxInfo,
+  signerKeyAuthorizationMessage,
+} from "./pox"
+import {
+  InMemorySpendingStore,
+  enforceSigningPolicy,
+  resolveSigningPolicy,
+  type ResolvedSigningPolicy,
+} from "./policy"
+import { TurnkeyWalletProvider, WalletRpcErrorCode } from "./provider"
+import {
+  resolveRetryPolicy,
+  withRetry,
+  withTimeout,
+  type RetryPolicy,
+} from "./retry"
+import {
+  assertNonFungibleTokenOwner,
+  buildFungibleTokenTransferCall,
+  buildNonFungibleTokenTransferCall,
+  getFungibleTokenInfo,
+  getNonFungibleTokenOwner,
+  resolveTokenAmount,
+  validateFungibleTokenTransferParams,
+  validateNonFungibleTokenTransferParams,
+} from "./tokens"
+import {
+  mapWithConcurrency,
+  normalizeLowS,
+  normalizeRecoveryByte,
+  parseTransaction,
+  validateCompressedPublicKey,
+} from "./utils"
+import { enumerateAccounts, findWalletPublicKey, resolveWalletPublicKey } from "./wallet"
+
 // Re-export types
 export type {
   TurnkeySignerClient,
   TurnkeySignerConfig,
+  TurnkeyWalletAccount,
+  TurnkeyWalletClient,
+  WalletSignerConfig,
+  WalletAddressSignerConfig,
+  EnumerateAccountsParams,
+  WalletAccountInfo,
+  FeeStrategy,
+  FeeEstimationOptions,
+  FeeSource,
+  FeeDetails,
   STXTransferParams,
+  ContractCallParams,
+  FungibleTokenTransferParams,
+  FungibleTokenInfo,
+  NonFungibleTokenId,
+  NonFungibleTokenTransferParams,
+  StxBalance,
+  FungibleTokenBalance,
+  NonFungibleTokenHolding,
+  ReadOnlyCallOptions,
+  PoxInfo,
+  PoxTransactionOptions,
+  SignerKeyAuthorization,
+  StackStxParams,
+  StackExtendParams,
+  StackIncreaseParams,
+  DelegateStxParams,
+  DelegateStackStxParams,
+  StackAggregationCommitParams,
+  SignerKeyAuthorizationTopic,
+  SignerKeyAuthorizationParams,
+  ContractDeployParams,
+  SponsorshipParams,
+  MultisigSignerConfig,
   SignedTransactionResult,
+  ResolvedRecipient,
+  SignedRawTransactionResult,
+  UnsignedTransactionResult,
+  StxAmount,
+  DescribedClarityValue,
+  PostConditionDescription,
+  TransactionDescriptionType,
+  TransactionDescription,
+  StructuredDataDomain,
+  MessageSignatureResult,
+  SignatureVerificationTarget,
+  MessageVerificationParams,
+  StructuredDataVerificationParams,
+  SponsoredTransactionResult,
   BroadcastResult,
+  ContractCallBroadcastResult,
   StacksNetworkType,
+  StacksNetworkConfig,
+  StacksNetworkOption,
+  NonceState,
+  NonceStore,
+  NonceManagerOptions,
+  SigningPolicyRule,
+  ContractCallRule,
+  SpendingLimit,
+  SpendingRecord,
+  SpendingStore,
+  SigningPolicy,
+  TransactionStatus,
+  TransactionStatusResult,
+  WaitForTransactionOptions,
+  BroadcastOptions,
+  SpeedUpTransactionParams,
+  CancelTransactionParams,
+  ReplacementTransactionResult,
+  RetryOptions,
+  BroadcastTransactionOptions,
+  BatchSTXTransferParams,
+  BatchSignOptions,
+  BatchItemSuccess,
+  BatchItemFailure,
+  BatchItemResult,
+  BatchFailurePolicy,
+  BatchBroadcastOptions,
+  BatchBroadcastItemResult,
+  TurnkeyStacksErrorCode,
+  BroadcastRejectionReason,
+  ApiRequestErrorDetails,
+  TurnkeyActivityStatus,
+  TurnkeyActivity,
+  PreparedTransaction,
+  SignatureRequestResult,
+  WaitForActivityOptions,
+  FinalizeTransactionOptions,
+  WalletRpcInteger,
+  WalletAddressEntry,
+  WalletAccountParams,
+  WalletTransferStxParams,
+  WalletCallContractParams,
+  WalletSignTransactionParams,
+  WalletSignMessageParams,
+  WalletSignStructuredMessageParams,
+  WalletTransactionResult,
+  WalletRpcMethods,
+  WalletRpcMethod,
+  WalletRpcRequest,
+  WalletRpcSuccessResponse,
+  WalletRpcErrorObject,
+  WalletRpcErrorResponse,
+  WalletApprovalRequest,
+  WalletProviderConfig,
+}
+
+export { TurnkeyMultisigSigner }
+export { createNetwork }
+export { broadcastTransaction, broadcastTransactionBatch }
+export {
+  TurnkeyStacksError,
+  InvalidInputError,
+  SigningError,
+  SigningKeyNotFoundError,
+  IncompleteSignatureError,
+  SignatureVerificationError,
+  ActivityPendingError,
+  ActivityFailedError,
+  PolicyViolationError,
+  InsufficientBalanceError,
+  ApiRequestError,
+  NonceFetchError,
+  BroadcastError,
+  TransactionTimeoutError,
+}
+export { getTransactionStatus, waitForTransaction }
+export { describeTransaction }
+export { getFungibleTokenInfo, getNonFungibleTokenOwner }
+export { getPoxInfo }
+export { resolveBnsName, getBnsPrimaryName }
+export { NonceManager, InMemoryNonceStore }
+export { InMemorySpendingStore }
+export { enumerateAccounts }
+export { TurnkeyWalletProvider, WalletRpcErrorCode }
+export {
+  hashMessage,
+  hashStructuredDataMessage,
+  verifyMessageSignature,
+  verifyStructuredDataSignature,
 }
 
 // Users can check which version they are using. Could be used later for http calls.
 export { VERSION } from "./__generated__/version"
 
-const FETCH_TIMEOUT_MS = 10_000 // 10 seconds
-
-// Default fee for STX transfers (conservative)
-const DEFAULT_FEE = 180n
-
-// API endpoints by network
-const API_ENDPOINTS: Record<StacksNetworkType, string> = {
-  testnet: "https://api.testnet.hiro.so",
-  mainnet: "https://api.hiro.so",
-}
+// Turnkey signing requests in flight during batch signing
+const DEFAULT_BATCH_CONCURRENCY = 5
 
 /**
- * Validates that a public key is in compressed secp256k1 format.
- * Normalizes to lowercase hex (Turnkey's signWith is case-sensitive).
- * @internal
+ * TurnkeySigner - Turnkey signer for Stacks transactions
+ *
+ * Works with both browser clients (httpClient from useTurnkey) and
+ * server clients (apiClient from @turnkey/sdk-server).
+ *
+ * @example Browser (client-side) signing — no organizationId needed
+ * ```typescript
+ * import { TurnkeySigner } from "@turnkey/stacks"
+ * import { useTurnkey } from "@turnkey/react-wallet-kit"
+ *
+ * const { httpClient } = useTurnkey()
+ * const signer = new TurnkeySigner({
+ *   client: httpClient,
+ *   publicKey: wallets[0].accounts[0].publicKey,
+ * })
+ * ```
+ *
+ * @example Server-side signing — organizationId required
+ * ```typescript
+ * import { TurnkeySigner } from "@turnkey/stacks"
+ * import { Turnkey } from "@turnkey/sdk-server"
+ *
+ * const turnkey = new Turnkey({ ... })
+ * const signer = new TurnkeySigner({
+ *   client: turnkey.apiClient(),
+ *   organizationId: process.env.TURNKEY_ORGANIZATION_ID,
+ *   publicKey: "025afa...",
+ * })
+ * ```
  */
-function validateCompressedPublicKey(pubKeyHex: string): string {
-  if (typeof pubKeyHex !== "string") {
-    throw new Error("Public key must be a string")
+export class TurnkeySigner {
+  /**
+   * Turnkey organization ID (undefined when using browser client)
+   */
+  public readonly organizationId: string | undefined
+
+  /**
+   * Default network for this signer
+   */
+  public readonly network: StacksNetworkOption
+
+  /**
+   * Nonce manager used when a transaction does not set a nonce
+   */
+  public readonly nonceManager: NonceManager | undefined
+
+  /**
+   * Retry policy for signing and the signer's API calls
+   */
+  public readonly retry: RetryOptions | undefined
+
+  private readonly client: TurnkeySignerClient
+  private readonly compressedPublicKey: string
+  private readonly feeEstimation: FeeEstimationOptions | undefined
+  private readonly retryPolicy: RetryPolicy
+  private readonly describe: boolean
+  private readonly resolveNames: boolean
+  private readonly policy: ResolvedSigningPolicy | undefined
+
+  /**
+   * Creates a new TurnkeySigner instance
+   *
+   * @param config - Signer configuration
+   * @throws Error if public key or retry options are invalid
+   */
+  constructor(config: TurnkeySignerConfig) {
+    this.client = config.client
+    this.organizationId = config.organizationId
+    this.network = config.network ?? "testnet"
+    this.feeEstimation = config.feeEstimation
+    this.nonceManager = config.nonceManager
+    this.retry = config.retry
+    this.retryPolicy = resolveRetryPolicy(config.retry)
+    this.describe = config.describe ?? false
+    this.resolveNames = config.resolveNames ?? false
+    this.policy = config.policy && resolveSigningPolicy(config.policy)
+
+    // Fail fast on an invalid network configuration
+    resolveNetwork(this.network)
+
+    // Validate and normalize the public key
+    this.compressedPublicKey = validateCompressedPublicKey(config.publicKey)
+  }
+
+  /**
+   * Creates a signer for a Stacks account of a Turnkey HD wallet
+   *
+   * Looks up the account at m/44'/5757'/0'/0/{accountIndex} with the
+   * client's getWalletAccounts. If the wallet has no account there, it is
+   * created with createWalletAccounts (unless `createAccount` is false).
+   *
+   * @param config - Wallet ID and account index, plus the other signer options
+   * @returns Signer for the account
+   * @throws InvalidInputError if the account does not exist and cannot be created
+   * @throws SigningError if a Turnkey request fails
+   *
+   * @example
+   * ```typescript
+   * const signer = await TurnkeySigner.fromWallet({
+   *   client: turnkey.apiClient(),
+   *   organizationId: process.env.TURNKEY_ORGANIZATION_ID!,
+   *   walletId: "...",
+   *   accountIndex: 1,
+   *   network: "mainnet",
+   * })
+   * ```
+   */
+  static async fromWallet(config: WalletSignerConfig): Promise<TurnkeySigner> {
+    const { walletId, accountIndex = 0, createAccount = true, ...signerConfig } = config
+
+    const publicKey = await resolveWalletPublicKey(
+      config.client,
+      { walletId, organizationId: config.organizationId, accountIndex, createAccount },
+      resolveRetryPolicy(config.retry)
+    )
+    return new TurnkeySigner({ ...signerConfig, publicKey })
+  }
+
+  /**
+   * Creates a signer for the Turnkey wallet account with a Stacks address
+   *
+   * The network defaults to the address's network, read from its version
+   * (SP/SM... for mainnet, ST/SN... for testnet).
+   *
+   * @param config - Wallet ID and address, plus the other signer options
+   * @returns Signer for the account
+   * @throws InvalidInputError if no account of the wallet has the address, or
+   * the network is not given and cannot be inferred from the address
+   * @throws SigningError if the Turnkey request fails
+   *
+   * @example
+   * ```typescript
+   * const signer = await TurnkeySigner.fromWalletAddress({
+   *   client: turnkey.apiClient(),
+   *   organizationId: process.env.TURNKEY_ORGANIZATION_ID!,
+   *   walletId: "...",
+   *   address: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+   * })
+   * ```
+   */
+  static async fromWalletAddress(config: WalletAddressSignerConfig): Promise<TurnkeySigner> {
+    const { walletId, address, ...signerConfig } = config
+
+    const network = config.network ?? addressNetwork(address)
+    if (network === undefined) {
+      throw new InvalidInputError(
+        `Cannot infer the network of address ${address}. Pass network explicitly`
+      )
+    }
+
+    const publicKey = await findWalletPublicKey(
+      config.client,
+      { walletId, organizationId: config.organizationId, address },
+      resolveRetryPolicy(config.retry)
+    )
+    return new TurnkeySigner({ ...signerConfig, network, publicKey })
+  }
+
+  /**
+   * Returns the Stacks address for this signer
+   *
+   * @param network - Optional network override (defaults to signer's configured network)
+   * @returns Stacks address (ST... for testnet and devnet, SP... for mainnet)
+   */
+  getAddress(network?: StacksNetworkOption): string {
+    const { addressVersion } = resolveNetwork(network ?? this.network)
+    return publicKeyToAddress(addressVersion.singleSig, this.compressedPublicKey)
+  }
+
+  /**
+   * Returns the compressed public key used by this signer
+   */
+  getPublicKey(): string {
+    return this.compressedPublicKey
+  }
+
+  /**
+   * Returns the STX balance of this signer or another address, split into
+   * locked and available microSTX
+   *
+   * @param address - Address or contract ID (defaults to this signer's address)
+   * @returns Total, locked and available balance
+   * @throws ApiRequestError if the request fails
+   *
+   * @example
+   * ```typescript
+   * const { available, locked, unlockHeight } = await signer.getStxBalance()
+   * ```
+   */
+  async getStxBalance(address?: string): Promise<StxBalance> {
+    return fetchStxBalance(
+      this.accountAddress(address),
+      resolveNetwork(this.network),
+      this.retryPolicy
+    )
+  }
+
+  /**
+   * Returns the fungible token balances of this signer or another address
+   *
+   * @param address - Address or contract ID (defaults to this signer's address)
+   * @returns Balance of every token the address has held, in base units
+   * @throws ApiRequestError if the request fails
+   */
+  async getFungibleTokenBalances(address?: string): Promise<FungibleTokenBalance[]> {
+    return fetchFungibleTokenBalances(
+      this.accountAddress(address),
+      resolveNetwork(this.network),
+      this.retryPolicy
+    )
+  }
+
+  /**
+   * Returns the NFTs held by this signer or another address
+   *
+   * @param address - Address or contract ID (defaults to this signer's address)
+   * @returns Every NFT the address holds, with its decoded token ID
+   * @throws ApiRequestError if a request fails
+   */
+  async getNonFungibleTokenHoldings(address?: string): Promise<NonFungibleTokenHolding[]> {
+    return fetchNonFungibleTokenHoldings(
+      this.accountAddress(address),
+      resolveNetwork(this.network),
+      this.retryPolicy
+    )
+  }
+
+  /**
+   * Calls a read-only contract function on the signer's network and decodes
+   * the result
+   *
+   * The type parameter narrows the returned ClarityValue; use `cvToValue`
+   * from @stacks/transactions to convert it into plain JavaScript values.
+   *
+   * @param contractId - Contract ID (`<address>.<contract-name>`)
+   * @param functionName - Read-only function to call
+   * @param functionArgs - Function arguments
+   * @param options - Sender the call is evaluated as
+   * @returns The function's decoded return value
+   * @throws InvalidInputError if the contract ID is invalid
+   * @throws ApiRequestError if the request fails or the node cannot evaluate the call
+   *
+   * @example
+   * ```typescript
+   * import { Cl, type ResponseOkCV, type UIntCV } from "@stacks/transactions"
+   *
+   * const result = await signer.callReadOnly<ResponseOkCV<UIntCV>>(
+   *   "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token",
+   *   "get-balance",
+   *   [Cl.principal(signer.getAddress())]
+   * )
+   * const balance = result.value.value
+   * ```
+   */
+  async callReadOnly<T extends ClarityValue = ClarityValue>(
+    contractId: string,
+    functionName: string,
+    functionArgs: ClarityValue[] = [],
+    options: ReadOnlyCallOptions = {}
+  ): Promise<T> {
+    const [contractAddress, contractName, ...rest] = String(contractId).split(".")
+    const valid = contractAddress && validateStacksAddress(contractAddress) && contractName
+    if (!valid || rest.length > 0) {
+      throw new InvalidInputError(
+        `Invalid contract ID: ${contractId}. Expected <address>.<contract-name>`
+      )
+    }
+
+    const result = await fetchReadOnly(
+      contractId,
+      functionName,
+      functionArgs,
+      this.accountAddress(options.sender),
+      resolveNetwork(this.network),
+      this.retryPolicy
+    )
+    return result as T
+  }
+
+  /**
+   * Signs an STX token transfer transaction
+   *
+   * This method builds an unsigned STX transfer, generates the signing hash,
+   * signs it with Turnkey, and returns the signed transaction. If the signer
+   * resolves names and `recipient` is a BNS name, the name is resolved first
+   * and reported as `resolvedRecipient`.
+   *
+   * @param params - Transfer parameters
+   * @returns Signed transaction result
+   * @throws Error if recipient address is invalid or amount is <= 0
+   * @throws InvalidInputError if a BNS name recipient is not registered, expired or revoked
+   *
+   * @example
+   * ```typescript
+   * const { transaction, senderAddress, nonce, fee } = await signer.signSTXTransfer({
+   *   recipient: "ST20J4GKB8W7KKA8B0KZ3J7G330DZ1WEWYXJKD4PV",
+   *   amount: 1_000_000n, // 1 STX
+   *   memo: "Payment for services",
+   * })
+   * ```
+   */
+  async signSTXTransfer(params: STXTransferParams): Promise<SignedTransactionResult> {
+    const { params: transfer, resolvedRecipient } = await this.resolveRecipient(params)
+    validateSTXTransferParams(transfer)
+
+    const signed = await this.withUnsignedTransaction(
+      transfer,
+      buildSTXTransfer,
+      async (unsigned) => {
+        if (transfer.checkBalance) {
+          await this.assertBalance(
+            unsigned.senderAddress,
+            transfer.amount + unsigned.fee,
+            resolveNetwork(transfer.network ?? this.network)
+          )
+        }
+        await this.signOrigin(unsigned.transaction)
+        return this.withDescription(unsigned)
+      }
+    )
+    return withResolvedRecipient(signed, resolvedRecipient)
+  }
+
+  /**
+   * Signs many STX transfers with consecutive nonces
+   *
+   * The starting nonce is fetched once (or taken from `startNonce` or the
+   * nonce manager) and assigned in input order to the transfers that pass
+   * validation. Transfers are then signed with at most `concurrency` Turnkey
+   * requests in flight. A failing transfer does not fail the batch; each
+   * result reports its own value or error.
+   *
+   * A transfer that fails after getting a nonce leaves a gap that blocks
+   * later nonces until it is filled. With a nonce manager, its nonce is
+   * released so the next transaction fills it. broadcastTransactionBatch
+   * stops at gaps by default.
+   *
+   * @param transfers - Transfers to sign
+   * @param options - Network, starting nonce and signing concurrency
+   * @returns Per-transfer results, in input order
+   * @throws Error if concurrency is invalid or the starting nonce cannot be fetched
+   *
+   * @example
+   * ```typescript
+   * const results = await signer.signSTXTransferBatch(
+   *   payouts.map(({ address, amount }) => ({ recipient: address, amount })),
+   *   { concurrency: 10 }
+   * )
+   * const broadcasts = await broadcastTransactionBatch(results, "mainnet")
+   * ```
+   */
+  async signSTXTransferBatch(
+    transfers: readonly BatchSTXTransferParams[],
+    options: BatchSignOptions = {}
+  ): Promise<BatchItemResult<SignedTransactionResult>[]> {
+    const network = resolveNetwork(options.network ?? this.network)
+    const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidInputError(`Invalid concurrency: ${concurrency}. Must be a positive integer`)
+    }
+
+    const senderAddress = this.getAddress(network)
+
+    // Resolve BNS names and validate up front so only valid transfers take a nonce
+    const invalid = new Map<number, unknown>()
+    const resolved = await mapWithConcurrency(transfers, concurrency, async (transfer, index) => {
+      try {
+        const result = await this.resolveRecipient({ ...transfer, network })
+        validateSTXTransferParams(result.params)
+        return result
+      } catch (error) {
+        invalid.set(index, error)
+        return undefined
+      }
+    })
+
+    const nonces = await this.acquireBatchNonces(
+      senderAddress,
+      network,
+      transfers.length - invalid.size,
+      options.startNonce
+    )
+    const managed = options.startNonce === undefined && this.nonceManager !== undefined
+
+    let next = 0
+    const assigned = transfers.map((_, index) => (invalid.has(index) ? undefined : nonces[next++]))
+
+    return mapWithConcurrency(
+      transfers,
+      concurrency,
+      async (_, index): Promise<BatchItemResult<SignedTransactionResult>> => {
+        const nonce = assigned[index]
+        const { params: transfer, resolvedRecipient } = resolved[index] ?? {}
+        if (nonce === undefined || transfer === undefined) {
+          return { index, status: "rejected", error: invalid.get(index) }
+        }
+
+        try {
+          const signed = await this.signSTXTransfer({ ...transfer, nonce })
+          const value = withResolvedRecipient(signed, resolvedRecipient)
+          return { index, status: "fulfilled", value }
+        } catch (error) {
+          if (managed) await this.nonceManager!.release(senderAddress, nonce, network)
+          return { index, status: "rejected", error, nonce }
+        }
+      }
+    )
+  }
+
+  /**
+   * Signs a Clarity contract call transaction
+   *
+   * This method builds an unsigned contract call, generates the signing hash,
+   * signs it with Turnkey, and returns the signed transaction.
+   *
+   * @param params - Contract call parameters
+   * @returns Signed transaction result
+   * @throws Error if the contract address or function name is invalid
+   *
+   * @example
+   * ```typescript
+   * import { Cl, Pc } from "@stacks/transactions"
+   *
+   * const { transaction } = await signer.signContractCall({
+   *   contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+   *   contractName: "my-token",
+   *   functionName: "transfer",
+   *   functionArgs: [Cl.uint(100), Cl.principal(sender), Cl.principal(recipient), Cl.none()],
+   *   postConditions: [Pc.principal(sender).willSendEq(100).ft("ST1PQ...my-token", "token")],
+   * })
+   * ```
+   */
+  async signContractCall(params: ContractCallParams): Promise<SignedTransactionResult> {
+    validateContractCallParams(params)
+
+    return this.withUnsignedTransaction(params, buildContractCall, async (unsigned) => {
+      await this.signOrigin(unsigned.transaction)
+      return this.withDescription(unsigned)
+    })
+  }
+
+  /**
+   * Signs a SIP-010 fungible token transfer
+   *
+   * Builds a call to the token's `transfer` function from this signer's
+   * address, in post-condition deny mode with a post-condition that lets the
+   * sender send exactly `amount` of the token. Amounts given as decimal
+   * strings are in display units and are converted with the token's
+   * decimals, which are read from the contract unless `decimals` is given.
+   *
+   * @param params - Token transfer parameters
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the token contract, recipient, amount or memo is invalid
+   * @throws ApiRequestError if the token's decimals cannot be read
+   *
+   * @example
+   * ```typescript
+   * const { transaction } = await signer.signFungibleTokenTransfer({
+   *   tokenContract: "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token",
+   *   assetName: "sbtc-token",
+   *   recipient: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+   *   amount: "0.5", // 50_000_000 base units with 8 decimals
+   *   memo: "invoice 42",
+   * })
+   * ```
+   */
+  async signFungibleTokenTransfer(
+    params: FungibleTokenTransferParams
+  ): Promise<SignedTransactionResult> {
+    const { params: transfer, resolvedRecipient } = await this.resolveRecipient(params)
+    validateFungibleTokenTransferParams(transfer)
+    const network = resolveNetwork(transfer.network ?? this.network)
+    const amount = await resolveTokenAmount(transfer, network, this.retryPolicy)
+
+    const signed = await this.signContractCall(
+      buildFungibleTokenTransferCall(transfer, this.getAddress(network), amount)
+    )
+    return withResolvedRecipient(signed, resolvedRecipient)
+  }
+
+  /**
+   * Signs a SIP-009 non-fungible token transfer
+   *
+   * Builds a call to the contract's `transfer` function from this signer's
+   * address, in post-condition deny mode with a post-condition that lets the
+   * sender send the token. With `checkOwnership`, the contract's `get-owner`
+   * is read first and signing is refused unless the signer owns the token.
+   *
+   * @param params - NFT transfer parameters
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the parameters are invalid, or the signer does not own the token
+   * @throws ApiRequestError if the owner cannot be read
+   *
+   * @example
+   * ```typescript
+   * const { transaction } = await signer.signNonFungibleTokenTransfer({
+   *   nftContract: "SP2X0TZ59D5SZ8ACQ6YMCHHNR2ZN51Z32E2CJ173.the-explorer-guild",
+   *   assetName: "The-Explorer-Guild",
+   *   tokenId: 42n,
+   *   recipient: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+   *   checkOwnership: true,
+   * })
+   * ```
+   */
+  async signNonFungibleTokenTransfer(
+    params: NonFungibleTokenTransferParams
+  ): Promise<SignedTransactionResult> {
+    const { params: transfer, resolvedRecipient } = await this.resolveRecipient(params)
+    validateNonFungibleTokenTransferParams(transfer)
+    const network = resolveNetwork(transfer.network ?? this.network)
+    const sender = this.getAddress(network)
+
+    if (transfer.checkOwnership) {
+      await assertNonFungibleTokenOwner(transfer, sender, network, this.retryPolicy)
+    }
+
+    const signed = await this.signContractCall(buildNonFungibleTokenTransferCall(transfer, sender))
+    return withResolvedRecipient(signed, resolvedRecipient)
+  }
+
+  /**
+   * Signs a pox-4 `stack-stx` call, locking STX for `lockPeriod` reward cycles
+   *
+   * The network's PoX parameters are read first: the amount must be at least
+   * the next cycle's minimum, and the start height (by default the current
+   * burn block height) must be in the current cycle. The signer key
+   * authorization's reward cycle is the current cycle.
+   *
+   * @param params - Amount, reward address, lock period and signer key authorization
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the parameters fail validation against the PoX parameters
+   * @throws ApiRequestError if the PoX parameters cannot be read
+   *
+   * @example
+   * ```typescript
+   * const { currentCycle } = await getPoxInfo("mainnet")
+   * const { signature } = await signerKeySigner.signSignerKeyAuthorization({
+   *   topic: "stack-stx",
+   *   poxAddress: "bc1q...",
+   *   rewardCycle: currentCycle,
+   *   period: 12,
+   *   maxAmount: 200_000_000_000n,
+   *   authId: 1n,
+   * })
+   *
+   * const { transaction } = await signer.signStackStx({
+   *   amount: 150_000_000_000n,
+   *   poxAddress: "bc1q...",
+   *   lockPeriod: 12,
+   *   signerKey: signerKeySigner.getPublicKey(),
+   *   signerSignature: signature,
+   *   maxAmount: 200_000_000_000n,
+   *   authId: 1n,
+   * })
+   * ```
+   */
+  async signStackStx(params: StackStxParams): Promise<SignedTransactionResult> {
+    return this.signPoxCall(params, buildStackStxCall)
+  }
+
+  /**
+   * Signs a pox-4 `stack-extend` call, extending a solo stacker's lock by
+   * `extendCount` reward cycles
+   *
+   * @param params - Extension, reward address and signer key authorization
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the parameters are invalid
+   * @throws ApiRequestError if the PoX parameters cannot be read
+   */
+  async signStackExtend(params: StackExtendParams): Promise<SignedTransactionResult> {
+    return this.signPoxCall(params, buildStackExtendCall)
+  }
+
+  /**
+   * Signs a pox-4 `stack-increase` call, locking `increaseBy` more microSTX
+   * for a solo stacker
+   *
+   * @param params - Increase and signer key authorization
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the parameters are invalid
+   * @throws ApiRequestError if the PoX parameters cannot be read
+   */
+  async signStackIncrease(params: StackIncreaseParams): Promise<SignedTransactionResult> {
+    return this.signPoxCall(params, buildStackIncreaseCall)
+  }
+
+  /**
+   * Signs a pox-4 `delegate-stx` call, allowing a pool operator to lock up
+   * to `amount` microSTX of this signer
+   *
+   * @param params - Amount, pool operator and optional expiry and reward address
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the parameters are invalid or `untilBurnHeight` has passed
+   * @throws ApiRequestError if the PoX parameters cannot be read
+   *
+   * @example
+   * ```typescript
+   * const { transaction } = await signer.signDelegateStx({
+   *   amount: 1_000_000_000n,
+   *   delegateTo: "SP21YTSM60CAY6D011EZVEVNKXVW8FVZE198XEFFP.pox4-fast-pool-v3",
+   * })
+   * ```
+   */
+  async signDelegateStx(params: DelegateStxParams): Promise<SignedTransactionResult> {
+    return this.signPoxCall(params, buildDelegateStxCall)
+  }
+
+  /**
+   * Signs a pox-4 `revoke-delegate-stx` call, ending this signer's delegation
+   *
+   * STX already locked by the pool operator stay locked until they unlock.
+   *
+   * @param params - Transaction options
+   * @returns Signed transaction result
+   * @throws ApiRequestError if the PoX parameters cannot be read
+   */
+  async signRevokeDelegateStx(
+    params: PoxTransactionOptions = {}
+  ): Promise<SignedTransactionResult> {
+    return this.signPoxCall(params, buildRevokeDelegateStxCall)
+  }
+
+  /**
+   * Signs a pox-4 `delegate-stack-stx` call as a pool operator, locking a
+   * delegator's STX
+   *
+   * The start height defaults to the current burn block height and must be
+   * in the current reward cycle.
+   *
+   * @param params - Stacker, amount, reward address and lock period
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the parameters are invalid
+   * @throws ApiRequestError if the PoX parameters cannot be read
+   */
+  async signDelegateStackStx(params: DelegateStackStxParams): Promise<SignedTransactionResult> {
+    return this.signPoxCall(params, buildDelegateStackStxCall)
+  }
+
+  /**
+   * Signs a pox-4 `stack-aggregation-commit` call as a pool operator,
+   * committing the STX locked for a reward address in a future cycle
+   *
+   * The reward cycle defaults to the next cycle. The signer key
+   * authorization's topic is "agg-commit", with that reward cycle and period 1.
+   *
+   * @param params - Reward address, reward cycle and signer key authorization
+   * @returns Signed transaction result
+   * @throws InvalidInputError if the parameters are invalid or the cycle is not in the future
+   * @throws ApiRequestError if the PoX parameters cannot be read
+   */
+  async signStackAggregationCommit(
+    params: StackAggregationCommitParams
+  ): Promise<SignedTransactionResult> {
+    return this.signPoxCall(params, buildStackAggregationCommitCall)
+  }
+
+  /**
+   * Signs a Clarity contract deployment transaction
+   *
+   * This method builds an unsigned contract deploy, generates the signing hash,
+   * signs it with Turnkey, and returns the signed transaction.
+   *
+   * @param params - Contract deploy parameters
+   * @returns Signed transaction result
+   * @throws Error if the contract name is invalid or the source is empty or too large
+   *
+   * @example
+   * ```typescript
+   * import { ClarityVersion } from "@stacks/transactions"
+   *
+   * const { transaction } = await signer.signContractDeploy({
+   *   contractName: "counter",
+   *   codeBody: "(define-data-var count uint u0)",
+   *   clarityVersion: ClarityVersion.Clarity3,
+   *   fee: 10_000n,
+   * })
+   * ```
+   */
+  async signContractDeploy(params: ContractDeployParams): Promise<SignedTransactionResult> {
+    validateContractDeployParams(params)
+
+    return this.withUnsignedTransaction(params, buildContractDeploy, async (unsigned) => {
+      await this.signOrigin(unsigned.transaction)
+      return this.withDescription(unsigned)
+    })
+  }
+
+  /**
+   * Co-signs a sponsored transaction as the sponsor
+   *
+   * The origin must already have signed the transaction (e.g. via
+   * `signSTXTransfer({ ..., sponsored: true })`). This signer becomes the
+   * sponsor: it fills in the sponsor spending condition with its own key,
+   * fee and nonce, and signs it with Turnkey.
+   *
+   * @param transaction - Origin-signed sponsored transaction
+   * @param params - Sponsor fee and nonce
+   * @returns Fully signed sponsored transaction
+   * @throws Error if the transaction is not sponsored or the origin has not signed
+   *
+   * @example
+   * ```typescript
+   * // User signs with sponsored auth
+   * const { transaction } = await userSigner.signSTXTransfer({
+   *   recipient: "ST20J4G...",
+   *   amount: 1_000_000n,
+   *   sponsored: true,
+   * })
+   *
+   * // Sponsor co-signs and pays the fee
+   * const { transaction: sponsored } = await sponsorSigner.signSponsorship(transaction, {
+   *   fee: 1_000n,
+   * })
+   * const txid = await broadcastTransaction(sponsored)
+   * ```
+   */
+  async signSponsorship(
+    transaction: StacksTransactionWire,
+    params: SponsorshipParams = {}
+  ): Promise<SponsoredTransactionResult> {
+    const network = resolveNetwork(params.network ?? this.network)
+
+    if (transaction.auth.authType !== AuthType.Sponsored) {
+      throw new InvalidInputError("Cannot sponsor a non-sponsored transaction (build it with sponsored: true)")
+    }
+
+    const origin = transaction.auth.spendingCondition
+    if (isSingleSig(origin) && origin.signature.data === emptyMessageSignature().data) {
+      throw new InvalidInputError("Origin must sign the transaction before it can be sponsored")
+    }
+
+    // Sponsor nonce comes from the sponsor's own account, not the origin's
+    const sponsorAddress = this.getAddress(network)
+
+    return this.withNonce(sponsorAddress, network, params.sponsorNonce, async (sponsorNonce) => {
+      // Use the explicit sponsor fee or estimate one for the transaction
+      const { fee, feeDetails } = await resolveTransactionFee(transaction, {
+        fee: params.fee,
+        options: { ...this.feeEstimation, ...params.feeEstimation },
+        network,
+        retry: this.retryPolicy,
+      })
+
+      const sponsorSpendingCondition = createSingleSigSpendingCondition(
+        AddressHashMode.P2PKH,
+        this.compressedPublicKey,
+        sponsorNonce,
+        fee
+      )
+
+      // Works on a copy with the sponsor condition set; the sighash continues
+      // from the verified origin signature.
+      const signer = TransactionSigner.createSponsorSigner(transaction, sponsorSpendingCondition)
+      const preSignHash = sigHashPreSign(signer.sigHash, AuthType.Sponsored, fee, sponsorNonce)
+
+      const sponsored = signer.getTxInComplete()
+      const condition = (sponsored.auth as SponsoredAuthorization)
+        .sponsorSpendingCondition as SingleSigSpendingCondition
+      condition.signature = createMessageSignature(
+        await this.withPolicy(sponsored, "sponsor", () => this.signToVrs(preSignHash))
+      )
+
+      return {
+        transaction: sponsored,
+        sponsorAddress,
+        sponsorNonce,
+        fee,
+        feeDetails,
+      }
+    })
+  }
+
+  /**
+   * Signs an externally built, unsigned transaction
+   *
+   * Accepts a `StacksTransactionWire` or its serialized hex (e.g. from a dapp).
+   * The origin spending condition must be single-sig and belong to this
+   * signer's public key. The input transaction is not modified.
+   *
+   * @param txOrHex - Unsigned transaction or serialized transaction hex
+   * @returns Signed transaction with its serialized hex and txid
+   * @throws Error if the transaction is malformed, already signed, or belongs to a different key
+   *
+   * @example
+   * ```typescript
+   * const { serializedTransaction, txid } = await signer.signTransaction(unsignedTxHex)
+   * ```
+   */
+  async signTransaction(
+    txOrHex: StacksTransactionWire | string
+  ): Promise<SignedRawTransactionResult> {
+    const transaction = parseTransaction(txOrHex)
+
+    const condition = transaction.auth.spendingCondition
+    if (!isSingleSig(condition)) {
+      throw new InvalidInputError(
+        "Cannot sign a multisig transaction with signTransaction; use appendMultisigSignature"
+      )
+    }
+    this.assertOwnOrigin(condition)
+
+    if (condition.signature.data !== emptyMessageSignature().data) {
+      throw new InvalidInputError("Transaction is already signed")
+    }
+
+    await this.signOrigin(transaction)
+
+    return {
+      transaction,
+      serializedTransaction: transaction.serialize(),
+      txid: transaction.txid(),
+    }
+  }
+
+  /**
+   * Builds an STX transfer for signing later, e.g. after Turnkey approvals
+   *
+   * Resolves the nonce and fee like `signSTXTransfer`, but does not sign.
+   * The result is plain JSON that can be stored and finalized in another
+   * process. Submit it with `requestSignature` (or sign `preSignHash` with
+   * any Turnkey client), then attach the signature with
+   * `finalizeTransaction`. A nonce taken from the nonce manager stays
+   * reserved until the transaction is broadcast or released.
+   *
+   * A BNS name recipient is resolved as in `signSTXTransfer` and reported
+   * as `resolvedRecipient`.
+   *
+   * @param params - Transfer parameters
+   * @returns Prepared unsigned transaction and its pre-sign hash
+   * @throws InvalidInputError if recipient address is invalid or amount is <= 0
+   *
+   * @example
+   * ```typescript
+   * const prepared = await signer.prepareSTXTransfer({ recipient, amount: 1_000_000n })
+   * const request = await signer.requestSignature(prepared)
+   * if (request.status === "pending") {
+   *   await db.save({ prepared, activityId: request.activityId })
+   * }
+   * ```
+   */
+  async prepareSTXTransfer(params: STXTransferParams): Promise<PreparedTransaction> {
+    const { params: transfer, resolvedRecipient } = await this.resolveRecipient(params)
+    validateSTXTransferParams(transfer)
+
+    const prepared = await this.withUnsignedTransaction(
+      transfer,
+      buildSTXTransfer,
+      async (unsigned) => this.toPrepared(unsigned)
+    )
+    return resolvedRecipient ? { ...prepared, resolvedRecipient } : prepared
+  }
+
+  /**
+   * Builds a contract call for signing later
+   *
+   * See `prepareSTXTransfer`.
+   *
+   * @param params - Contract call parameters
+   * @returns Prepared unsigned transaction and its pre-sign hash
+   * @throws InvalidInputError if the contract address or function name is invalid
+   */
+  async prepareContractCall(params: ContractCallParams): Promise<PreparedTransaction> {
+    validateContractCallParams(params)
+    return this.withUnsignedTransaction(params, buildContractCall, async (unsigned) =>
+      this.toPrepared(unsigned)
+    )
+  }
+
+  /**
+   * Builds a contract deployment for signing later
+   *
+   * See `prepareSTXTransfer`.
+   *
+   * @param params - Contract deploy parameters
+   * @returns Prepared unsigned transaction and its pre-sign hash
+   * @throws InvalidInputError if the contract name is invalid or the source is empty or too large
+   */
+  async prepareContractDeploy(params: ContractDeployParams): Promise<PreparedTransaction> {
+    validateContractDeployParams(params)
+    return this.withUnsignedTransaction(params, buildContractDeploy, async (unsigned) =>
+      this.toPrepared(unsigned)
+    )
+  }
+
+  /**
+   * Asks Turnkey to sign a prepared transaction
+   *
+   * Returns the signature if Turnkey signs right away, or the activity ID
+   * if the activity needs approval first. Either can be passed to
+   * `finalizeTransaction`.
+   *
+   * @param prepared - Transaction from `prepareSTXTransfer` or an equivalent
+   * @returns Signature, or the pending activity
+   * @throws InvalidInputError if the prepared transaction is not for this signer
+   * @throws ActivityFailedError if Turnkey rejects the activity
+   */
+  async requestSignature(prepared: PreparedTransaction): Promise<SignatureRequestResult> {
+    const { transaction, preSignHash } = this.parsePrepared(prepared)
+
+    // A pending activity may still be approved, so it counts as signed for the policy
+    return this.withPolicy(transaction, "origin", async () => {
+      try {
+        return { status: "completed", signature: await this.signNormalized(preSignHash) }
+      } catch (error) {
+        if (error instanceof ActivityPendingError) {
+          return {
+            status: "pending",
+            activityId: error.activityId,
+            activityStatus: error.activityStatus,
+          }
+        }
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Waits for a pending Turnkey signing activity to complete
+   *
+   * Polls the activity with the client's `getActivity`.
+   *
+   * @param activityId - ID of the signing activity
+   * @param options - Timeout, poll interval, abort signal and progress callback
+   * @returns Signature produced by the activity
+   * @throws ActivityPendingError if the timeout elapses first
+   * @throws ActivityFailedError if the activity fails or is rejected
+   * @throws InvalidInputError if the client does not implement getActivity
+   *
+   * @example
+   * ```typescript
+   * const signature = await signer.waitForActivity(activityId, { timeoutMs: 3_600_000 })
+   * const { transaction } = await signer.finalizeTransaction(prepared, signature)
+   * ```
+   */
+  async waitForActivity(
+    activityId: string,
+    options: WaitForActivityOptions = {}
+  ): Promise<{ v: string; r: string; s: string }> {
+    return pollActivity(activityId, () => this.fetchActivity(activityId), options)
+  }
+
+  /**
+   * Attaches a signature to a prepared transaction
+   *
+   * Takes the signature itself, or the ID of the Turnkey activity that
+   * produced it. The signature is checked against the signer's public key
+   * before it is attached. Any signer instance with the same public key
+   * can finalize, so preparing and finalizing can happen in different
+   * processes.
+   *
+   * The transaction is checked against the signing policy again, and its
+   * amount recorded, because the signature may not come from
+   * `requestSignature`. A transaction already recorded by `requestSignature`
+   * is counted once.
+   *
+   * @param prepared - Transaction from `prepareSTXTransfer` or an equivalent
+   * @param signatureOrActivityId - `{ v, r, s }` from Turnkey, or a signing activity ID
+   * @param options - Whether (and how) to wait for a pending activity
+   * @returns Signed transaction ready for broadcast
+   * @throws ActivityPendingError if the activity is still awaiting approval
+   * @throws ActivityFailedError if the activity failed or was rejected
+   * @throws SignatureVerificationError if the signature is not from this signer
+   * @throws PolicyViolationError if the transaction breaks the signing policy
+   *
+   * @example
+   * ```typescript
+   * // Later, possibly in another process
+   * const { prepared, activityId } = await db.load()
+   * const { transaction } = await signer.finalizeTransaction(prepared, activityId, {
+   *   waitForActivity: { timeoutMs: 60_000 },
+   * })
+   * const txid = await broadcastTransaction(transaction, "mainnet")
+   * ```
+   */
+  async finalizeTransaction(
+    prepared: PreparedTransaction,
+    signatureOrActivityId: { v: string; r: string; s: string } | string,
+    options: FinalizeTransactionOptions = {}
+  ): Promise<SignedRawTransactionResult> {
+    const { transaction, preSignHash } = this.parsePrepared(prepared)
+
+    // Spends share a record per nonce, so one from requestSignature is not counted twice
+    await this.withPolicy(transaction, "origin", async () => {
+      let signature = signatureOrActivityId
+      if (typeof signature === "string") {
+        const activityId = signature
+        const { waitForActivity } = options
+        signature = waitForActivity
+          ? await this.waitForActivity(activityId, waitForActivity === true ? {} : waitForActivity)
+          : activitySignature(await this.fetchActivity(activityId))
+      }
+
+      const { v, r, s } = this.verifySignature(preSignHash, signature)
+      const condition = transaction.auth.spendingCondition as SingleSigSpendingCondition
+      condition.signature = createMessageSignature(`${v}${r}${s}`)
+    })
+
+    return {
+      transaction,
+      serializedTransaction: transaction.serialize(),
+      txid: transaction.txid(),
+    }
+  }
+
+  /**
+   * Re-signs a pending transaction with a higher fee (replace-by-fee)
+   *
+   * Keeps the payload, post-conditions and nonce of the original and only
+   * raises the fee, so the node replaces the original in its mempool. The
+   * original must be signed by this signer. The input transaction is not
+   * modified.
+   *
+   * @param originalTx - Signed pending transaction or its serialized hex
+   * @param params - New fee, which must be higher than the original fee
+   * @returns Signed replacement with the txid it replaces
+   * @throws Error if the original is not signed by this signer, is sponsored or multisig, or the fee is too low
+   *
+   * @example
+   * ```typescript
+   * const { transaction, replacedTxid } = await signer.speedUpTransaction(stuckTx, {
+   *   newFee: 5_000n,
+   * })
+   * const txid = await broadcastTransaction(transaction)
+   * ```
+   */
+  async speedUpTransaction(
+    originalTx: StacksTransactionWire | string,
+    params: SpeedUpTransactionParams
+  ): Promise<ReplacementTransactionResult> {
+    const transaction = parseTransaction(originalTx)
+    const replacedTxid = transaction.txid()
+    const condition = this.assertReplaceable(transaction)
+
+    assertReplacementFee(condition.fee, params.newFee)
+
+    condition.signature = emptyMessageSignature()
+    transaction.setFee(params.newFee)
+    await this.signOrigin(transaction)
+
+    return {
+      transaction,
+      txid: transaction.txid(),
+      replacedTxid,
+      nonce: condition.nonce,
+      fee: params.newFee,
+      feeDetails: { source: "explicit" },
+    }
+  }
+
+  /**
+   * Cancels a pending transaction by replacing it with a minimal transfer
+   *
+   * Signs a transfer of 1 microSTX (the smallest valid amount) at the original
+   * nonce, with a higher fee so the node replaces the original. Nodes reject
+   * transfers to the sender, so the microSTX goes to `params.recipient`, or is
+   * burned by sending it to the network's burn address
+   * (`SP000000000000000000002Q6VF78` on mainnet, `ST000000000000000000002AMW42H`
+   * otherwise). The original must be signed by this signer.
+   *
+   * @param originalTx - Signed pending transaction or its serialized hex
+   * @param params - Optional recipient, fee (estimated otherwise) and network
+   * @returns Signed cancelling transfer with the txid it replaces
+   * @throws Error if the original is not signed by this signer, is sponsored or multisig, is on another chain, or the fee is too low
+   * @throws InvalidInputError if the recipient is invalid or is this signer
+   *
+   * @example
+   * ```typescript
+   * const { transaction } = await signer.cancelTransaction(stuckTx)
+   * const txid = await broadcastTransaction(transaction)
+   * ```
+   */
+  async cancelTransaction(
+    originalTx: StacksTransactionWire | string,
+    params: CancelTransactionParams = {}
+  ): Promise<ReplacementTransactionResult> {
+    const network = resolveNetwork(params.network ?? this.network)
+    const original = parseTransaction(originalTx)
+    const condition = this.assertReplaceable(original)
+
+    if (original.chainId !== network.chainId) {
+      throw new InvalidInputError(
+        `Transaction chain ID ${original.chainId} does not match the network chain ID ${network.chainId}`
+      )
+    }
+
+    const recipient = params.recipient ?? burnAddress(network)
+    const transfer = { recipient, amount: 1n, memo: "cancel" }
+    validateSTXTransferParams(transfer)
+    // Nodes reject transfers to the sender (TransferRecipientCannotEqualSender)
+    if (recipient === this.getAddress(network)) {
+      throw new InvalidInputError(
+        `The cancelling transfer cannot be sent to the signer's own address ${recipient}`
+      )
+    }
+
+    const transaction = await buildSTXTransfer(
+      transfer,
+      { publicKey: this.compressedPublicKey },
+      { nonce: condition.nonce, network }
+    )
+
+    const minimumFee = condition.fee + 1n
+    let { fee, feeDetails } = await resolveTransactionFee(transaction, {
+      fee: params.fee,
+      options: { ...this.feeEstimation, ...params.feeEstimation },
+      network,
+      retry: this.retryPolicy,
+    })
+
+    // An estimate below the replacement minimum would be rejected by the node
+    if (params.fee === undefined && fee < minimumFee) {
+      fee = minimumFee
+      feeDetails = { ...feeDetails, reason: "Raised to the minimum replacement fee" }
+    }
+    assertReplacementFee(condition.fee, fee)
+
+    transaction.setFee(fee)
+    await this.signOrigin(transaction)
+
+    return {
+      transaction,
+      txid: transaction.txid(),
+      replacedTxid: original.txid(),
+      nonce: condition.nonce,
+      fee,
+      feeDetails,
+    }
+  }
+
+  /**
+   * Signs a plain text message with the Stacks message prefix
+   *
+   * Produces the same signature format as Stacks wallets, verifiable with
+   * `verifyMessageSignature`.
+   *
+   * @param message - Message text or bytes
+   * @returns RSV signature and the signer's public key
+   *
+   * @example
+   * ```typescript
+   * const { signature, publicKey } = await signer.signMessage("Sign in to example.com")
+   * ```
+   */
+  async signMessage(message: string | Uint8Array): Promise<MessageSignatureResult> {
+    return {
+      signature: await this.signToRsv(hashMessage(message)),
+      publicKey: this.compressedPublicKey,
+    }
+  }
+
+  /**
+   * Signs SIP-018 structured data
+   *
+   * @param domain - SIP-018 domain ({ name, version, chainId } or a Clarity tuple)
+   * @param message - Clarity value to sign
+   * @returns RSV signature and the signer's public key
+   * @throws Error if the domain is not a valid SIP-018 domain
+   *
+   * @example
+   * ```typescript
+   * import { Cl } from "@stacks/transactions"
+   *
+   * const { signature } = await signer.signStructuredData(
+   *   { name: "My App", version: "1.0.0", chainId: 1 },
+   *   Cl.tuple({ action: Cl.stringAscii("login"), nonce: Cl.uint(42) })
+   * )
+   * ```
+   */
+  async signStructuredData(
+    domain: StructuredDataDomain,
+    message: ClarityValue
+  ): Promise<MessageSignatureResult> {
+    return {
+      signature: await this.signToRsv(hashStructuredDataMessage(domain, message)),
+      publicKey: this.compressedPublicKey,
+    }
+  }
+
+  /**
+   * Signs a pox-4 signer key authorization with this signer's key
+   *
+   * The signature lets a stacker or pool operator use this signer's public
+   * key as `signerKey` in one `stack-stx`, `stack-extend`, `stack-increase`
+   * or `stack-aggregation-commit` call whose parameters match. It is a
+   * SIP-018 signature over pox-4's signer key message, signed through
+   * Turnkey's raw payload signing.
+   *
+   * @param params - Topic, reward address, reward cycle, period, max amount and auth ID
+   * @returns RSV signature (65 bytes hex) and this signer's public key
+   * @throws InvalidInputError if a parameter is invalid
+   *
+   * @example
+   * ```typescript
+   * const { signature, publicKey } = await signer.signSignerKeyAuthorization({
+   *   topic: "agg-commit",
+   *   poxAddress: "bc1q...",
+   *   rewardCycle: 100,
+   *   period: 1,
+   *   maxAmount: 10_000_000_000_000n,
+   *   authId: 7n,
+   * })
+   * ```
+   */
+  async signSignerKeyAuthorization(
+    params: SignerKeyAuthorizationParams
+  ): Promise<MessageSignatureResult> {
+    const network = resolveNetwork(params.network ?? this.network)
+    const { domain, message } = signerKeyAuthorizationMessage(params, network)
+    return this.signStructuredData(domain, message)
+  }
+
+  /**
+   * Appends this signer's signature to a multisig transaction
+   *
+   * Participants must sign in the multisig's public key order. Keys skipped
+   * before this signer are recorded as public keys. Once enough participants
+   * have signed, call `multisig.finalize(transaction)`.
+   *
+   * @param transaction - Multisig transaction built by `multisig`
+   * @param multisig - Multisig this signer participates in
+   * @returns Copy of the transaction with this signer's signature appended
+   * @throws Error if this signer is not a participant, signs out of order, or the threshold is met
+   *
+   * @example
+   * ```typescript
+   * const { transaction } = await multisig.buildSTXTransfer({ recipient, amount })
+   * let tx = await aliceSigner.appendMultisigSignature(transaction, multisig)
+   * tx = await bobSigner.appendMultisigSignature(tx, multisig)
+   * const txid = await broadcastTransaction(multisig.finalize(tx))
+   * ```
+   */
+  async appendMultisigSignature(
+    transaction: StacksTransactionWire,
+    multisig: TurnkeyMultisigSigner
+  ): Promise<StacksTransactionWire> {
+    const { transaction: next, preSignHash } = multisig.prepareSignature(
+      transaction,
+      this.compressedPublicKey
+    )
+
+    appendMultisigSignatureField(
+      next,
+      await this.withPolicy(next, "origin", () => this.signToVrs(preSignHash))
+    )
+
+    return next
+  }
+
+  /**
+   * Checks that a single-sig origin belongs to this signer's public key
+   *
+   * @throws Error if the hash mode or signer hash does not match
+   * @internal
+   */
+  private assertOwnOrigin(condition: SingleSigSpendingCondition): void {
+    const expectedSigner = createSingleSigSpendingCondition(
+      AddressHashMode.P2PKH,
+      this.compressedPublicKey,
+      0,
+      0
+    ).signer
+    if (condition.hashMode !== AddressHashMode.P2PKH || condition.signer !== expectedSigner) {
+      throw new InvalidInputError(
+        `Transaction origin does not belong to this signer (expected signer hash ${expectedSigner}, got ${condition.signer})`
+      )
+    }
+  }
+
+  /**
+   * Checks that a transaction can be replaced by this signer and returns its
+   * origin spending condition
+   *
+   * The transaction must be a standard (non-sponsored) single-sig transaction
+   * with a valid origin signature from this signer.
+   *
+   * @internal
+   */
+  private assertReplaceable(transaction: StacksTransactionWire): SingleSigSpendingCondition {
+    if (transaction.auth.authType !== AuthType.Standard) {
+      throw new InvalidInputError("Cannot replace a sponsored transaction; the sponsor must replace it")
+    }
+
+    const condition = transaction.auth.spendingCondition
+    if (!isSingleSig(condition)) {
+      throw new InvalidInputError("Cannot replace a multisig transaction")
+    }
+    this.assertOwnOrigin(condition)
+
+    if (condition.signature.data === emptyMessageSignature().data) {
+      throw new InvalidInputError("Transaction is not signed; only broadcast transactions can be replaced")
+    }
+
+    try {
+      transaction.verifyOrigin()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new InvalidInputError(`Transaction origin signature is invalid: ${message}`, {
+        cause: error,
+      })
+    }
+
+    return condition
   }
 
-  const cleaned = (pubKeyHex.startsWith("0x") ? pubKeyHex.slice(2) : pubKeyHex).toLowerCase()
+  /**
+   * Resolves the network and nonce, builds an unsigned transaction with
+   * `builder`, resolves its fee and passes it to `fn`
+   *
+   * A managed nonce is released if building or `fn` fails.
+   *
+   * @internal
+   */
+  private async withUnsignedTransaction<
+    P extends STXTransferParams | ContractCallParams | ContractDeployParams,
+    T,
+  >(
+    params: P,
+    builder: (params: P, origin: OriginKeys, options: BuildOptions) => Promise<StacksTransactionWire>,
+    fn: (unsigned: UnsignedTransactionResult) => Promise<T>
+  ): Promise<T> {
+    const network = resolveNetwork(params.network ?? this.network)
 
-  if (cleaned.length !== 66) {
-    throw new Error(
-      `Invalid public key length: expected 66 hex chars (33 bytes compressed), got ${cleaned.length}`
-    )
-  }
+    // Derive sender address
+    const senderAddress = this.getAddress(network)
 
-  const prefix = cleaned.slice(0, 2)
-  if (prefix !== "02" && prefix !== "03") {
-    throw new Error(
-      `Invalid public key prefix: expected '02' or '03' (compressed), got '${prefix}'`
-    )
-  }
+    // Use the explicit nonce or acquire one (released again if signing fails)
+    return this.withNonce(senderAddress, network, params.nonce, async (nonce) => {
+      // Build unsigned transaction
+      const transaction = await builder(params, { publicKey: this.compressedPublicKey }, { nonce, network })
 
-  return cleaned
-}
+      // Use the explicit fee or estimate one for the built transaction
+      const { fee, feeDetails } = await resolveTransactionFee(transaction, {
+        fee: params.fee,
+        sponsored: params.sponsored,
+        options: { ...this.feeEstimation, ...params.feeEstimation },
+        network,
+        retry: this.retryPolicy,
+      })
+      transaction.setFee(fee)
 
-/**
- * Normalizes the recovery byte from Turnkey signature
- * @internal
- */
-function normalizeRecoveryByte(v: string): string {
-  const parsed = parseInt(v, 16)
-  if (parsed !== 0 && parsed !== 1) {
-    throw new Error(`Invalid recovery byte value: ${v} (expected 0 or 1)`)
+      return fn({ transaction, senderAddress, nonce, fee, feeDetails })
+    })
   }
-  return parsed.toString(16).padStart(2, "0")
-}
 
-/**
- * TurnkeySigner - Turnkey signer for Stacks transactions
- *
- * Works with both browser clients (httpClient from useTurnkey) and
- * server clients (apiClient from @turnkey/sdk-server).
- *
- * @example Browser (client-side) signing — no organizationId needed
- * ```typescript
- * import { TurnkeySigner } from "@turnkey/stacks"
- * import { useTurnkey } from "@turnkey/react-wallet-kit"
- *
- * const { httpClient } = useTurnkey()
- * const signer = new TurnkeySigner({
- *   client: httpClient,
- *   publicKey: wallets[0].accounts[0].publicKey,
- * })
- * ```
- *
- * @example Server-side signing — organizationId required
- * ```typescript
- * import { TurnkeySigner } from "@turnkey/stacks"
- * import { Turnkey } from "@turnkey/sdk-server"
- *
- * const turnkey = new Turnkey({ ... })
- * const signer = new TurnkeySigner({
- *   client: turnkey.apiClient(),
- *   organizationId: process.env.TURNKEY_ORGANIZATION_ID,
- *   publicKey: "025afa...",
- * })
- * ```
- */
-export class TurnkeySigner {
   /**
-   * Turnkey organization ID (undefined when using browser client)
+   * Replaces a BNS name recipient with the address that owns it when the
+   * signer was created with `resolveNames: true`
+   * @internal
    */
-  public readonly organizationId: string | undefined
+  private async resolveRecipient<P extends { recipient: string; network?: StacksNetworkOption }>(
+    params: P
+  ): Promise<{ params: P; resolvedRecipient?: ResolvedRecipient }> {
+    const name = this.resolveNames ? parseBnsName(params.recipient) : undefined
+    if (!name) return { params }
+
+    const network = resolveNetwork(params.network ?? this.network)
+    const address = await resolveName(name, network, this.retryPolicy)
+    return { params: { ...params, recipient: address }, resolvedRecipient: { name, address } }
+  }
 
   /**
-   * Default network for this signer
+   * Validates an account address, defaulting to this signer's address
+   * @internal
    */
-  public readonly network: StacksNetworkType
+  private accountAddress(address: string | undefined): string {
+    if (address === undefined) return this.getAddress()
 
-  private readonly client: TurnkeySignerClient
-  private readonly compressedPublicKey: string
+    const [standard] = String(address).split(".")
+    if (!standard || !validateStacksAddress(standard)) {
+      throw new InvalidInputError(`Invalid address: ${address}`)
+    }
+    return address
+  }
 
   /**
-   * Creates a new TurnkeySigner instance
+   * Checks that an address's unlocked balance covers `required` microSTX
    *
-   * @param config - Signer configuration
-   * @throws Error if public key is invalid
+   * @throws InsufficientBalanceError if it does not
+   * @internal
    */
-  constructor(config: TurnkeySignerConfig) {
-    this.client = config.client
-    this.organizationId = config.organizationId
-    this.network = config.network ?? "testnet"
-
-    // Validate and normalize the public key
-    this.compressedPublicKey = validateCompressedPublicKey(config.publicKey)
+  private async assertBalance(
+    address: string,
+    required: bigint,
+    network: StacksNetworkConfig
+  ): Promise<void> {
+    const { available } = await fetchStxBalance(address, network, this.retryPolicy)
+    if (available < required) {
+      throw new InsufficientBalanceError(
+        `${address} has ${available} microSTX available, but the transaction needs ${required} ` +
+          `(amount plus fee)`,
+        required,
+        available
+      )
+    }
   }
 
   /**
-   * Returns the Stacks address for this signer
-   *
-   * @param network - Optional network override (defaults to signer's configured network)
-   * @returns Stacks address (ST... for testnet, SP... for mainnet)
+   * Adds the transaction summary if the signer was created with `describe: true`
+   * @internal
    */
-  getAddress(network?: StacksNetworkType): string {
-    return publicKeyToAddress(this.compressedPublicKey, network ?? this.network)
+  private withDescription(signed: UnsignedTransactionResult): SignedTransactionResult {
+    return this.describe ? { ...signed, description: describeTransaction(signed.transaction) } : signed
   }
 
   /**
-   * Returns the compressed public key used by this signer
+   * Converts an unsigned transaction into its storable prepared form
+   * @internal
    */
-  getPublicKey(): string {
-    return this.compressedPublicKey
+  private toPrepared(unsigned: UnsignedTransactionResult): PreparedTransaction {
+    return {
+      transaction: unsigned.transaction.serialize(),
+      preSignHash: originPreSignHash(unsigned.transaction),
+      publicKey: this.compressedPublicKey,
+      senderAddress: unsigned.senderAddress,
+      nonce: unsigned.nonce.toString(),
+      fee: unsigned.fee.toString(),
+    }
   }
 
   /**
-   * Signs an STX token transfer transaction
+   * Deserializes a prepared transaction and checks it is unsigned and
+   * belongs to this signer
    *
-   * This method builds an unsigned STX transfer, generates the signing hash,
-   * signs it with Turnkey, and returns the signed transaction.
-   *
-   * @param params - Transfer parameters
-   * @returns Signed transaction result
-   * @throws Error if recipient address is invalid or amount is <= 0
+   * The pre-sign hash is recomputed from the transaction rather than
+   * trusted from storage.
    *
-   * @example
-   * ```typescript
-   * const { transaction, senderAddress, nonce, fee } = await signer.signSTXTransfer({
-   *   recipient: "ST20J4GKB8W7KKA8B0KZ3J7G330DZ1WEWYXJKD4PV",
-   *   amount: 1_000_000n, // 1 STX
-   *   memo: "Payment for services",
-   * })
-   * ```
+   * @throws InvalidInputError if the prepared transaction does not match
+   * @internal
    */
-  async signSTXTransfer(params: STXTransferParams): Promise<SignedTransactionResult> {
-    const { recipient, amount, fee, memo } = params
-    const network = params.network ?? this.network
+  private parsePrepared(prepared: PreparedTransaction): {
+    transaction: StacksTransactionWire
+    preSignHash: string
+  } {
+    if (prepared.publicKey?.toLowerCase() !== this.compressedPublicKey) {
+      throw new InvalidInputError(
+        `Prepared transaction is for public key ${prepared.publicKey}, not ${this.compressedPublicKey}`
+      )
+    }
 
-    // Validate recipient address
-    if (!validateStacksAddress(recipient)) {
-      throw new Error(`Invalid recipient Stacks address: ${recipient}`)
+    const transaction = parseTransaction(prepared.transaction)
+    const condition = transaction.auth.spendingCondition
+    if (!isSingleSig(condition)) {
+      throw new InvalidInputError("Prepared transaction origin is not single-sig")
+    }
+    this.assertOwnOrigin(condition)
+    if (condition.signature.data !== emptyMessageSignature().data) {
+      throw new InvalidInputError("Prepared transaction is already signed")
     }
 
-    if (amount <= 0n) {
-      throw new Error("Amount must be greater than 0")
+    const preSignHash = originPreSignHash(transaction)
+    if (prepared.preSignHash.replace(/^0x/, "").toLowerCase() !== preSignHash) {
+      throw new InvalidInputError("Prepared transaction does not match its preSignHash")
     }
 
-    // Derive sender address
-    const senderAddress = this.getAddress(network)
+    return { transaction, preSignHash }
+  }
 
-    // Fetch nonce if not provided
-    const nonce = params.nonce ?? (await this.fetchNonce(senderAddress, network))
-    
-    const txFee = fee ?? DEFAULT_FEE
+  /**
+   * Looks up a Turnkey activity with the client
+   *
+   * Transient client failures are retried according to the signer's retry
+   * policy.
+   *
+   * @throws InvalidInputError if the client does not implement getActivity
+   * @internal
+   */
+  private async fetchActivity(activityId: string): Promise<TurnkeyActivity> {
+    const { getActivity } = this.client
+    if (!getActivity) {
+      throw new InvalidInputError(
+        "The Turnkey client does not implement getActivity; pass the signature to finalizeTransaction instead"
+      )
+    }
 
-    // Build unsigned transaction
-    const transaction = await makeUnsignedSTXTokenTransfer({
-      recipient,
-      amount,
-      publicKey: this.compressedPublicKey,
-      nonce,
-      fee: txFee,
-      network,
-      memo,
-    })
+    return withRetry(async () => {
+      try {
+        const { activity } = await getActivity.call(this.client, {
+          activityId,
+          ...(this.organizationId ? { organizationId: this.organizationId } : {}),
+        })
+        return activity
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new SigningError(`Turnkey activity lookup failed: ${message}`, "SIGNING_FAILED", {
+          cause: error,
+        })
+      }
+    }, this.retryPolicy)
+  }
 
-    // Generate pre-sign hash
-    const signer = new TransactionSigner(transaction)
-    const preSignHash = sigHashPreSign(
-      signer.sigHash,
-      transaction.auth.authType,
-      transaction.auth.spendingCondition.fee,
-      transaction.auth.spendingCondition.nonce
-    )
+  /**
+   * Runs `fn` with the explicit nonce, or with a nonce from the nonce manager
+   * (or the API when there is none)
+   *
+   * A managed nonce is released if `fn` throws, so it is handed out again.
+   *
+   * @internal
+   */
+  private async withNonce<T>(
+    address: string,
+    network: StacksNetworkConfig,
+    explicitNonce: bigint | undefined,
+    fn: (nonce: bigint) => Promise<T>
+  ): Promise<T> {
+    if (explicitNonce !== undefined) return fn(explicitNonce)
+    if (!this.nonceManager) return fn(await fetchNonce(address, network, this.retryPolicy))
 
-    // Sign with Turnkey
-    const signature = await this.signHash(preSignHash)
+    const nonce = await this.nonceManager.acquire(address, network)
+    try {
+      return await fn(nonce)
+    } catch (error) {
+      await this.nonceManager.release(address, nonce, network)
+      throw error
+    }
+  }
 
-    // Normalize and format signature
-    const v = normalizeRecoveryByte(signature.v)
-    const r = signature.r.padStart(64, "0")
-    const s = signature.s.padStart(64, "0")
+  /**
+   * Reserves `count` nonces for a batch
+   *
+   * Counts up from `startNonce` or the API's next nonce. With a nonce
+   * manager, nonces are acquired from it one by one (lowest free first) and
+   * released again if acquiring fails part way.
+   *
+   * @internal
+   */
+  private async acquireBatchNonces(
+    address: string,
+    network: StacksNetworkConfig,
+    count: number,
+    startNonce: bigint | undefined
+  ): Promise<bigint[]> {
+    if (count === 0) return []
 
-    // Construct VRS signature (65 bytes = 130 hex chars)
-    const vrs = `${v}${r}${s}`
+    if (startNonce !== undefined || !this.nonceManager) {
+      const first = startNonce ?? (await fetchNonce(address, network, this.retryPolicy))
+      return Array.from({ length: count }, (_, i) => first + BigInt(i))
+    }
 
-    if (vrs.length !== 130) {
-      throw new Error(
-        `Invalid signature length: expected 130 hex chars (65 bytes), got ${vrs.length}`
-      )
+    const nonces: bigint[] = []
+    try {
+      while (nonces.length < count) {
+        nonces.push(await this.nonceManager.acquire(address, network))
+      }
+    } catch (error) {
+      for (const nonce of nonces) await this.nonceManager.release(address, nonce, network)
+      throw error
     }
+    return nonces.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  }
+
+  /**
+   * Reads the PoX parameters, builds a PoX contract call from them and signs it
+   *
+   * @internal
+   */
+  private async signPoxCall<T extends PoxTransactionOptions>(
+    params: T,
+    build: (params: T, pox: PoxInfo, network: StacksNetworkConfig) => ContractCallParams
+  ): Promise<SignedTransactionResult> {
+    const network = resolveNetwork(params.network ?? this.network)
+    const pox = await fetchPoxInfo(network, this.retryPolicy)
+    return this.signContractCall(build(params, pox, network))
+  }
+
+  /**
+   * Signs the origin spending condition of an unsigned transaction in place
+   *
+   * Generates the pre-sign hash, signs it with Turnkey, and attaches the
+   * VRS signature to the single-sig spending condition.
+   *
+   * @internal
+   */
+  private async signOrigin(transaction: StacksTransactionWire): Promise<void> {
+    const preSignHash = originPreSignHash(transaction)
 
     // Attach signature to transaction
     const spendingCondition = transaction.auth
       .spendingCondition as SingleSigSpendingCondition
-    spendingCondition.signature = createMessageSignature(vrs)
+    const signature = await this.withPolicy(transaction, "origin", () =>
+      this.signToVrs(preSignHash)
+    )
+    spendingCondition.signature = createMessageSignature(signature)
+  }
 
-    return {
-      transaction,
-      senderAddress,
-      nonce,
-      fee: txFee,
-    }
+  /**
+   * Checks a transaction against the signing policy (if any) before `fn`
+   * signs it
+   *
+   * @throws PolicyViolationError if the transaction breaks the policy
+   * @internal
+   */
+  private async withPolicy<T>(
+    transaction: StacksTransactionWire,
+    role: "origin" | "sponsor",
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return this.policy ? enforceSigningPolicy(this.policy, transaction, role, fn) : fn()
+  }
+
+  /**
+   * Signs a pre-sign hash with Turnkey and returns the 65-byte VRS signature hex
+   * @internal
+   */
+  private async signToVrs(preSignHash: string): Promise<string> {
+    const { v, r, s } = await this.signNormalized(preSignHash)
+    return `${v}${r}${s}`
+  }
+
+  /**
+   * Signs a message hash with Turnkey and returns the 65-byte RSV signature hex
+   * used for Stacks message and SIP-018 signatures
+   * @internal
+   */
+  private async signToRsv(hash: string): Promise<string> {
+    const { v, r, s } = await this.signNormalized(hash)
+    return `${r}${s}${v}`
+  }
+
+  /**
+   * Signs a hash with Turnkey, normalizes the signature components and
+   * verifies the signature recovers to this signer's public key
+   * @internal
+   */
+  private async signNormalized(hash: string): Promise<{ v: string; r: string; s: string }> {
+    return this.verifySignature(hash, await this.signHash(hash))
   }
 
   /**
-   * Fetches the next available nonce for an address
+   * Normalizes the components of a Turnkey signature over `hash` and
+   * verifies it recovers to this signer's public key
+   *
+   * @throws SignatureVerificationError if the signature is from another key
    * @internal
    */
-  private async fetchNonce(address: string, network: StacksNetworkType): Promise<bigint> {
-    const baseUrl = API_ENDPOINTS[network]
-    const url = `${baseUrl}/extended/v1/address/${address}/nonces`
-  
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
-  
+  private verifySignature(
+    hash: string,
+    signature: { v: string; r: string; s: string }
+  ): { v: string; r: string; s: string } {
+    // Normalize and format signature (65 bytes, canonical low-s)
+    const normalized = normalizeLowS({
+      v: normalizeRecoveryByte(signature.v),
+      r: signature.r.padStart(64, "0").toLowerCase(),
+      s: signature.s.padStart(64, "0").toLowerCase(),
+    })
+    const { v, r, s } = normalized
+
+    // Check the signature came from this signer's key before it is used
+    let recovered: string | undefined
     try {
-      const res = await fetch(url, { signal: controller.signal })
-  
-      if (!res.ok) {
-        let errorDetail = ""
-        try {
-          const body = await res.text()
-          if (body) errorDetail = `: ${body}`
-        } catch {
-          // ignore parse errors
-        }
-        throw new Error(`Failed to fetch nonce: ${res.status} ${res.statusText}${errorDetail}`)
-      }
-  
-      const data = (await res.json()) as { possible_next_nonce?: number }
-      return BigInt(data.possible_next_nonce ?? 0)
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(`Nonce fetch timed out after ${FETCH_TIMEOUT_MS}ms`)
-      }
-      throw error
-    } finally {
-      clearTimeout(timeoutId)
+      recovered = publicKeyFromSignatureVrs(hash, `${v}${r}${s}`)
+    } catch {
+      recovered = undefined
+    }
+
+    if (recovered !== this.compressedPublicKey) {
+      throw new SignatureVerificationError(
+        `Turnkey signature does not match signer public key.\n` +
+          `  expected:  ${this.compressedPublicKey}\n` +
+          `  recovered: ${recovered ?? "(recovery failed)"}\n\n` +
+          `Check that the client signs with the same key as publicKey ` +
+          `(signWith, organizationId or browser session).`,
+        this.compressedPublicKey,
+        recovered
+      )
     }
+
+    return normalized
   }
 
   /**
    * Signs a hash using Turnkey's signing API
    *
    * Uses HASH_FUNCTION_NO_OP because Stacks' sigHashPreSign already
-   * produces the final hash. Turnkey must not re-hash it.
+   * produces the final hash. Turnkey must not re-hash it. Transient client
+   * failures are retried according to the signer's retry policy.
    *
    * @internal
    */
   private async signHash(hash: string): Promise<{ v: string; r: string; s: string }> {
+    return withRetry(() => this.signHashOnce(hash), this.retryPolicy)
+  }
+
+  /**
+   * Single signing attempt of signHash
+   *
+   * @internal
+   */
+  private async signHashOnce(hash: string): Promise<{ v: string; r: string; s: string }> {
     try {
       // Build the signing request. organizationId is only included when
       // explicitly provided (server-side SDK). Browser clients (httpClient
@@ -356,20 +2121,46 @@ export class TurnkeySigner {
         request.organizationId = this.organizationId
       }
 
-      const result = await this.client.signRawPayload(request)
+      const { signingTimeoutMs } = this.retryPolicy
+      const result = await withTimeout(
+        this.client.signRawPayload(request),
+        signingTimeoutMs,
+        () =>
+          new SigningError(
+            `Turnkey signing timed out after ${signingTimeoutMs}ms`,
+            "SIGNING_TIMEOUT"
+          )
+      )
 
       if (!result || typeof result.v !== "string" || typeof result.r !== "string" || typeof result.s !== "string") {
-        throw new Error("Turnkey signing returned incomplete result: ${JSON.stringify(result)}")
+        // Policies that need more approvals leave the activity pending
+        const activity = activityOf(result)
+        if (activity && activity.status !== "ACTIVITY_STATUS_COMPLETED") {
+          throwUnfinishedActivity(activity)
+        }
+
+        throw new IncompleteSignatureError(
+          `Turnkey signing returned incomplete result: ${JSON.stringify(result)}`,
+          result
+        )
       }
 
       const { v, r, s } = result
       return { v, r, s }
     } catch (error) {
+      if (error instanceof TurnkeyStacksError) throw error
+
+      // Some clients throw for activities that need approval or were rejected
+      const activity = activityOf(error)
+      if (activity && activity.status !== "ACTIVITY_STATUS_COMPLETED") {
+        throwUnfinishedActivity(activity, { cause: error })
+      }
+
       const message = error instanceof Error ? error.message : String(error)
 
       // Provide actionable context for the most common failure mode
       if (message.includes("Could not find any resource to sign with")) {
-        throw new Error(
+        throw new SigningKeyNotFoundError(
           `Turnkey could not find a signing key.\n` +
           `  signWith (publicKey): ${this.compressedPublicKey}\n` +
           `  organizationId:      ${this.organizationId ?? "(not set — using client session)"}\n\n` +
@@ -377,15 +2168,37 @@ export class TurnkeySigner {
           `  1. If using server SDK: the organizationId may not match the org that owns the key.\n` +
           `  2. If using browser client: ensure the user is authenticated and has a wallet.\n` +
           `  3. The publicKey casing or format does not match what Turnkey has stored.\n\n` +
-          `Original error: ${message}`
+          `Original error: ${message}`,
+          this.compressedPublicKey,
+          this.organizationId,
+          { cause: error }
         )
       }
 
-      throw error
+      throw new SigningError(`Turnkey signing failed: ${message}`, "SIGNING_FAILED", {
+        cause: error,
+      })
     }
   }
 }
 
+/**
+ * Computes the hash the origin key signs
+ *
+ * The origin always signs with the standard auth flag, even for sponsored
+ * transactions.
+ * @internal
+ */
+function originPreSignHash(transaction: StacksTransactionWire): string {
+  const signer = new TransactionSigner(transaction)
+  return sigHashPreSign(
+    signer.sigHash,
+    AuthType.Standard,
+    transaction.auth.spendingCondition.fee,
+    transaction.auth.spendingCondition.nonce
+  )
+}
+
 /**
  * Derives a Stacks address from a compressed public key
  *
@@ -393,8 +2206,8 @@ export class TurnkeySigner {
  * without creating a full signer instance.
  *
  * @param publicKey - Compressed secp256k1 public key (66 hex chars, starts with 02 or 03)
- * @param network - Network type (defaults to 'testnet')
- * @returns Stacks address (ST... for testnet, SP... for mainnet)
+ * @param network - Network name or configuration (defaults to 'testnet')
+ * @returns Stacks address (ST... for testnet and devnet, SP... for mainnet)
  * @throws Error if public key is invalid
  *
  * @example
@@ -410,81 +2223,130 @@ export class TurnkeySigner {
  */
 export function getAddressFromPublicKey(
   publicKey: string,
-  network: StacksNetworkType = "testnet"
+  network: StacksNetworkOption = "testnet"
 ): string {
   const cleaned = validateCompressedPublicKey(publicKey)
-  return publicKeyToAddress(cleaned, network)
+  const { addressVersion } = resolveNetwork(network)
+  return publicKeyToAddress(addressVersion.singleSig, cleaned)
 }
 
 /**
- * Broadcasts a signed transaction to the Stacks network
+ * Signs and broadcasts an STX transfer in one call
  *
- * @param transaction - Signed Stacks transaction
- * @param network - Network to broadcast to (defaults to 'testnet')
- * @returns Transaction ID (txid)
- * @throws Error if broadcast fails
+ * Convenience function that combines signing and broadcasting. With
+ * `waitForConfirmation`, it also waits for the transaction to settle and
+ * returns the final status as `confirmation`.
+ *
+ * @param signer - TurnkeySigner instance
+ * @param params - Transfer parameters
+ * @param options - Whether (and how) to wait for confirmation
+ * @returns Broadcast result with transaction ID
  *
  * @example
  * ```typescript
- * import { broadcastTransaction } from "@turnkey/stacks"
+ * import { TurnkeySigner, signAndBroadcastSTXTransfer } from "@turnkey/stacks"
+ *
+ * const signer = new TurnkeySigner({ ... })
+ * const result = await signAndBroadcastSTXTransfer(signer, {
+ *   recipient: "ST20J4G...",
+ *   amount: 1_000_000n,
+ * })
+ * console.log(`TX ID: ${result.txid}`)
  *
- * const txid = await broadcastTransaction(signedTransaction, "testnet")
- * console.log(`https://explorer.hiro.so/txid/${txid}?chain=testnet`)
+ * // Wait for one anchor block confirmation
+ * const { confirmation } = await signAndBroadcastSTXTransfer(signer, params, {
+ *   waitForConfirmation: true,
+ * })
  * ```
  */
-export async function broadcastTransaction(
-  transaction: StacksTransactionWire,
-  network: StacksNetworkType = "testnet"
-): Promise<string> {
-  const result = await stacksBroadcastTransaction({
-    transaction,
-    network,
-  })
-
-  // Handle different response formats
-  if (typeof result === "string") {
-    return result
-  }
+export async function signAndBroadcastSTXTransfer(
+  signer: TurnkeySigner,
+  params: STXTransferParams,
+  options: BroadcastOptions = {}
+): Promise<BroadcastResult> {
+  const { transaction, senderAddress, nonce, resolvedRecipient } =
+    await signer.signSTXTransfer(params)
+  const txid = await broadcastSigned(signer, transaction, senderAddress, nonce, params)
+  const confirmation = await waitIfRequested(txid, params.network ?? signer.network, options)
 
-  if (result && typeof result === "object" && "txid" in result) {
-    return (result as { txid: string }).txid
+  return {
+    txid,
+    senderAddress,
+    recipient: resolvedRecipient?.address ?? params.recipient,
+    amount: params.amount,
+    ...(resolvedRecipient ? { resolvedRecipient } : {}),
+    ...(confirmation ? { confirmation } : {}),
   }
-
-  throw new Error(`Broadcast failed: ${JSON.stringify(result)}`)
 }
 
 /**
- * Signs and broadcasts an STX transfer in one call
+ * Signs and broadcasts a contract call in one call
  *
- * Convenience function that combines signing and broadcasting.
+ * Convenience function that combines signing and broadcasting, optionally
+ * waiting for confirmation like `signAndBroadcastSTXTransfer`.
  *
  * @param signer - TurnkeySigner instance
- * @param params - Transfer parameters
+ * @param params - Contract call parameters
+ * @param options - Whether (and how) to wait for confirmation
  * @returns Broadcast result with transaction ID
  *
  * @example
  * ```typescript
- * import { TurnkeySigner, signAndBroadcastSTXTransfer } from "@turnkey/stacks"
+ * import { TurnkeySigner, signAndBroadcastContractCall } from "@turnkey/stacks"
+ * import { Cl } from "@stacks/transactions"
  *
  * const signer = new TurnkeySigner({ ... })
- * const result = await signAndBroadcastSTXTransfer(signer, {
- *   recipient: "ST20J4G...",
- *   amount: 1_000_000n,
+ * const result = await signAndBroadcastContractCall(signer, {
+ *   contractAddress: "ST1PQHQ...",
+ *   contractName: "counter",
+ *   functionName: "increment",
+ *   functionArgs: [Cl.uint(1)],
  * })
  * console.log(`TX ID: ${result.txid}`)
  * ```
  */
-export async function signAndBroadcastSTXTransfer(
+export async function signAndBroadcastContractCall(
   signer: TurnkeySigner,
-  params: STXTransferParams
-): Promise<BroadcastResult> {
-  const { transaction, senderAddress } = await signer.signSTXTransfer(params)
-  const txid = await broadcastTransaction(transaction, params.network ?? signer.network)
+  params: ContractCallParams,
+  options: BroadcastOptions = {}
+): Promise<ContractCallBroadcastResult> {
+  const { transaction, senderAddress, nonce } = await signer.signContractCall(params)
+  const txid = await broadcastSigned(signer, transaction, senderAddress, nonce, params)
+  const confirmation = await waitIfRequested(txid, params.network ?? signer.network, options)
 
   return {
     txid,
     senderAddress,
-    recipient: params.recipient,
-    amount: params.amount,
+    contractId: `${params.contractAddress}.${params.contractName}`,
+    functionName: params.functionName,
+    ...(confirmation ? { confirmation } : {}),
   }
 }
+
+/**
+ * Adds the recipient's BNS name and resolved address to a signed transfer
+ * @internal
+ */
+function withResolvedRecipient(
+  signed: SignedTransactionResult,
+  resolvedRecipient: ResolvedRecipient | undefined
+): SignedTransactionResult {
+  return resolvedRecipient ? { ...signed, resolvedRecipient } : signed
+}
+
+/**
+ * Waits for confirmation when `waitForConfirmation` is set
+ *
+ * @returns Final status, or undefined when not waiting
+ * @internal
+ */
+async function waitIfRequested(
+  txid: string,
+  network: StacksNetworkOption,
+  { waitForConfirmation }: BroadcastOptions
+): Promise<TransactionStatusResult | undefined> {
+  if (!waitForConfirmation) return undefined
+
+  const waitOptions = waitForConfirmation === true ? {} : waitForConfirmation
+  return waitForTransaction(txid, { ...waitOptions, network })
+}
@@ -0,0 +1,199 @@
+/**
+ * @turnkey/stacks - Message signing
+ *
+ * Hashing and verification for Stacks-prefixed message signatures and SIP-018
+ * structured data signatures. Signatures use the RSV layout (r || s || v)
+ * that Stacks wallets produce.
+ */
+
+import { sha256 } from "@noble/hashes/sha256"
+import { bytesToHex, concatBytes, utf8ToBytes } from "@noble/hashes/utils"
+import {
+  Cl,
+  encodeStructuredDataBytes,
+  publicKeyFromSignatureRsv,
+  publicKeyToAddress,
+  type ClarityValue,
+} from "@stacks/transactions"
+
+import { InvalidInputError } from "./errors"
+import type {
+  MessageVerificationParams,
+  SignatureVerificationTarget,
+  StructuredDataDomain,
+  StructuredDataVerificationParams,
+} from "./types"
+import { validateCompressedPublicKey } from "./utils"
+
+// Prefix used by Stacks wallets for plain message signatures
+const STACKS_MESSAGE_PREFIX = "\x17Stacks Signed Message:\n"
+
+/**
+ * Encodes a length as a Bitcoin-style variable length integer
+ * @internal
+ */
+function encodeVarInt(value: number): Uint8Array {
+  if (value < 0xfd) {
+    return new Uint8Array([value])
+  }
+
+  if (value <= 0xffff) {
+    const bytes = new Uint8Array(3)
+    bytes[0] = 0xfd
+    new DataView(bytes.buffer).setUint16(1, value, true)
+    return bytes
+  }
+
+  const bytes = new Uint8Array(5)
+  bytes[0] = 0xfe
+  new DataView(bytes.buffer).setUint32(1, value, true)
+  return bytes
+}
+
+/**
+ * Converts a plain domain object into the SIP-018 domain tuple
+ * @internal
+ */
+export function toDomainTuple(domain: StructuredDataDomain): ClarityValue {
+  if ("type" in domain) {
+    return domain
+  }
+
+  return Cl.tuple({
+    name: Cl.stringAscii(domain.name),
+    version: Cl.stringAscii(domain.version),
+    "chain-id": Cl.uint(domain.chainId),
+  })
+}
+
+/**
+ * Computes the hash signed for a Stacks-prefixed message
+ *
+ * sha256("\x17Stacks Signed Message:\n" || varint(length) || message)
+ *
+ * @param message - Message text or bytes
+ * @returns Message hash (hex)
+ */
+export function hashMessage(message: string | Uint8Array): string {
+  const messageBytes = typeof message === "string" ? utf8ToBytes(message) : message
+
+  return bytesToHex(
+    sha256(
+      concatBytes(
+        utf8ToBytes(STACKS_MESSAGE_PREFIX),
+        encodeVarInt(messageBytes.length),
+        messageBytes
+      )
+    )
+  )
+}
+
+/**
+ * Computes the SIP-018 hash signed for structured data
+ *
+ * sha256("SIP018" || sha256(domain) || sha256(message))
+ *
+ * @param domain - SIP-018 domain ({ name, version, chainId } or a Clarity tuple)
+ * @param message - Clarity value to sign
+ * @returns Structured data hash (hex)
+ * @throws Error if the domain is not a valid SIP-018 domain tuple
+ */
+export function hashStructuredDataMessage(
+  domain: StructuredDataDomain,
+  message: ClarityValue
+): string {
+  return bytesToHex(
+    sha256(encodeStructuredDataBytes({ domain: toDomainTuple(domain), message }))
+  )
+}
+
+/**
+ * Verifies a Stacks-prefixed message signature
+ *
+ * @param params - Message, RSV signature and the expected public key or address
+ * @returns true if the signature was produced by the expected key
+ *
+ * @example
+ * ```typescript
+ * import { verifyMessageSignature } from "@turnkey/stacks"
+ *
+ * const valid = verifyMessageSignature({
+ *   message: "Sign in to example.com",
+ *   signature,
+ *   address: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+ * })
+ * ```
+ */
+export function verifyMessageSignature(params: MessageVerificationParams): boolean {
+  return verifyHashSignature(hashMessage(params.message), params)
+}
+
+/**
+ * Verifies a SIP-018 structured data signature
+ *
+ * @param params - Domain, message, RSV signature and the expected public key or address
+ * @returns true if the signature was produced by the expected key
+ *
+ * @example
+ * ```typescript
+ * import { verifyStructuredDataSignature } from "@turnkey/stacks"
+ * import { Cl } from "@stacks/transactions"
+ *
+ * const valid = verifyStructuredDataSignature({
+ *   domain: { name: "My App", version: "1.0.0", chainId: 1 },
+ *   message: Cl.tuple({ action: Cl.stringAscii("login") }),
+ *   signature,
+ *   publicKey: "025afa...",
+ * })
+ * ```
+ */
+export function verifyStructuredDataSignature(
+  params: StructuredDataVerificationParams
+): boolean {
+  let hash: string
+  try {
+    hash = hashStructuredDataMessage(params.domain, params.message)
+  } catch {
+    return false
+  }
+  return verifyHashSignature(hash, params)
+}
+
+/**
+ * Recovers the signing key from an RSV signature and compares it to the
+ * expected public key or address
+ * @internal
+ */
+function verifyHashSignature(hash: string, expected: SignatureVerificationTarget): boolean {
+  if (expected.publicKey === undefined && expected.address === undefined) {
+    throw new InvalidInputError("Either publicKey or address is required to verify a signature")
+  }
+
+  const signature = expected.signature.startsWith("0x")
+    ? expected.signature.slice(2)
+    : expected.signature
+
+  let recovered: string
+  try {
+    recovered = publicKeyFromSignatureRsv(hash, signature)
+  } catch {
+    return false
+  }
+
+  if (
+    expected.publicKey !== undefined &&
+    recovered !== validateCompressedPublicKey(expected.publicKey)
+  ) {
+    return false
+  }
+
+  if (
+    expected.address !== undefined &&
+    publicKeyToAddress(recovered, "mainnet") !== expected.address &&
+    publicKeyToAddress(recovered, "testnet") !== expected.address
+  ) {
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,390 @@
+/**
+ * @turnkey/stacks - Multisig
+ *
+ * M-of-N multisig spending conditions where each participant key is held in
+ * Turnkey (possibly in different organizations). Transactions are built
+ * unsigned here, each participant's TurnkeySigner appends its signature with
+ * `appendMultisigSignature`, and `finalize` completes the spending condition.
+ */
+
+import {
+  AddressHashMode,
+  AddressVersion,
+  AuthType,
+  PubKeyEncoding,
+  StacksWireType,
+  TransactionSigner,
+  addressFromPublicKeys,
+  addressToString,
+  createMessageSignature,
+  createStacksPublicKey,
+  createTransactionAuthField,
+  deserializeTransaction,
+  isSingleSig,
+  sigHashPreSign,
+  type MultiSigHashMode,
+  type MultiSigSpendingCondition,
+  type StacksTransactionWire,
+} from "@stacks/transactions"
+
+import { fetchNonce } from "./api"
+import {
+  buildContractCall,
+  buildContractDeploy,
+  buildSTXTransfer,
+  validateContractCallParams,
+  validateContractDeployParams,
+  validateSTXTransferParams,
+  type BuildOptions,
+  type OriginKeys,
+} from "./builders"
+import type {
+  ContractCallParams,
+  ContractDeployParams,
+  FeeEstimationOptions,
+  MultisigSignerConfig,
+  STXTransferParams,
+  StacksNetworkOption,
+  UnsignedTransactionResult,
+} from "./types"
+import { InvalidInputError } from "./errors"
+import { resolveTransactionFee } from "./fees"
+import { resolveNetwork } from "./network"
+import { resolveRetryPolicy, type RetryPolicy } from "./retry"
+import { validateCompressedPublicKey } from "./utils"
+
+/**
+ * TurnkeyMultisigSigner - M-of-N multisig account built from Turnkey keys
+ *
+ * Does not sign by itself: it derives the multisig address, builds unsigned
+ * transactions and tracks signature order. Each participant signs with its
+ * own TurnkeySigner via `appendMultisigSignature`.
+ *
+ * Participants sign in public key order. Keys skipped by a later signer are
+ * recorded as public keys and cannot sign that transaction afterwards.
+ *
+ * @example
+ * ```typescript
+ * import { TurnkeyMultisigSigner, TurnkeySigner } from "@turnkey/stacks"
+ *
+ * const multisig = new TurnkeyMultisigSigner({
+ *   publicKeys: [aliceKey, bobKey, carolKey],
+ *   signaturesRequired: 2,
+ *   network: "mainnet",
+ * })
+ *
+ * const { transaction } = await multisig.buildSTXTransfer({
+ *   recipient: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+ *   amount: 1_000_000n,
+ * })
+ *
+ * let tx = await alice.appendMultisigSignature(transaction, multisig)
+ * tx = await carol.appendMultisigSignature(tx, multisig)
+ * const signed = multisig.finalize(tx)
+ * ```
+ */
+export class TurnkeyMultisigSigner {
+  /**
+   * Normalized participant public keys, in signing order
+   */
+  public readonly publicKeys: readonly string[]
+
+  /**
+   * Number of signatures required (M of N)
+   */
+  public readonly signaturesRequired: number
+
+  /**
+   * Multisig hash mode (legacy sequential P2SH or non-sequential P2SH)
+   */
+  public readonly hashMode: MultiSigHashMode
+
+  /**
+   * Default network for this multisig
+   */
+  public readonly network: StacksNetworkOption
+
+  /**
+   * Hash160 of the multisig redeem script (the spending condition signer)
+   */
+  private readonly signerHash: string
+
+  private readonly feeEstimation: FeeEstimationOptions | undefined
+  private readonly retry: RetryPolicy
+
+  /**
+   * Creates a new TurnkeyMultisigSigner instance
+   *
+   * @param config - Multisig configuration
+   * @throws Error if any public key is invalid, duplicated, or the threshold is out of range,
+   *   or the retry options are invalid
+   */
+  constructor(config: MultisigSignerConfig) {
+    if (!Array.isArray(config.publicKeys) || config.publicKeys.length === 0) {
+      throw new InvalidInputError("Multisig requires at least one public key")
+    }
+
+    const publicKeys = config.publicKeys.map(validateCompressedPublicKey)
+    if (new Set(publicKeys).size !== publicKeys.length) {
+      throw new InvalidInputError("Multisig public keys must be unique")
+    }
+
+    const { signaturesRequired } = config
+    if (
+      !Number.isInteger(signaturesRequired) ||
+      signaturesRequired < 1 ||
+      signaturesRequired > publicKeys.length
+    ) {
+      throw new InvalidInputError(
+        `Invalid signaturesRequired: expected an integer between 1 and ${publicKeys.length}, got ${signaturesRequired}`
+      )
+    }
+
+    this.publicKeys = publicKeys
+    this.signaturesRequired = signaturesRequired
+    this.hashMode = config.useNonSequentialMultiSig
+      ? AddressHashMode.P2SHNonSequential
+      : AddressHashMode.P2SH
+    this.network = config.network ?? "testnet"
+    this.feeEstimation = config.feeEstimation
+    this.retry = resolveRetryPolicy(config.retry)
+    // Fail fast on an invalid network configuration
+    resolveNetwork(this.network)
+    this.signerHash = addressFromPublicKeys(
+      AddressVersion.TestnetMultiSig, // version does not affect the hash
+      this.hashMode,
+      signaturesRequired,
+      publicKeys.map(createStacksPublicKey)
+    ).hash160
+  }
+
+  /**
+   * Returns the multisig Stacks address
+   *
+   * @param network - Optional network override (defaults to the configured network)
+   * @returns Stacks address (SN... for testnet and devnet, SM... for mainnet)
+   */
+  getAddress(network?: StacksNetworkOption): string {
+    const { addressVersion } = resolveNetwork(network ?? this.network)
+
+    return addressToString(
+      addressFromPublicKeys(
+        addressVersion.multiSig,
+        this.hashMode,
+        this.signaturesRequired,
+        this.publicKeys.map(createStacksPublicKey)
+      )
+    )
+  }
+
+  /**
+   * Builds an unsigned multisig STX transfer
+   *
+   * @param params - Transfer parameters (nonce is fetched for the multisig address if omitted)
+   * @returns Unsigned transaction result
+   */
+  async buildSTXTransfer(params: STXTransferParams): Promise<UnsignedTransactionResult> {
+    validateSTXTransferParams(params)
+    return this.build(params, buildSTXTransfer)
+  }
+
+  /**
+   * Builds an unsigned multisig contract call
+   *
+   * @param params - Contract call parameters (nonce is fetched for the multisig address if omitted)
+   * @returns Unsigned transaction result
+   */
+  async buildContractCall(params: ContractCallParams): Promise<UnsignedTransactionResult> {
+    validateContractCallParams(params)
+    return this.build(params, buildContractCall)
+  }
+
+  /**
+   * Builds an unsigned multisig contract deploy
+   *
+   * @param params - Contract deploy parameters (nonce is fetched for the multisig address if omitted)
+   * @returns Unsigned transaction result
+   */
+  async buildContractDeploy(params: ContractDeployParams): Promise<UnsignedTransactionResult> {
+    validateContractDeployParams(params)
+    return this.build(params, buildContractDeploy)
+  }
+
+  /**
+   * Returns the number of signatures already attached to a multisig transaction
+   */
+  getSignatureCount(transaction: StacksTransactionWire): number {
+    return countSignatures(this.getSpendingCondition(transaction))
+  }
+
+  /**
+   * Returns true once the transaction carries enough signatures to finalize
+   */
+  isComplete(transaction: StacksTransactionWire): boolean {
+    return this.getSignatureCount(transaction) >= this.signaturesRequired
+  }
+
+  /**
+   * Prepares the next participant signature
+   *
+   * Returns a copy of the transaction with the public keys of any skipped
+   * participants recorded, plus the pre-sign hash the participant must sign.
+   * Used by `TurnkeySigner.appendMultisigSignature`.
+   *
+   * @param transaction - Multisig transaction built for this multisig
+   * @param publicKey - Public key of the participant about to sign
+   * @throws Error if the key is not a participant, signs out of order, or the threshold is met
+   */
+  prepareSignature(
+    transaction: StacksTransactionWire,
+    publicKey: string
+  ): { transaction: StacksTransactionWire; preSignHash: string } {
+    const key = validateCompressedPublicKey(publicKey)
+    const condition = this.getSpendingCondition(transaction)
+
+    const index = this.publicKeys.indexOf(key)
+    if (index === -1) {
+      throw new InvalidInputError(`Public key ${key} is not a participant in this multisig`)
+    }
+
+    if (countSignatures(condition) >= this.signaturesRequired) {
+      throw new InvalidInputError(
+        `Transaction already has the required ${this.signaturesRequired} signature(s); call finalize()`
+      )
+    }
+
+    if (index < condition.fields.length) {
+      throw new InvalidInputError(
+        `Participant ${index + 1} cannot sign: ${condition.fields.length} participant slot(s) are already filled. ` +
+          `Participants must sign in public key order.`
+      )
+    }
+
+    const next = deserializeTransaction(transaction.serializeBytes())
+    for (const skipped of this.publicKeys.slice(condition.fields.length, index)) {
+      next.appendPubkey(skipped)
+    }
+
+    // TransactionSigner walks existing signatures, chaining the sighash for
+    // sequential multisig and keeping the initial sighash for non-sequential.
+    const nextCondition = next.auth.spendingCondition
+    const preSignHash = sigHashPreSign(
+      new TransactionSigner(next).sigHash,
+      AuthType.Standard,
+      nextCondition.fee,
+      nextCondition.nonce
+    )
+
+    return { transaction: next, preSignHash }
+  }
+
+  /**
+   * Completes a multisig transaction once the threshold is met
+   *
+   * Records the public keys of participants that did not sign and verifies
+   * every attached signature.
+   *
+   * @param transaction - Multisig transaction with enough signatures
+   * @returns Fully signed transaction ready for broadcast
+   * @throws Error if the threshold is not met or a signature does not verify
+   */
+  finalize(transaction: StacksTransactionWire): StacksTransactionWire {
+    const condition = this.getSpendingCondition(transaction)
+
+    const signatures = countSignatures(condition)
+    if (signatures < this.signaturesRequired) {
+      throw new InvalidInputError(
+        `Multisig transaction needs ${this.signaturesRequired} signature(s), has ${signatures}`
+      )
+    }
+
+    const finalized = deserializeTransaction(transaction.serializeBytes())
+    for (const remaining of this.publicKeys.slice(condition.fields.length)) {
+      finalized.appendPubkey(remaining)
+    }
+
+    // Throws if any signature or the resulting signer hash does not match
+    finalized.verifyOrigin()
+
+    return finalized
+  }
+
+  /**
+   * Resolves nonce for the multisig address, builds the transaction and resolves its fee
+   * @internal
+   */
+  private async build<P extends STXTransferParams | ContractCallParams | ContractDeployParams>(
+    params: P,
+    builder: (params: P, origin: OriginKeys, options: BuildOptions) => Promise<StacksTransactionWire>
+  ): Promise<UnsignedTransactionResult> {
+    const network = resolveNetwork(params.network ?? this.network)
+
+    const senderAddress = this.getAddress(network)
+
+    // Fetch nonce for the multisig address if not provided
+    const nonce = params.nonce ?? (await fetchNonce(senderAddress, network, this.retry))
+
+    const transaction = await builder(
+      params,
+      {
+        publicKeys: [...this.publicKeys],
+        numSignatures: this.signaturesRequired,
+        useNonSequentialMultiSig: this.hashMode === AddressHashMode.P2SHNonSequential,
+      },
+      { nonce, network }
+    )
+
+    // Use the explicit fee or estimate one, accounting for missing signatures
+    const { fee, feeDetails } = await resolveTransactionFee(transaction, {
+      fee: params.fee,
+      sponsored: params.sponsored,
+      options: { ...this.feeEstimation, ...params.feeEstimation },
+      network,
+      retry: this.retry,
+    })
+    transaction.setFee(fee)
+
+    return { transaction, senderAddress, nonce, fee, feeDetails }
+  }
+
+  /**
+   * Returns the origin spending condition, checking it belongs to this multisig
+   * @internal
+   */
+  private getSpendingCondition(transaction: StacksTransactionWire): MultiSigSpendingCondition {
+    const condition = transaction.auth.spendingCondition
+    if (isSingleSig(condition)) {
+      throw new InvalidInputError("Transaction origin is single-sig, not multisig")
+    }
+
+    if (condition.hashMode !== this.hashMode || condition.signer !== this.signerHash) {
+      throw new InvalidInputError("Transaction origin does not match this multisig")
+    }
+
+    return condition
+  }
+}
+
+/**
+ * Appends a participant's VRS signature to a multisig spending condition
+ * @internal
+ */
+export function appendMultisigSignatureField(
+  transaction: StacksTransactionWire,
+  vrs: string
+): void {
+  const condition = transaction.auth.spendingCondition as MultiSigSpendingCondition
+  condition.fields.push(
+    createTransactionAuthField(PubKeyEncoding.Compressed, createMessageSignature(vrs))
+  )
+}
+
+/**
+ * Counts signature fields in a multisig spending condition
+ * @internal
+ */
+function countSignatures(condition: MultiSigSpendingCondition): number {
+  return condition.fields.filter(
+    (field) => field.contents.type === StacksWireType.MessageSignature
+  ).length
+}
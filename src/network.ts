@@ -0,0 +1,215 @@
+/**
+ * @turnkey/stacks - Network configuration
+ *
+ * Resolves network names and custom network objects into the endpoint, chain
+ * and version settings used for building transactions, deriving addresses and
+ * calling the Stacks API.
+ */
+
+import { AddressVersion, createAddress, validateStacksAddress } from "@stacks/transactions"
+
+import { InvalidInputError } from "./errors"
+import type { StacksNetworkConfig, StacksNetworkOption, StacksNetworkType } from "./types"
+
+// Transaction version bytes (mirrors TransactionVersion in @stacks/network)
+export const TRANSACTION_VERSION_MAINNET = 0x00
+const TRANSACTION_VERSION_TESTNET = 0x80
+
+// Addresses of the all-zero hash160, which no key controls. STX sent there are
+// burned, and the boot contracts are deployed under them.
+const ZERO_ADDRESS_MAINNET = "SP000000000000000000002Q6VF78"
+const ZERO_ADDRESS_TESTNET = "ST000000000000000000002AMW42H"
+
+// Built-in networks. Devnet uses testnet versions with a local API.
+const NETWORK_PRESETS: Record<StacksNetworkType, StacksNetworkConfig> = {
+  mainnet: {
+    baseUrl: "https://api.hiro.so",
+    chainId: 0x00000001,
+    transactionVersion: TRANSACTION_VERSION_MAINNET,
+    addressVersion: {
+      singleSig: AddressVersion.MainnetSingleSig,
+      multiSig: AddressVersion.MainnetMultiSig,
+    },
+  },
+  testnet: {
+    baseUrl: "https://api.testnet.hiro.so",
+    chainId: 0x80000000,
+    transactionVersion: TRANSACTION_VERSION_TESTNET,
+    addressVersion: {
+      singleSig: AddressVersion.TestnetSingleSig,
+      multiSig: AddressVersion.TestnetMultiSig,
+    },
+  },
+  devnet: {
+    baseUrl: "http://localhost:3999",
+    chainId: 0x80000000,
+    transactionVersion: TRANSACTION_VERSION_TESTNET,
+    addressVersion: {
+      singleSig: AddressVersion.TestnetSingleSig,
+      multiSig: AddressVersion.TestnetMultiSig,
+    },
+  },
+}
+
+/**
+ * Creates a network configuration from a built-in network
+ *
+ * Use this to point a built-in network at another endpoint or to add headers
+ * (such as an API key) without spelling out every version field.
+ *
+ * @param base - Built-in network name or an existing network configuration
+ * @param overrides - Fields to replace on the base configuration
+ * @returns Complete network configuration
+ * @throws Error if the resulting configuration is invalid
+ *
+ * @example
+ * ```typescript
+ * import { TurnkeySigner, createNetwork } from "@turnkey/stacks"
+ *
+ * const network = createNetwork("mainnet", {
+ *   headers: { "x-api-key": process.env.HIRO_API_KEY! },
+ * })
+ * const signer = new TurnkeySigner({ client, publicKey, network })
+ * ```
+ */
+export function createNetwork(
+  base: StacksNetworkOption,
+  overrides: Partial<StacksNetworkConfig> = {}
+): StacksNetworkConfig {
+  const resolved = resolveNetwork(base)
+  return resolveNetwork({
+    ...resolved,
+    ...overrides,
+    addressVersion: overrides.addressVersion ?? resolved.addressVersion,
+  })
+}
+
+/**
+ * Resolves a network name or configuration into a validated configuration
+ *
+ * The base URL is returned without a trailing slash.
+ *
+ * @throws Error if the network name is unknown or the configuration is invalid
+ * @internal
+ */
+export function resolveNetwork(network: StacksNetworkOption): StacksNetworkConfig {
+  if (typeof network === "string") {
+    const preset = NETWORK_PRESETS[network]
+    if (!preset) {
+      throw new InvalidInputError(
+        `Unknown network: ${network}. Use "mainnet", "testnet", "devnet" or a network configuration`
+      )
+    }
+    return preset
+  }
+
+  if (typeof network.baseUrl !== "string" || !/^https?:\/\/\S+$/.test(network.baseUrl)) {
+    throw new InvalidInputError(
+      `Invalid network baseUrl: ${network.baseUrl}. Must be an http(s) URL`
+    )
+  }
+
+  if (!Number.isInteger(network.chainId) || network.chainId < 0 || network.chainId > 0xffffffff) {
+    throw new InvalidInputError(
+      `Invalid network chainId: ${network.chainId}. Must be a 32-bit unsigned integer`
+    )
+  }
+
+  if (
+    network.transactionVersion !== TRANSACTION_VERSION_MAINNET &&
+    network.transactionVersion !== TRANSACTION_VERSION_TESTNET
+  ) {
+    throw new InvalidInputError(
+      `Invalid network transactionVersion: ${network.transactionVersion}. Must be 0x00 (mainnet) or 0x80 (testnet)`
+    )
+  }
+
+  const { singleSig, multiSig } = network.addressVersion ?? {}
+  if (!isAddressVersion(singleSig) || !isAddressVersion(multiSig)) {
+    throw new InvalidInputError(
+      "Invalid network addressVersion: singleSig and multiSig must be address version bytes (0-31)"
+    )
+  }
+
+  return { ...network, baseUrl: network.baseUrl.replace(/\/+$/, "") }
+}
+
+/**
+ * Returns the built-in network an address belongs to, read from its c32
+ * version byte, or undefined for invalid addresses and other versions
+ * @internal
+ */
+export function addressNetwork(address: string): "mainnet" | "testnet" | undefined {
+  if (!validateStacksAddress(address)) return undefined
+
+  switch (createAddress(address).version) {
+    case AddressVersion.MainnetSingleSig:
+    case AddressVersion.MainnetMultiSig:
+      return "mainnet"
+    case AddressVersion.TestnetSingleSig:
+    case AddressVersion.TestnetMultiSig:
+      return "testnet"
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Converts a network configuration into the network object expected by
+ * `@stacks/transactions`
+ *
+ * Peer network ID, magic bytes and boot address follow the transaction version.
+ * @internal
+ */
+export function toStacksNetwork(network: StacksNetworkConfig) {
+  const mainnet = network.transactionVersion === TRANSACTION_VERSION_MAINNET
+
+  return {
+    chainId: network.chainId,
+    transactionVersion: network.transactionVersion,
+    peerNetworkId: mainnet ? 0x17000000 : 0xff000000,
+    magicBytes: mainnet ? "X2" : "T2",
+    bootAddress: burnAddress(network),
+    addressVersion: network.addressVersion,
+    client: { baseUrl: network.baseUrl, fetch: networkFetch(network) },
+  }
+}
+
+/**
+ * Returns the network's burn address (the all-zero address), which no key controls
+ * @internal
+ */
+export function burnAddress(network: StacksNetworkConfig): string {
+  return network.transactionVersion === TRANSACTION_VERSION_MAINNET
+    ? ZERO_ADDRESS_MAINNET
+    : ZERO_ADDRESS_TESTNET
+}
+
+/**
+ * Returns the network's fetch implementation with its extra headers applied
+ *
+ * Falls back to the global `fetch`, looked up on each call so it can be
+ * replaced at runtime.
+ * @internal
+ */
+export function networkFetch(network: StacksNetworkConfig): typeof fetch {
+  const fetchFn: typeof fetch = (input, init) => (network.fetch ?? globalThis.fetch)(input, init)
+  const extraHeaders = network.headers
+  if (!extraHeaders || Object.keys(extraHeaders).length === 0) return fetchFn
+
+  return (input, init) => {
+    const headers = new Headers(init?.headers)
+    for (const [name, value] of Object.entries(extraHeaders)) {
+      headers.set(name, value)
+    }
+    return fetchFn(input, { ...init, headers })
+  }
+}
+
+/**
+ * Checks that a value is a valid address version byte (c32 allows 0-31)
+ * @internal
+ */
+function isAddressVersion(version: unknown): version is number {
+  return typeof version === "number" && Number.isInteger(version) && version >= 0 && version < 32
+}
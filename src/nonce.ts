@@ -0,0 +1,336 @@
+/**
+ * @turnkey/stacks - Nonce management
+ *
+ * Hands out sequential nonces per address so concurrent sends from one
+ * signer do not reuse the same nonce.
+ */
+
+import { fetchNonceInfo } from "./api"
+import { BroadcastError, InvalidInputError } from "./errors"
+import { resolveNetwork } from "./network"
+import { resolveRetryPolicy, type RetryPolicy } from "./retry"
+import type {
+  NonceManagerOptions,
+  NonceState,
+  NonceStore,
+  StacksNetworkConfig,
+  StacksNetworkOption,
+} from "./types"
+import { withKeyLock } from "./utils"
+
+const DEFAULT_SYNC_INTERVAL_MS = 30_000 // 30 seconds
+
+// Rejection reasons that mean local nonce state no longer matches the chain
+const NONCE_REJECTION_REASONS = new Set(["BadNonce", "ConflictingNonceInMempool"])
+
+/**
+ * InMemoryNonceStore - default NonceStore for a single process
+ *
+ * Locks are per key and queue waiters in call order.
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly states = new Map<string, NonceState>()
+  private readonly locks = new Map<string, Promise<void>>()
+
+  async get(key: string): Promise<NonceState | undefined> {
+    const state = this.states.get(key)
+    return state && copyState(state)
+  }
+
+  async set(key: string, state: NonceState): Promise<void> {
+    this.states.set(key, copyState(state))
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key)
+  }
+
+  async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    return withKeyLock(this.locks, key, fn)
+  }
+}
+
+/**
+ * NonceManager - sequential nonces for concurrent sends
+ *
+ * Tracks the next nonce per address and network. Local state is merged with
+ * the API's `possible_next_nonce` and `detected_missing_nonces` on first use
+ * and after `syncIntervalMs`; missing nonces are handed out first so gaps get
+ * filled. Nonces of transactions that fail to sign or broadcast should be
+ * released so they are reused.
+ *
+ * A handed-out nonce stays reserved, even if the API reports it missing, until
+ * it is released, its broadcast is confirmed with `confirmBroadcast`, or the
+ * API sees it used. Transactions signed but not broadcast yet therefore keep
+ * their nonce.
+ *
+ * Attach one to a TurnkeySigner with the `nonceManager` config option; it
+ * then acquires and releases nonces automatically. One manager can be shared
+ * by several signers.
+ *
+ * @example
+ * ```typescript
+ * import { NonceManager, TurnkeySigner } from "@turnkey/stacks"
+ *
+ * const signer = new TurnkeySigner({
+ *   client,
+ *   publicKey,
+ *   nonceManager: new NonceManager(),
+ * })
+ *
+ * // Nonces n, n+1, n+2 — no mempool conflicts
+ * await Promise.all(recipients.map((recipient) =>
+ *   signAndBroadcastSTXTransfer(signer, { recipient, amount: 1_000n })
+ * ))
+ * ```
+ */
+export class NonceManager {
+  private readonly store: NonceStore
+  private readonly syncIntervalMs: number
+  private readonly retry: RetryPolicy
+
+  /**
+   * Creates a new NonceManager
+   *
+   * @param options - Store, sync and retry settings
+   * @throws Error if syncIntervalMs is negative or the retry options are invalid
+   */
+  constructor(options: NonceManagerOptions = {}) {
+    const syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS
+    if (!Number.isFinite(syncIntervalMs) || syncIntervalMs < 0) {
+      throw new InvalidInputError(
+        `Invalid syncIntervalMs: ${syncIntervalMs}. Must be a non-negative number`
+      )
+    }
+
+    this.store = options.store ?? new InMemoryNonceStore()
+    this.syncIntervalMs = syncIntervalMs
+    this.retry = resolveRetryPolicy(options.retry)
+  }
+
+  /**
+   * Hands out the next nonce for an address
+   *
+   * Released and missing nonces are used first, lowest first.
+   *
+   * @param address - Stacks address the nonce is for
+   * @param network - Network name or configuration
+   * @returns Nonce reserved for the caller
+   * @throws Error if the nonce sync with the API fails
+   */
+  async acquire(address: string, network: StacksNetworkOption): Promise<bigint> {
+    const config = resolveNetwork(network)
+    const key = nonceKey(address, config)
+
+    return this.store.withLock(key, async () => {
+      let state = await this.store.get(key)
+      if (!state || Date.now() - state.syncedAt >= this.syncIntervalMs) {
+        state = await syncState(address, config, state, this.retry)
+      }
+
+      let nonce: bigint
+      if (state.availableNonces.length > 0) {
+        nonce = state.availableNonces.shift()!
+      } else {
+        nonce = state.nextNonce
+        state.nextNonce += 1n
+      }
+      state.pendingNonces.push(nonce)
+
+      await this.store.set(key, state)
+      return nonce
+    })
+  }
+
+  /**
+   * Returns an unused nonce so it is handed out again
+   *
+   * Call this when a transaction using the nonce was not broadcast.
+   *
+   * @param address - Stacks address the nonce is for
+   * @param nonce - Nonce returned by `acquire`
+   * @param network - Network name or configuration
+   */
+  async release(address: string, nonce: bigint, network: StacksNetworkOption): Promise<void> {
+    const key = nonceKey(address, resolveNetwork(network))
+
+    await this.store.withLock(key, async () => {
+      const state = await this.store.get(key)
+      if (!state) return
+
+      state.pendingNonces = withoutNonce(state.pendingNonces, nonce)
+      if (nonce < state.nextNonce && !state.availableNonces.includes(nonce)) {
+        state.availableNonces.push(nonce)
+        state.availableNonces.sort(compareNonces)
+
+        // Shrink the sequence while its top nonces are all free
+        while (state.availableNonces[state.availableNonces.length - 1] === state.nextNonce - 1n) {
+          state.availableNonces.pop()
+          state.nextNonce -= 1n
+        }
+      }
+
+      await this.store.set(key, state)
+    })
+  }
+
+  /**
+   * Ends the reservation of a nonce whose transaction was broadcast
+   *
+   * Until then the nonce is never handed out again, even if the API reports it
+   * missing. `signAndBroadcast*` helpers call this after a successful broadcast.
+   *
+   * @param address - Stacks address the nonce is for
+   * @param nonce - Nonce returned by `acquire`
+   * @param network - Network name or configuration
+   */
+  async confirmBroadcast(
+    address: string,
+    nonce: bigint,
+    network: StacksNetworkOption
+  ): Promise<void> {
+    const key = nonceKey(address, resolveNetwork(network))
+
+    await this.store.withLock(key, async () => {
+      const state = await this.store.get(key)
+      if (!state || !state.pendingNonces.includes(nonce)) return
+
+      state.pendingNonces = withoutNonce(state.pendingNonces, nonce)
+      await this.store.set(key, state)
+    })
+  }
+
+  /**
+   * Discards local state so the next nonce is synced from the API
+   *
+   * Reserved nonces (handed out, not yet released or broadcast) are kept and
+   * stay excluded from the synced state.
+   *
+   * @param address - Stacks address to resync
+   * @param network - Network name or configuration
+   */
+  async resync(address: string, network: StacksNetworkOption): Promise<void> {
+    const key = nonceKey(address, resolveNetwork(network))
+
+    await this.store.withLock(key, async () => {
+      const state = await this.store.get(key)
+      if (!state) return
+
+      // A next nonce of 0 lets the sync rebuild the sequence from the API
+      await this.store.set(key, {
+        nextNonce: 0n,
+        availableNonces: [],
+        pendingNonces: state.pendingNonces,
+        syncedAt: 0,
+      })
+    })
+  }
+
+  /**
+   * Updates nonce state after a failed broadcast
+   *
+   * Releases the nonce; nonce rejections (`BadNonce`,
+   * `ConflictingNonceInMempool`) also trigger a resync.
+   *
+   * @param address - Stacks address the nonce is for
+   * @param nonce - Nonce of the failed transaction
+   * @param error - Error thrown by the broadcast
+   * @param network - Network name or configuration
+   */
+  async handleBroadcastFailure(
+    address: string,
+    nonce: bigint,
+    error: unknown,
+    network: StacksNetworkOption
+  ): Promise<void> {
+    await this.release(address, nonce, network)
+    if (error instanceof BroadcastError && NONCE_REJECTION_REASONS.has(error.reason ?? "")) {
+      await this.resync(address, network)
+    }
+  }
+}
+
+/**
+ * Store key for an address on a network
+ * @internal
+ */
+function nonceKey(address: string, network: StacksNetworkConfig): string {
+  return `${network.baseUrl}/${address}`
+}
+
+/**
+ * Merges local nonce state with the API's view
+ *
+ * The next nonce never moves backwards past a reserved nonce, and reserved
+ * nonces are never made available, even if the API reports them missing.
+ * Reservations and locally released nonces the API already sees as used are
+ * dropped.
+ * @internal
+ */
+async function syncState(
+  address: string,
+  network: StacksNetworkConfig,
+  previous: NonceState | undefined,
+  retry: RetryPolicy
+): Promise<NonceState> {
+  const { possibleNextNonce, missingNonces } = await fetchNonceInfo(address, network, retry)
+  const missing = new Set(missingNonces)
+
+  const pendingNonces = (previous?.pendingNonces ?? []).filter(
+    (nonce) => nonce >= possibleNextNonce || missing.has(nonce)
+  )
+  const localNextNonce = previous?.nextNonce ?? 0n
+  const nextNonce = [localNextNonce, ...pendingNonces.map((nonce) => nonce + 1n)].reduce(
+    maxNonce,
+    possibleNextNonce
+  )
+
+  // After a resync, nonces between the API's next nonce and the reservations are free
+  const skipped: bigint[] = []
+  for (let nonce = maxNonce(possibleNextNonce, localNextNonce); nonce < nextNonce; nonce++) {
+    skipped.push(nonce)
+  }
+
+  const released = (previous?.availableNonces ?? []).filter((nonce) => nonce >= possibleNextNonce)
+  const availableNonces = [...new Set([...missingNonces, ...released, ...skipped])]
+    .filter((nonce) => nonce < nextNonce && !pendingNonces.includes(nonce))
+    .sort(compareNonces)
+
+  return { nextNonce, availableNonces, pendingNonces, syncedAt: Date.now() }
+}
+
+/**
+ * Copies nonce state so callers cannot change stored lists
+ * @internal
+ */
+function copyState(state: NonceState): NonceState {
+  return {
+    ...state,
+    availableNonces: [...state.availableNonces],
+    pendingNonces: [...state.pendingNonces],
+  }
+}
+
+/**
+ * Returns the nonces without `nonce`
+ * @internal
+ */
+function withoutNonce(nonces: bigint[], nonce: bigint): bigint[] {
+  return nonces.filter((other) => other !== nonce)
+}
+
+/**
+ * Larger of two nonces
+ * @internal
+ */
+function maxNonce(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
+
+/**
+ * Ascending comparator for bigint nonces
+ * @internal
+ */
+function compareNonces(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
@@ -0,0 +1,385 @@
+/**
+ * @turnkey/stacks - Signing policy
+ *
+ * Client-side rules checked before a transaction is sent to Turnkey for
+ * signing, as defense in depth next to Turnkey policies.
+ */
+
+import {
+  ClarityType,
+  validateStacksAddress,
+  type StacksTransactionWire,
+} from "@stacks/transactions"
+
+import { describeTransaction } from "./describe"
+import { InvalidInputError, PolicyViolationError } from "./errors"
+import type {
+  DescribedClarityValue,
+  SigningPolicy,
+  SpendingLimit,
+  SpendingRecord,
+  SpendingStore,
+  TransactionDescription,
+} from "./types"
+import { withKeyLock } from "./utils"
+
+// Addresses and contract IDs inside a Clarity value's repr (c32 alphabet)
+const PRINCIPAL_REGEX = /\bS[MNPT][0-9A-HJKMNP-TV-Z]{28,40}(?:\.[a-zA-Z][a-zA-Z0-9_-]*)?/g
+
+/**
+ * InMemorySpendingStore - default SpendingStore for a single process
+ *
+ * Locks are per key and queue waiters in call order.
+ */
+export class InMemorySpendingStore implements SpendingStore {
+  private readonly records = new Map<string, SpendingRecord[]>()
+  private readonly locks = new Map<string, Promise<void>>()
+
+  async get(key: string): Promise<SpendingRecord[] | undefined> {
+    return this.records.get(key)?.map((record) => ({ ...record }))
+  }
+
+  async set(key: string, records: SpendingRecord[]): Promise<void> {
+    this.records.set(
+      key,
+      records.map((record) => ({ ...record }))
+    )
+  }
+
+  async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    return withKeyLock(this.locks, key, fn)
+  }
+}
+
+/**
+ * SigningPolicy after validation, with lookups prepared
+ * @internal
+ */
+export interface ResolvedSigningPolicy {
+  networks: Set<string> | undefined
+  allowedRecipients: Set<string> | undefined
+  deniedRecipients: Set<string>
+  maxAmount: bigint | undefined
+  spendingLimit: SpendingLimit | undefined
+  maxFee: bigint | undefined
+  allowedContractCalls: Map<string, Set<string> | undefined> | undefined
+  requireDenyMode: boolean
+  store: SpendingStore
+}
+
+/**
+ * Validates a signing policy and fills in defaults
+ *
+ * @throws InvalidInputError if a rule is malformed
+ * @internal
+ */
+export function resolveSigningPolicy(policy: SigningPolicy): ResolvedSigningPolicy {
+  for (const network of policy.networks ?? []) {
+    if (network !== "mainnet" && network !== "testnet") {
+      throw new InvalidInputError(
+        `Invalid policy network: ${network}. Must be "mainnet" or "testnet"`
+      )
+    }
+  }
+
+  const principals = [...(policy.allowedRecipients ?? []), ...(policy.deniedRecipients ?? [])]
+  for (const principal of principals) validatePrincipal(principal, "policy recipient")
+
+  for (const [name, amount] of [
+    ["maxAmount", policy.maxAmount],
+    ["maxFee", policy.maxFee],
+    ["spendingLimit.amount", policy.spendingLimit?.amount],
+  ] as const) {
+    if (amount !== undefined && (typeof amount !== "bigint" || amount < 0n)) {
+      throw new InvalidInputError(`Invalid policy ${name}: must be a non-negative bigint`)
+    }
+  }
+
+  const windowMs = policy.spendingLimit?.windowMs
+  if (windowMs !== undefined && (!Number.isFinite(windowMs) || windowMs <= 0)) {
+    throw new InvalidInputError(
+      `Invalid policy spendingLimit.windowMs: ${windowMs}. Must be a positive number`
+    )
+  }
+
+  let allowedContractCalls: Map<string, Set<string> | undefined> | undefined
+  if (policy.allowedContractCalls) {
+    allowedContractCalls = new Map()
+    for (const { contractId, functions } of policy.allowedContractCalls) {
+      if (!contractId.includes(".")) {
+        throw new InvalidInputError(
+          `Invalid policy contract ID: ${contractId}. Expected <address>.<contract-name>`
+        )
+      }
+      validatePrincipal(contractId, "policy contract ID")
+
+      // Rules for the same contract add up; one without functions allows all
+      const allowed = allowedContractCalls.has(contractId)
+        ? allowedContractCalls.get(contractId)
+        : new Set<string>()
+      allowedContractCalls.set(
+        contractId,
+        allowed && functions ? new Set([...allowed, ...functions]) : undefined
+      )
+    }
+  }
+
+  return {
+    networks: policy.networks && new Set(policy.networks),
+    allowedRecipients: policy.allowedRecipients && new Set(policy.allowedRecipients),
+    deniedRecipients: new Set(policy.deniedRecipients),
+    maxAmount: policy.maxAmount,
+    spendingLimit: policy.spendingLimit,
+    maxFee: policy.maxFee,
+    allowedContractCalls,
+    requireDenyMode: policy.requireDenyMode ?? false,
+    store: policy.store ?? new InMemorySpendingStore(),
+  }
+}
+
+/**
+ * Checks a transaction against the policy, then runs `fn` (the signing)
+ *
+ * With a spending limit, the transaction's amount is recorded under its
+ * nonce before `fn` runs and the record is rolled back if `fn` fails.
+ * Replacements share their original's record. A sponsor only pays the fee,
+ * so amount rules are skipped for `role` "sponsor".
+ *
+ * @param role - Whether the signer signs as origin (sender) or sponsor
+ * @throws PolicyViolationError if the transaction breaks a rule
+ * @internal
+ */
+export async function enforceSigningPolicy<T>(
+  policy: ResolvedSigningPolicy,
+  transaction: StacksTransactionWire,
+  role: "origin" | "sponsor",
+  fn: () => Promise<T>
+): Promise<T> {
+  const description = describeTransaction(transaction)
+  checkTransaction(policy, description, role)
+
+  const { spendingLimit } = policy
+  const amount = role === "origin" ? sentAmount(description) : 0n
+  if (!spendingLimit || amount === 0n) return fn()
+
+  const key = description.senderAddress
+  const nonce = BigInt(description.nonce)
+  const previous = await policy.store.withLock(key, async () => {
+    const now = Date.now()
+    const records = ((await policy.store.get(key)) ?? []).filter(
+      (record) => record.signedAt > now - spendingLimit.windowMs
+    )
+    const existing = records.find((record) => record.nonce === nonce)
+    const others = records.filter((record) => record.nonce !== nonce)
+
+    // Only one transaction per nonce can be mined: count the larger amount
+    const recorded = existing && existing.amount > amount ? existing.amount : amount
+    const spent = others.reduce((sum, record) => sum + record.amount, 0n)
+    if (spent + recorded > spendingLimit.amount) {
+      throw new PolicyViolationError(
+        `Transaction would send ${recorded} microSTX, and ${spent} microSTX were already ` +
+          `signed in the last ${spendingLimit.windowMs}ms (limit ${spendingLimit.amount})`,
+        "spending-limit"
+      )
+    }
+
+    await policy.store.set(key, [...others, { nonce, amount: recorded, signedAt: now }])
+    return existing
+  })
+
+  try {
+    return await fn()
+  } catch (error) {
+    // Give the amount back to the window
+    await policy.store.withLock(key, async () => {
+      const records = (await policy.store.get(key)) ?? []
+      const others = records.filter((record) => record.nonce !== nonce)
+      await policy.store.set(key, previous ? [...others, previous] : others)
+    })
+    throw error
+  }
+}
+
+/**
+ * Checks the rules that need no stored state
+ * @internal
+ */
+function checkTransaction(
+  policy: ResolvedSigningPolicy,
+  description: TransactionDescription,
+  role: "origin" | "sponsor"
+): void {
+  if (policy.networks && !policy.networks.has(description.network)) {
+    throw new PolicyViolationError(
+      `Signing ${description.network} transactions is not allowed by the signing policy`,
+      "network"
+    )
+  }
+
+  const { recipients, determined } = recipientsOf(description)
+  for (const recipient of recipients) {
+    if (policy.deniedRecipients.has(recipient)) {
+      throw new PolicyViolationError(
+        `Recipient ${recipient} is denied by the signing policy`,
+        "recipient-denylist"
+      )
+    }
+  }
+
+  if (policy.allowedRecipients) {
+    if (!determined) {
+      throw new PolicyViolationError(
+        `The recipient of ${description.contractId}::${description.functionName} cannot be ` +
+          `determined, and the signing policy only allows listed recipients`,
+        "recipient-allowlist"
+      )
+    }
+    for (const recipient of recipients) {
+      if (!policy.allowedRecipients.has(recipient)) {
+        throw new PolicyViolationError(
+          `Recipient ${recipient} is not in the signing policy's allowed recipients`,
+          "recipient-allowlist"
+        )
+      }
+    }
+  }
+
+  if (description.type === "contract-call" && policy.allowedContractCalls) {
+    const contractId = description.contractId ?? ""
+    const functionName = description.functionName ?? ""
+    const functions = policy.allowedContractCalls.get(contractId)
+    const allowed =
+      policy.allowedContractCalls.has(contractId) && (!functions || functions.has(functionName))
+    if (!allowed) {
+      throw new PolicyViolationError(
+        `Calling ${contractId}::${functionName} is not allowed by the signing policy`,
+        "contract-allowlist"
+      )
+    }
+  }
+
+  if (policy.requireDenyMode && description.postConditionMode !== "deny") {
+    throw new PolicyViolationError(
+      "The signing policy requires post-condition deny mode",
+      "post-condition-mode"
+    )
+  }
+
+  // Amounts of contract calls and deploys are read from the sender's STX
+  // post-conditions, which only bound what is sent in deny mode and with an
+  // upper limit
+  const amountRule =
+    policy.maxAmount !== undefined ? "max-amount" : policy.spendingLimit && "spending-limit"
+  if (amountRule && role === "origin" && description.type !== "stx-transfer") {
+    if (description.postConditionMode !== "deny") {
+      throw new PolicyViolationError(
+        "The signing policy's amount limits require post-condition deny mode",
+        "post-condition-mode"
+      )
+    }
+    const unbounded = description.postConditions.find(
+      ({ type, principal, condition }) =>
+        type === "stx" &&
+        principal === description.senderAddress &&
+        (condition === "gt" || condition === "gte")
+    )
+    if (unbounded) {
+      throw new PolicyViolationError(
+        `Post-condition "${unbounded.description}" does not limit the STX sent`,
+        amountRule
+      )
+    }
+  }
+
+  // A sponsored transaction's fee is paid by the sponsor
+  const fee = role === "sponsor" || !description.sponsored ? BigInt(description.fee.microStx) : 0n
+  if (policy.maxFee !== undefined && fee > policy.maxFee) {
+    throw new PolicyViolationError(
+      `Fee of ${fee} microSTX exceeds the signing policy's maximum of ${policy.maxFee}`,
+      "max-fee"
+    )
+  }
+
+  const amount = role === "origin" ? sentAmount(description) : 0n
+  if (policy.maxAmount !== undefined && amount > policy.maxAmount) {
+    throw new PolicyViolationError(
+      `Transaction would send ${amount} microSTX, more than the signing policy's ` +
+        `maximum of ${policy.maxAmount}`,
+      "max-amount"
+    )
+  }
+}
+
+/**
+ * Principals a transaction can pay
+ *
+ * That is the recipient of an STX transfer or of a SIP-010/SIP-009 style
+ * `transfer(amount-or-id, sender, recipient, ...)` call. The recipient of any
+ * other contract call is not `determined`; its recipients are then every
+ * principal in its arguments and post-conditions other than the sender.
+ * @internal
+ */
+function recipientsOf(description: TransactionDescription): {
+  recipients: string[]
+  determined: boolean
+} {
+  if (description.type === "stx-transfer") {
+    return { recipients: description.recipient ? [description.recipient] : [], determined: true }
+  }
+  if (description.type !== "contract-call") return { recipients: [], determined: true }
+
+  const args = description.functionArgs ?? []
+  const [, from, to] = args
+  if (description.functionName === "transfer" && isPrincipal(from) && isPrincipal(to)) {
+    return { recipients: [to.repr], determined: true }
+  }
+
+  const principals = new Set([
+    ...args.flatMap(({ repr }) => repr.match(PRINCIPAL_REGEX) ?? []),
+    ...description.postConditions.map(({ principal }) => principal),
+  ])
+  principals.delete(description.senderAddress)
+  return { recipients: [...principals], determined: false }
+}
+
+/**
+ * @internal
+ */
+function isPrincipal(value: DescribedClarityValue | undefined): value is DescribedClarityValue {
+  return (
+    value?.type === ClarityType.PrincipalStandard || value?.type === ClarityType.PrincipalContract
+  )
+}
+
+/**
+ * STX the sender transfers: the amount of an STX transfer, or the STX
+ * amounts of the sender's post-conditions
+ * @internal
+ */
+function sentAmount(description: TransactionDescription): bigint {
+  if (description.type === "stx-transfer" && description.amount) {
+    return BigInt(description.amount.microStx)
+  }
+
+  return description.postConditions
+    .filter(
+      (postCondition) =>
+        postCondition.type === "stx" && postCondition.principal === description.senderAddress
+    )
+    .reduce(
+      (sum, postCondition) =>
+        sum + BigInt(typeof postCondition.amount === "object" ? postCondition.amount.microStx : 0),
+      0n
+    )
+}
+
+/**
+ * Validates an address or contract ID
+ * @internal
+ */
+function validatePrincipal(principal: string, name: string): void {
+  const address = typeof principal === "string" ? principal.split(".")[0] : undefined
+  if (!address || !validateStacksAddress(address)) {
+    throw new InvalidInputError(`Invalid ${name}: ${principal}`)
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * @turnkey/stacks - PoX-4 stacking
+ *
+ * Builds pox-4 stacking and delegation calls after checking them against the
+ * network's current PoX parameters, and the messages of signer key
+ * authorizations.
+ */
+
+import { Cl, validateStacksAddress, type ClarityValue } from "@stacks/transactions"
+
+import { fetchPoxInfo } from "./api"
+import { decodeBtcAddress } from "./bitcoin"
+import { InvalidInputError } from "./errors"
+import { resolveNetwork, TRANSACTION_VERSION_MAINNET } from "./network"
+import { resolveRetryPolicy } from "./retry"
+import type {
+  ContractCallParams,
+  DelegateStackStxParams,
+  DelegateStxParams,
+  PoxInfo,
+  PoxTransactionOptions,
+  RetryOptions,
+  SignerKeyAuthorization,
+  SignerKeyAuthorizationParams,
+  SignerKeyAuthorizationTopic,
+  StackAggregationCommitParams,
+  StackExtendParams,
+  StackIncreaseParams,
+  StackStxParams,
+  StacksNetworkConfig,
+  StacksNetworkOption,
+  StructuredDataDomain,
+} from "./types"
+import { validateCompressedPublicKey } from "./utils"
+
+// pox-4 rejects lock periods outside 1..12 cycles
+const MAX_LOCK_PERIOD = 12
+
+const SIGNER_KEY_TOPICS: readonly SignerKeyAuthorizationTopic[] = [
+  "stack-stx",
+  "stack-extend",
+  "stack-increase",
+  "agg-commit",
+  "agg-increase",
+]
+
+/**
+ * Reads the network's current PoX parameters
+ *
+ * @param network - Network name or configuration (defaults to 'testnet')
+ * @param options - Retry policy for the request
+ * @returns Current and next reward cycle, stacking minimum and cycle lengths
+ * @throws ApiRequestError if the request fails
+ *
+ * @example
+ * ```typescript
+ * import { getPoxInfo } from "@turnkey/stacks"
+ *
+ * const { currentCycle, minAmountUstx } = await getPoxInfo("mainnet")
+ * ```
+ */
+export async function getPoxInfo(
+  network: StacksNetworkOption = "testnet",
+  options: { retry?: RetryOptions } = {}
+): Promise<PoxInfo> {
+  return fetchPoxInfo(resolveNetwork(network), resolveRetryPolicy(options.retry))
+}
+
+/**
+ * Builds a `stack-stx` call
+ *
+ * @throws InvalidInputError if the amount is below the minimum, the lock
+ * period is out of range or the start height is not in the current cycle
+ * @internal
+ */
+export function buildStackStxCall(
+  params: StackStxParams,
+  pox: PoxInfo,
+  network: StacksNetworkConfig
+): ContractCallParams {
+  validateAmount(params.amount, "amount")
+  if (params.amount < pox.minAmountUstx) {
+    throw new InvalidInputError(
+      `Stacking amount ${params.amount} is below the minimum of ${pox.minAmountUstx} microSTX ` +
+        `for cycle ${pox.nextCycle}`
+    )
+  }
+  if (params.amount > params.maxAmount) {
+    throw new InvalidInputError(
+      `Stacking amount ${params.amount} exceeds the signer's maxAmount of ${params.maxAmount}`
+    )
+  }
+  validateLockPeriod(params.lockPeriod, "lockPeriod")
+
+  return poxCall(pox, "stack-stx", params, [
+    Cl.uint(params.amount),
+    poxAddressValue(params.poxAddress, network),
+    Cl.uint(startBurnHeight(params.startBurnHeight, pox)),
+    Cl.uint(params.lockPeriod),
+    ...signerKeyArgs(params),
+  ])
+}
+
+/**
+ * Builds a `stack-extend` call
+ * @internal
+ */
+export function buildStackExtendCall(
+  params: StackExtendParams,
+  pox: PoxInfo,
+  network: StacksNetworkConfig
+): ContractCallParams {
+  validateLockPeriod(params.extendCount, "extendCount")
+
+  return poxCall(pox, "stack-extend", params, [
+    Cl.uint(params.extendCount),
+    poxAddressValue(params.poxAddress, network),
+    ...signerKeyArgs(params),
+  ])
+}
+
+/**
+ * Builds a `stack-increase` call
+ * @internal
+ */
+export function buildStackIncreaseCall(
+  params: StackIncreaseParams,
+  pox: PoxInfo
+): ContractCallParams {
+  validateAmount(params.increaseBy, "increaseBy")
+
+  return poxCall(pox, "stack-increase", params, [
+    Cl.uint(params.increaseBy),
+    ...signerKeyArgs(params),
+  ])
+}
+
+/**
+ * Builds a `delegate-stx` call
+ *
+ * @throws InvalidInputError if the delegation would already have expired
+ * @internal
+ */
+export function buildDelegateStxCall(
+  params: DelegateStxParams,
+  pox: PoxInfo,
+  network: StacksNetworkConfig
+): ContractCallParams {
+  validateAmount(params.amount, "amount")
+  validatePrincipal(params.delegateTo, "delegateTo")
+
+  const { untilBurnHeight } = params
+  if (untilBurnHeight !== undefined) {
+    const current = pox.currentBurnchainBlockHeight
+    if (!Number.isSafeInteger(untilBurnHeight) || untilBurnHeight <= current) {
+      throw new InvalidInputError(
+        `Invalid untilBurnHeight: ${untilBurnHeight}. Must be after the current burn block ` +
+          `height ${current}`
+      )
+    }
+  }
+
+  return poxCall(pox, "delegate-stx", params, [
+    Cl.uint(params.amount),
+    Cl.principal(params.delegateTo),
+    untilBurnHeight === undefined ? Cl.none() : Cl.some(Cl.uint(untilBurnHeight)),
+    params.poxAddress === undefined
+      ? Cl.none()
+      : Cl.some(poxAddressValue(params.poxAddress, network)),
+  ])
+}
+
+/**
+ * Builds a `revoke-delegate-stx` call
+ * @internal
+ */
+export function buildRevokeDelegateStxCall(
+  params: PoxTransactionOptions,
+  pox: PoxInfo
+): ContractCallParams {
+  return poxCall(pox, "revoke-delegate-stx", params, [])
+}
+
+/**
+ * Builds a `delegate-stack-stx` call
+ * @internal
+ */
+export function buildDelegateStackStxCall(
+  params: DelegateStackStxParams,
+  pox: PoxInfo,
+  network: StacksNetworkConfig
+): ContractCallParams {
+  validatePrincipal(params.stacker, "stacker")
+  if (params.stacker.includes(".")) {
+    throw new InvalidInputError(`Invalid stacker: ${params.stacker}. Must be a standard address`)
+  }
+  validateAmount(params.amount, "amount")
+  validateLockPeriod(params.lockPeriod, "lockPeriod")
+
+  return poxCall(pox, "delegate-stack-stx", params, [
+    Cl.principal(params.stacker),
+    Cl.uint(params.amount),
+    poxAddressValue(params.poxAddress, network),
+    Cl.uint(startBurnHeight(params.startBurnHeight, pox)),
+    Cl.uint(params.lockPeriod),
+  ])
+}
+
+/**
+ * Builds a `stack-aggregation-commit` call
+ *
+ * @throws InvalidInputError if the reward cycle is not in the future
+ * @internal
+ */
+export function buildStackAggregationCommitCall(
+  params: StackAggregationCommitParams,
+  pox: PoxInfo,
+  network: StacksNetworkConfig
+): ContractCallParams {
+  const rewardCycle = params.rewardCycle ?? pox.nextCycle
+  if (!Number.isSafeInteger(rewardCycle) || rewardCycle <= pox.currentCycle) {
+    throw new InvalidInputError(
+      `Invalid rewardCycle: ${rewardCycle}. Must be after the current cycle ${pox.currentCycle}`
+    )
+  }
+
+  return poxCall(pox, "stack-aggregation-commit", params, [
+    poxAddressValue(params.poxAddress, network),
+    Cl.uint(rewardCycle),
+    ...signerKeyArgs(params),
+  ])
+}
+
+/**
+ * Returns the SIP-018 domain and message of a signer key authorization, as
+ * hashed by pox-4's `get-signer-key-message-hash`
+ *
+ * @throws InvalidInputError if a parameter is invalid
+ * @internal
+ */
+export function signerKeyAuthorizationMessage(
+  params: SignerKeyAuthorizationParams,
+  network: StacksNetworkConfig
+): { domain: StructuredDataDomain; message: ClarityValue } {
+  if (!SIGNER_KEY_TOPICS.includes(params.topic)) {
+    throw new InvalidInputError(
+      `Invalid topic: ${params.topic}. Must be one of ${SIGNER_KEY_TOPICS.join(", ")}`
+    )
+  }
+  if (!Number.isSafeInteger(params.rewardCycle) || params.rewardCycle < 0) {
+    throw new InvalidInputError(`Invalid rewardCycle: ${params.rewardCycle}`)
+  }
+  if (!Number.isSafeInteger(params.period) || params.period < 1) {
+    throw new InvalidInputError(`Invalid period: ${params.period}. Must be a positive integer`)
+  }
+  validateUint(params.maxAmount, "maxAmount")
+  validateUint(params.authId, "authId")
+
+  return {
+    domain: { name: "pox-4-signer", version: "1.0.0", chainId: network.chainId },
+    message: Cl.tuple({
+      "pox-addr": poxAddressValue(params.poxAddress, network),
+      "reward-cycle": Cl.uint(params.rewardCycle),
+      topic: Cl.stringAscii(params.topic),
+      period: Cl.uint(params.period),
+      "auth-id": Cl.uint(params.authId),
+      "max-amount": Cl.uint(params.maxAmount),
+    }),
+  }
+}
+
+/**
+ * Builds a call to the active PoX contract
+ *
+ * @throws InvalidInputError if the network's PoX contract is not pox-4
+ * @internal
+ */
+function poxCall(
+  pox: PoxInfo,
+  functionName: string,
+  params: PoxTransactionOptions,
+  functionArgs: ClarityValue[]
+): ContractCallParams {
+  const [contractAddress = "", contractName = ""] = pox.contractId.split(".")
+  if (contractName !== "pox-4") {
+    throw new InvalidInputError(
+      `The network's active PoX contract is ${pox.contractId}; only pox-4 is supported`
+    )
+  }
+
+  return {
+    contractAddress,
+    contractName,
+    functionName,
+    functionArgs,
+    nonce: params.nonce,
+    fee: params.fee,
+    feeEstimation: params.feeEstimation,
+    sponsored: params.sponsored,
+    network: params.network,
+  }
+}
+
+/**
+ * Encodes a Bitcoin address as a pox-4 `pox-addr` tuple
+ *
+ * @throws InvalidInputError if the address is invalid or for the other network
+ * @internal
+ */
+function poxAddressValue(btcAddress: string, network: StacksNetworkConfig): ClarityValue {
+  const { version, hashbytes, mainnet } = decodeBtcAddress(btcAddress)
+  if (mainnet !== (network.transactionVersion === TRANSACTION_VERSION_MAINNET)) {
+    throw new InvalidInputError(
+      `Bitcoin address ${btcAddress} is for ${mainnet ? "mainnet" : "testnet"}, ` +
+        `but the transaction is for ${mainnet ? "testnet" : "mainnet"}`
+    )
+  }
+
+  return Cl.tuple({
+    version: Cl.buffer(Uint8Array.of(version)),
+    hashbytes: Cl.buffer(hashbytes),
+  })
+}
+
+/**
+ * Returns the `signer-sig`, `signer-key`, `max-amount` and `auth-id` arguments
+ * @internal
+ */
+function signerKeyArgs(params: SignerKeyAuthorization): ClarityValue[] {
+  const signerKey = validateCompressedPublicKey(params.signerKey)
+  validateUint(params.maxAmount, "maxAmount")
+  validateUint(params.authId, "authId")
+
+  let signature: ClarityValue = Cl.none()
+  if (params.signerSignature !== undefined) {
+    const hex = String(params.signerSignature).replace(/^0x/, "")
+    if (!/^[0-9a-fA-F]{130}$/.test(hex)) {
+      throw new InvalidInputError("Invalid signerSignature: expected 65 bytes of hex")
+    }
+    signature = Cl.some(Cl.bufferFromHex(hex))
+  }
+
+  return [
+    signature,
+    Cl.bufferFromHex(signerKey),
+    Cl.uint(params.maxAmount),
+    Cl.uint(params.authId),
+  ]
+}
+
+/**
+ * Returns the start burn height, which must be in the current reward cycle
+ * @internal
+ */
+function startBurnHeight(height: number | undefined, pox: PoxInfo): number {
+  const start = height ?? pox.currentBurnchainBlockHeight
+  const cycle = Math.floor((start - pox.firstBurnchainBlockHeight) / pox.rewardCycleLength)
+  if (!Number.isSafeInteger(start) || cycle !== pox.currentCycle) {
+    throw new InvalidInputError(
+      `Invalid startBurnHeight: ${start}. Must be in the current reward cycle ${pox.currentCycle}`
+    )
+  }
+  return start
+}
+
+/**
+ * @internal
+ */
+function validateLockPeriod(period: number, name: string): void {
+  if (!Number.isInteger(period) || period < 1 || period > MAX_LOCK_PERIOD) {
+    throw new InvalidInputError(
+      `Invalid ${name}: ${period}. Must be an integer from 1 to ${MAX_LOCK_PERIOD}`
+    )
+  }
+}
+
+/**
+ * @internal
+ */
+function validateAmount(amount: bigint, name: string): void {
+  if (typeof amount !== "bigint" || amount <= 0n) {
+    throw new InvalidInputError(`Invalid ${name}: must be a positive bigint of microSTX`)
+  }
+}
+
+/**
+ * @internal
+ */
+function validateUint(value: bigint, name: string): void {
+  if (typeof value !== "bigint" || value < 0n) {
+    throw new InvalidInputError(`Invalid ${name}: must be a non-negative bigint`)
+  }
+}
+
+/**
+ * @internal
+ */
+function validatePrincipal(principal: string, name: string): void {
+  const [address] = String(principal).split(".")
+  if (!address || !validateStacksAddress(address)) {
+    throw new InvalidInputError(`Invalid ${name}: ${principal}`)
+  }
+}
@@ -0,0 +1,489 @@
+/**
+ * @turnkey/stacks - Wallet RPC provider
+ *
+ * Exposes TurnkeySigner accounts through the SIP-030 wallet JSON-RPC
+ * methods (`stx_getAddresses`, `stx_transferStx`, `stx_callContract`,
+ * `stx_signTransaction`, `stx_signMessage`, `stx_signStructuredMessage`), so
+ * a Turnkey wallet can serve dapps built on @stacks/connect.
+ */
+
+import {
+  AddressHashMode,
+  Cl,
+  createSingleSigSpendingCondition,
+  type ClarityValue,
+  type StacksTransactionWire,
+} from "@stacks/transactions"
+
+import { broadcastSigned, broadcastTransaction } from "./broadcast"
+import { BroadcastError, InvalidInputError, TurnkeyStacksError } from "./errors"
+import type { TurnkeySigner } from "./index"
+import type {
+  StacksNetworkOption,
+  StacksNetworkType,
+  WalletApprovalRequest,
+  WalletCallContractParams,
+  WalletProviderConfig,
+  WalletRpcErrorObject,
+  WalletRpcErrorResponse,
+  WalletRpcMethod,
+  WalletRpcMethods,
+  WalletRpcRequest,
+  WalletRpcSuccessResponse,
+  WalletTransactionResult,
+} from "./types"
+import { parseTransaction } from "./utils"
+
+/**
+ * JSON-RPC error codes returned by TurnkeyWalletProvider
+ */
+export const WalletRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  UserRejection: -31001,
+} as const
+
+const NETWORK_NAMES: readonly StacksNetworkType[] = ["mainnet", "testnet", "devnet"]
+
+/**
+ * Error carrying a JSON-RPC error code
+ * @internal
+ */
+class WalletRpcError extends Error {
+  public readonly code: number
+
+  constructor(message: string, code: number) {
+    super(message)
+    this.name = "WalletRpcError"
+    this.code = code
+  }
+}
+
+/**
+ * TurnkeyWalletProvider - SIP-030 wallet provider backed by Turnkey signers
+ *
+ * `request` resolves with a JSON-RPC success response and rejects with a
+ * JSON-RPC error response, like browser wallet providers. Every signing
+ * request goes through `onApprove` first.
+ *
+ * @example
+ * ```typescript
+ * import { TurnkeySigner, TurnkeyWalletProvider } from "@turnkey/stacks"
+ *
+ * const provider = new TurnkeyWalletProvider({
+ *   signers: [new TurnkeySigner({ client, publicKey, network: "mainnet" })],
+ *   onApprove: async ({ method, params }) => confirm(`${method}: ${JSON.stringify(params)}`),
+ * })
+ *
+ * const { result } = await provider.request("stx_transferStx", {
+ *   recipient: "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7",
+ *   amount: "1000000",
+ * })
+ * console.log(result.txid)
+ * ```
+ */
+export class TurnkeyWalletProvider {
+  private readonly signers: TurnkeySigner[]
+  private readonly onApprove: WalletProviderConfig["onApprove"]
+
+  /**
+   * Creates a new TurnkeyWalletProvider
+   *
+   * @param config - Signers to expose and the approval hook
+   * @throws InvalidInputError if no signers are given
+   */
+  constructor(config: WalletProviderConfig) {
+    if (config.signers.length === 0) {
+      throw new InvalidInputError("TurnkeyWalletProvider requires at least one signer")
+    }
+    this.signers = [...config.signers]
+    this.onApprove = config.onApprove
+  }
+
+  /**
+   * Handles a wallet JSON-RPC request
+   *
+   * @param method - RPC method, or a full JSON-RPC request object
+   * @param params - Method parameters
+   * @returns JSON-RPC success response
+   * @throws WalletRpcErrorResponse (a JSON-RPC error response, not an Error)
+   * if the request is invalid, rejected by the user or fails
+   */
+  request<M extends WalletRpcMethod>(
+    method: M,
+    params?: WalletRpcMethods[M]["params"]
+  ): Promise<WalletRpcSuccessResponse<WalletRpcMethods[M]["result"]>>
+  request<M extends WalletRpcMethod>(
+    request: WalletRpcRequest<M>
+  ): Promise<WalletRpcSuccessResponse<WalletRpcMethods[M]["result"]>>
+  async request(
+    methodOrRequest: string | WalletRpcRequest,
+    params?: unknown
+  ): Promise<WalletRpcSuccessResponse<unknown>> {
+    const request: unknown =
+      typeof methodOrRequest === "string" ? { method: methodOrRequest, params } : methodOrRequest
+    const id = getRequestId(request)
+
+    try {
+      return { jsonrpc: "2.0", id, result: await this.dispatch(request) }
+    } catch (error) {
+      const response: WalletRpcErrorResponse = { jsonrpc: "2.0", id, error: toRpcError(error) }
+      throw response
+    }
+  }
+
+  /**
+   * Validates a request and runs its method
+   * @internal
+   */
+  private async dispatch(request: unknown): Promise<unknown> {
+    if (typeof request !== "object" || request === null) {
+      throw new WalletRpcError("Request must be an object", WalletRpcErrorCode.InvalidRequest)
+    }
+    const { method, params } = request as { method?: unknown; params?: unknown }
+    if (typeof method !== "string") {
+      throw new WalletRpcError("Request method must be a string", WalletRpcErrorCode.InvalidRequest)
+    }
+    if (params !== undefined && (typeof params !== "object" || params === null)) {
+      throw new WalletRpcError("Request params must be an object", WalletRpcErrorCode.InvalidParams)
+    }
+    const args = (params ?? {}) as Record<string, unknown>
+
+    switch (method) {
+      case "stx_getAddresses":
+        return this.getAddresses(args)
+      case "stx_transferStx":
+        return this.transferStx(args)
+      case "stx_callContract":
+        return this.callContract(args)
+      case "stx_signTransaction":
+        return this.signTransaction(args)
+      case "stx_signMessage":
+        return this.signMessage(args)
+      case "stx_signStructuredMessage":
+        return this.signStructuredMessage(args)
+      default:
+        throw new WalletRpcError(`Method not found: ${method}`, WalletRpcErrorCode.MethodNotFound)
+    }
+  }
+
+  /**
+   * stx_getAddresses: every account of the provider
+   * @internal
+   */
+  private getAddresses(
+    params: Record<string, unknown>
+  ): WalletRpcMethods["stx_getAddresses"]["result"] {
+    const network = parseNetwork(params.network)
+    return {
+      addresses: this.signers.map((signer) => ({
+        address: signer.getAddress(network),
+        publicKey: signer.getPublicKey(),
+      })),
+    }
+  }
+
+  /**
+   * stx_transferStx: signs and broadcasts an STX transfer
+   * @internal
+   */
+  private async transferStx(params: Record<string, unknown>): Promise<WalletTransactionResult> {
+    const { signer, network } = this.selectAccount(params)
+    const transfer = {
+      recipient: parseString(params.recipient, "recipient"),
+      amount: parseInteger(params.amount, "amount"),
+      memo: params.memo === undefined ? undefined : parseString(params.memo, "memo"),
+      fee: parseOptionalInteger(params.fee, "fee"),
+      nonce: parseOptionalInteger(params.nonce, "nonce"),
+      network,
+    }
+    await this.approve("stx_transferStx", params, signer, network)
+
+    const { transaction, senderAddress, nonce } = await signer.signSTXTransfer(transfer)
+    const txid = await broadcastSigned(signer, transaction, senderAddress, nonce, transfer)
+
+    return { txid, transaction: transaction.serialize() }
+  }
+
+  /**
+   * stx_callContract: signs and broadcasts a contract call, or returns it
+   * unbroadcast when sponsored
+   * @internal
+   */
+  private async callContract(params: Record<string, unknown>): Promise<WalletTransactionResult> {
+    const { signer, network } = this.selectAccount(params)
+    const contract = parseString(params.contract, "contract")
+    const [contractAddress, contractName, ...rest] = contract.split(".")
+    if (!contractAddress || !contractName || rest.length > 0) {
+      throw new InvalidInputError(`Invalid contract: ${contract}. Expected "<address>.<name>"`)
+    }
+    if (params.functionArgs !== undefined && !Array.isArray(params.functionArgs)) {
+      throw new InvalidInputError("Invalid functionArgs: must be an array")
+    }
+    if (params.postConditions !== undefined && !Array.isArray(params.postConditions)) {
+      throw new InvalidInputError("Invalid postConditions: must be an array")
+    }
+    const { postConditions, postConditionMode } = params as Partial<WalletCallContractParams>
+    const call = {
+      contractAddress,
+      contractName,
+      functionName: parseString(params.functionName, "functionName"),
+      functionArgs: ((params.functionArgs ?? []) as unknown[]).map((arg, i) =>
+        parseClarityValue(arg, `functionArgs[${i}]`)
+      ),
+      postConditions,
+      postConditionMode,
+      fee: parseOptionalInteger(params.fee, "fee"),
+      nonce: parseOptionalInteger(params.nonce, "nonce"),
+      sponsored: params.sponsored === true,
+      network,
+    }
+    await this.approve("stx_callContract", params, signer, network)
+
+    const { transaction, senderAddress, nonce } = await signer.signContractCall(call)
+
+    // The sponsor completes and broadcasts sponsored transactions
+    if (call.sponsored) {
+      return { transaction: transaction.serialize() }
+    }
+
+    const txid = await broadcastSigned(signer, transaction, senderAddress, nonce, call)
+    return { txid, transaction: transaction.serialize() }
+  }
+
+  /**
+   * stx_signTransaction: signs a transaction with the account matching its
+   * origin, optionally broadcasting it
+   * @internal
+   */
+  private async signTransaction(params: Record<string, unknown>): Promise<WalletTransactionResult> {
+    const hex = parseString(params.transaction, "transaction")
+    const unsigned = parseTransaction(hex)
+    const signer = this.signerForOrigin(unsigned)
+    const network = parseNetwork(params.network) ?? signer.network
+    await this.approve("stx_signTransaction", params, signer, network)
+
+    const { transaction, serializedTransaction } = await signer.signTransaction(unsigned)
+    if (params.broadcast !== true) {
+      return { transaction: serializedTransaction }
+    }
+
+    const txid = await broadcastTransaction(transaction, network, { retry: signer.retry })
+    return { txid, transaction: serializedTransaction }
+  }
+
+  /**
+   * stx_signMessage: signs a Stacks-prefixed message
+   * @internal
+   */
+  private async signMessage(
+    params: Record<string, unknown>
+  ): Promise<WalletRpcMethods["stx_signMessage"]["result"]> {
+    const { signer, network } = this.selectAccount(params)
+    const message = parseString(params.message, "message")
+    await this.approve("stx_signMessage", params, signer, network)
+
+    return signer.signMessage(message)
+  }
+
+  /**
+   * stx_signStructuredMessage: signs SIP-018 structured data
+   * @internal
+   */
+  private async signStructuredMessage(
+    params: Record<string, unknown>
+  ): Promise<WalletRpcMethods["stx_signStructuredMessage"]["result"]> {
+    const { signer, network } = this.selectAccount(params)
+    const message = parseClarityValue(params.message, "message")
+    const domain = parseClarityValue(params.domain, "domain")
+    if (domain.type !== "tuple") {
+      throw new InvalidInputError("Invalid domain: must be a SIP-018 domain tuple")
+    }
+    await this.approve("stx_signStructuredMessage", params, signer, network)
+
+    return signer.signStructuredData(domain, message)
+  }
+
+  /**
+   * Picks the signer named by `params.address` (or the first signer) and the
+   * request's network
+   *
+   * @throws InvalidInputError if no signer has the address
+   * @internal
+   */
+  private selectAccount(params: Record<string, unknown>): {
+    signer: TurnkeySigner
+    network: StacksNetworkOption
+  } {
+    const networkName = parseNetwork(params.network)
+
+    if (params.address === undefined) {
+      const signer = this.signers[0]!
+      return { signer, network: networkName ?? signer.network }
+    }
+
+    const address = parseString(params.address, "address")
+    for (const signer of this.signers) {
+      const network = networkName ?? signer.network
+      if (signer.getAddress(network) === address) return { signer, network }
+    }
+    throw new InvalidInputError(`No account for address ${address}`)
+  }
+
+  /**
+   * Finds the signer whose key is the transaction's single-sig origin
+   *
+   * @throws InvalidInputError if no signer owns the origin
+   * @internal
+   */
+  private signerForOrigin(transaction: StacksTransactionWire): TurnkeySigner {
+    const origin = transaction.auth.spendingCondition
+    const signer = this.signers.find(
+      (candidate) =>
+        origin.hashMode === AddressHashMode.P2PKH &&
+        createSingleSigSpendingCondition(AddressHashMode.P2PKH, candidate.getPublicKey(), 0, 0)
+          .signer === origin.signer
+    )
+    if (!signer) {
+      throw new InvalidInputError(
+        `No account for the transaction origin (signer hash ${origin.signer})`
+      )
+    }
+    return signer
+  }
+
+  /**
+   * Asks the approval hook whether the request may be signed
+   *
+   * @throws WalletRpcError with UserRejection if the hook declines
+   * @internal
+   */
+  private async approve(
+    method: WalletApprovalRequest["method"],
+    params: unknown,
+    signer: TurnkeySigner,
+    network: StacksNetworkOption
+  ): Promise<void> {
+    if (!this.onApprove) return
+
+    const approved = await this.onApprove({
+      method,
+      params,
+      address: signer.getAddress(network),
+      publicKey: signer.getPublicKey(),
+      network,
+    })
+    if (approved !== true) {
+      throw new WalletRpcError("User rejected the request", WalletRpcErrorCode.UserRejection)
+    }
+  }
+}
+
+/**
+ * Maps an error to a JSON-RPC error object
+ *
+ * Invalid input becomes InvalidParams; other package errors become
+ * InternalError with the package error code in `data`.
+ * @internal
+ */
+function toRpcError(error: unknown): WalletRpcErrorObject {
+  if (error instanceof WalletRpcError) {
+    return { code: error.code, message: error.message }
+  }
+  if (error instanceof InvalidInputError) {
+    return {
+      code: WalletRpcErrorCode.InvalidParams,
+      message: error.message,
+      data: { code: error.code },
+    }
+  }
+  if (error instanceof TurnkeyStacksError) {
+    return {
+      code: WalletRpcErrorCode.InternalError,
+      message: error.message,
+      data: {
+        code: error.code,
+        ...(error instanceof BroadcastError && error.reason ? { reason: error.reason } : {}),
+      },
+    }
+  }
+  return {
+    code: WalletRpcErrorCode.InternalError,
+    message: error instanceof Error ? error.message : String(error),
+  }
+}
+
+/**
+ * ID of a JSON-RPC request, or null if it has none
+ * @internal
+ */
+function getRequestId(request: unknown): string | number | null {
+  if (typeof request !== "object" || request === null) return null
+  const { id } = request as { id?: unknown }
+  return typeof id === "string" || typeof id === "number" ? id : null
+}
+
+/**
+ * @internal
+ */
+function parseString(value: unknown, name: string): string {
+  if (typeof value !== "string") {
+    throw new InvalidInputError(`Invalid ${name}: must be a string`)
+  }
+  return value
+}
+
+/**
+ * Parses an integer given as a number, decimal string or bigint
+ * @internal
+ */
+function parseInteger(value: unknown, name: string): bigint {
+  if (typeof value === "bigint") return value
+  if (typeof value === "number" && Number.isSafeInteger(value)) return BigInt(value)
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value)
+  throw new InvalidInputError(`Invalid ${name}: ${String(value)}. Must be an integer`)
+}
+
+/**
+ * @internal
+ */
+function parseOptionalInteger(value: unknown, name: string): bigint | undefined {
+  return value === undefined ? undefined : parseInteger(value, name)
+}
+
+/**
+ * @internal
+ */
+function parseNetwork(value: unknown): StacksNetworkType | undefined {
+  if (value === undefined) return undefined
+  if (!NETWORK_NAMES.includes(value as StacksNetworkType)) {
+    throw new InvalidInputError(
+      `Invalid network: ${String(value)}. Use one of ${NETWORK_NAMES.join(", ")}`
+    )
+  }
+  return value as StacksNetworkType
+}
+
+/**
+ * Accepts a Clarity value or its serialization (hex)
+ * @internal
+ */
+function parseClarityValue(value: unknown, name: string): ClarityValue {
+  if (typeof value === "object" && value !== null && "type" in value) {
+    return value as ClarityValue
+  }
+  if (typeof value !== "string") {
+    throw new InvalidInputError(
+      `Invalid ${name}: must be a Clarity value or its hex serialization`
+    )
+  }
+  try {
+    return Cl.deserialize(value.startsWith("0x") ? value.slice(2) : value)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new InvalidInputError(`Invalid ${name}: ${message}`, { cause: error })
+  }
+}
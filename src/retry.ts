@@ -0,0 +1,229 @@
+/**
+ * @turnkey/stacks - Retries
+ *
+ * Exponential backoff with jitter for Stacks API requests and Turnkey
+ * signing. Not part of the public API.
+ */
+
+import { ApiRequestError, InvalidInputError, SigningError } from "./errors"
+import type { RetryOptions } from "./types"
+
+const DEFAULT_MAX_ATTEMPTS = 1
+const DEFAULT_INITIAL_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 10_000 // 10 seconds
+const DEFAULT_BACKOFF_MULTIPLIER = 2
+const DEFAULT_TIMEOUT_MS = 10_000 // 10 seconds
+
+// Request timeouts, rate limits and transient server errors
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+// Statuses whose Retry-After header is honored
+const RETRY_AFTER_STATUSES = new Set([429, 503])
+
+/**
+ * Retry policy with defaults applied
+ * @internal
+ */
+export interface RetryPolicy {
+  maxAttempts: number
+  initialDelayMs: number
+  maxDelayMs: number
+  backoffMultiplier: number
+  jitter: boolean
+  timeoutMs: number
+  signingTimeoutMs: number | undefined
+  shouldRetry: (error: unknown, attempt: number) => boolean
+}
+
+/**
+ * Validates retry options and applies defaults
+ *
+ * @throws InvalidInputError if any option is out of range
+ * @internal
+ */
+export function resolveRetryPolicy(options: RetryOptions = {}): RetryPolicy {
+  const policy: RetryPolicy = {
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    initialDelayMs: options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    backoffMultiplier: options.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER,
+    jitter: options.jitter ?? true,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    signingTimeoutMs: options.signingTimeoutMs,
+    shouldRetry: options.shouldRetry ?? isRetryableError,
+  }
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new InvalidInputError(
+      `Invalid retry maxAttempts: ${policy.maxAttempts}. Must be a positive integer`
+    )
+  }
+  for (const name of ["initialDelayMs", "maxDelayMs"] as const) {
+    if (!Number.isFinite(policy[name]) || policy[name] < 0) {
+      throw new InvalidInputError(
+        `Invalid retry ${name}: ${policy[name]}. Must be a non-negative number`
+      )
+    }
+  }
+  if (!Number.isFinite(policy.backoffMultiplier) || policy.backoffMultiplier < 1) {
+    throw new InvalidInputError(
+      `Invalid retry backoffMultiplier: ${policy.backoffMultiplier}. Must be at least 1`
+    )
+  }
+  if (!Number.isFinite(policy.timeoutMs) || policy.timeoutMs <= 0) {
+    throw new InvalidInputError(
+      `Invalid retry timeoutMs: ${policy.timeoutMs}. Must be a positive number`
+    )
+  }
+  if (
+    policy.signingTimeoutMs !== undefined &&
+    (!Number.isFinite(policy.signingTimeoutMs) || policy.signingTimeoutMs <= 0)
+  ) {
+    throw new InvalidInputError(
+      `Invalid retry signingTimeoutMs: ${policy.signingTimeoutMs}. Must be a positive number`
+    )
+  }
+
+  return policy
+}
+
+/**
+ * Single attempt with the default timeouts
+ * @internal
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = resolveRetryPolicy()
+
+/**
+ * Runs `fn` until it succeeds, fails with an error the policy does not
+ * retry, or runs out of attempts
+ *
+ * @param fn - Attempt to run; receives the attempt number (1 for the first)
+ * @returns Result of the first successful attempt
+ * @throws The error of the last attempt
+ * @internal
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !policy.shouldRetry(error, attempt)) throw error
+      await sleep(retryDelay(error, attempt, policy))
+    }
+  }
+}
+
+/**
+ * Rejects with `onTimeout()` if `promise` does not settle within `ms`
+ *
+ * The underlying operation is not cancelled; its result is ignored.
+ * @internal
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number | undefined,
+  onTimeout: () => Error
+): Promise<T> {
+  if (ms === undefined) return promise
+
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => reject(onTimeout()), ms)
+    promise.then(
+      (value) => {
+        clearTimeout(timeoutId)
+        resolve(value)
+      },
+      (error) => {
+        clearTimeout(timeoutId)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Whether an error is a transient failure that is safe to retry
+ *
+ * Covers API timeouts, connection failures and retryable HTTP statuses, and
+ * Turnkey signing timeouts or transient client failures. Rejections by the
+ * node, invalid input and unexpected responses are not retried.
+ * @internal
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ApiRequestError) {
+    if (error.timedOut) return true
+    if (error.status !== undefined) return RETRYABLE_STATUSES.has(error.status)
+    // No status: a connection failure (wraps the fetch error) or an
+    // unexpected response body (no cause)
+    return error.cause !== undefined
+  }
+
+  if (error instanceof SigningError) {
+    if (error.code === "SIGNING_TIMEOUT") return true
+    return error.code === "SIGNING_FAILED" && isTransientClientError(error.cause)
+  }
+
+  return false
+}
+
+/**
+ * Reads the Retry-After header of a 429 or 503 response, in milliseconds
+ *
+ * Accepts both delay-seconds and HTTP-date values.
+ * @internal
+ */
+export function retryAfterMs(response: Response): number | undefined {
+  if (!RETRY_AFTER_STATUSES.has(response.status)) return undefined
+
+  const header = response.headers.get("Retry-After")?.trim()
+  if (!header) return undefined
+
+  if (/^\d+(\.\d+)?$/.test(header)) return Number(header) * 1000
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Delay before the next attempt: the server's Retry-After if given,
+ * otherwise exponential backoff, optionally with full jitter
+ * @internal
+ */
+function retryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof ApiRequestError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs)
+  }
+
+  const backoff = Math.min(
+    policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1),
+    policy.maxDelayMs
+  )
+  return policy.jitter ? Math.random() * backoff : backoff
+}
+
+/**
+ * Whether a Turnkey client error looks transient: a retryable HTTP status or
+ * a connection failure
+ * @internal
+ */
+function isTransientClientError(error: unknown): boolean {
+  if (typeof error === "object" && error !== null) {
+    const { status, statusCode } = error as { status?: unknown; statusCode?: unknown }
+    const code = status ?? statusCode
+    if (typeof code === "number") return RETRYABLE_STATUSES.has(code)
+  }
+
+  // fetch rejects with a TypeError when the connection fails
+  return error instanceof TypeError
+}
+
+/**
+ * Resolves after `ms` milliseconds
+ * @internal
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
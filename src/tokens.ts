@@ -0,0 +1,455 @@
+/**
+ * @turnkey/stacks - SIP-010 fungible and SIP-009 non-fungible tokens
+ *
+ * Builds `transfer` calls with the post-conditions that limit the sender to
+ * the transferred tokens, and reads token metadata and ownership.
+ */
+
+import {
+  Cl,
+  ClarityType,
+  Pc,
+  PostConditionMode,
+  validateStacksAddress,
+  type ClarityValue,
+} from "@stacks/transactions"
+
+import { fetchReadOnly } from "./api"
+import { ApiRequestError, InvalidInputError } from "./errors"
+import { resolveNetwork } from "./network"
+import { resolveRetryPolicy, type RetryPolicy } from "./retry"
+import type {
+  ContractCallParams,
+  FungibleTokenInfo,
+  FungibleTokenTransferParams,
+  NonFungibleTokenId,
+  NonFungibleTokenTransferParams,
+  RetryOptions,
+  StacksNetworkConfig,
+  StacksNetworkOption,
+} from "./types"
+
+// SIP-010 memos are (optional (buff 34))
+const MAX_MEMO_BYTES = 34
+
+// Clarity uint amounts fit in 128 bits
+const MAX_UINT128 = (1n << 128n) - 1n
+
+const DECIMAL_AMOUNT_REGEX = /^(\d+)(?:\.(\d+))?$/
+
+// Asset identifier accepted by Pc's nft()
+type NftAssetId = `${string}.${string}::${string}`
+
+/**
+ * Reads the decimals and symbol of a SIP-010 token
+ *
+ * @param tokenContract - Token contract ID (`<address>.<contract-name>`)
+ * @param network - Network name or configuration (defaults to 'testnet')
+ * @param options - Retry policy for the read-only calls
+ * @returns Token metadata
+ * @throws InvalidInputError if the contract ID is invalid
+ * @throws ApiRequestError if a call fails or the token does not return SIP-010 values
+ *
+ * @example
+ * ```typescript
+ * import { getFungibleTokenInfo } from "@turnkey/stacks"
+ *
+ * const { decimals, symbol } = await getFungibleTokenInfo(
+ *   "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token",
+ *   "mainnet"
+ * )
+ * // decimals: 8, symbol: "sBTC"
+ * ```
+ */
+export async function getFungibleTokenInfo(
+  tokenContract: string,
+  network: StacksNetworkOption = "testnet",
+  options: { retry?: RetryOptions } = {}
+): Promise<FungibleTokenInfo> {
+  validateContractId(tokenContract, "token contract")
+  const config = resolveNetwork(network)
+  const retry = resolveRetryPolicy(options.retry)
+
+  const [decimals, symbol] = await Promise.all([
+    fetchTokenDecimals(tokenContract, config, retry),
+    readTokenValue(tokenContract, "get-symbol", config, retry).then((value) => {
+      if (value.type !== ClarityType.StringASCII && value.type !== ClarityType.StringUTF8) {
+        throw unexpectedValue(tokenContract, "get-symbol", value)
+      }
+      return value.value
+    }),
+  ])
+
+  return { contractId: tokenContract, decimals, symbol }
+}
+
+/**
+ * Reads the owner of a SIP-009 token with the contract's `get-owner`
+ *
+ * @param nftContract - NFT contract ID (`<address>.<contract-name>`)
+ * @param tokenId - Token ID (see NonFungibleTokenId for the encoding)
+ * @param network - Network name or configuration (defaults to 'testnet')
+ * @param options - Retry policy for the read-only call
+ * @returns Owner address or contract ID, or undefined if the token does not exist
+ * @throws InvalidInputError if the contract ID or token ID is invalid
+ * @throws ApiRequestError if the call fails or does not return a SIP-009 value
+ *
+ * @example
+ * ```typescript
+ * import { getNonFungibleTokenOwner } from "@turnkey/stacks"
+ *
+ * const owner = await getNonFungibleTokenOwner(
+ *   "SP2X0TZ59D5SZ8ACQ6YMCHHNR2ZN51Z32E2CJ173.the-explorer-guild",
+ *   42n,
+ *   "mainnet"
+ * )
+ * ```
+ */
+export async function getNonFungibleTokenOwner(
+  nftContract: string,
+  tokenId: NonFungibleTokenId,
+  network: StacksNetworkOption = "testnet",
+  options: { retry?: RetryOptions } = {}
+): Promise<string | undefined> {
+  validateContractId(nftContract, "NFT contract")
+  return fetchTokenOwner(
+    nftContract,
+    nonFungibleTokenIdValue(tokenId),
+    resolveNetwork(network),
+    resolveRetryPolicy(options.retry)
+  )
+}
+
+/**
+ * Validates SIP-010 transfer parameters
+ * @internal
+ */
+export function validateFungibleTokenTransferParams(params: FungibleTokenTransferParams): void {
+  validateContractId(params.tokenContract, "token contract")
+
+  if (typeof params.assetName !== "string" || params.assetName.length === 0) {
+    throw new InvalidInputError("Token asset name is required")
+  }
+
+  const [recipientAddress] = String(params.recipient).split(".")
+  if (!recipientAddress || !validateStacksAddress(recipientAddress)) {
+    throw new InvalidInputError(`Invalid recipient: ${params.recipient}`)
+  }
+
+  if (typeof params.amount === "bigint") {
+    if (params.amount <= 0n || params.amount > MAX_UINT128) {
+      throw new InvalidInputError("Amount must be greater than 0 and fit in a Clarity uint")
+    }
+  } else if (!DECIMAL_AMOUNT_REGEX.test(params.amount)) {
+    throw new InvalidInputError(
+      `Invalid token amount: ${params.amount}. Use a bigint in base units or a decimal string`
+    )
+  }
+
+  if (params.decimals !== undefined) validateDecimals(params.decimals)
+
+  if (params.memo !== undefined && memoBytes(params.memo).length > MAX_MEMO_BYTES) {
+    throw new InvalidInputError(`Memo must be at most ${MAX_MEMO_BYTES} bytes`)
+  }
+}
+
+/**
+ * Returns the amount of a SIP-010 transfer in base units, reading the
+ * token's decimals for display amounts unless `decimals` is given
+ * @internal
+ */
+export async function resolveTokenAmount(
+  params: FungibleTokenTransferParams,
+  network: StacksNetworkConfig,
+  retry: RetryPolicy
+): Promise<bigint> {
+  if (typeof params.amount === "bigint") return params.amount
+
+  const decimals =
+    params.decimals ?? (await fetchTokenDecimals(params.tokenContract, network, retry))
+  return parseTokenAmount(params.amount, decimals)
+}
+
+/**
+ * Converts a decimal display amount into base units
+ *
+ * @example parseTokenAmount("1.5", 8) // 150_000_000n
+ * @throws InvalidInputError if the amount has more fraction digits than `decimals` or is 0
+ * @internal
+ */
+export function parseTokenAmount(amount: string, decimals: number): bigint {
+  const match = DECIMAL_AMOUNT_REGEX.exec(amount)
+  if (!match) throw new InvalidInputError(`Invalid token amount: ${amount}`)
+
+  const [, whole = "0", fraction = ""] = match
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    throw new InvalidInputError(
+      `Token amount ${amount} has more than the token's ${decimals} decimal places`
+    )
+  }
+
+  const baseUnits = BigInt(whole + fraction.padEnd(decimals, "0").slice(0, decimals))
+  if (baseUnits <= 0n || baseUnits > MAX_UINT128) {
+    throw new InvalidInputError("Amount must be greater than 0 and fit in a Clarity uint")
+  }
+  return baseUnits
+}
+
+/**
+ * Builds the SIP-010 `transfer` call, with a deny-mode post-condition that
+ * lets the sender send exactly `amount` of the token
+ * @internal
+ */
+export function buildFungibleTokenTransferCall(
+  params: FungibleTokenTransferParams,
+  sender: string,
+  amount: bigint
+): ContractCallParams {
+  const [contractAddress = "", contractName = ""] = params.tokenContract.split(".")
+
+  return {
+    contractAddress,
+    contractName,
+    functionName: "transfer",
+    functionArgs: [
+      Cl.uint(amount),
+      Cl.principal(sender),
+      Cl.principal(params.recipient),
+      params.memo === undefined ? Cl.none() : Cl.some(Cl.buffer(memoBytes(params.memo))),
+    ],
+    postConditions: [
+      Pc.principal(sender)
+        .willSendEq(amount)
+        .ft(params.tokenContract as `${string}.${string}`, params.assetName),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+    nonce: params.nonce,
+    fee: params.fee,
+    feeEstimation: params.feeEstimation,
+    sponsored: params.sponsored,
+    network: params.network,
+  }
+}
+
+/**
+ * Validates SIP-009 transfer parameters
+ * @internal
+ */
+export function validateNonFungibleTokenTransferParams(
+  params: NonFungibleTokenTransferParams
+): void {
+  validateContractId(params.nftContract, "NFT contract")
+
+  if (typeof params.assetName !== "string" || params.assetName.length === 0) {
+    throw new InvalidInputError("NFT asset name is required")
+  }
+
+  const [recipientAddress] = String(params.recipient).split(".")
+  if (!recipientAddress || !validateStacksAddress(recipientAddress)) {
+    throw new InvalidInputError(`Invalid recipient: ${params.recipient}`)
+  }
+
+  nonFungibleTokenIdValue(params.tokenId)
+}
+
+/**
+ * Checks with `get-owner` that `sender` owns a SIP-009 token
+ *
+ * @throws InvalidInputError if the token is missing or owned by someone else
+ * @internal
+ */
+export async function assertNonFungibleTokenOwner(
+  params: NonFungibleTokenTransferParams,
+  sender: string,
+  network: StacksNetworkConfig,
+  retry: RetryPolicy
+): Promise<void> {
+  const tokenId = nonFungibleTokenIdValue(params.tokenId)
+  const owner = await fetchTokenOwner(params.nftContract, tokenId, network, retry)
+
+  if (owner !== sender) {
+    const token = `${params.nftContract} ${Cl.prettyPrint(tokenId)}`
+    throw new InvalidInputError(
+      owner === undefined
+        ? `NFT ${token} does not exist`
+        : `NFT ${token} is owned by ${owner}, not the sender ${sender}`
+    )
+  }
+}
+
+/**
+ * Builds the SIP-009 `transfer` call, with a deny-mode post-condition that
+ * lets the sender send the token
+ * @internal
+ */
+export function buildNonFungibleTokenTransferCall(
+  params: NonFungibleTokenTransferParams,
+  sender: string
+): ContractCallParams {
+  const [contractAddress = "", contractName = ""] = params.nftContract.split(".")
+  const tokenId = nonFungibleTokenIdValue(params.tokenId)
+
+  return {
+    contractAddress,
+    contractName,
+    functionName: "transfer",
+    functionArgs: [tokenId, Cl.principal(sender), Cl.principal(params.recipient)],
+    postConditions: [
+      Pc.principal(sender)
+        .willSendAsset()
+        .nft(`${params.nftContract}::${params.assetName}` as NftAssetId, tokenId),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+    nonce: params.nonce,
+    fee: params.fee,
+    feeEstimation: params.feeEstimation,
+    sponsored: params.sponsored,
+    network: params.network,
+  }
+}
+
+/**
+ * Encodes a token ID as a Clarity value
+ *
+ * Strings are rejected: whether the contract expects `string-ascii` or
+ * `string-utf8` cannot be told from the string.
+ *
+ * @throws InvalidInputError if a numeric ID is not a uint, or the ID is a string
+ * @internal
+ */
+function nonFungibleTokenIdValue(tokenId: NonFungibleTokenId): ClarityValue {
+  if (typeof tokenId === "bigint" || typeof tokenId === "number") {
+    const valid =
+      typeof tokenId === "bigint"
+        ? tokenId >= 0n && tokenId <= MAX_UINT128
+        : Number.isSafeInteger(tokenId) && tokenId >= 0
+    if (!valid) {
+      throw new InvalidInputError(`Invalid token ID: ${tokenId}. Numeric IDs must be uints`)
+    }
+    return Cl.uint(tokenId)
+  }
+
+  if (typeof tokenId === "string") {
+    throw new InvalidInputError(
+      `Invalid token ID: ${tokenId}. Pass string IDs as Cl.stringAscii or Cl.stringUtf8, ` +
+        `matching the contract's ID type`
+    )
+  }
+
+  if (tokenId instanceof Uint8Array) return Cl.buffer(tokenId)
+
+  if (typeof tokenId !== "object" || tokenId === null || typeof tokenId.type !== "string") {
+    throw new InvalidInputError(`Invalid token ID: ${String(tokenId)}`)
+  }
+  return tokenId
+}
+
+/**
+ * Reads `get-owner` of a SIP-009 token
+ * @internal
+ */
+async function fetchTokenOwner(
+  nftContract: string,
+  tokenId: ClarityValue,
+  network: StacksNetworkConfig,
+  retry: RetryPolicy
+): Promise<string | undefined> {
+  const [contractAddress = ""] = nftContract.split(".")
+  const result = await fetchReadOnly(
+    nftContract,
+    "get-owner",
+    [tokenId],
+    contractAddress,
+    network,
+    retry
+  )
+
+  const owner = result.type === ClarityType.ResponseOk ? result.value : result
+  if (owner.type === ClarityType.OptionalNone) return undefined
+  if (
+    owner.type === ClarityType.OptionalSome &&
+    (owner.value.type === ClarityType.PrincipalStandard ||
+      owner.value.type === ClarityType.PrincipalContract)
+  ) {
+    return owner.value.value
+  }
+  throw unexpectedValue(nftContract, "get-owner", result)
+}
+
+/**
+ * Reads `get-decimals` of a SIP-010 token
+ * @internal
+ */
+async function fetchTokenDecimals(
+  tokenContract: string,
+  network: StacksNetworkConfig,
+  retry: RetryPolicy
+): Promise<number> {
+  const value = await readTokenValue(tokenContract, "get-decimals", network, retry)
+  if (value.type !== ClarityType.UInt || BigInt(value.value) > 255n) {
+    throw unexpectedValue(tokenContract, "get-decimals", value)
+  }
+  return Number(value.value)
+}
+
+/**
+ * Calls a SIP-010 getter and unwraps its `(ok ...)` response
+ * @internal
+ */
+async function readTokenValue(
+  tokenContract: string,
+  functionName: string,
+  network: StacksNetworkConfig,
+  retry: RetryPolicy
+): Promise<ClarityValue> {
+  const [contractAddress = ""] = tokenContract.split(".")
+  const result = await fetchReadOnly(
+    tokenContract,
+    functionName,
+    [],
+    contractAddress,
+    network,
+    retry
+  )
+  if (result.type !== ClarityType.ResponseOk) {
+    throw unexpectedValue(tokenContract, functionName, result)
+  }
+  return result.value
+}
+
+/**
+ * @internal
+ */
+function unexpectedValue(tokenContract: string, functionName: string, value: ClarityValue) {
+  return new ApiRequestError(
+    `Unexpected ${functionName} result from ${tokenContract}: ${Cl.prettyPrint(value)}`
+  )
+}
+
+/**
+ * @internal
+ */
+function validateContractId(contractId: string, name: string): void {
+  const [address, contractName, ...rest] = String(contractId).split(".")
+  if (!address || !validateStacksAddress(address) || !contractName || rest.length > 0) {
+    throw new InvalidInputError(
+      `Invalid ${name}: ${contractId}. Expected <address>.<contract-name>`
+    )
+  }
+}
+
+/**
+ * @internal
+ */
+function validateDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new InvalidInputError(`Invalid decimals: ${decimals}. Must be an integer from 0 to 255`)
+  }
+}
+
+/**
+ * @internal
+ */
+function memoBytes(memo: string | Uint8Array): Uint8Array {
+  return typeof memo === "string" ? new TextEncoder().encode(memo) : memo
+}
@@ -4,12 +4,74 @@
  * Types for the Turnkey Stacks signer package.
  */
 
-import type { StacksTransactionWire } from "@stacks/transactions"
+import type {
+  ClarityValue,
+  ClarityVersion,
+  PostCondition,
+  PostConditionMode,
+  PostConditionModeName,
+  PostConditionWire,
+  StacksTransactionWire,
+  TupleCV,
+} from "@stacks/transactions"
+
+import type { TurnkeySigner } from "./index"
+import type { NonceManager } from "./nonce"
+
+/**
+ * Built-in Stacks network name
+ *
+ * `devnet` uses testnet versions with a local API at http://localhost:3999.
+ */
+export type StacksNetworkType = "testnet" | "mainnet" | "devnet"
+
+/**
+ * Custom Stacks network configuration
+ *
+ * Points the signer at any Stacks node or API, such as a self-hosted node,
+ * a local devnet or mocknet, or an authenticated Hiro endpoint. Use
+ * `createNetwork` to derive one from a built-in network.
+ */
+export interface StacksNetworkConfig {
+  /**
+   * Base URL of the Stacks API (e.g. "http://localhost:3999")
+   */
+  baseUrl: string
+
+  /**
+   * Chain ID signed into transactions (0x00000001 mainnet, 0x80000000 testnet)
+   */
+  chainId: number
+
+  /**
+   * Transaction version byte (0x00 mainnet, 0x80 testnet)
+   */
+  transactionVersion: number
+
+  /**
+   * Address version bytes used to derive single-sig and multisig addresses
+   */
+  addressVersion: {
+    singleSig: number
+    multiSig: number
+  }
+
+  /**
+   * Extra headers sent with every API request (e.g. `{ "x-api-key": "..." }`)
+   */
+  headers?: Record<string, string>
+
+  /**
+   * Fetch implementation for API requests
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch
+}
 
 /**
- * Stacks network type
+ * Network name or custom network configuration
  */
-export type StacksNetworkType = "testnet" | "mainnet"
+export type StacksNetworkOption = StacksNetworkType | StacksNetworkConfig
 
 /**
  * Turnkey client interface - minimal interface for signing
@@ -27,6 +89,193 @@ export interface TurnkeySignerClient {
     encoding: "PAYLOAD_ENCODING_HEXADECIMAL"
     hashFunction: "HASH_FUNCTION_NO_OP"
   }): Promise<{ v: string; r: string; s: string }>
+
+  /**
+   * Looks up an activity; needed to finalize or wait for signing
+   * activities that require approval
+   */
+  getActivity?(params: {
+    organizationId?: string
+    activityId: string
+  }): Promise<{ activity: TurnkeyActivity }>
+}
+
+/**
+ * A Turnkey wallet account, as returned by getWalletAccounts
+ */
+export interface TurnkeyWalletAccount {
+  walletAccountId?: string
+  walletId?: string
+  curve?: string
+  pathFormat?: string
+  path: string
+  addressFormat: string
+  address: string
+  publicKey?: string
+}
+
+/**
+ * Turnkey client that can also list and create wallet accounts
+ *
+ * `turnkey.apiClient()` from @turnkey/sdk-server and the browser clients
+ * implement these methods.
+ */
+export interface TurnkeyWalletClient extends TurnkeySignerClient {
+  /**
+   * Lists the accounts of a wallet, one page at a time
+   */
+  getWalletAccounts(params: {
+    organizationId?: string
+    walletId: string
+    paginationOptions?: { limit?: string; after?: string }
+  }): Promise<{ accounts: TurnkeyWalletAccount[] }>
+
+  /**
+   * Derives new accounts in a wallet; needed to create missing Stacks accounts
+   */
+  createWalletAccounts?(params: {
+    organizationId?: string
+    walletId: string
+    accounts: {
+      curve: "CURVE_SECP256K1"
+      pathFormat: "PATH_FORMAT_BIP32"
+      path: string
+      addressFormat: "ADDRESS_FORMAT_COMPRESSED"
+    }[]
+  }): Promise<{ addresses: string[] }>
+}
+
+/**
+ * Configuration for TurnkeySigner.fromWallet
+ */
+export interface WalletSignerConfig extends Omit<TurnkeySignerConfig, "client" | "publicKey"> {
+  /**
+   * Turnkey client that implements signRawPayload and getWalletAccounts
+   */
+  client: TurnkeyWalletClient
+
+  /**
+   * ID of the Turnkey wallet (HD seed) holding the account
+   */
+  walletId: string
+
+  /**
+   * Account index `n` of the Stacks derivation path m/44'/5757'/0'/0/n
+   * @default 0
+   */
+  accountIndex?: number
+
+  /**
+   * Create the account with createWalletAccounts if the wallet does not have it
+   * @default true
+   */
+  createAccount?: boolean
+}
+
+/**
+ * Configuration for TurnkeySigner.fromWalletAddress
+ */
+export interface WalletAddressSignerConfig
+  extends Omit<TurnkeySignerConfig, "client" | "publicKey"> {
+  /**
+   * Turnkey client that implements signRawPayload and getWalletAccounts
+   */
+  client: TurnkeyWalletClient
+
+  /**
+   * ID of the Turnkey wallet (HD seed) holding the account
+   */
+  walletId: string
+
+  /**
+   * Stacks address of the account. Also sets the default network when
+   * `network` is omitted, read from the address version (SP/SM... for
+   * mainnet, ST/SN... for testnet).
+   */
+  address: string
+}
+
+/**
+ * Parameters for enumerateAccounts
+ */
+export interface EnumerateAccountsParams {
+  /**
+   * Turnkey client that implements getWalletAccounts
+   */
+  client: Pick<TurnkeyWalletClient, "getWalletAccounts">
+
+  /**
+   * ID of the Turnkey wallet (HD seed)
+   */
+  walletId: string
+
+  /**
+   * Turnkey organization ID (required for server, omit for browser)
+   */
+  organizationId?: string
+
+  /**
+   * Network the addresses are for
+   * @default "testnet"
+   */
+  network?: StacksNetworkOption
+
+  /**
+   * Retry policy for the Turnkey requests
+   * @default single attempt
+   */
+  retry?: RetryOptions
+}
+
+/**
+ * Stacks account of a Turnkey wallet
+ */
+export interface WalletAccountInfo {
+  /**
+   * Account index `n` of the derivation path m/44'/5757'/0'/0/n
+   */
+  accountIndex: number
+
+  /**
+   * Derivation path
+   */
+  path: string
+
+  /**
+   * Compressed public key, usable as TurnkeySigner's `publicKey`
+   */
+  publicKey: string
+
+  /**
+   * Stacks address on the requested network
+   */
+  address: string
+}
+
+/**
+ * Status of a Turnkey activity
+ */
+export type TurnkeyActivityStatus =
+  | "ACTIVITY_STATUS_CREATED"
+  | "ACTIVITY_STATUS_PENDING"
+  | "ACTIVITY_STATUS_COMPLETED"
+  | "ACTIVITY_STATUS_FAILED"
+  | "ACTIVITY_STATUS_CONSENSUS_NEEDED"
+  | "ACTIVITY_STATUS_REJECTED"
+  | (string & {})
+
+/**
+ * The parts of a Turnkey activity used to collect a signature
+ */
+export interface TurnkeyActivity {
+  id: string
+  status: TurnkeyActivityStatus
+  result?: {
+    signRawPayloadResult?: { v: string; r: string; s: string }
+  }
+  failure?: {
+    message?: string
+  }
 }
 
 /**
@@ -61,94 +310,2243 @@ export interface TurnkeySignerConfig {
    * Default network for transactions
    * @default "testnet"
    */
-  network?: StacksNetworkType
+  network?: StacksNetworkOption
+
+  /**
+   * Fee estimation settings used when a transaction does not set `fee`
+   */
+  feeEstimation?: FeeEstimationOptions
+
+  /**
+   * Nonce manager used when a transaction does not set `nonce`
+   *
+   * Hands out sequential nonces so concurrent calls do not reuse the same
+   * nonce. Without it, each call fetches the next nonce from the API.
+   */
+  nonceManager?: NonceManager
+
+  /**
+   * Retry policy for Turnkey signing and the signer's Stacks API calls
+   * (nonce, fee estimation and broadcast)
+   * @default single attempt
+   */
+  retry?: RetryOptions
+
+  /**
+   * Client-side signing policy checked before every transaction is sent
+   * to Turnkey
+   */
+  policy?: SigningPolicy
+
+  /**
+   * Attach a `describeTransaction` summary to the results of
+   * signSTXTransfer, signContractCall and signContractDeploy
+   * @default false
+   */
+  describe?: boolean
+
+  /**
+   * Resolve BNS names (e.g. `alice.btc`) given as the recipient of STX,
+   * fungible token and NFT transfers to the address that owns them
+   *
+   * Names are resolved on the transaction's network; expired and revoked
+   * names are rejected.
+   * @default false
+   */
+  resolveNames?: boolean
 }
 
 /**
- * Parameters for signing an STX token transfer
+ * Retry policy for network calls and Turnkey signing
  *
- * Note: organizationId is not needed here — it is set once on TurnkeySigner
- * construction and used for all signing operations automatically.
+ * Only transient failures are retried: timeouts, connection failures and
+ * HTTP 408, 425, 429, 500, 502, 503 and 504. Delays grow exponentially from
+ * `initialDelayMs` up to `maxDelayMs`; a Retry-After header on a 429 or 503
+ * response takes precedence (still capped by `maxDelayMs`).
  */
-export interface STXTransferParams {
+export interface RetryOptions {
   /**
-   * Recipient Stacks address (ST... for testnet, SP... for mainnet)
+   * Total attempts, including the first
+   * @default 1
    */
-  recipient: string
+  maxAttempts?: number
 
   /**
-   * Amount to transfer in microSTX (1 STX = 1,000,000 microSTX)
+   * Delay before the first retry, in milliseconds
+   * @default 500
    */
-  amount: bigint
+  initialDelayMs?: number
 
   /**
-   * Transaction nonce - fetched automatically if not provided
+   * Upper bound for any single delay, in milliseconds
+   * @default 10_000
    */
-  nonce?: bigint
+  maxDelayMs?: number
 
   /**
-   * Transaction fee in microSTX
-   * @default 180n
+   * Factor the delay grows by after each retry
+   * @default 2
    */
-  fee?: bigint
+  backoffMultiplier?: number
 
   /**
-   * Optional memo string (max 34 bytes)
+   * Randomize each delay between 0 and the computed backoff ("full jitter")
+   * so concurrent clients do not retry in lockstep
+   * @default true
    */
-  memo?: string
+  jitter?: boolean
 
   /**
-   * Network override for this transaction
+   * Timeout for each Stacks API request attempt, in milliseconds
+   * @default 10_000
    */
-  network?: StacksNetworkType
+  timeoutMs?: number
+
+  /**
+   * Timeout for each Turnkey signing attempt, in milliseconds
+   * @default no timeout
+   */
+  signingTimeoutMs?: number
+
+  /**
+   * Overrides which errors are retried
+   *
+   * @param error - Error thrown by the attempt
+   * @param attempt - Number of the failed attempt (1 for the first)
+   * @default retries transient failures only
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean
 }
 
 /**
- * Result from signing a transaction
+ * Locally tracked nonce state for one address
  */
-export interface SignedTransactionResult {
+export interface NonceState {
   /**
-   * Signed transaction ready for broadcast
+   * Next nonce to hand out after the released nonces are used up
    */
-  transaction: StacksTransactionWire
+  nextNonce: bigint
 
   /**
-   * Sender's Stacks address
+   * Nonces below `nextNonce` that are free again (released or missing on
+   * chain), handed out lowest first
    */
-  senderAddress: string
+  availableNonces: bigint[]
 
   /**
-   * Transaction nonce used
+   * Nonces handed out and not yet released or confirmed broadcast, which are
+   * never made available, even if the API reports them missing
    */
-  nonce: bigint
+  pendingNonces: bigint[]
 
   /**
-   * Transaction fee in microSTX
+   * Time of the last API sync (milliseconds since epoch)
    */
-  fee: bigint
+  syncedAt: number
 }
 
 /**
- * Result from broadcasting a transaction
+ * Storage backend for NonceManager
+ *
+ * The default store keeps state in memory. Implement this interface on
+ * shared storage (e.g. Redis) so several processes can share one sequence
+ * of nonces. Values contain bigints, so stores that serialize must
+ * preserve them.
  */
-export interface BroadcastResult {
+export interface NonceStore {
   /**
-   * Transaction ID (txid)
+   * Returns the state for a key, or undefined if none is stored
    */
-  txid: string
+  get(key: string): Promise<NonceState | undefined>
 
   /**
-   * Sender's Stacks address
+   * Stores the state for a key
    */
-  senderAddress: string
+  set(key: string, state: NonceState): Promise<void>
 
   /**
-   * Recipient's Stacks address
+   * Removes the state for a key
    */
-  recipient: string
+  delete(key: string): Promise<void>
 
   /**
-   * Amount transferred in microSTX
+   * Runs `fn` while holding an exclusive lock on a key
+   *
+   * Must exclude every other holder of the same key, including other
+   * processes sharing the store.
+   */
+  withLock<T>(key: string, fn: () => Promise<T>): Promise<T>
+}
+
+/**
+ * Options for NonceManager
+ */
+export interface NonceManagerOptions {
+  /**
+   * Where nonce state is kept
+   * @default new InMemoryNonceStore()
+   */
+  store?: NonceStore
+
+  /**
+   * How long local state is trusted before it is merged with the API again,
+   * in milliseconds. Use 0 to sync before every nonce.
+   * @default 30_000
+   */
+  syncIntervalMs?: number
+
+  /**
+   * Retry policy for the nonce sync with the API
+   * @default single attempt
+   */
+  retry?: RetryOptions
+}
+
+/**
+ * Rule of a SigningPolicy, reported by PolicyViolationError
+ */
+export type SigningPolicyRule =
+  | "network"
+  | "recipient-allowlist"
+  | "recipient-denylist"
+  | "max-amount"
+  | "spending-limit"
+  | "max-fee"
+  | "contract-allowlist"
+  | "post-condition-mode"
+
+/**
+ * Contract (and optionally functions) a SigningPolicy allows calling
+ */
+export interface ContractCallRule {
+  /**
+   * Contract ID (`<address>.<contract-name>`)
+   */
+  contractId: string
+
+  /**
+   * Functions that may be called
+   * @default any function
+   */
+  functions?: string[]
+}
+
+/**
+ * STX sent by the sender within a rolling window
+ */
+export interface SpendingLimit {
+  /**
+   * Most microSTX the sender may send within the window
+   */
+  amount: bigint
+
+  /**
+   * Length of the rolling window, in milliseconds
+   */
+  windowMs: number
+}
+
+/**
+ * STX amount signed for one nonce, kept by a SpendingStore
+ */
+export interface SpendingRecord {
+  /**
+   * Nonce of the signed transaction. Replacements (same nonce) share one record.
+   */
+  nonce: bigint
+
+  /**
+   * MicroSTX the transaction may send
    */
   amount: bigint
+
+  /**
+   * Time of signing (milliseconds since epoch)
+   */
+  signedAt: number
+}
+
+/**
+ * Storage backend for the spending limit of a SigningPolicy
+ *
+ * The default store keeps records in memory. Implement this interface on
+ * shared storage (e.g. Redis) to enforce one limit across processes. Values
+ * contain bigints, so stores that serialize must preserve them.
+ */
+export interface SpendingStore {
+  /**
+   * Returns the records for a key (a sender address), or undefined if none are stored
+   */
+  get(key: string): Promise<SpendingRecord[] | undefined>
+
+  /**
+   * Stores the records for a key
+   */
+  set(key: string, records: SpendingRecord[]): Promise<void>
+
+  /**
+   * Runs `fn` while holding an exclusive lock on a key
+   *
+   * Must exclude every other holder of the same key, including other
+   * processes sharing the store.
+   */
+  withLock<T>(key: string, fn: () => Promise<T>): Promise<T>
+}
+
+/**
+ * Client-side rules every transaction must pass before it is sent to
+ * Turnkey for signing
+ *
+ * Complements Turnkey policies with Stacks-specific checks. Unset rules are
+ * not enforced. Amounts count the STX the sender transfers: the amount of
+ * STX transfers and, for other transactions, the STX amounts of the
+ * sender's post-conditions. Fees are not counted.
+ */
+export interface SigningPolicy {
+  /**
+   * Networks transactions may be signed for
+   */
+  networks?: ("mainnet" | "testnet")[]
+
+  /**
+   * Only these addresses (or contract IDs) may receive STX transfers and
+   * token or NFT `transfer` calls. The sender's own address is always
+   * allowed, so cancellations still work. Other contract calls are rejected,
+   * because their recipient cannot be determined.
+   */
+  allowedRecipients?: string[]
+
+  /**
+   * These addresses (or contract IDs) may not receive STX transfers or token
+   * or NFT `transfer` calls, or appear in the arguments or post-conditions of
+   * other contract calls
+   */
+  deniedRecipients?: string[]
+
+  /**
+   * Most microSTX a single transaction may send
+   *
+   * Like `spendingLimit`, this implies deny mode for contract calls and
+   * deploys, whose amount is read from the sender's STX post-conditions.
+   */
+  maxAmount?: bigint
+
+  /**
+   * Most microSTX the sender may send within a rolling window
+   */
+  spendingLimit?: SpendingLimit
+
+  /**
+   * Highest fee in microSTX the signer may pay (as sender or sponsor)
+   */
+  maxFee?: bigint
+
+  /**
+   * Only these contracts and functions may be called
+   */
+  allowedContractCalls?: ContractCallRule[]
+
+  /**
+   * Require post-condition deny mode, so only the transfers covered by
+   * post-conditions can happen
+   * @default false
+   */
+  requireDenyMode?: boolean
+
+  /**
+   * Where spending limit records are kept
+   * @default new InMemorySpendingStore()
+   */
+  store?: SpendingStore
+}
+
+/**
+ * Configuration for TurnkeyMultisigSigner
+ */
+export interface MultisigSignerConfig {
+  /**
+   * Compressed secp256k1 public keys of all participants
+   *
+   * Order matters: it determines the multisig address and the order in which
+   * participants sign.
+   */
+  publicKeys: string[]
+
+  /**
+   * Number of signatures required to authorize a transaction (M of N)
+   */
+  signaturesRequired: number
+
+  /**
+   * Use the non-sequential multisig hash mode (SIP-027) instead of the legacy
+   * sequential mode. The derived address is the same in both modes.
+   * @default false
+   */
+  useNonSequentialMultiSig?: boolean
+
+  /**
+   * Default network for transactions
+   * @default "testnet"
+   */
+  network?: StacksNetworkOption
+
+  /**
+   * Fee estimation settings used when a transaction does not set `fee`
+   */
+  feeEstimation?: FeeEstimationOptions
+
+  /**
+   * Retry policy for the nonce and fee estimation API calls
+   * @default single attempt
+   */
+  retry?: RetryOptions
+}
+
+/**
+ * Fee estimate tier returned by the node
+ */
+export type FeeStrategy = "low" | "medium" | "high"
+
+/**
+ * Fee estimation settings
+ *
+ * Fees are estimated with the node's transaction fee estimate endpoint. If
+ * estimation fails (or is disabled), `fallbackFee` is used.
+ */
+export interface FeeEstimationOptions {
+  /**
+   * Estimate tier to use
+   * @default "medium"
+   */
+  strategy?: FeeStrategy
+
+  /**
+   * Multiplier applied to the selected estimate (e.g. 1.25 for +25%)
+   * @default 1
+   */
+  multiplier?: number
+
+  /**
+   * Lower bound for estimated fees in microSTX
+   */
+  minFee?: bigint
+
+  /**
+   * Upper bound for estimated fees in microSTX
+   */
+  maxFee?: bigint
+
+  /**
+   * Fee used when estimation fails or is disabled - must be within `minFee`
+   * and `maxFee`, while the default is clamped to them
+   * @default 180n
+   */
+  fallbackFee?: bigint
+
+  /**
+   * Set to false to skip estimation and always use `fallbackFee`
+   * @default true
+   */
+  enabled?: boolean
+}
+
+/**
+ * How a transaction fee was chosen
+ *
+ * - `explicit`: the caller passed `fee`
+ * - `estimated`: from the node's fee estimate (after multiplier and caps)
+ * - `fallback`: estimation failed or was disabled; `fallbackFee` was used
+ * - `sponsored`: origin of a sponsored transaction (fee is 0)
+ */
+export type FeeSource = "explicit" | "estimated" | "fallback" | "sponsored"
+
+/**
+ * Details about how a transaction fee was chosen
+ */
+export interface FeeDetails {
+  /**
+   * Where the fee came from
+   */
+  source: FeeSource
+
+  /**
+   * Estimate tier used (when estimated)
+   */
+  strategy?: FeeStrategy
+
+  /**
+   * Raw node estimate for the tier before multiplier and caps (when estimated)
+   */
+  estimate?: bigint
+
+  /**
+   * Why estimation was not used (when falling back)
+   */
+  reason?: string
+}
+
+/**
+ * Parameters for signing an STX token transfer
+ *
+ * Note: organizationId is not needed here — it is set once on TurnkeySigner
+ * construction and used for all signing operations automatically.
+ */
+export interface STXTransferParams {
+  /**
+   * Recipient Stacks address (ST... for testnet, SP... for mainnet), or a
+   * BNS name when the signer resolves names
+   */
+  recipient: string
+
+  /**
+   * Amount to transfer in microSTX (1 STX = 1,000,000 microSTX)
+   */
+  amount: bigint
+
+  /**
+   * Transaction nonce - fetched automatically if not provided
+   */
+  nonce?: bigint
+
+  /**
+   * Transaction fee in microSTX
+   *
+   * Estimated from the network when omitted (0n when sponsored).
+   */
+  fee?: bigint
+
+  /**
+   * Fee estimation overrides for this transaction (merged over the signer's)
+   */
+  feeEstimation?: FeeEstimationOptions
+
+  /**
+   * Produce a sponsored transaction for a sponsor to co-sign
+   *
+   * The origin fee is 0 — the sponsor sets and pays the fee via `signSponsorship`.
+   * @default false
+   */
+  sponsored?: boolean
+
+  /**
+   * Optional memo string (max 34 bytes)
+   */
+  memo?: string
+
+  /**
+   * Check that the sender's unlocked balance covers `amount + fee` before signing
+   *
+   * Pending outgoing transactions are not subtracted from the balance.
+   * @default false
+   */
+  checkBalance?: boolean
+
+  /**
+   * Network override for this transaction
+   */
+  network?: StacksNetworkOption
+}
+
+/**
+ * Parameters for signing a Clarity contract call
+ */
+export interface ContractCallParams {
+  /**
+   * Address of the deployed contract (ST... for testnet, SP... for mainnet)
+   */
+  contractAddress: string
+
+  /**
+   * Name of the deployed contract
+   */
+  contractName: string
+
+  /**
+   * Public function to call
+   */
+  functionName: string
+
+  /**
+   * Clarity values passed as function arguments
+   */
+  functionArgs: ClarityValue[]
+
+  /**
+   * Post-conditions restricting asset movements in this call
+   */
+  postConditions?: (PostCondition | PostConditionWire | string)[]
+
+  /**
+   * Post-condition mode
+   * @default "deny"
+   */
+  postConditionMode?: PostConditionModeName | PostConditionMode
+
+  /**
+   * Transaction nonce - fetched automatically if not provided
+   */
+  nonce?: bigint
+
+  /**
+   * Transaction fee in microSTX
+   *
+   * Estimated from the network when omitted (0n when sponsored).
+   */
+  fee?: bigint
+
+  /**
+   * Fee estimation overrides for this transaction (merged over the signer's)
+   */
+  feeEstimation?: FeeEstimationOptions
+
+  /**
+   * Produce a sponsored transaction for a sponsor to co-sign
+   *
+   * The origin fee is 0 — the sponsor sets and pays the fee via `signSponsorship`.
+   * @default false
+   */
+  sponsored?: boolean
+
+  /**
+   * Network override for this transaction
+   */
+  network?: StacksNetworkOption
+}
+
+/**
+ * Parameters for a SIP-010 fungible token transfer
+ */
+export interface FungibleTokenTransferParams
+  extends Pick<ContractCallParams, "nonce" | "fee" | "feeEstimation" | "sponsored" | "network"> {
+  /**
+   * Token contract ID (`<address>.<contract-name>`)
+   */
+  tokenContract: string
+
+  /**
+   * Name of the token's `define-fungible-token` asset, used in the post-condition
+   */
+  assetName: string
+
+  /**
+   * Recipient address or contract ID, or a BNS name when the signer resolves names
+   */
+  recipient: string
+
+  /**
+   * Amount in base units (bigint), or in display units as a decimal string
+   * (e.g. "1.5"). Display units are converted with the token's `get-decimals`.
+   */
+  amount: bigint | string
+
+  /**
+   * Memo (at most 34 bytes; strings are UTF-8 encoded)
+   */
+  memo?: string | Uint8Array
+
+  /**
+   * Token decimals for display amounts; read from the token when omitted
+   */
+  decimals?: number
+}
+
+/**
+ * SIP-010 token metadata read from its contract
+ */
+export interface FungibleTokenInfo {
+  /**
+   * Token contract ID
+   */
+  contractId: string
+
+  /**
+   * Decimal places of display amounts (`get-decimals`)
+   */
+  decimals: number
+
+  /**
+   * Ticker symbol (`get-symbol`)
+   */
+  symbol: string
+}
+
+/**
+ * Token ID of a SIP-009 NFT: bigints and numbers are encoded as `uint` and
+ * byte arrays as `buff`. Other types, including strings, are passed as a
+ * ClarityValue of the contract's ID type.
+ */
+export type NonFungibleTokenId = bigint | number | Uint8Array | ClarityValue
+
+/**
+ * Parameters for a SIP-009 non-fungible token transfer
+ */
+export interface NonFungibleTokenTransferParams
+  extends Pick<ContractCallParams, "nonce" | "fee" | "feeEstimation" | "sponsored" | "network"> {
+  /**
+   * NFT contract ID (`<address>.<contract-name>`)
+   */
+  nftContract: string
+
+  /**
+   * Name of the contract's `define-non-fungible-token` asset, used in the post-condition
+   */
+  assetName: string
+
+  /**
+   * Token ID
+   */
+  tokenId: NonFungibleTokenId
+
+  /**
+   * Recipient address or contract ID, or a BNS name when the signer resolves names
+   */
+  recipient: string
+
+  /**
+   * Check with `get-owner` that the sender owns the token before signing (default: false)
+   */
+  checkOwnership?: boolean
+}
+
+/**
+ * STX balance of an address, in microSTX
+ */
+export interface StxBalance {
+  /**
+   * Total balance, including locked STX
+   */
+  total: bigint
+
+  /**
+   * STX locked by stacking
+   */
+  locked: bigint
+
+  /**
+   * STX that can be spent (`total - locked`)
+   */
+  available: bigint
+
+  /**
+   * Burn block height at which the locked STX unlock, if any are locked
+   */
+  unlockHeight?: number
+}
+
+/**
+ * Balance of a fungible token held by an address
+ */
+export interface FungibleTokenBalance {
+  /**
+   * Asset identifier (`<contract-id>::<asset-name>`)
+   */
+  assetId: string
+
+  /**
+   * Token contract ID
+   */
+  contractId: string
+
+  /**
+   * Name of the contract's `define-fungible-token` asset
+   */
+  assetName: string
+
+  /**
+   * Balance in base units
+   */
+  balance: bigint
+}
+
+/**
+ * Non-fungible token held by an address
+ */
+export interface NonFungibleTokenHolding {
+  /**
+   * Asset identifier (`<contract-id>::<asset-name>`)
+   */
+  assetId: string
+
+  /**
+   * NFT contract ID
+   */
+  contractId: string
+
+  /**
+   * Name of the contract's `define-non-fungible-token` asset
+   */
+  assetName: string
+
+  /**
+   * Token ID
+   */
+  tokenId: ClarityValue
+}
+
+/**
+ * Options for TurnkeySigner.callReadOnly
+ */
+export interface ReadOnlyCallOptions {
+  /**
+   * Principal the call is evaluated as (`tx-sender`)
+   * @default the signer's address
+   */
+  sender?: string
+}
+
+/**
+ * Current PoX parameters of a network, from the node's `/v2/pox` endpoint
+ */
+export interface PoxInfo {
+  /**
+   * Active PoX contract (e.g. "SP000000000000000000002Q6VF78.pox-4")
+   */
+  contractId: string
+
+  /**
+   * ID of the current reward cycle
+   */
+  currentCycle: number
+
+  /**
+   * ID of the next reward cycle
+   */
+  nextCycle: number
+
+  /**
+   * Minimum amount of microSTX to stack solo in the next cycle
+   */
+  minAmountUstx: bigint
+
+  /**
+   * Burn blocks per reward cycle
+   */
+  rewardCycleLength: number
+
+  /**
+   * Burn blocks in each cycle's prepare phase
+   */
+  prepareCycleLength: number
+
+  /**
+   * Burn block height at which PoX reward cycles start counting
+   */
+  firstBurnchainBlockHeight: number
+
+  /**
+   * Current burn block height
+   */
+  currentBurnchainBlockHeight: number
+}
+
+/**
+ * Transaction options shared by the PoX helpers
+ */
+export type PoxTransactionOptions = Pick<
+  ContractCallParams,
+  "nonce" | "fee" | "feeEstimation" | "sponsored" | "network"
+>
+
+/**
+ * Signer key authorization of pox-4 stacking calls
+ */
+export interface SignerKeyAuthorization {
+  /**
+   * Compressed public key of the signer (33 bytes hex)
+   */
+  signerKey: string
+
+  /**
+   * Signer's authorization signature (65 bytes hex, RSV), from
+   * `signSignerKeyAuthorization`. Omit it when the signer authorized the call
+   * on-chain with `set-signer-key-authorization`.
+   */
+  signerSignature?: string
+
+  /**
+   * Maximum amount of microSTX the authorization allows to be stacked
+   */
+  maxAmount: bigint
+
+  /**
+   * Random ID that makes the authorization single-use
+   */
+  authId: bigint
+}
+
+/**
+ * Parameters for pox-4 `stack-stx`
+ */
+export interface StackStxParams extends PoxTransactionOptions, SignerKeyAuthorization {
+  /**
+   * Amount of microSTX to lock (at least the next cycle's minimum)
+   */
+  amount: bigint
+
+  /**
+   * Bitcoin address that receives the rewards
+   */
+  poxAddress: string
+
+  /**
+   * Number of reward cycles to lock for (1 to 12)
+   */
+  lockPeriod: number
+
+  /**
+   * Burn block height in the current reward cycle (defaults to the current height)
+   */
+  startBurnHeight?: number
+}
+
+/**
+ * Parameters for pox-4 `stack-extend`
+ */
+export interface StackExtendParams extends PoxTransactionOptions, SignerKeyAuthorization {
+  /**
+   * Number of reward cycles to extend the lock by (1 to 12)
+   */
+  extendCount: number
+
+  /**
+   * Bitcoin address that receives the rewards
+   */
+  poxAddress: string
+}
+
+/**
+ * Parameters for pox-4 `stack-increase`
+ */
+export interface StackIncreaseParams extends PoxTransactionOptions, SignerKeyAuthorization {
+  /**
+   * Additional microSTX to lock
+   */
+  increaseBy: bigint
+}
+
+/**
+ * Parameters for pox-4 `delegate-stx`
+ */
+export interface DelegateStxParams extends PoxTransactionOptions {
+  /**
+   * Maximum amount of microSTX the pool operator may lock
+   */
+  amount: bigint
+
+  /**
+   * Pool operator address or contract ID
+   */
+  delegateTo: string
+
+  /**
+   * Burn block height at which the delegation expires (default: never)
+   */
+  untilBurnHeight?: number
+
+  /**
+   * Bitcoin address the pool operator must use for rewards (default: any)
+   */
+  poxAddress?: string
+}
+
+/**
+ * Parameters for pox-4 `delegate-stack-stx`, signed by the pool operator
+ */
+export interface DelegateStackStxParams extends PoxTransactionOptions {
+  /**
+   * Address of the stacker that delegated to the pool operator
+   */
+  stacker: string
+
+  /**
+   * Amount of the stacker's microSTX to lock
+   */
+  amount: bigint
+
+  /**
+   * Bitcoin address that receives the rewards
+   */
+  poxAddress: string
+
+  /**
+   * Number of reward cycles to lock for (1 to 12)
+   */
+  lockPeriod: number
+
+  /**
+   * Burn block height in the current reward cycle (defaults to the current height)
+   */
+  startBurnHeight?: number
+}
+
+/**
+ * Parameters for pox-4 `stack-aggregation-commit`, signed by the pool operator
+ */
+export interface StackAggregationCommitParams
+  extends PoxTransactionOptions,
+    SignerKeyAuthorization {
+  /**
+   * Bitcoin address the delegated STX were locked for
+   */
+  poxAddress: string
+
+  /**
+   * Future reward cycle to commit (defaults to the next cycle)
+   */
+  rewardCycle?: number
+}
+
+/**
+ * pox-4 function a signer key authorization is for
+ */
+export type SignerKeyAuthorizationTopic =
+  | "stack-stx"
+  | "stack-extend"
+  | "stack-increase"
+  | "agg-commit"
+  | "agg-increase"
+
+/**
+ * Parameters for a pox-4 signer key authorization signature
+ */
+export interface SignerKeyAuthorizationParams {
+  /**
+   * pox-4 function the authorization is for
+   */
+  topic: SignerKeyAuthorizationTopic
+
+  /**
+   * Bitcoin address that receives the rewards
+   */
+  poxAddress: string
+
+  /**
+   * Reward cycle the call is made in (the current cycle), or the cycle
+   * committed for "agg-commit" and "agg-increase"
+   */
+  rewardCycle: number
+
+  /**
+   * Lock period of the call (1 for "agg-commit" and "agg-increase")
+   */
+  period: number
+
+  /**
+   * Maximum amount of microSTX the authorization allows to be stacked
+   */
+  maxAmount: bigint
+
+  /**
+   * Random ID that makes the authorization single-use
+   */
+  authId: bigint
+
+  /**
+   * Network whose chain ID is signed (defaults to the signer's network)
+   */
+  network?: StacksNetworkOption
+}
+
+/**
+ * Parameters for signing a Clarity contract deployment
+ */
+export interface ContractDeployParams {
+  /**
+   * Name of the contract to deploy (letters, digits, '-' and '_', max 40 chars)
+   */
+  contractName: string
+
+  /**
+   * Clarity source code of the contract
+   */
+  codeBody: string
+
+  /**
+   * Clarity version to deploy with
+   * Defaults to the latest version supported by @stacks/transactions
+   */
+  clarityVersion?: ClarityVersion
+
+  /**
+   * Post-conditions restricting asset movements during deployment
+   */
+  postConditions?: (PostCondition | PostConditionWire | string)[]
+
+  /**
+   * Post-condition mode
+   * @default "deny"
+   */
+  postConditionMode?: PostConditionModeName | PostConditionMode
+
+  /**
+   * Transaction nonce - fetched automatically if not provided
+   */
+  nonce?: bigint
+
+  /**
+   * Transaction fee in microSTX
+   *
+   * Estimated from the network when omitted (0n when sponsored).
+   */
+  fee?: bigint
+
+  /**
+   * Fee estimation overrides for this transaction (merged over the signer's)
+   */
+  feeEstimation?: FeeEstimationOptions
+
+  /**
+   * Produce a sponsored transaction for a sponsor to co-sign
+   *
+   * The origin fee is 0 — the sponsor sets and pays the fee via `signSponsorship`.
+   * @default false
+   */
+  sponsored?: boolean
+
+  /**
+   * Network override for this transaction
+   */
+  network?: StacksNetworkOption
+}
+
+/**
+ * Options for co-signing a sponsored transaction as the sponsor
+ */
+export interface SponsorshipParams {
+  /**
+   * Fee paid by the sponsor in microSTX
+   *
+   * Estimated from the network when omitted.
+   */
+  fee?: bigint
+
+  /**
+   * Fee estimation overrides for the sponsor fee (merged over the signer's)
+   */
+  feeEstimation?: FeeEstimationOptions
+
+  /**
+   * Sponsor account nonce - fetched for the sponsor's address if not provided
+   */
+  sponsorNonce?: bigint
+
+  /**
+   * Network override for the sponsor nonce lookup
+   */
+  network?: StacksNetworkOption
+}
+
+/**
+ * Parameters for speeding up a pending transaction
+ */
+export interface SpeedUpTransactionParams {
+  /**
+   * New fee in microSTX - must be higher than the original fee
+   */
+  newFee: bigint
+}
+
+/**
+ * Parameters for cancelling a pending transaction
+ */
+export interface CancelTransactionParams {
+  /**
+   * Address that receives the cancelling transfer's 1 microSTX - must not be
+   * the signer's own address, which nodes reject
+   *
+   * Defaults to the network's burn address (`SP000000000000000000002Q6VF78`
+   * on mainnet, `ST000000000000000000002AMW42H` otherwise).
+   */
+  recipient?: string
+
+  /**
+   * Fee for the cancelling transfer in microSTX - must be higher than the
+   * original fee
+   *
+   * Estimated from the network when omitted, and raised to the minimum
+   * replacement fee if the estimate is lower.
+   */
+  fee?: bigint
+
+  /**
+   * Fee estimation overrides (merged over the signer's)
+   */
+  feeEstimation?: FeeEstimationOptions
+
+  /**
+   * Network override - must match the original transaction's chain
+   */
+  network?: StacksNetworkOption
+}
+
+/**
+ * Result from replacing a pending transaction
+ */
+export interface ReplacementTransactionResult {
+  /**
+   * Signed replacement transaction ready for broadcast
+   */
+  transaction: StacksTransactionWire
+
+  /**
+   * Transaction ID (txid) of the replacement
+   */
+  txid: string
+
+  /**
+   * Transaction ID (txid) of the transaction being replaced
+   */
+  replacedTxid: string
+
+  /**
+   * Nonce shared by the original and the replacement
+   */
+  nonce: bigint
+
+  /**
+   * Fee of the replacement in microSTX
+   */
+  fee: bigint
+
+  /**
+   * How the fee was chosen
+   */
+  feeDetails: FeeDetails
+}
+
+/**
+ * BNS name a transfer recipient was given as, and the address it resolved to
+ */
+export interface ResolvedRecipient {
+  /**
+   * BNS name, e.g. "alice.btc"
+   */
+  name: string
+
+  /**
+   * Address that owned the name when the transaction was signed
+   */
+  address: string
+}
+
+/**
+ * Result from signing a transaction
+ */
+export interface SignedTransactionResult {
+  /**
+   * Signed transaction ready for broadcast
+   */
+  transaction: StacksTransactionWire
+
+  /**
+   * Sender's Stacks address
+   */
+  senderAddress: string
+
+  /**
+   * Transaction nonce used
+   */
+  nonce: bigint
+
+  /**
+   * Transaction fee in microSTX
+   */
+  fee: bigint
+
+  /**
+   * How the fee was chosen
+   */
+  feeDetails: FeeDetails
+
+  /**
+   * Summary of the signed transaction (set when the signer is created with `describe: true`)
+   */
+  description?: TransactionDescription
+
+  /**
+   * Recipient's BNS name and resolved address (set when the recipient was a
+   * BNS name resolved with `resolveNames: true`)
+   */
+  resolvedRecipient?: ResolvedRecipient
+}
+
+/**
+ * Amount of STX in microSTX and in STX (decimal strings)
+ */
+export interface StxAmount {
+  /**
+   * Amount in microSTX, e.g. "1500000"
+   */
+  microStx: string
+
+  /**
+   * Amount in STX without trailing zeros, e.g. "1.5"
+   */
+  stx: string
+}
+
+/**
+ * Clarity value in readable form
+ */
+export interface DescribedClarityValue {
+  /**
+   * Clarity type, e.g. "uint", "ascii" or "tuple"
+   */
+  type: ClarityValue["type"]
+
+  /**
+   * Value in Clarity notation, e.g. `u100` or `(some "hello")`
+   */
+  repr: string
+}
+
+/**
+ * Post-condition in readable form
+ */
+export interface PostConditionDescription {
+  /**
+   * Asset the condition applies to
+   */
+  type: "stx" | "ft" | "nft"
+
+  /**
+   * Principal (address or contract ID) the condition applies to
+   */
+  principal: string
+
+  /**
+   * Comparator of the condition
+   */
+  condition: PostCondition["condition"]
+
+  /**
+   * Amount in STX and microSTX, or in base units of the fungible token
+   */
+  amount?: StxAmount | string
+
+  /**
+   * Asset identifier (`<contract-id>::<asset-name>`) of token conditions
+   */
+  asset?: string
+
+  /**
+   * Token ID of NFT conditions
+   */
+  assetId?: DescribedClarityValue
+
+  /**
+   * The condition as a sentence, e.g. "SP2J6... will send at most 1.5 STX"
+   */
+  description: string
+}
+
+/**
+ * Kind of transaction described by describeTransaction
+ */
+export type TransactionDescriptionType =
+  | "stx-transfer"
+  | "contract-call"
+  | "contract-deploy"
+  | "coinbase"
+  | "tenure-change"
+  | "poison-microblock"
+
+/**
+ * Human-readable summary of a transaction, from describeTransaction
+ *
+ * Plain JSON (no bigints or class instances). Payload fields are set
+ * according to `type`.
+ */
+export interface TransactionDescription {
+  /**
+   * Kind of transaction
+   */
+  type: TransactionDescriptionType
+
+  /**
+   * Transaction ID (txid). Changes when an unsigned transaction is signed.
+   */
+  txid: string
+
+  /**
+   * Network the transaction is built for (devnet transactions report "testnet")
+   */
+  network: "mainnet" | "testnet"
+
+  /**
+   * Chain ID the transaction is bound to
+   */
+  chainId: number
+
+  /**
+   * Origin (sender) address
+   */
+  senderAddress: string
+
+  /**
+   * Origin nonce
+   */
+  nonce: string
+
+  /**
+   * Transaction fee, paid by the sponsor for sponsored transactions
+   */
+  fee: StxAmount
+
+  /**
+   * Whether the transaction is sponsored
+   */
+  sponsored: boolean
+
+  /**
+   * Sponsor address (sponsored transactions only)
+   */
+  sponsorAddress?: string
+
+  /**
+   * Sponsor nonce (sponsored transactions only)
+   */
+  sponsorNonce?: string
+
+  /**
+   * Recipient address or contract ID (STX transfers)
+   */
+  recipient?: string
+
+  /**
+   * Amount transferred (STX transfers)
+   */
+  amount?: StxAmount
+
+  /**
+   * Memo without padding (STX transfers)
+   */
+  memo?: string
+
+  /**
+   * Called or deployed contract ID (contract calls and deploys)
+   */
+  contractId?: string
+
+  /**
+   * Contract name (contract deploys)
+   */
+  contractName?: string
+
+  /**
+   * Clarity version (contract deploys)
+   */
+  clarityVersion?: ClarityVersion
+
+  /**
+   * Called function name (contract calls)
+   */
+  functionName?: string
+
+  /**
+   * Function arguments (contract calls)
+   */
+  functionArgs?: DescribedClarityValue[]
+
+  /**
+   * Whether transfers not covered by post-conditions are allowed
+   */
+  postConditionMode: PostConditionModeName
+
+  /**
+   * Post-conditions, in order
+   */
+  postConditions: PostConditionDescription[]
+}
+
+/**
+ * Result from signing an externally built transaction
+ */
+export interface SignedRawTransactionResult {
+  /**
+   * Signed transaction ready for broadcast
+   */
+  transaction: StacksTransactionWire
+
+  /**
+   * Serialized signed transaction (hex, no 0x prefix)
+   */
+  serializedTransaction: string
+
+  /**
+   * Transaction ID (txid) of the signed transaction
+   */
+  txid: string
+}
+
+/**
+ * Unsigned transaction awaiting a Turnkey signature
+ *
+ * Plain JSON (no bigints or class instances), so it can be stored and
+ * finalized later, in another process, with `finalizeTransaction`.
+ */
+export interface PreparedTransaction {
+  /**
+   * Serialized unsigned transaction (hex, no 0x prefix)
+   */
+  transaction: string
+
+  /**
+   * Pre-sign hash the origin key must sign (hex, no 0x prefix)
+   */
+  preSignHash: string
+
+  /**
+   * Compressed public key that must sign
+   */
+  publicKey: string
+
+  /**
+   * Sender address
+   */
+  senderAddress: string
+
+  /**
+   * Nonce used (decimal string)
+   */
+  nonce: string
+
+  /**
+   * Fee in microSTX (decimal string)
+   */
+  fee: string
+
+  /**
+   * Recipient's BNS name and resolved address (STX transfers whose recipient
+   * was a BNS name resolved with `resolveNames: true`)
+   */
+  resolvedRecipient?: ResolvedRecipient
+}
+
+/**
+ * Outcome of submitting a prepared transaction to Turnkey for signing
+ *
+ * `pending` means the activity needs approval; finalize with its
+ * `activityId` once approved.
+ */
+export type SignatureRequestResult =
+  | { status: "completed"; signature: { v: string; r: string; s: string } }
+  | { status: "pending"; activityId: string; activityStatus: TurnkeyActivityStatus }
+
+/**
+ * Options for waitForActivity
+ */
+export interface WaitForActivityOptions {
+  /**
+   * Maximum time to wait in milliseconds
+   * @default 600_000 (10 minutes)
+   */
+  timeoutMs?: number
+
+  /**
+   * Delay between status checks in milliseconds
+   * @default 3_000
+   */
+  pollIntervalMs?: number
+
+  /**
+   * Signal to stop waiting
+   */
+  signal?: AbortSignal
+
+  /**
+   * Called with every activity lookup result
+   */
+  onProgress?: (activity: TurnkeyActivity) => void
+}
+
+/**
+ * Options for finalizeTransaction
+ */
+export interface FinalizeTransactionOptions {
+  /**
+   * When finalizing with an activity ID, wait for a pending activity to
+   * complete instead of throwing ActivityPendingError. Pass options to
+   * configure the wait.
+   * @default false
+   */
+  waitForActivity?: boolean | WaitForActivityOptions
+}
+
+/**
+ * Result from building an unsigned transaction
+ */
+export interface UnsignedTransactionResult {
+  /**
+   * Unsigned transaction awaiting signatures
+   */
+  transaction: StacksTransactionWire
+
+  /**
+   * Sender's Stacks address
+   */
+  senderAddress: string
+
+  /**
+   * Transaction nonce used
+   */
+  nonce: bigint
+
+  /**
+   * Transaction fee in microSTX
+   */
+  fee: bigint
+
+  /**
+   * How the fee was chosen
+   */
+  feeDetails: FeeDetails
+}
+
+/**
+ * Result from sponsoring a transaction
+ */
+export interface SponsoredTransactionResult {
+  /**
+   * Fully signed sponsored transaction ready for broadcast
+   */
+  transaction: StacksTransactionWire
+
+  /**
+   * Sponsor's Stacks address
+   */
+  sponsorAddress: string
+
+  /**
+   * Sponsor nonce used
+   */
+  sponsorNonce: bigint
+
+  /**
+   * Fee paid by the sponsor in microSTX
+   */
+  fee: bigint
+
+  /**
+   * How the sponsor fee was chosen
+   */
+  feeDetails: FeeDetails
+}
+
+/**
+ * Result from broadcasting a transaction
+ */
+export interface BroadcastResult {
+  /**
+   * Transaction ID (txid)
+   */
+  txid: string
+
+  /**
+   * Sender's Stacks address
+   */
+  senderAddress: string
+
+  /**
+   * Recipient's Stacks address (the resolved address when the recipient was a BNS name)
+   */
+  recipient: string
+
+  /**
+   * Amount transferred in microSTX
+   */
+  amount: bigint
+
+  /**
+   * Recipient's BNS name and resolved address, if the recipient was a BNS name
+   */
+  resolvedRecipient?: ResolvedRecipient
+
+  /**
+   * Final status when `waitForConfirmation` was set
+   */
+  confirmation?: TransactionStatusResult
+}
+
+/**
+ * Result from broadcasting a contract call
+ */
+export interface ContractCallBroadcastResult {
+  /**
+   * Transaction ID (txid)
+   */
+  txid: string
+
+  /**
+   * Sender's Stacks address
+   */
+  senderAddress: string
+
+  /**
+   * Fully qualified contract identifier (address.name)
+   */
+  contractId: string
+
+  /**
+   * Function that was called
+   */
+  functionName: string
+
+  /**
+   * Final status when `waitForConfirmation` was set
+   */
+  confirmation?: TransactionStatusResult
+}
+
+/**
+ * Normalized transaction status
+ *
+ * - `pending`: in the mempool, or not yet known to the API
+ * - `success`: included and executed successfully
+ * - `abort_by_response`: included, but the contract call returned an error
+ * - `abort_by_post_condition`: included, but a post-condition failed
+ * - `dropped`: removed from the mempool without being included (see `rawStatus`)
+ */
+export type TransactionStatus =
+  | "pending"
+  | "success"
+  | "abort_by_response"
+  | "abort_by_post_condition"
+  | "dropped"
+
+/**
+ * Status of a broadcast transaction
+ */
+export interface TransactionStatusResult {
+  /**
+   * Transaction ID (txid)
+   */
+  txid: string
+
+  /**
+   * Normalized status
+   */
+  status: TransactionStatus
+
+  /**
+   * Status as reported by the API (e.g. "dropped_replace_by_fee"), or
+   * "not_found" if the API does not know the transaction yet
+   */
+  rawStatus: string
+
+  /**
+   * Whether the transaction is in a block (anchor block or microblock)
+   */
+  included: boolean
+
+  /**
+   * Whether the transaction is in an anchor block (false while only in a microblock)
+   */
+  anchored: boolean
+
+  /**
+   * Anchor blocks on top of and including the transaction's block (0 until anchored)
+   */
+  confirmations: number
+
+  /**
+   * Height of the block containing the transaction
+   */
+  blockHeight?: number
+
+  /**
+   * Hash of the block containing the transaction
+   */
+  blockHash?: string
+
+  /**
+   * Hash of the microblock containing the transaction
+   */
+  microblockHash?: string
+
+  /**
+   * Sequence of the microblock containing the transaction
+   */
+  microblockSequence?: number
+
+  /**
+   * Clarity representation of the execution result (e.g. "(ok true)")
+   */
+  result?: string
+
+  /**
+   * ID of the transaction that replaced this one, when dropped by replace-by-fee
+   */
+  replacedBy?: string
+}
+
+/**
+ * Options for waitForTransaction
+ */
+export interface WaitForTransactionOptions {
+  /**
+   * Network to poll
+   * @default "testnet"
+   */
+  network?: StacksNetworkOption
+
+  /**
+   * Anchor block confirmations required before resolving. Use 0 to resolve
+   * as soon as the transaction is in a block, including a microblock.
+   * @default 1
+   */
+  confirmations?: number
+
+  /**
+   * Maximum time to wait in milliseconds
+   * @default 600_000 (10 minutes)
+   */
+  timeoutMs?: number
+
+  /**
+   * Delay between status checks in milliseconds
+   * @default 3_000
+   */
+  pollIntervalMs?: number
+
+  /**
+   * Signal to stop waiting
+   */
+  signal?: AbortSignal
+
+  /**
+   * Called with every status check result
+   */
+  onProgress?: (status: TransactionStatusResult) => void
+}
+
+/**
+ * Options for signAndBroadcastSTXTransfer and signAndBroadcastContractCall
+ */
+export interface BroadcastOptions {
+  /**
+   * Wait for the transaction to be confirmed before returning. Pass options
+   * to configure the wait; the network is taken from the transaction.
+   * @default false
+   */
+  waitForConfirmation?: boolean | Omit<WaitForTransactionOptions, "network">
+}
+
+/**
+ * Options for broadcastTransaction
+ */
+export interface BroadcastTransactionOptions {
+  /**
+   * Retry policy for the broadcast request. Retries are safe: a transaction
+   * the node already has is reported as broadcast, not as a failure.
+   * @default single attempt
+   */
+  retry?: RetryOptions
+}
+
+/**
+ * A transfer in a batch; nonce and network are set by the batch
+ */
+export type BatchSTXTransferParams = Omit<STXTransferParams, "nonce" | "network" | "checkBalance">
+
+/**
+ * Options for signSTXTransferBatch
+ */
+export interface BatchSignOptions {
+  /**
+   * Network for every transfer in the batch
+   * @default the signer's network
+   */
+  network?: StacksNetworkOption
+
+  /**
+   * Nonce of the first transfer. Fetched from the API (or taken from the
+   * signer's nonce manager) when omitted.
+   */
+  startNonce?: bigint
+
+  /**
+   * Maximum number of Turnkey signing requests in flight
+   * @default 5
+   */
+  concurrency?: number
+}
+
+/**
+ * Successful item of a batch
+ */
+export interface BatchItemSuccess<T> {
+  /**
+   * Position of the item in the input
+   */
+  index: number
+  status: "fulfilled"
+  value: T
+}
+
+/**
+ * Failed item of a batch
+ */
+export interface BatchItemFailure {
+  /**
+   * Position of the item in the input
+   */
+  index: number
+  status: "rejected"
+  error: unknown
+
+  /**
+   * Nonce assigned to the item, if it got that far. A failed item with a
+   * nonce leaves a gap that blocks later nonces until it is filled.
+   */
+  nonce?: bigint
+}
+
+/**
+ * Per-item outcome of a batch operation, in input order
+ */
+export type BatchItemResult<T> = BatchItemSuccess<T> | BatchItemFailure
+
+/**
+ * What a batch broadcast does after an item fails
+ *
+ * - `stop`: skip all later nonces (they could not be mined until the gap is filled)
+ * - `continue`: broadcast the remaining items anyway
+ */
+export type BatchFailurePolicy = "stop" | "continue"
+
+/**
+ * Options for broadcastTransactionBatch
+ */
+export interface BatchBroadcastOptions {
+  /**
+   * What to do after an item fails to sign or broadcast
+   * @default "stop"
+   */
+  onFailure?: BatchFailurePolicy
+
+  /**
+   * Retry policy for each broadcast request
+   * @default single attempt
+   */
+  retry?: RetryOptions
+}
+
+/**
+ * Per-item outcome of a batch broadcast, in input order
+ *
+ * `skipped` items were not broadcast because an earlier nonce failed and
+ * `onFailure` is "stop".
+ */
+export type BatchBroadcastItemResult =
+  | { index: number; status: "fulfilled"; txid: string; nonce: bigint }
+  | { index: number; status: "rejected"; error: unknown; nonce?: bigint }
+  | { index: number; status: "skipped"; nonce: bigint }
+
+/**
+ * SIP-018 structured data domain
+ *
+ * Either a plain object or the equivalent Clarity tuple
+ * `{ name: string-ascii, version: string-ascii, chain-id: uint }`.
+ */
+export type StructuredDataDomain =
+  | {
+      name: string
+      version: string
+      chainId: number | bigint
+    }
+  | TupleCV
+
+/**
+ * Result from signing a message or structured data
+ */
+export interface MessageSignatureResult {
+  /**
+   * Recoverable signature in RSV layout (r || s || v, 130 hex chars)
+   */
+  signature: string
+
+  /**
+   * Compressed public key of the signer
+   */
+  publicKey: string
+}
+
+/**
+ * Expected signer for signature verification - a public key and/or a Stacks address
+ */
+export interface SignatureVerificationTarget {
+  /**
+   * RSV signature (130 hex chars, optional 0x prefix)
+   */
+  signature: string
+
+  /**
+   * Expected compressed public key
+   */
+  publicKey?: string
+
+  /**
+   * Expected Stacks address (mainnet or testnet)
+   */
+  address?: string
+}
+
+/**
+ * Parameters for verifying a Stacks-prefixed message signature
+ */
+export interface MessageVerificationParams extends SignatureVerificationTarget {
+  /**
+   * Message that was signed
+   */
+  message: string | Uint8Array
+}
+
+/**
+ * Parameters for verifying a SIP-018 structured data signature
+ */
+export interface StructuredDataVerificationParams extends SignatureVerificationTarget {
+  /**
+   * SIP-018 domain
+   */
+  domain: StructuredDataDomain
+
+  /**
+   * Clarity value that was signed
+   */
+  message: ClarityValue
+}
+
+/**
+ * Integer parameter of a wallet RPC request; strings must be decimal
+ */
+export type WalletRpcInteger = number | string | bigint
+
+/**
+ * Account returned by `stx_getAddresses`
+ */
+export interface WalletAddressEntry {
+  address: string
+  publicKey: string
+}
+
+/**
+ * Parameters shared by the wallet RPC signing methods
+ */
+export interface WalletAccountParams {
+  /**
+   * Address of the account to use
+   * @default the provider's first signer
+   */
+  address?: string
+
+  /**
+   * Network to use
+   * @default the signer's network
+   */
+  network?: StacksNetworkType
+}
+
+/**
+ * Parameters for `stx_transferStx`
+ */
+export interface WalletTransferStxParams extends WalletAccountParams {
+  recipient: string
+
+  /**
+   * Amount in microSTX
+   */
+  amount: WalletRpcInteger
+  memo?: string
+  fee?: WalletRpcInteger
+  nonce?: WalletRpcInteger
+}
+
+/**
+ * Parameters for `stx_callContract`
+ */
+export interface WalletCallContractParams extends WalletAccountParams {
+  /**
+   * Contract identifier (e.g. "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7.counter")
+   */
+  contract: string
+  functionName: string
+
+  /**
+   * Arguments as serialized Clarity values (hex) or Clarity values
+   */
+  functionArgs?: (string | ClarityValue)[]
+  postConditions?: (PostCondition | PostConditionWire | string)[]
+  postConditionMode?: PostConditionModeName | PostConditionMode
+
+  /**
+   * Sign for sponsorship; the transaction is returned instead of broadcast
+   */
+  sponsored?: boolean
+  fee?: WalletRpcInteger
+  nonce?: WalletRpcInteger
+}
+
+/**
+ * Parameters for `stx_signTransaction`
+ */
+export interface WalletSignTransactionParams {
+  /**
+   * Unsigned serialized transaction (hex); the origin selects the signer
+   */
+  transaction: string
+
+  /**
+   * Broadcast the signed transaction
+   * @default false
+   */
+  broadcast?: boolean
+
+  /**
+   * Network to broadcast to
+   * @default the signer's network
+   */
+  network?: StacksNetworkType
+}
+
+/**
+ * Parameters for `stx_signMessage`
+ */
+export interface WalletSignMessageParams extends WalletAccountParams {
+  message: string
+}
+
+/**
+ * Parameters for `stx_signStructuredMessage`
+ */
+export interface WalletSignStructuredMessageParams extends WalletAccountParams {
+  /**
+   * Clarity value to sign, or its serialization (hex)
+   */
+  message: string | ClarityValue
+
+  /**
+   * SIP-018 domain tuple, or its serialization (hex)
+   */
+  domain: string | ClarityValue
+}
+
+/**
+ * Result of the wallet RPC transaction methods
+ *
+ * `txid` is set when the transaction was broadcast.
+ */
+export interface WalletTransactionResult {
+  txid?: string
+
+  /**
+   * Signed serialized transaction (hex)
+   */
+  transaction: string
+}
+
+/**
+ * Wallet RPC methods supported by TurnkeyWalletProvider, with their
+ * parameters and results
+ */
+export interface WalletRpcMethods {
+  stx_getAddresses: {
+    params: { network?: StacksNetworkType } | undefined
+    result: { addresses: WalletAddressEntry[] }
+  }
+  stx_transferStx: { params: WalletTransferStxParams; result: WalletTransactionResult }
+  stx_callContract: { params: WalletCallContractParams; result: WalletTransactionResult }
+  stx_signTransaction: { params: WalletSignTransactionParams; result: WalletTransactionResult }
+  stx_signMessage: { params: WalletSignMessageParams; result: MessageSignatureResult }
+  stx_signStructuredMessage: {
+    params: WalletSignStructuredMessageParams
+    result: MessageSignatureResult
+  }
+}
+
+/**
+ * Name of a supported wallet RPC method
+ */
+export type WalletRpcMethod = keyof WalletRpcMethods
+
+/**
+ * JSON-RPC request object
+ */
+export interface WalletRpcRequest<M extends WalletRpcMethod = WalletRpcMethod> {
+  jsonrpc?: "2.0"
+  id?: string | number | null
+  method: M
+  params?: WalletRpcMethods[M]["params"]
+}
+
+/**
+ * Successful JSON-RPC response
+ */
+export interface WalletRpcSuccessResponse<T> {
+  jsonrpc: "2.0"
+  id: string | number | null
+  result: T
+}
+
+/**
+ * JSON-RPC error object
+ */
+export interface WalletRpcErrorObject {
+  /**
+   * One of WalletRpcErrorCode
+   */
+  code: number
+  message: string
+
+  /**
+   * For errors thrown by this package, `{ code }` with the package error
+   * code, plus `reason` for broadcast rejections
+   */
+  data?: unknown
+}
+
+/**
+ * Failed JSON-RPC response
+ */
+export interface WalletRpcErrorResponse {
+  jsonrpc: "2.0"
+  id: string | number | null
+  error: WalletRpcErrorObject
+}
+
+/**
+ * Signing request passed to the provider's approval hook
+ */
+export interface WalletApprovalRequest {
+  method: Exclude<WalletRpcMethod, "stx_getAddresses">
+
+  /**
+   * Parameters as sent by the dapp
+   */
+  params: unknown
+
+  /**
+   * Account that will sign
+   */
+  address: string
+  publicKey: string
+  network: StacksNetworkOption
+}
+
+/**
+ * Configuration for TurnkeyWalletProvider
+ */
+export interface WalletProviderConfig {
+  /**
+   * Accounts exposed to dapps; the first is used when a request does not
+   * name an address
+   */
+  signers: TurnkeySigner[]
+
+  /**
+   * Called before every signing request. Return false to reject it with
+   * a user rejection error.
+   * @default approve every request
+   */
+  onApprove?: (request: WalletApprovalRequest) => boolean | Promise<boolean>
 }
@@ -0,0 +1,229 @@
+/**
+ * @turnkey/stacks - Internal utilities
+ *
+ * Shared constants, validation and async helpers. Not part of the public API.
+ */
+
+import { deserializeTransaction, type StacksTransactionWire } from "@stacks/transactions"
+
+import { IncompleteSignatureError, InvalidInputError, TurnkeyStacksError } from "./errors"
+
+// Fallback fee when estimation fails (conservative)
+export const DEFAULT_FEE = 180n
+
+// Contract name rules enforced by stacks-core for new deployments
+const CONTRACT_NAME_REGEX = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/
+const MAX_CONTRACT_NAME_LENGTH = 40
+
+// secp256k1 curve order and half order (for low-s normalization)
+const SECP256K1_ORDER = BigInt("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141")
+const SECP256K1_HALF_ORDER = SECP256K1_ORDER >> 1n
+
+// Largest code body @stacks/transactions will serialize
+export const MAX_CONTRACT_SOURCE_BYTES = 100_000
+
+/**
+ * Validates that a public key is in compressed secp256k1 format.
+ * Normalizes to lowercase hex (Turnkey's signWith is case-sensitive).
+ * @internal
+ */
+export function validateCompressedPublicKey(pubKeyHex: string): string {
+  if (typeof pubKeyHex !== "string") {
+    throw new InvalidInputError("Public key must be a string")
+  }
+
+  const cleaned = (pubKeyHex.startsWith("0x") ? pubKeyHex.slice(2) : pubKeyHex).toLowerCase()
+
+  if (cleaned.length !== 66) {
+    throw new InvalidInputError(
+      `Invalid public key length: expected 66 hex chars (33 bytes compressed), got ${cleaned.length}`
+    )
+  }
+
+  const prefix = cleaned.slice(0, 2)
+  if (prefix !== "02" && prefix !== "03") {
+    throw new InvalidInputError(
+      `Invalid public key prefix: expected '02' or '03' (compressed), got '${prefix}'`
+    )
+  }
+
+  return cleaned
+}
+
+/**
+ * Validates a contract name for deployment
+ * @internal
+ */
+export function validateContractName(name: string): void {
+  if (typeof name !== "string" || name.length === 0) {
+    throw new InvalidInputError("Contract name is required")
+  }
+
+  if (name.length > MAX_CONTRACT_NAME_LENGTH) {
+    throw new InvalidInputError(
+      `Invalid contract name length: expected at most ${MAX_CONTRACT_NAME_LENGTH} chars, got ${name.length}`
+    )
+  }
+
+  if (!CONTRACT_NAME_REGEX.test(name)) {
+    throw new InvalidInputError(
+      `Invalid contract name '${name}': must start with a letter and contain only letters, digits, '-' or '_'`
+    )
+  }
+}
+
+/**
+ * Normalizes the recovery byte from Turnkey signature
+ * @internal
+ */
+export function normalizeRecoveryByte(v: string): string {
+  const parsed = parseInt(v, 16)
+  if (parsed !== 0 && parsed !== 1) {
+    throw new IncompleteSignatureError(`Invalid recovery byte value: ${v} (expected 0 or 1)`, { v })
+  }
+  return parsed.toString(16).padStart(2, "0")
+}
+
+/**
+ * Normalizes a signature to canonical low-s form
+ *
+ * Stacks nodes only accept low-s signatures. If s is in the upper half of the
+ * curve order it is replaced by n - s and the recovery byte is flipped.
+ * @internal
+ */
+export function normalizeLowS(sig: { v: string; r: string; s: string }): {
+  v: string
+  r: string
+  s: string
+} {
+  if (sig.r.length !== 64 || sig.s.length !== 64) {
+    throw new IncompleteSignatureError(
+      `Invalid signature length: expected 32-byte r and s (64 hex chars each), got ${sig.r.length} and ${sig.s.length}`,
+      sig
+    )
+  }
+
+  if (!/^[0-9a-fA-F]+$/.test(sig.r) || !/^[0-9a-fA-F]+$/.test(sig.s)) {
+    throw new IncompleteSignatureError("Invalid signature: r and s must be hex encoded", sig)
+  }
+
+  const r = BigInt(`0x${sig.r}`)
+  const s = BigInt(`0x${sig.s}`)
+  if (r === 0n || r >= SECP256K1_ORDER || s === 0n || s >= SECP256K1_ORDER) {
+    throw new IncompleteSignatureError("Invalid signature: r and s must be in the range [1, n-1]", sig)
+  }
+
+  if (s <= SECP256K1_HALF_ORDER) {
+    return sig
+  }
+
+  return {
+    v: (parseInt(sig.v, 16) ^ 1).toString(16).padStart(2, "0"),
+    r: sig.r,
+    s: (SECP256K1_ORDER - s).toString(16).padStart(64, "0"),
+  }
+}
+
+/**
+ * Runs `fn` after earlier holders of the same key in `locks` finish
+ *
+ * Waiters are queued in call order. Backs the in-memory stores' withLock.
+ * @internal
+ */
+export async function withKeyLock<T>(
+  locks: Map<string, Promise<void>>,
+  key: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve()
+  const result = previous.then(fn)
+  const released = result.then(
+    () => undefined,
+    () => undefined
+  )
+  locks.set(key, released)
+
+  try {
+    return await result
+  } finally {
+    // Drop the lock entry once nobody is queued behind this holder
+    if (locks.get(key) === released) locks.delete(key)
+  }
+}
+
+/**
+ * Maps items with an async function, running at most `concurrency` calls at
+ * once. Results are in input order.
+ * @internal
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index]!, index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
+}
+
+/**
+ * Throws the signal's abort reason if it has been aborted
+ *
+ * @param operation - Name of the aborted operation, for the default reason
+ * @internal
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, operation: string): void {
+  if (signal?.aborted) throw abortReason(signal, operation)
+}
+
+/**
+ * Sleeps for `ms`, rejecting early if the signal aborts
+ * @internal
+ */
+export function delay(ms: number, signal: AbortSignal | undefined, operation: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(abortReason(signal!, operation))
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Error to reject with when a signal aborts
+ * @internal
+ */
+function abortReason(signal: AbortSignal, operation: string): unknown {
+  return signal.reason ?? new TurnkeyStacksError(`${operation} was aborted`, "ABORTED")
+}
+
+/**
+ * Deserializes a transaction or hex into an independent copy
+ *
+ * @throws InvalidInputError if the input is not a valid serialized transaction
+ * @internal
+ */
+export function parseTransaction(txOrHex: StacksTransactionWire | string): StacksTransactionWire {
+  try {
+    return typeof txOrHex === "string"
+      ? deserializeTransaction(txOrHex.startsWith("0x") ? txOrHex.slice(2) : txOrHex)
+      : deserializeTransaction(txOrHex.serializeBytes())
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new InvalidInputError(`Invalid transaction: ${message}`, { cause: error })
+  }
+}
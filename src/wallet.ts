@@ -0,0 +1,271 @@
+/**
+ * @turnkey/stacks - Turnkey wallets
+ *
+ * Finds and creates Stacks accounts (m/44'/5757'/0'/0/n) in Turnkey HD
+ * wallets, so signers can be created without knowing the public key.
+ */
+
+import { compressPublicKey, publicKeyToAddress } from "@stacks/transactions"
+
+import { InvalidInputError, SigningError } from "./errors"
+import { resolveNetwork } from "./network"
+import { resolveRetryPolicy, withRetry, type RetryPolicy } from "./retry"
+import type {
+  EnumerateAccountsParams,
+  TurnkeyWalletAccount,
+  TurnkeyWalletClient,
+  WalletAccountInfo,
+} from "./types"
+import { validateCompressedPublicKey } from "./utils"
+
+// BIP44 coin type 5757 is registered for Stacks
+const STACKS_PATH_PREFIX = "m/44'/5757'/0'/0/"
+const STACKS_PATH_REGEX = /^m\/44'\/5757'\/0'\/0\/(\d+)$/
+
+// Largest non-hardened BIP32 child index
+const MAX_ACCOUNT_INDEX = 2 ** 31 - 1
+
+// Accounts requested per getWalletAccounts page
+const ACCOUNTS_PAGE_SIZE = 100
+
+/**
+ * Lists the Stacks accounts of a Turnkey wallet
+ *
+ * Returns the accounts on the Stacks derivation path m/44'/5757'/0'/0/n
+ * whose public key Turnkey reports, ordered by account index. Accounts on
+ * other paths or curves are skipped.
+ *
+ * @param params - Client, wallet ID and network
+ * @returns Stacks accounts with their addresses on `network`
+ * @throws SigningError if the Turnkey request fails
+ *
+ * @example
+ * ```typescript
+ * import { enumerateAccounts } from "@turnkey/stacks"
+ *
+ * const accounts = await enumerateAccounts({
+ *   client: turnkey.apiClient(),
+ *   organizationId: process.env.TURNKEY_ORGANIZATION_ID!,
+ *   walletId: "...",
+ *   network: "mainnet",
+ * })
+ * // [{ accountIndex: 0, path: "m/44'/5757'/0'/0/0", publicKey: "02...", address: "SP..." }]
+ * ```
+ */
+export async function enumerateAccounts(
+  params: EnumerateAccountsParams
+): Promise<WalletAccountInfo[]> {
+  const { addressVersion } = resolveNetwork(params.network ?? "testnet")
+  const accounts = await listWalletAccounts(params.client, params, resolveRetryPolicy(params.retry))
+
+  const byIndex = new Map<number, WalletAccountInfo>()
+  for (const account of accounts) {
+    const accountIndex = stacksAccountIndex(account.path)
+    const publicKey = accountPublicKey(account)
+    if (accountIndex === undefined || !publicKey || byIndex.has(accountIndex)) continue
+
+    byIndex.set(accountIndex, {
+      accountIndex,
+      path: account.path,
+      publicKey,
+      address: publicKeyToAddress(addressVersion.singleSig, publicKey),
+    })
+  }
+
+  return [...byIndex.values()].sort((a, b) => a.accountIndex - b.accountIndex)
+}
+
+/**
+ * Returns the public key of the Stacks account at `accountIndex`, creating
+ * the account if the wallet does not have it yet
+ *
+ * @throws InvalidInputError if the account is missing and cannot be created
+ * @throws SigningError if a Turnkey request fails
+ * @internal
+ */
+export async function resolveWalletPublicKey(
+  client: TurnkeyWalletClient,
+  params: {
+    walletId: string
+    organizationId?: string
+    accountIndex: number
+    createAccount: boolean
+  },
+  retry: RetryPolicy
+): Promise<string> {
+  const { walletId, accountIndex } = params
+  if (!Number.isInteger(accountIndex) || accountIndex < 0 || accountIndex > MAX_ACCOUNT_INDEX) {
+    throw new InvalidInputError(
+      `Invalid accountIndex: ${accountIndex}. Must be an integer from 0 to ${MAX_ACCOUNT_INDEX}`
+    )
+  }
+
+  const path = `${STACKS_PATH_PREFIX}${accountIndex}`
+  const find = async () =>
+    (await listWalletAccounts(client, params, retry))
+      .filter((account) => account.path === path)
+      .map(accountPublicKey)
+      .find((publicKey) => publicKey !== undefined)
+
+  const existing = await find()
+  if (existing) return existing
+
+  if (!params.createAccount) {
+    throw new InvalidInputError(`Wallet ${walletId} has no Stacks account at ${path}`)
+  }
+
+  const { createWalletAccounts } = client
+  if (!createWalletAccounts) {
+    throw new InvalidInputError(
+      `Wallet ${walletId} has no Stacks account at ${path} and the Turnkey client does not ` +
+        `implement createWalletAccounts`
+    )
+  }
+
+  // Not retried: a retry after a lost response would fail as a duplicate
+  let created: string | undefined
+  try {
+    const { addresses } = await createWalletAccounts.call(client, {
+      walletId,
+      ...(params.organizationId ? { organizationId: params.organizationId } : {}),
+      accounts: [
+        {
+          curve: "CURVE_SECP256K1",
+          pathFormat: "PATH_FORMAT_BIP32",
+          path,
+          addressFormat: "ADDRESS_FORMAT_COMPRESSED",
+        },
+      ],
+    })
+    created = addresses[0]
+  } catch (error) {
+    // Someone else may have created the account in the meantime
+    const concurrent = await find()
+    if (concurrent) return concurrent
+
+    const message = error instanceof Error ? error.message : String(error)
+    throw new SigningError(`Turnkey wallet account creation failed: ${message}`, "SIGNING_FAILED", {
+      cause: error,
+    })
+  }
+
+  if (!created) {
+    throw new SigningError(`Turnkey did not return the account created at ${path}`)
+  }
+
+  // ADDRESS_FORMAT_COMPRESSED addresses are the compressed public keys
+  return validateCompressedPublicKey(created)
+}
+
+/**
+ * Returns the public key of the wallet account with a Stacks address
+ *
+ * Accounts on any path are considered, as long as Turnkey reports their
+ * public key.
+ *
+ * @throws InvalidInputError if no account of the wallet has the address
+ * @throws SigningError if the Turnkey request fails
+ * @internal
+ */
+export async function findWalletPublicKey(
+  client: TurnkeyWalletClient,
+  params: { walletId: string; organizationId?: string; address: string },
+  retry: RetryPolicy
+): Promise<string> {
+  const versions = [resolveNetwork("mainnet"), resolveNetwork("testnet")].map(
+    ({ addressVersion }) => addressVersion.singleSig
+  )
+
+  for (const account of await listWalletAccounts(client, params, retry)) {
+    const publicKey = accountPublicKey(account)
+    if (!publicKey) continue
+
+    const addresses = versions.map((version) => publicKeyToAddress(version, publicKey))
+    if (addresses.includes(params.address)) return publicKey
+  }
+
+  throw new InvalidInputError(
+    `Wallet ${params.walletId} has no account with address ${params.address}`
+  )
+}
+
+/**
+ * Fetches every account of a wallet, following pagination
+ * @internal
+ */
+async function listWalletAccounts(
+  client: Pick<TurnkeyWalletClient, "getWalletAccounts">,
+  params: { walletId: string; organizationId?: string },
+  retry: RetryPolicy
+): Promise<TurnkeyWalletAccount[]> {
+  const accounts: TurnkeyWalletAccount[] = []
+  let after: string | undefined
+
+  for (;;) {
+    const page = await withRetry(async () => {
+      try {
+        const { accounts } = await client.getWalletAccounts({
+          walletId: params.walletId,
+          ...(params.organizationId ? { organizationId: params.organizationId } : {}),
+          paginationOptions: {
+            limit: String(ACCOUNTS_PAGE_SIZE),
+            ...(after ? { after } : {}),
+          },
+        })
+        return accounts
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new SigningError(
+          `Turnkey wallet account lookup failed: ${message}`,
+          "SIGNING_FAILED",
+          { cause: error }
+        )
+      }
+    }, retry)
+
+    accounts.push(...page)
+
+    // A short page, or one without cursors, is the last one
+    after = page[page.length - 1]?.walletAccountId
+    if (page.length < ACCOUNTS_PAGE_SIZE || !after) return accounts
+  }
+}
+
+/**
+ * Reads the account index from a Stacks derivation path
+ * @internal
+ */
+function stacksAccountIndex(path: string): number | undefined {
+  const match = STACKS_PATH_REGEX.exec(path)
+  const index = match ? Number(match[1]) : undefined
+  return index !== undefined && index <= MAX_ACCOUNT_INDEX ? index : undefined
+}
+
+/**
+ * Returns the compressed secp256k1 public key of an account, if Turnkey
+ * reports one
+ *
+ * Newer API versions return `publicKey`; for ADDRESS_FORMAT_COMPRESSED
+ * accounts the address is the public key.
+ * @internal
+ */
+function accountPublicKey(account: TurnkeyWalletAccount): string | undefined {
+  const candidates = [
+    account.publicKey,
+    account.addressFormat === "ADDRESS_FORMAT_COMPRESSED" ? account.address : undefined,
+  ]
+
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    try {
+      // Uncompressed keys (04...) are compressed first
+      const hex = candidate.replace(/^0x/, "")
+      return validateCompressedPublicKey(
+        hex.length === 130 && hex.startsWith("04") ? compressPublicKey(hex) : hex
+      )
+    } catch {
+      // Not a secp256k1 key (e.g. an ed25519 account)
+    }
+  }
+  return undefined
+}